@@ -1,4 +1,4 @@
-import { Plugin, WorkspaceLeaf, Notice, TFile, FileSystemAdapter } from "obsidian";
+import { Plugin, WorkspaceLeaf, Notice, TFile, FileSystemAdapter, ItemView } from "obsidian";
 
 import {
   ProjectPlannerSettingTab,
@@ -11,14 +11,35 @@ import { BoardView, VIEW_TYPE_BOARD } from "./ui/BoardView";
 import { TaskDetailView, VIEW_TYPE_TASK_DETAIL } from "./ui/TaskDetailView";
 import { DependencyGraphView, VIEW_TYPE_DEPENDENCY_GRAPH } from "./ui/DependencyGraphView";
 import { VIEW_TYPE_GANTT, GanttView } from "./ui/GanttView";
+import { CalendarView, VIEW_TYPE_CALENDAR } from "./ui/CalendarView";
 import { DashboardView, VIEW_TYPE_DASHBOARD } from "./ui/DashboardView";
 import { MyDayView, VIEW_TYPE_MY_DAY } from "./ui/MyDayView";
+import { TimesheetView, VIEW_TYPE_TIMESHEET } from "./ui/TimesheetView";
+import { CsvImportModal } from "./ui/CsvImportModal";
+import { MspdiImportModal } from "./ui/MspdiImportModal";
+import { SavedViewSuggestModal } from "./ui/SavedViewSuggestModal";
+import { PLANNER_CODE_BLOCK, PlannerCodeBlock } from "./ui/PlannerCodeBlock";
+import type { SavedViewHost } from "./ui/Header";
 
 import { TaskStore } from "./stores/taskStore";
 import { TaskSync } from "./utils/TaskSync";
 import { DailyNoteTaskScanner } from "./utils/DailyNoteTaskScanner";
+import { exportTasksToCsv } from "./utils/csvUtils";
+import { exportProjectToMspdi } from "./utils/mspdiUtils";
+import { generateICalendar } from "./utils/icalUtils";
+import { migrateProjectLists, withProjectLists } from "./utils/projectLists";
+import { migrateStatusCategories } from "./utils/statusCategories";
+import { getSavedViews } from "./utils/savedViews";
+import {
+  collectTimesheetRows,
+  exportTimesheetToCsv,
+  exportWeeklyTimesheetToCsv,
+  formatElapsed,
+  formatHours,
+  TimesheetRow,
+} from "./utils/timeTracking";
 
-import type { PlannerTask } from "./types";
+import type { PlannerTask, SavedViewKind } from "./types";
 
 // Internal plugin view type
 const VIEW_TYPE_PLANNER = "project-planner-view";
@@ -37,6 +58,12 @@ export default class ProjectPlannerPlugin extends Plugin {
   taskSync!: TaskSync;
   dailyNoteScanner!: DailyNoteTaskScanner;
   private inlineStyleEl: HTMLStyleElement | null = null;
+  private calendarExportTimer: number | null = null;
+  private unsubscribeCalendarExport: (() => void) | null = null;
+  private lastCalendarContent: string | null = null;
+  private timerStatusEl: HTMLElement | null = null;
+  private timerTickInterval: number | null = null;
+  private unsubscribeTimerStatus: (() => void) | null = null;
 
   async onload() {
     await this.loadSettings();
@@ -51,6 +78,21 @@ export default class ProjectPlannerPlugin extends Plugin {
     this.taskStore = new TaskStore(this);
     await this.taskStore.load();
 
+    // Keep the subscribed calendar file current (debounced — emits come in bursts)
+    this.unsubscribeCalendarExport = this.taskStore.subscribe(() => this.scheduleCalendarExport());
+
+    // Status bar item for the running timer (click to stop and log it)
+    this.timerStatusEl = this.addStatusBarItem();
+    this.timerStatusEl.addClass("planner-timer-status");
+    this.timerStatusEl.onclick = () => void this.stopRunningTimer();
+    this.unsubscribeTimerStatus = this.taskStore.subscribe(() => this.updateTimerStatus());
+    this.updateTimerStatus();
+
+    // Live task lists in notes: ```planner code blocks
+    this.registerMarkdownCodeBlockProcessor(PLANNER_CODE_BLOCK, (source, el, ctx) => {
+      ctx.addChild(new PlannerCodeBlock(el, this, source));
+    });
+
     // Initialize task sync system
     this.taskSync = new TaskSync(this.app, this);
 
@@ -129,6 +171,12 @@ export default class ProjectPlannerPlugin extends Plugin {
       (leaf: WorkspaceLeaf) => new GanttView(leaf, this)
     );
 
+    // Register Calendar View (month)
+    this.registerView(
+      VIEW_TYPE_CALENDAR,
+      (leaf: WorkspaceLeaf) => new CalendarView(leaf, this)
+    );
+
     // Register Dashboard View
     this.registerView(
       VIEW_TYPE_DASHBOARD,
@@ -141,6 +189,12 @@ export default class ProjectPlannerPlugin extends Plugin {
       (leaf: WorkspaceLeaf) => new MyDayView(leaf, this)
     );
 
+    // Register Timesheet View
+    this.registerView(
+      VIEW_TYPE_TIMESHEET,
+      (leaf: WorkspaceLeaf) => new TimesheetView(leaf, this)
+    );
+
     // Command palette entry
     this.addCommand({
       id: "open-project-planner",
@@ -169,6 +223,13 @@ export default class ProjectPlannerPlugin extends Plugin {
       callback: async () => await this.activateGanttView(),
     });
 
+    // Command: Open Calendar
+    this.addCommand({
+      id: "open-calendar-view",
+      name: "Open Calendar",
+      callback: async () => await this.activateCalendarView(),
+    });
+
     // Command: Open Dashboard
     this.addCommand({
       id: "open-dashboard-view",
@@ -183,6 +244,27 @@ export default class ProjectPlannerPlugin extends Plugin {
       callback: async () => await this.activateMyDayView(),
     });
 
+    // Command: Open Timesheet
+    this.addCommand({
+      id: "open-timesheet-view",
+      name: "Open Timesheet",
+      callback: async () => await this.activateTimesheetView(),
+    });
+
+    // Command: Open a saved view of the active project
+    this.addCommand({
+      id: "open-saved-view",
+      name: "Open saved view…",
+      callback: () => {
+        const views = getSavedViews(this.settings);
+        if (views.length === 0) {
+          new Notice("This project has no saved views yet.");
+          return;
+        }
+        new SavedViewSuggestModal(this.app, views, (view) => void this.openSavedView(view.id)).open();
+      },
+    });
+
     // Command: Scan Daily Notes
     this.addCommand({
       id: "scan-daily-notes",
@@ -196,6 +278,92 @@ export default class ProjectPlannerPlugin extends Plugin {
       },
     });
 
+    // Commands: Undo / Redo the last planner action. Only active while a
+    // planner view has focus (and not while typing in one of its inputs).
+    // No default hotkeys: users bind them in Settings → Hotkeys, since
+    // Mod+Z would otherwise compete with editor undo.
+    this.addCommand({
+      id: "undo-planner-action",
+      name: "Undo last planner action",
+      checkCallback: (checking: boolean) => {
+        if (!this.isPlannerViewFocused() || !this.taskStore.canUndo()) return false;
+        if (!checking) void this.undoPlannerAction();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "redo-planner-action",
+      name: "Redo last planner action",
+      checkCallback: (checking: boolean) => {
+        if (!this.isPlannerViewFocused() || !this.taskStore.canRedo()) return false;
+        if (!checking) void this.redoPlannerAction();
+        return true;
+      },
+    });
+
+    // Commands: CSV export / import
+    this.addCommand({
+      id: "export-project-csv",
+      name: "Export active project to CSV",
+      callback: async () => {
+        await this.exportActiveProjectToCsv();
+      },
+    });
+
+    this.addCommand({
+      id: "import-project-csv",
+      name: "Import tasks from CSV",
+      callback: () => {
+        new CsvImportModal(this.app, this).open();
+      },
+    });
+
+    // Commands: Microsoft Project XML (MSPDI) export / import
+    this.addCommand({
+      id: "export-project-mspdi",
+      name: "Export active project to Microsoft Project XML",
+      callback: async () => {
+        await this.exportActiveProjectToMspdi();
+      },
+    });
+
+    this.addCommand({
+      id: "import-project-mspdi",
+      name: "Import Microsoft Project XML",
+      callback: () => {
+        new MspdiImportModal(this.app, this).open();
+      },
+    });
+
+    // Command: iCalendar export
+    this.addCommand({
+      id: "export-ical",
+      name: "Export tasks to calendar file (.ics)",
+      callback: async () => {
+        await this.exportCalendar(true);
+      },
+    });
+
+    // Commands: time tracking
+    this.addCommand({
+      id: "stop-timer",
+      name: "Stop running timer and log time",
+      checkCallback: (checking: boolean) => {
+        if (!this.taskStore.getRunningTimer()) return false;
+        if (!checking) void this.stopRunningTimer();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "export-timesheet",
+      name: "Export timesheet (CSV)",
+      callback: async () => {
+        await this.exportTimesheet();
+      },
+    });
+
     // Register URI protocol handler for opening tasks directly
     this.registerObsidianProtocolHandler("open-planner-task", async (params) => {
       const taskId = params.id;
@@ -307,6 +475,13 @@ export default class ProjectPlannerPlugin extends Plugin {
     return this.openViewByType(VIEW_TYPE_GANTT, forceNewTab);
   }
 
+  // ---------------------------------------------------------------------------
+  // Open CALENDAR view (center workspace)
+  // ---------------------------------------------------------------------------
+  async activateCalendarView(forceNewTab = false): Promise<WorkspaceLeaf> {
+    return this.openViewByType(VIEW_TYPE_CALENDAR, forceNewTab);
+  }
+
   // ---------------------------------------------------------------------------
   // Open MY TASKS view (center workspace)
   // ---------------------------------------------------------------------------
@@ -314,6 +489,31 @@ export default class ProjectPlannerPlugin extends Plugin {
     return this.openViewByType(VIEW_TYPE_MY_DAY, forceNewTab);
   }
 
+  // ---------------------------------------------------------------------------
+  // Open TIMESHEET view (center workspace)
+  // ---------------------------------------------------------------------------
+  async activateTimesheetView(forceNewTab = false): Promise<WorkspaceLeaf> {
+    return this.openViewByType(VIEW_TYPE_TIMESHEET, forceNewTab);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Open a saved view of the active project in the view it was saved from
+  // ---------------------------------------------------------------------------
+  async openSavedView(id: string): Promise<void> {
+    const saved = getSavedViews(this.settings).find((v) => v.id === id);
+    if (!saved) return;
+
+    const viewTypes: Record<SavedViewKind, string> = {
+      grid: VIEW_TYPE_PLANNER,
+      board: VIEW_TYPE_BOARD,
+      gantt: VIEW_TYPE_GANTT,
+      myday: VIEW_TYPE_MY_DAY,
+    };
+    const leaf = await this.openViewByType(viewTypes[saved.view]);
+    const view = leaf.view as Partial<SavedViewHost>;
+    view.applySavedView?.(saved);
+  }
+
   // ---------------------------------------------------------------------------
   // Open Task Detail Panel (RIGHT-SIDE split)
   // ---------------------------------------------------------------------------
@@ -354,6 +554,221 @@ export default class ProjectPlannerPlugin extends Plugin {
     // watcher events and unnecessary re-renders.
   }
 
+  // ---------------------------------------------------------------------------
+  // Undo / Redo — shared by the commands and the header buttons
+  // ---------------------------------------------------------------------------
+  async undoPlannerAction() {
+    const label = await this.taskStore.undo();
+    new Notice(label ? `Undo: ${label}` : "Nothing to undo");
+  }
+
+  async redoPlannerAction() {
+    const label = await this.taskStore.redo();
+    new Notice(label ? `Redo: ${label}` : "Nothing to redo");
+  }
+
+  /** Whether a planner view is active and focus isn't inside a text field. */
+  private isPlannerViewFocused(): boolean {
+    const viewType = this.app.workspace.getActiveViewOfType(ItemView)?.getViewType();
+    const plannerViews = [
+      VIEW_TYPE_PLANNER,
+      VIEW_TYPE_BOARD,
+      VIEW_TYPE_GANTT,
+      VIEW_TYPE_CALENDAR,
+      VIEW_TYPE_DASHBOARD,
+      VIEW_TYPE_MY_DAY,
+      VIEW_TYPE_TIMESHEET,
+      VIEW_TYPE_TASK_DETAIL,
+      VIEW_TYPE_DEPENDENCY_GRAPH,
+    ];
+    if (!viewType || !plannerViews.includes(viewType)) return false;
+
+    const active = document.activeElement;
+    if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) return false;
+    if (active instanceof HTMLElement && active.isContentEditable) return false;
+    return true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Export — files are written to the project folder
+  // ---------------------------------------------------------------------------
+  async exportActiveProjectToCsv() {
+    await this.taskStore.ensureLoaded();
+    const project = this.settings.projects.find(p => p.id === this.settings.activeProjectId);
+    if (!project) {
+      new Notice("No active project to export.");
+      return;
+    }
+
+    const csv = exportTasksToCsv(this.taskStore.getAllForProject(project.id), withProjectLists(this.settings, project.id), project);
+    const path = `${this.getProjectFolderPath(project.name)}/${this.getSafeFileName(project.name)} Tasks.csv`;
+    try {
+      await this.writeVaultFile(path, csv);
+      new Notice(`Exported ${project.name} to ${path}`);
+    } catch (error) {
+      console.error(`Failed to export CSV: ${path}`, error);
+      new Notice(`Failed to export ${project.name} to CSV`);
+    }
+  }
+
+  async exportActiveProjectToMspdi() {
+    await this.taskStore.ensureLoaded();
+    const project = this.settings.projects.find(p => p.id === this.settings.activeProjectId);
+    if (!project) {
+      new Notice("No active project to export.");
+      return;
+    }
+
+    const xml = exportProjectToMspdi(project, this.taskStore.getAllForProject(project.id), this.settings);
+    const path = `${this.getProjectFolderPath(project.name)}/${this.getSafeFileName(project.name)}.xml`;
+    try {
+      await this.writeVaultFile(path, xml);
+      new Notice(`Exported ${project.name} to ${path}`);
+    } catch (error) {
+      console.error(`Failed to export Project XML: ${path}`, error);
+      new Notice(`Failed to export ${project.name} to Project XML`);
+    }
+  }
+
+  /**
+   * Write the iCalendar file configured in settings. The file is only
+   * rewritten when its content changed, so subscribed calendars and sync
+   * clients don't see spurious updates.
+   */
+  async exportCalendar(showNotice = false) {
+    await this.taskStore.ensureLoaded();
+    const projects = this.settings.icsExportScope === "active"
+      ? this.settings.projects.filter(p => p.id === this.settings.activeProjectId)
+      : this.settings.projects;
+
+    const content = generateICalendar(
+      projects.map(project => ({ project, tasks: this.taskStore.getAllForProject(project.id) })),
+      {
+        calendarName: projects.length === 1 ? projects[0].name : "Project Planner",
+        entryType: this.settings.icsEntryType,
+        includeCompleted: this.settings.icsIncludeCompleted,
+      }
+    );
+
+    const path = this.settings.icsExportPath;
+    try {
+      const unchanged = content === this.lastCalendarContent && this.app.vault.getAbstractFileByPath(path);
+      if (!unchanged) await this.writeVaultFile(path, content);
+      this.lastCalendarContent = content;
+      if (showNotice) new Notice(`Calendar exported to ${path}`);
+    } catch (error) {
+      console.error(`Failed to export calendar: ${path}`, error);
+      if (showNotice) new Notice("Failed to export calendar file");
+    }
+  }
+
+  /** Write every project's logged time to Timesheet.csv in the projects folder. */
+  async exportTimesheet() {
+    await this.taskStore.ensureLoaded();
+    const rows = collectTimesheetRows(
+      this.settings.projects.map(project => ({ project, tasks: this.taskStore.getAllForProject(project.id) }))
+    );
+    if (rows.length === 0) {
+      new Notice("No time has been logged yet.");
+      return;
+    }
+
+    const basePath = this.settings.projectsBasePath;
+    const path = basePath ? `${basePath}/Timesheet.csv` : "Timesheet.csv";
+    try {
+      await this.writeVaultFile(path, exportTimesheetToCsv(rows, this.settings.availablePeople));
+      new Notice(`Exported ${rows.length} time entries to ${path}`);
+    } catch (error) {
+      console.error(`Failed to export timesheet: ${path}`, error);
+      new Notice("Failed to export timesheet");
+    }
+  }
+
+  /** Write one week of the Timesheet view (tasks × days) to `Timesheet YYYY-MM-DD.csv`, named by its Monday. */
+  async exportWeeklyTimesheet(rows: Pick<TimesheetRow, "project" | "task">[], dates: string[]) {
+    const basePath = this.settings.projectsBasePath;
+    const fileName = `Timesheet ${dates[0]}.csv`;
+    const path = basePath ? `${basePath}/${fileName}` : fileName;
+    try {
+      await this.writeVaultFile(path, exportWeeklyTimesheetToCsv(rows, dates));
+      new Notice(`Exported timesheet to ${path}`);
+    } catch (error) {
+      console.error(`Failed to export timesheet: ${path}`, error);
+      new Notice("Failed to export timesheet");
+    }
+  }
+
+  async stopRunningTimer() {
+    if (!this.taskStore.getRunningTimer()) {
+      new Notice("No timer is running.");
+      return;
+    }
+    const entry = await this.taskStore.stopTimer();
+    new Notice(entry ? `Logged ${formatHours(entry.duration)}` : "Timer stopped — too short to log");
+  }
+
+  /** Show the running timer in the status bar, ticking once a second while it runs. */
+  private updateTimerStatus() {
+    const el = this.timerStatusEl;
+    if (!el) return;
+
+    const timer = this.taskStore.getRunningTimer();
+    if (!timer) {
+      el.empty();
+      el.hide();
+      if (this.timerTickInterval !== null) {
+        window.clearInterval(this.timerTickInterval);
+        this.timerTickInterval = null;
+      }
+      return;
+    }
+
+    const task = this.taskStore.getAllForProject(timer.projectId).find(t => t.id === timer.taskId);
+    el.setText(`⏱ ${task?.title ?? "Task"} ${formatElapsed(Date.now() - Date.parse(timer.start))}`);
+    el.setAttribute("aria-label", "Stop timer and log time");
+    el.show();
+    if (this.timerTickInterval === null) {
+      this.timerTickInterval = window.setInterval(() => this.updateTimerStatus(), 1000);
+    }
+  }
+
+  private scheduleCalendarExport() {
+    if (!this.settings.icsAutoExport) return;
+    if (this.calendarExportTimer !== null) window.clearTimeout(this.calendarExportTimer);
+    this.calendarExportTimer = window.setTimeout(() => {
+      this.calendarExportTimer = null;
+      void this.exportCalendar();
+    }, 2000);
+  }
+
+  private getProjectFolderPath(projectName: string): string {
+    const basePath = this.settings.projectsBasePath;
+    return basePath ? `${basePath}/${projectName}` : projectName;
+  }
+
+  private getSafeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]/g, '_');
+  }
+
+  /** Create or overwrite a vault file, creating its folder if needed. */
+  async writeVaultFile(path: string, content: string) {
+    const folderPath = path.substring(0, path.lastIndexOf("/"));
+    if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+      try {
+        await this.app.vault.createFolder(folderPath);
+      } catch {
+        // Folder may already exist from a concurrent call
+      }
+    }
+
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+    } else {
+      await this.app.vault.create(path, content);
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Task Sync Methods
   // ---------------------------------------------------------------------------
@@ -380,6 +795,7 @@ export default class ProjectPlannerPlugin extends Plugin {
 
     // Set up file watchers
     this.dailyNoteScanner.setupWatchers();
+    this.dailyNoteScanner.startWriteBack();
 
     // Perform initial scan
     await this.dailyNoteScanner.scanAllNotes();
@@ -437,6 +853,16 @@ export default class ProjectPlannerPlugin extends Plugin {
       this.settings.availablePriorities = DEFAULT_SETTINGS.availablePriorities;
     }
 
+    // Projects without their own statuses/priorities/tags use the shared lists;
+    // drop invalid per-project lists so they fall back too
+    migrateProjectLists(this.settings.projects);
+
+    // Statuses saved before categories existed get one inferred from their name
+    migrateStatusCategories([
+      this.settings.availableStatuses,
+      ...this.settings.projects.map((p) => p.statuses),
+    ]);
+
     // Save settings nested properly
     await this.saveSettings();
   }
@@ -580,6 +1006,22 @@ export default class ProjectPlannerPlugin extends Plugin {
     if (this.dailyNoteScanner) {
       this.dailyNoteScanner.destroy();
     }
+    if (this.unsubscribeCalendarExport) {
+      this.unsubscribeCalendarExport();
+      this.unsubscribeCalendarExport = null;
+    }
+    if (this.calendarExportTimer !== null) {
+      window.clearTimeout(this.calendarExportTimer);
+      this.calendarExportTimer = null;
+    }
+    if (this.unsubscribeTimerStatus) {
+      this.unsubscribeTimerStatus();
+      this.unsubscribeTimerStatus = null;
+    }
+    if (this.timerTickInterval !== null) {
+      window.clearInterval(this.timerTickInterval);
+      this.timerTickInterval = null;
+    }
     if (this.inlineStyleEl && this.inlineStyleEl.parentElement) {
       this.inlineStyleEl.parentElement.removeChild(this.inlineStyleEl);
       this.inlineStyleEl = null;
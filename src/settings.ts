@@ -1,6 +1,12 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type ProjectPlannerPlugin from "./main";
-import type { PlannerTag, PlannerStatus, PlannerPriority } from "./types";
+import type { PlannerTag, PlannerStatus, PlannerPriority, PlannerPerson, WorkingCalendar, CustomFieldDefinition, StatusCategory, SwimlaneField, BoardGroupBy, SavedView } from "./types";
+import { getPersonInitials } from "./utils/peopleUtils";
+import { createDefaultCalendar } from "./utils/workingCalendar";
+import { CUSTOM_FIELD_TYPE_LABELS, createCustomField, isReservedFieldName, parseFieldOptions } from "./utils/customFields";
+import { disableProjectList, enableProjectList, hasProjectList, type ProjectListKey } from "./utils/projectLists";
+import { STATUS_CATEGORY_LABELS, inferStatusCategory } from "./utils/statusCategories";
+import { isTransitionAllowed, setTransitionAllowed } from "./utils/workflowRules";
 
 /**
  * Date formatting utilities
@@ -67,10 +73,24 @@ export function parseDateInput(input: string, format: "iso" | "us" | "uk"): stri
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Parse a list of YYYY-MM-DD dates separated by newlines or commas.
+ * Invalid entries are dropped; the result is sorted and de-duplicated.
+ */
+export function parseCalendarDates(input: string): string[] {
+  const dates = input
+    .split(/[\n,]/)
+    .map((d) => d.trim())
+    .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d) && !isNaN(new Date(d).getTime()));
+  return [...new Set(dates)].sort();
+}
+
 export interface BoardBucket {
   id: string;
   name: string;
   color?: string; 
+  wipLimit?: number; // Max open tasks (unset = no limit)
+  wipLimitStrict?: boolean; // Block drops over the limit instead of warning
 }
 
 export interface PlannerProject {
@@ -82,11 +102,32 @@ export interface PlannerProject {
   buckets?: BoardBucket[]; // Board view buckets
   unassignedBucketName?: string; // Custom name for unassigned bucket
   completedSectionsCollapsed?: { [bucketId: string]: boolean }; // Track collapsed state per bucket
+  boardGroupBy?: BoardGroupBy; // Board column grouping (unset = buckets)
+  boardSwimlanes?: SwimlaneField; // Board swimlane grouping (unset = no swimlanes)
+  collapsedSwimlanes?: string[]; // Keys of collapsed swimlanes (see utils/swimlanes)
+  savedViews?: SavedView[]; // Named filter / sort / column / grouping presets
 
   // Cost tracking
   budgetTotal?: number; // Total project budget
   defaultHourlyRate?: number; // Default $/hr for hourly cost tasks
   currencySymbol?: string; // Display symbol (default "$")
+
+  // Working-day calendar (undefined = schedule on calendar days)
+  calendar?: WorkingCalendar;
+
+  // Baseline compared against in Timeline, Grid and Dashboard (unset = none)
+  activeBaselineId?: string;
+
+  // Extra task fields shown in Task Details and as Grid columns
+  customFields?: CustomFieldDefinition[];
+
+  // Project-specific lists (unset = use the shared lists in settings)
+  statuses?: PlannerStatus[];
+  priorities?: PlannerPriority[];
+  tags?: PlannerTag[];
+
+  // Allowed next statuses per status ID (unset = any status change is allowed)
+  statusTransitions?: Record<string, string[]>;
 }
 
 export interface ProjectPlannerSettings {
@@ -97,6 +138,8 @@ export interface ProjectPlannerSettings {
   openLinksInNewTab: boolean;
   openViewsInNewTab: boolean;
   availableTags: PlannerTag[];
+  availablePeople: PlannerPerson[];
+  currentUserId: string; // Person ID used for "Assigned to me" filtering (empty = not set)
   availableStatuses: PlannerStatus[];
   availablePriorities: PlannerPriority[];
 
@@ -113,6 +156,13 @@ export interface ProjectPlannerSettings {
   dailyNoteDefaultProject: string; // Default project ID for tasks without specific project tag
   dailyNoteTaskLocations?: Record<string, string>; // Persisted map: "filePath:lineNumber" -> taskId
 
+  // Calendar (.ics) export
+  icsExportPath: string; // Vault path of the generated calendar file
+  icsExportScope: "all" | "active"; // Tasks from all projects or only the active project
+  icsEntryType: "event" | "todo"; // VEVENT (start → due) or VTODO (due date + status)
+  icsIncludeCompleted: boolean; // Include completed tasks in the calendar
+  icsAutoExport: boolean; // Rewrite the calendar file whenever tasks change
+
   // Dependency scheduling
   enableDependencyScheduling: boolean; // Auto-move dependent task dates when predecessor dates change
 
@@ -148,11 +198,13 @@ export const DEFAULT_SETTINGS: ProjectPlannerSettings = {
   openLinksInNewTab: false,
   openViewsInNewTab: false,
   availableTags: [],
+  availablePeople: [],
+  currentUserId: "",
   availableStatuses: [
-    { id: "not-started", name: "Not Started", color: "#6c757d" },
-    { id: "in-progress", name: "In Progress", color: "#0a84ff" },
-    { id: "blocked", name: "Blocked", color: "#d70022" },
-    { id: "completed", name: "Completed", color: "#2f9e44" }
+    { id: "not-started", name: "Not Started", color: "#6c757d", category: "not-started" },
+    { id: "in-progress", name: "In Progress", color: "#0a84ff", category: "active" },
+    { id: "blocked", name: "Blocked", color: "#d70022", category: "blocked" },
+    { id: "completed", name: "Completed", color: "#2f9e44", category: "done" }
   ],
   availablePriorities: [
     { id: "low", name: "Low", color: "#6c757d" },
@@ -168,6 +220,11 @@ export const DEFAULT_SETTINGS: ProjectPlannerSettings = {
   dailyNoteTagPattern: "#planner",
   dailyNoteScanFolders: [],
   dailyNoteDefaultProject: "",
+  icsExportPath: "Project Planner/Planner.ics",
+  icsExportScope: "all",
+  icsEntryType: "event",
+  icsIncludeCompleted: true,
+  icsAutoExport: false,
   enableDependencyScheduling: true,
   enableParentRollUp: true,
   dateFormat: "iso",
@@ -314,6 +371,208 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
               await this.plugin.saveSettings();
             });
         });
+
+      // -----------------------------------------------------------------
+      // Working Calendar — per-project working days and holidays
+      // -----------------------------------------------------------------
+      containerEl.createEl("h3", { text: `Working Calendar — ${activeProject.name}` });
+
+      new Setting(containerEl)
+        .setName("Skip non-working days")
+        .setDesc("Schedule dependencies and durations in working days, skipping weekends and holidays. Non-working days are shaded in the Timeline.")
+        .addToggle((toggle) =>
+          toggle
+            .setValue(!!activeProject.calendar)
+            .onChange(async (value) => {
+              activeProject.calendar = value ? createDefaultCalendar() : undefined;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      const calendar = activeProject.calendar;
+      if (calendar) {
+        const weekdaySetting = new Setting(containerEl)
+          .setName("Working days")
+          .setDesc("Days of the week that count as working days.");
+        const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+        const weekdayOrder = [1, 2, 3, 4, 5, 6, 0]; // Monday first
+        const weekdaysEl = weekdaySetting.controlEl.createDiv({ cls: "planner-calendar-weekdays" });
+        weekdayOrder.forEach((day) => {
+          const label = weekdaysEl.createEl("label", { cls: "planner-calendar-weekday" });
+          const checkbox = label.createEl("input", { attr: { type: "checkbox" } });
+          checkbox.checked = calendar.workingDays.includes(day);
+          label.appendText(weekdayNames[day]);
+          checkbox.onchange = async () => {
+            const days = new Set(calendar.workingDays);
+            if (checkbox.checked) days.add(day);
+            else days.delete(day);
+            calendar.workingDays = [...days].sort((a, b) => a - b);
+            await this.plugin.saveSettings();
+          };
+        });
+
+        new Setting(containerEl)
+          .setName("Holidays")
+          .setDesc("Non-working dates, one per line (YYYY-MM-DD).")
+          .addTextArea((text) => {
+            text
+              .setPlaceholder("2026-12-25\n2026-12-26")
+              .setValue(calendar.holidays.join("\n"))
+              .onChange(async (value) => {
+                calendar.holidays = parseCalendarDates(value);
+                await this.plugin.saveSettings();
+              });
+          });
+
+        new Setting(containerEl)
+          .setName("Extra working days")
+          .setDesc("Dates that are working days even though they fall on a non-working weekday or holiday, one per line (YYYY-MM-DD).")
+          .addTextArea((text) => {
+            const extraDays = Object.entries(calendar.exceptions ?? {})
+              .filter(([, working]) => working)
+              .map(([date]) => date);
+            text
+              .setPlaceholder("2026-11-28")
+              .setValue(extraDays.join("\n"))
+              .onChange(async (value) => {
+                const exceptions: Record<string, boolean> = {};
+                // Preserve explicit non-working overrides; replace the working ones
+                for (const [date, working] of Object.entries(calendar.exceptions ?? {})) {
+                  if (!working) exceptions[date] = false;
+                }
+                for (const date of parseCalendarDates(value)) exceptions[date] = true;
+                calendar.exceptions = exceptions;
+                await this.plugin.saveSettings();
+              });
+          });
+      }
+
+      // -----------------------------------------------------------------
+      // Baselines — saved schedule snapshots for variance tracking
+      // -----------------------------------------------------------------
+      containerEl.createEl("h3", { text: `Baselines — ${activeProject.name}` });
+
+      const taskStore = this.plugin.taskStore;
+      let baselineName = "";
+      new Setting(containerEl)
+        .setName("Save baseline")
+        .setDesc("Snapshot every task's start, due, effort and cost. The Timeline, Grid and Dashboard compare the live plan against the selected baseline.")
+        .addText((text) =>
+          text
+            .setPlaceholder(`Baseline ${taskStore.getBaselines(activeProject.id).length + 1}`)
+            .onChange((value) => {
+              baselineName = value.trim();
+            })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Save baseline")
+            .setCta()
+            .onClick(async () => {
+              const name = baselineName || `Baseline ${taskStore.getBaselines(activeProject.id).length + 1}`;
+              await taskStore.saveBaseline(name, activeProject.id);
+              new Notice(`Saved baseline "${name}"`);
+              this.display();
+            })
+        );
+
+      for (const baseline of taskStore.getBaselines(activeProject.id)) {
+        const isActive = activeProject.activeBaselineId === baseline.id;
+        new Setting(containerEl)
+          .setName(baseline.name + (isActive ? " (compared)" : ""))
+          .setDesc(`Saved ${new Date(baseline.createdDate).toLocaleString()} · ${Object.keys(baseline.tasks).length} tasks`)
+          .addExtraButton((btn) =>
+            btn
+              .setIcon(isActive ? "eye-off" : "eye")
+              .setTooltip(isActive ? "Stop comparing" : "Compare against this baseline")
+              .onClick(async () => {
+                await taskStore.setActiveBaseline(isActive ? undefined : baseline.id, activeProject.id);
+                this.display();
+              })
+          )
+          .addExtraButton((btn) =>
+            btn
+              .setIcon("trash")
+              .setTooltip("Delete baseline")
+              .onClick(async () => {
+                await taskStore.deleteBaseline(baseline.id, activeProject.id);
+                this.display();
+              })
+          );
+      }
+
+      // -----------------------------------------------------------------
+      // Custom Fields — extra task fields for this project
+      // -----------------------------------------------------------------
+      containerEl.createEl("h3", { text: `Custom Fields — ${activeProject.name}` });
+
+      new Setting(containerEl)
+        .setName("Manage custom fields")
+        .setDesc("Fields such as Customer or Story points. Values are edited in Task Details, can be shown as Grid columns and are saved to task notes under the field name.")
+        .addButton((btn) =>
+          btn.setButtonText("Add field").onClick(async () => {
+            activeProject.customFields = [
+              ...(activeProject.customFields ?? []),
+              createCustomField(`Field ${(activeProject.customFields?.length ?? 0) + 1}`, "text"),
+            ];
+            await this.plugin.saveSettings();
+            this.display();
+          })
+        );
+
+      for (const field of activeProject.customFields ?? []) {
+        const s = new Setting(containerEl)
+          .addText((text) =>
+            text
+              .setPlaceholder("Field name")
+              .setValue(field.name)
+              .onChange(async (value) => {
+                const name = value.trim();
+                if (!name) return;
+                if (isReservedFieldName(name)) {
+                  new Notice(`"${name}" is a built-in task field name`);
+                  return;
+                }
+                field.name = name;
+                await this.plugin.saveSettings();
+              })
+          )
+          .addDropdown((dropdown) => {
+            for (const [type, label] of Object.entries(CUSTOM_FIELD_TYPE_LABELS)) {
+              dropdown.addOption(type, label);
+            }
+            dropdown.setValue(field.type).onChange(async (value) => {
+              field.type = value as CustomFieldDefinition["type"];
+              if ((field.type === "select" || field.type === "multiselect") && !field.options) field.options = [];
+              await this.plugin.saveSettings();
+              this.display();
+            });
+          });
+
+        if (field.type === "select" || field.type === "multiselect") {
+          s.addText((text) =>
+            text
+              .setPlaceholder("Options, comma separated")
+              .setValue((field.options ?? []).join(", "))
+              .onChange(async (value) => {
+                field.options = parseFieldOptions(value);
+                await this.plugin.saveSettings();
+              })
+          );
+        }
+
+        s.addExtraButton((btn) =>
+          btn
+            .setIcon("trash")
+            .setTooltip("Delete field")
+            .onClick(async () => {
+              activeProject.customFields = (activeProject.customFields ?? []).filter(f => f.id !== field.id);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+      }
     }
 
     new Setting(containerEl)
@@ -644,6 +903,77 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
           });
       });
 
+    // -----------------------------------------------------------------------
+    // Calendar Export Section
+    // -----------------------------------------------------------------------
+    new Setting(containerEl).setName("Calendar export (iCalendar)").setHeading();
+
+    new Setting(containerEl)
+      .setName("Calendar file")
+      .setDesc("Vault path of the .ics file. Calendar apps can subscribe to it through a synced folder.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Project Planner/Planner.ics")
+          .setValue(this.plugin.settings.icsExportPath)
+          .onChange(async (value) => {
+            const path = value.trim().replace(/^\/+/, "");
+            this.plugin.settings.icsExportPath = path || DEFAULT_SETTINGS.icsExportPath;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Include projects")
+      .setDesc("Which projects' tasks go into the calendar")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("all", "All projects")
+          .addOption("active", "Active project only")
+          .setValue(this.plugin.settings.icsExportScope)
+          .onChange(async (value) => {
+            this.plugin.settings.icsExportScope = value as "all" | "active";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Entry type")
+      .setDesc("Events span start to due date; to-dos carry the due date and completion status")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("event", "Events (VEVENT)")
+          .addOption("todo", "To-dos (VTODO)")
+          .setValue(this.plugin.settings.icsEntryType)
+          .onChange(async (value) => {
+            this.plugin.settings.icsEntryType = value as "event" | "todo";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Include completed tasks")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.icsIncludeCompleted)
+          .onChange(async (value) => {
+            this.plugin.settings.icsIncludeCompleted = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Update automatically")
+      .setDesc("Rewrite the calendar file whenever tasks change")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.icsAutoExport)
+          .onChange(async (value) => {
+            this.plugin.settings.icsAutoExport = value;
+            await this.plugin.saveSettings();
+            if (value) await this.plugin.exportCalendar();
+          })
+      );
+
     // -----------------------------------------------------------------------
     // Actions Section
     // -----------------------------------------------------------------------
@@ -677,6 +1007,7 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
     // Tags / Labels Section
     // -----------------------------------------------------------------------
     new Setting(containerEl).setName("Tags").setHeading();
+    const tags = this.renderProjectListToggle(containerEl, activeProject, "tags");
 
     new Setting(containerEl)
       .setName("Manage tags")
@@ -684,7 +1015,7 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
       .addButton((btn) => {
         btn.setButtonText("Add tag").onClick(async () => {
           const id = crypto.randomUUID();
-          this.plugin.settings.availableTags.push({
+          tags.push({
             id,
             name: "New tag",
             color: "#3b82f6" // default blue
@@ -695,7 +1026,7 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
       });
 
     // Display each tag
-    this.plugin.settings.availableTags.forEach((tag) => {
+    tags.forEach((tag) => {
       const s = new Setting(containerEl)
         .addText((text) => {
           text
@@ -724,8 +1055,7 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
             .setIcon("trash")
             .setTooltip("Delete tag")
             .onClick(async () => {
-              this.plugin.settings.availableTags =
-                this.plugin.settings.availableTags.filter((t) => t.id !== tag.id);
+              tags.splice(tags.indexOf(tag), 1);
               await this.plugin.saveSettings();
               this.display();
             });
@@ -739,21 +1069,108 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
       previewBadge.style.backgroundColor = tag.color;
     });
 
+    // -----------------------------------------------------------------------
+    // People / Assignees Section
+    // -----------------------------------------------------------------------
+    new Setting(containerEl).setName("People").setHeading();
+
+    new Setting(containerEl)
+      .setName("Manage people")
+      .setDesc("Create people who can be assigned to tasks")
+      .addButton((btn) => {
+        btn.setButtonText("Add person").onClick(async () => {
+          const id = crypto.randomUUID();
+          this.plugin.settings.availablePeople.push({
+            id,
+            name: "New person",
+            color: "#8b5cf6" // default purple
+          });
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Me")
+      .setDesc("Which person you are — used by the \"Assigned to me\" mode in My Tasks")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "Not set");
+        this.plugin.settings.availablePeople.forEach((person) => {
+          dropdown.addOption(person.id, person.name);
+        });
+        dropdown
+          .setValue(this.plugin.settings.currentUserId)
+          .onChange(async (value) => {
+            this.plugin.settings.currentUserId = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Display each person
+    this.plugin.settings.availablePeople.forEach((person) => {
+      const s = new Setting(containerEl)
+        .addText((text) => {
+          text
+            .setValue(person.name)
+            .setPlaceholder("Name")
+            .onChange(async (value) => {
+              person.name = value.trim() || "Unnamed person";
+              await this.plugin.saveSettings();
+            });
+        })
+        .addColorPicker((color) => {
+          color
+            .setValue(person.color)
+            .onChange(async (value) => {
+              person.color = value;
+              await this.plugin.saveSettings();
+              // Update the preview avatar
+              const previewAvatar = s.settingEl.querySelector(".planner-avatar");
+              if (previewAvatar instanceof HTMLElement) {
+                previewAvatar.style.backgroundColor = value;
+              }
+            });
+        })
+        .addExtraButton((btn) => {
+          btn
+            .setIcon("trash")
+            .setTooltip("Delete person")
+            .onClick(async () => {
+              this.plugin.settings.availablePeople =
+                this.plugin.settings.availablePeople.filter((p) => p.id !== person.id);
+              if (this.plugin.settings.currentUserId === person.id) {
+                this.plugin.settings.currentUserId = "";
+              }
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        });
+
+      // Add a preview avatar
+      const previewAvatar = s.controlEl.createDiv({
+        cls: "planner-avatar",
+        text: getPersonInitials(person.name)
+      });
+      previewAvatar.style.backgroundColor = person.color;
+    });
+
     // -----------------------------------------------------------------------
     // Statuses Section
     // -----------------------------------------------------------------------
     new Setting(containerEl).setName("Statuses").setHeading();
+    const statuses = this.renderProjectListToggle(containerEl, activeProject, "statuses");
 
     new Setting(containerEl)
       .setName("Manage statuses")
-      .setDesc("Create custom statuses with colors for task workflow")
+      .setDesc("Create custom statuses with colors for task workflow. Each status has a category (not started, active, blocked or done) that drives completion, roll-up and the Dashboard, so statuses can be renamed freely.")
       .addButton((btn) => {
         btn.setButtonText("Add status").onClick(async () => {
           const id = crypto.randomUUID();
-          this.plugin.settings.availableStatuses.push({
+          statuses.push({
             id,
             name: "New status",
-            color: "#0a84ff" // default blue
+            color: "#0a84ff", // default blue
+            category: "active"
           });
           await this.plugin.saveSettings();
           this.display();
@@ -761,7 +1178,7 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
       });
 
     // Display each status
-    this.plugin.settings.availableStatuses.forEach((status) => {
+    statuses.forEach((status) => {
       const s = new Setting(containerEl)
         .addText((text) => {
           text
@@ -772,6 +1189,17 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
               await this.plugin.saveSettings();
             });
         })
+        .addDropdown((dropdown) => {
+          for (const [category, label] of Object.entries(STATUS_CATEGORY_LABELS)) {
+            dropdown.addOption(category, label);
+          }
+          dropdown
+            .setValue(status.category ?? inferStatusCategory(status.name))
+            .onChange(async (value) => {
+              status.category = value as StatusCategory;
+              await this.plugin.saveSettings();
+            });
+        })
         .addColorPicker((color) => {
           color
             .setValue(status.color)
@@ -790,12 +1218,11 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
             .setIcon("trash")
             .setTooltip("Delete status")
             .onClick(async () => {
-              if (this.plugin.settings.availableStatuses.length <= 1) {
+              if (statuses.length <= 1) {
                 // Prevent deleting last status
                 return;
               }
-              this.plugin.settings.availableStatuses =
-                this.plugin.settings.availableStatuses.filter((st) => st.id !== status.id);
+              statuses.splice(statuses.indexOf(status), 1);
               await this.plugin.saveSettings();
               this.display();
             });
@@ -809,10 +1236,55 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
       previewBadge.style.backgroundColor = status.color;
     });
 
+    // -----------------------------------------------------------------------
+    // Workflow Section (active project only)
+    // -----------------------------------------------------------------------
+    if (activeProject) {
+      new Setting(containerEl).setName(`Workflow — ${activeProject.name}`).setHeading();
+
+      new Setting(containerEl)
+        .setName("Restrict status transitions")
+        .setDesc("When on, a task can only move to the statuses ticked for its current status. Other changes are rejected with a notice.")
+        .addToggle((toggle) =>
+          toggle
+            .setValue(!!activeProject.statusTransitions)
+            .onChange(async (value) => {
+              if (value) activeProject.statusTransitions = {};
+              else delete activeProject.statusTransitions;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      if (activeProject.statusTransitions) {
+        for (const from of statuses) {
+          const row = new Setting(containerEl)
+            .setName(from.name)
+            .setDesc("Can move to:");
+          row.settingEl.addClass("planner-transition-row");
+
+          for (const to of statuses) {
+            if (to.id === from.id) continue;
+            const label = row.controlEl.createEl("label", { cls: "planner-transition-option" });
+            const checkbox = label.createEl("input", { type: "checkbox" });
+            checkbox.checked = isTransitionAllowed(activeProject.statusTransitions, statuses, from.name, to.name);
+            label.appendText(to.name);
+            checkbox.onchange = async () => {
+              activeProject.statusTransitions = setTransitionAllowed(
+                activeProject.statusTransitions, statuses, from.id, to.id, checkbox.checked
+              );
+              await this.plugin.saveSettings();
+            };
+          }
+        }
+      }
+    }
+
     // -----------------------------------------------------------------------
     // Priorities Section
     // -----------------------------------------------------------------------
     new Setting(containerEl).setName("Priorities").setHeading();
+    const priorities = this.renderProjectListToggle(containerEl, activeProject, "priorities");
 
     new Setting(containerEl)
       .setName("Manage priorities")
@@ -820,7 +1292,7 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
       .addButton((btn) => {
         btn.setButtonText("Add priority").onClick(async () => {
           const id = crypto.randomUUID();
-          this.plugin.settings.availablePriorities.push({
+          priorities.push({
             id,
             name: "New priority",
             color: "#0a84ff" // default blue
@@ -831,7 +1303,7 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
       });
 
     // Display each priority
-    this.plugin.settings.availablePriorities.forEach((priority) => {
+    priorities.forEach((priority) => {
       const s = new Setting(containerEl)
         .addText((text) => {
           text
@@ -860,12 +1332,11 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
             .setIcon("trash")
             .setTooltip("Delete priority")
             .onClick(async () => {
-              if (this.plugin.settings.availablePriorities.length <= 1) {
+              if (priorities.length <= 1) {
                 // Prevent deleting last priority
                 return;
               }
-              this.plugin.settings.availablePriorities =
-                this.plugin.settings.availablePriorities.filter((p) => p.id !== priority.id);
+              priorities.splice(priorities.indexOf(priority), 1);
               await this.plugin.saveSettings();
               this.display();
             });
@@ -918,4 +1389,35 @@ export class ProjectPlannerSettingTab extends PluginSettingTab {
     coffeeImg.style.width = "145px";
     coffeeImg.style.verticalAlign = "middle";
   }
+
+  /**
+   * Toggle for giving the active project its own copy of a shared list.
+   * Returns the list the section below edits: the project's copy when the
+   * toggle is on, otherwise the shared list.
+   */
+  private renderProjectListToggle<K extends ProjectListKey>(
+    containerEl: HTMLElement,
+    project: PlannerProject | undefined,
+    key: K
+  ): NonNullable<PlannerProject[K]> {
+    const settings = this.plugin.settings;
+    const shared = { statuses: settings.availableStatuses, priorities: settings.availablePriorities, tags: settings.availableTags }[key];
+    if (!project) return shared as NonNullable<PlannerProject[K]>;
+
+    new Setting(containerEl)
+      .setName(`Use separate ${key} for ${project.name}`)
+      .setDesc(`When on, ${project.name} gets its own copy of the ${key} below; other projects keep the shared list.`)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(hasProjectList(project, key))
+          .onChange(async (value) => {
+            if (value) enableProjectList(settings, project, key);
+            else disableProjectList(project, key);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    return (project[key] ?? shared) as NonNullable<PlannerProject[K]>;
+  }
 }
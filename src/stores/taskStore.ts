@@ -1,6 +1,20 @@
+import { Notice } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
-import type { PlannerTask, DependencyType } from "../types";
+import type { PlannerTask, PlannerStatus, DependencyType, ProjectBaseline, RunningTimer, TimeLogEntry } from "../types";
+import type { BoardBucket } from "../settings";
 import { getTaskEstimatedCost, getTaskActualCost } from "../utils/costUtils";
+import { createBaseline } from "../utils/baselineUtils";
+import { createNextOccurrence } from "../utils/recurrence";
+import { getProjectStatuses } from "../utils/projectLists";
+import { getStatusForCategory, isDoneStatus } from "../utils/statusCategories";
+import { createTimeLogEntry, roundHours } from "../utils/timeTracking";
+import { isTransitionAllowed } from "../utils/workflowRules";
+import {
+  countWorkingDays,
+  getProjectCalendar,
+  shiftWorkingDays,
+  snapToWorkingDay,
+} from "../utils/workingCalendar";
 
 // Helper to get today's date in YYYY-MM-DD format
 function getTodayDate(): string {
@@ -13,47 +27,94 @@ function isValidDateStr(dateStr: string): boolean {
   return /^\d{4}-\d{2}-\d{2}$/.test(dateStr);
 }
 
-// Helper to parse YYYY-MM-DD date string without timezone issues
-function parseDate(dateStr: string): Date {
-  const parts = dateStr.split("-").map(Number);
-  if (parts.length !== 3 || parts.some(isNaN)) return new Date(NaN);
-  const [y, m, d] = parts;
-  return new Date(y, m - 1, d);
-}
-
-// Helper to format a Date to YYYY-MM-DD
-function toISODate(date: Date): string {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  const d = String(date.getDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
-}
-
-// Helper to add days to a date string, returning a new YYYY-MM-DD string
-function addDays(dateStr: string, days: number): string {
-  const date = parseDate(dateStr);
-  date.setDate(date.getDate() + days);
-  return toISODate(date);
+// A milestone's single date as both start and due (whichever of the two is set)
+function withMilestoneDates(task: PlannerTask): PlannerTask {
+  const date = task.dueDate || task.startDate;
+  return { ...task, startDate: date, dueDate: date };
 }
 
 interface StoredData {
   tasks?: PlannerTask[]; // legacy single-project storage
   tasksByProject?: Record<string, PlannerTask[]>;
+  baselinesByProject?: Record<string, ProjectBaseline[]>;
+  runningTimer?: RunningTimer;
   settings?: unknown;
   [key: string]: unknown; // allow other plugin data to coexist
 }
 
+// ---------------------------------------------------------------------------
+// Undo / redo history
+// ---------------------------------------------------------------------------
+
+/** Maximum number of undoable actions kept in memory. */
+const MAX_HISTORY = 100;
+
+/** Serialized state of one project, captured before a transaction first changes it. */
+interface ProjectSnapshot {
+  tasks: Map<string, string>; // task ID → JSON
+  order: string[];
+  buckets: string; // JSON of the project's board buckets ("null" if none)
+}
+
+/** One side (before or after) of a recorded change to a single project. */
+interface ProjectChangeSide {
+  tasks: Record<string, PlannerTask | null>; // only tasks that changed; null = did not exist
+  order?: string[]; // set when tasks were added, removed or reordered
+  buckets?: string; // set when the project's board buckets changed
+}
+
+interface ProjectChange {
+  projectId: string;
+  before: ProjectChangeSide;
+  after: ProjectChangeSide;
+}
+
+/** One undoable user action, including all of its cascade and roll-up side effects. */
+export interface HistoryEntry {
+  label: string;
+  changes: ProjectChange[];
+}
+
+/** Options for the store writes that background syncs use. */
+export interface TaskWriteOptions {
+  /**
+   * false for writes that aren't the user's action (task note sync, daily note
+   * import): they are applied without an undo entry and never join, or clear
+   * the redo stack of, the user's transactions. Status workflow rules don't
+   * apply to them either. Defaults to true.
+   */
+  history?: boolean;
+}
+
 export class TaskStore {
   private plugin: ProjectPlannerPlugin;
 
   private tasks: PlannerTask[] = [];
   private tasksByProject: Record<string, PlannerTask[]> = {};
+  private baselinesByProject: Record<string, ProjectBaseline[]> = {};
+  private runningTimer: RunningTimer | null = null;
   private taskIndex: Map<string, PlannerTask> = new Map();
   private listeners: Set<() => void> = new Set();
   private loaded = false;
   /** Cached non-task data from data.json, loaded once and kept in sync */
   private cachedRawData: StoredData | null = null;
 
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  /** Nesting depth of the open transaction (0 = none) */
+  private transactionDepth = 0;
+  private transactionLabel = "";
+  private transactionSnapshot: Map<string, ProjectSnapshot> | null = null;
+  /** Settles when the open transaction ends (null when none is open) */
+  private transactionEnded: Promise<void> | null = null;
+  private endTransaction: (() => void) | null = null;
+  /** The write running outside history, if any */
+  private backgroundWrite: Promise<unknown> | null = null;
+  /** True while undo/redo is applying an entry, so it isn't recorded again */
+  private restoringHistory = false;
+  /** Set when emit() was called during a transaction */
+  private emitPending = false;
+
   constructor(plugin: ProjectPlannerPlugin) {
     this.plugin = plugin;
   }
@@ -62,6 +123,11 @@ export class TaskStore {
     return this.plugin.settings.activeProjectId;
   }
 
+  /** Status list of a project; completion and roll-up go by each status's category. */
+  private getStatuses(projectId: string = this.activeProjectId): PlannerStatus[] {
+    return getProjectStatuses(this.plugin.settings, projectId);
+  }
+
   // ---------------------------------------------------------------------------
   // LOADING WITH FULL MIGRATION + NON-DESTRUCTIVE LOGIC
   // ---------------------------------------------------------------------------
@@ -74,6 +140,8 @@ export class TaskStore {
 
     // Always try to load existing multiproject data
     this.tasksByProject = raw.tasksByProject ?? {};
+    this.baselinesByProject = raw.baselinesByProject ?? {};
+    this.runningTimer = raw.runningTimer ?? null;
 
     const projectId = this.activeProjectId;
 
@@ -146,6 +214,8 @@ export class TaskStore {
     // Falls back to loadData() if cache is missing (e.g., external modification).
     const raw = this.cachedRawData ?? ((await this.plugin.loadData()) || {}) as StoredData;
     raw.tasksByProject = this.tasksByProject;
+    raw.baselinesByProject = this.baselinesByProject;
+    raw.runningTimer = this.runningTimer ?? undefined;
     // Always sync settings from the authoritative in-memory object.
     // Without this, the cache can hold stale settings (e.g., missing newly
     // created Board buckets) and overwrite them on the next task save.
@@ -190,6 +260,12 @@ export class TaskStore {
   }
 
   private emit() {
+    // Inside a transaction, notify once when the outermost one finishes
+    // (after its history entry is recorded, so headers see the new state)
+    if (this.transactionDepth > 0) {
+      this.emitPending = true;
+      return;
+    }
     for (const l of this.listeners) {
       try { l(); } catch { }
     }
@@ -201,11 +277,15 @@ export class TaskStore {
   }
 
   async addTask(title: string): Promise<PlannerTask> {
+    return this.transaction("Add task", () => this.applyAddTask(title));
+  }
+
+  private async applyAddTask(title: string): Promise<PlannerTask> {
     const today = getTodayDate();
     const task: PlannerTask = {
       id: crypto.randomUUID(),
       title,
-      status: "Not Started",
+      status: getStatusForCategory(this.getStatuses(), "not-started"),
       priority: "Medium",
       completed: false,
       parentId: null,
@@ -241,12 +321,20 @@ export class TaskStore {
     title: string,
     index: number,
     overrides?: Partial<PlannerTask>
+  ): Promise<PlannerTask> {
+    return this.transaction("Add task", () => this.applyAddTaskAtIndex(title, index, overrides));
+  }
+
+  private async applyAddTaskAtIndex(
+    title: string,
+    index: number,
+    overrides?: Partial<PlannerTask>
   ): Promise<PlannerTask> {
     const today = getTodayDate();
     const task: PlannerTask = {
       id: crypto.randomUUID(),
       title,
-      status: "Not Started",
+      status: getStatusForCategory(this.getStatuses(), "not-started"),
       priority: "Medium",
       completed: false,
       parentId: null,
@@ -277,7 +365,11 @@ export class TaskStore {
     return task;
   }
 
-  async addTaskFromObject(task: PlannerTask): Promise<void> {
+  async addTaskFromObject(task: PlannerTask, options: TaskWriteOptions = {}): Promise<void> {
+    await this.write("Add task", options, () => this.applyAddTaskFromObject(task));
+  }
+
+  private async applyAddTaskFromObject(task: PlannerTask): Promise<void> {
     // Check if task already exists
     const existing = this.tasks.find(t => t.id === task.id);
     if (existing) {
@@ -303,7 +395,13 @@ export class TaskStore {
     await this.save();
   }
 
-  async addTaskToProject(task: PlannerTask, projectId: string): Promise<void> {
+  async addTaskToProject(task: PlannerTask, projectId: string, options: TaskWriteOptions = {}): Promise<void> {
+    await this.write("Add task", options, () => this.applyAddTaskToProject(task, projectId));
+  }
+
+  private async applyAddTaskToProject(task: PlannerTask, projectId: string): Promise<void> {
+    this.touchProject(projectId);
+
     // Ensure project bucket exists
     if (!this.tasksByProject[projectId]) {
       this.tasksByProject[projectId] = [];
@@ -348,7 +446,11 @@ export class TaskStore {
     this.emit();
   }
 
-  async updateTask(id: string, partial: Partial<PlannerTask>): Promise<void> {
+  async updateTask(id: string, partial: Partial<PlannerTask>, options: TaskWriteOptions = {}): Promise<void> {
+    await this.write("Edit task", options, () => this.applyUpdateTask(id, partial, options.history !== false));
+  }
+
+  private async applyUpdateTask(id: string, partial: Partial<PlannerTask>, enforceWorkflow = true): Promise<void> {
     let task = this.tasks.find((t) => t.id === id);
     let crossProjectId: string | null = null;
 
@@ -365,16 +467,35 @@ export class TaskStore {
     }
 
     if (!task) return;
+    this.touchProject(crossProjectId ?? this.activeProjectId);
 
     // Track old title for file rename detection
     const oldTitle = task.title;
     const titleChanged = partial.title !== undefined && partial.title !== oldTitle;
 
-    // Bidirectional sync: status takes precedence
+    // Bidirectional sync: status takes precedence. Completion follows the
+    // status's category (done), not its name, so statuses can be renamed.
+    const projectId = crossProjectId ?? this.activeProjectId;
+    const statuses = this.getStatuses(projectId);
+    const isDone = (status: string | undefined) => isDoneStatus(statuses, status);
     if (partial.status !== undefined) {
-      partial.completed = partial.status === "Completed";
+      partial.completed = isDone(partial.status);
     } else if (partial.completed !== undefined) {
-      partial.status = partial.completed ? "Completed" : task.status || "Not Started";
+      partial.status = partial.completed
+        ? getStatusForCategory(statuses, "done")
+        : task.status && !isDone(task.status) ? task.status : getStatusForCategory(statuses, "not-started");
+    }
+
+    // Workflow rules: drop a status change the project doesn't allow and
+    // apply the rest of the update (the final emit re-renders views that
+    // already changed their controls). Syncs and imports aren't user moves.
+    const transitions = this.plugin.settings.projects?.find(p => p.id === projectId)?.statusTransitions;
+    const canMoveTo = (status: string) =>
+      !enforceWorkflow || status === task.status || isTransitionAllowed(transitions, statuses, task.status, status);
+    if (partial.status !== undefined && !canMoveTo(partial.status)) {
+      new Notice(`Can't move "${task.title}" from ${task.status} to ${partial.status}: this project's workflow doesn't allow it.`);
+      delete partial.status;
+      delete partial.completed;
     }
 
     // Effort sync: Microsoft Planner style
@@ -385,7 +506,7 @@ export class TaskStore {
     const oldRemaining = task.effortRemaining ?? 0;
     const oldTotal = oldCompleted + oldRemaining;
 
-    if (partial.status === "Completed" || partial.completed === true) {
+    if (isDone(partial.status) || partial.completed === true) {
       // Move all remaining into completed
       if (oldTotal > 0) {
         partial.effortCompleted = oldTotal;
@@ -402,13 +523,20 @@ export class TaskStore {
     const totalEffortCalc = finalCompleted + finalRemaining;
     if (totalEffortCalc > 0) {
       partial.percentComplete = Math.round((finalCompleted / totalEffortCalc) * 100);
-      // Auto-sync status based on calculated percent
-      if (partial.percentComplete === 100 && (partial.status ?? task.status) !== "Completed") {
-        partial.status = "Completed";
-        partial.completed = true;
-      } else if (partial.percentComplete < 100 && (partial.status ?? task.status) === "Completed") {
-        partial.status = "In Progress";
-        partial.completed = false;
+      // Auto-sync status based on calculated percent, where the workflow allows the move
+      // Logged time alone never completes a task (it may have had no estimate)
+      const doneStatus = getStatusForCategory(statuses, "done");
+      const activeStatus = getStatusForCategory(statuses, "active");
+      if (partial.percentComplete === 100 && !isDone(partial.status ?? task.status) && partial.timeLog === undefined) {
+        if (canMoveTo(doneStatus)) {
+          partial.status = doneStatus;
+          partial.completed = true;
+        }
+      } else if (partial.percentComplete < 100 && isDone(partial.status ?? task.status)) {
+        if (canMoveTo(activeStatus)) {
+          partial.status = activeStatus;
+          partial.completed = false;
+        }
       }
     } else {
       // No effort data — keep percentComplete as-is (or 0)
@@ -417,9 +545,20 @@ export class TaskStore {
       }
     }
 
+    // Milestones have a single date: keep start and due equal, taking the one just edited
+    if (partial.milestone ?? task.milestone) {
+      const date = "dueDate" in partial ? partial.dueDate
+        : "startDate" in partial ? partial.startDate
+        : task.dueDate || task.startDate;
+      partial.startDate = date;
+      partial.dueDate = date;
+    }
+
     // Track old dates for dependency scheduling cascade
     const oldStartDate = task.startDate;
     const oldDueDate = task.dueDate;
+    const oldParentId = task.parentId;
+    const wasCompleted = task.completed;
 
     // Set last modified timestamp
     partial.lastModifiedDate = getTodayDate();
@@ -427,6 +566,20 @@ export class TaskStore {
     // Object.assign mutates the task in-place. For cross-project tasks
     // this correctly modifies the reference inside tasksByProject[crossProjectId].
     Object.assign(task, partial);
+
+    // Recurring task just completed: queue the next occurrence right after it.
+    // The rule moves to the new task so re-completing this one can't spawn twice.
+    let nextOccurrence: PlannerTask | null = null;
+    if (!wasCompleted && task.completed && task.recurrence) {
+      nextOccurrence = createNextOccurrence(task, getTodayDate(), getStatusForCategory(statuses, "not-started"));
+      delete task.recurrence;
+      if (nextOccurrence) {
+        const projectTasks = crossProjectId ? this.tasksByProject[crossProjectId] : this.tasks;
+        projectTasks.splice(projectTasks.indexOf(task) + 1, 0, nextOccurrence);
+        if (!crossProjectId) this.taskIndex.set(nextOccurrence.id, nextOccurrence);
+      }
+    }
+
     this.updateProjectTimestamp();
     // Persist without emitting — cascade/rollup may trigger additional saves.
     // We emit exactly once at the very end to avoid N full DOM rebuilds.
@@ -444,6 +597,9 @@ export class TaskStore {
         } else {
           await this.plugin.taskSync.syncTaskToMarkdown(task, effectiveProjectId);
         }
+        if (nextOccurrence) {
+          await this.plugin.taskSync.syncTaskToMarkdown(nextOccurrence, effectiveProjectId);
+        }
       } catch (error) {
         console.error("Failed to sync task to markdown:", error);
       }
@@ -467,6 +623,10 @@ export class TaskStore {
       if (this.plugin.settings.enableParentRollUp && task.parentId) {
         await this.rollUpParentFields(task.parentId);
       }
+      // Moved to another parent (e.g. a Board swimlane drop): the old one lost a child
+      if (this.plugin.settings.enableParentRollUp && oldParentId && oldParentId !== task.parentId) {
+        await this.rollUpParentFields(oldParentId);
+      }
     }
 
     // Single emit after ALL work is done — views render once with final data
@@ -529,16 +689,16 @@ export class TaskStore {
     const anyCostData = totalCostEstimate > 0 || totalCostActual > 0;
 
     // --- % Complete roll-up: duration-weighted average ---
+    // Weighted by the inclusive duration the grid shows; with a working
+    // calendar that is working days, so weekends/holidays don't count
+    const calendar = getProjectCalendar(this.plugin.settings, this.activeProjectId);
     let weightedPct = 0;
     let totalWeight = 0;
 
     for (const child of children) {
       let duration = 1; // default equal weight
       if (child.startDate && child.dueDate) {
-        const s = parseDate(child.startDate);
-        const e = parseDate(child.dueDate);
-        const days = Math.max(1, Math.round((e.getTime() - s.getTime()) / 86400000));
-        duration = days;
+        duration = Math.max(1, countWorkingDays(child.startDate, child.dueDate, calendar));
       }
       const childPct = child.percentComplete ?? 0;
       weightedPct += duration * childPct;
@@ -552,12 +712,13 @@ export class TaskStore {
     let newStatus: string | undefined;
     let newCompleted: boolean | undefined;
 
+    const statuses = this.getStatuses();
     if (rolledPct === 100) {
-      newStatus = "Completed";
+      newStatus = getStatusForCategory(statuses, "done");
       newCompleted = true;
-    } else if (rolledPct > 0 && parent.status === "Completed") {
+    } else if (rolledPct > 0 && isDoneStatus(statuses, parent.status)) {
       // Was marked complete but children say otherwise
-      newStatus = "In Progress";
+      newStatus = getStatusForCategory(statuses, "active");
       newCompleted = false;
     }
 
@@ -657,7 +818,7 @@ export class TaskStore {
 
     for (const dependent of dependents) {
       const dep = dependent.dependencies!.find(d => d.predecessorId === predecessorId)!;
-      const updates = this.calculateScheduledDates(predecessor, dependent, dep.type);
+      const updates = this.calculateScheduledDates(predecessor, dependent, dep.type, dep.lag ?? 0);
 
       if (!updates) continue; // No changes needed
 
@@ -694,8 +855,8 @@ export class TaskStore {
 
   /**
    * Calculate what the dependent task's start/due dates should be based on
-   * the predecessor's dates, the dependency type, and the dependent task's
-   * current duration (preserves task duration when shifting).
+   * the predecessor's dates, the dependency type and lag (signed days), and
+   * the dependent task's current duration (preserves task duration when shifting).
    *
    * Returns { startDate, dueDate } partial, or null if no shift is needed
    * (e.g., predecessor has no dates set).
@@ -703,51 +864,65 @@ export class TaskStore {
   private calculateScheduledDates(
     predecessor: PlannerTask,
     dependent: PlannerTask,
-    depType: DependencyType
+    depType: DependencyType,
+    lag = 0
   ): { startDate?: string; dueDate?: string } | null {
-    // Compute the dependent's current duration in days (to preserve when shifting)
+    // A milestone's one date is both its start and finish
+    if (predecessor.milestone) predecessor = withMilestoneDates(predecessor);
+    if (dependent.milestone) {
+      const updates = this.calculateScheduledDates(
+        predecessor, { ...withMilestoneDates(dependent), milestone: false }, depType, lag
+      );
+      if (!updates) return null;
+      // FS/SS drive the start, FF/SF the finish — either way the milestone moves as one date
+      const date = depType === "FS" || depType === "SS" ? updates.startDate : updates.dueDate;
+      return { startDate: date, dueDate: date };
+    }
+
+    // Working calendar of the active project (undefined = every day is a working day)
+    const calendar = getProjectCalendar(this.plugin.settings, this.activeProjectId);
+
+    // Compute the dependent's current duration in working days (to preserve when shifting)
     let durationDays = 0;
     if (dependent.startDate && dependent.dueDate) {
-      const s = parseDate(dependent.startDate);
-      const e = parseDate(dependent.dueDate);
-      durationDays = Math.max(0, Math.round((e.getTime() - s.getTime()) / (86400000)));
+      durationDays = Math.max(0, countWorkingDays(dependent.startDate, dependent.dueDate, calendar) - 1);
     }
 
     switch (depType) {
       case "FS": {
-        // Finish-to-Start: dependent starts the day after predecessor finishes
+        // Finish-to-Start: dependent starts the working day after predecessor finishes (+ lag)
         if (!predecessor.dueDate) return null;
-        const newStart = addDays(predecessor.dueDate, 1);
+        const newStart = snapToWorkingDay(shiftWorkingDays(predecessor.dueDate, 1 + lag, calendar), 1, calendar);
         // Only shift forward (don't pull tasks earlier than they already are)
         if (dependent.startDate && newStart <= dependent.startDate) return null;
-        const newDue = durationDays > 0 ? addDays(newStart, durationDays) : undefined;
+        const newDue = durationDays > 0 ? shiftWorkingDays(newStart, durationDays, calendar) : undefined;
         return { startDate: newStart, dueDate: newDue ?? dependent.dueDate };
       }
 
       case "SS": {
-        // Start-to-Start: dependent starts when predecessor starts
+        // Start-to-Start: dependent starts when predecessor starts (+ lag)
         if (!predecessor.startDate) return null;
-        const newStart = predecessor.startDate;
+        const newStart = snapToWorkingDay(shiftWorkingDays(predecessor.startDate, lag, calendar), 1, calendar);
         if (dependent.startDate && newStart <= dependent.startDate) return null;
-        const newDue = durationDays > 0 ? addDays(newStart, durationDays) : undefined;
+        const newDue = durationDays > 0 ? shiftWorkingDays(newStart, durationDays, calendar) : undefined;
         return { startDate: newStart, dueDate: newDue ?? dependent.dueDate };
       }
 
       case "FF": {
-        // Finish-to-Finish: dependent finishes when predecessor finishes
+        // Finish-to-Finish: dependent finishes when predecessor finishes (+ lag)
         if (!predecessor.dueDate) return null;
-        const newDue = predecessor.dueDate;
+        const newDue = snapToWorkingDay(shiftWorkingDays(predecessor.dueDate, lag, calendar), -1, calendar);
         if (dependent.dueDate && newDue <= dependent.dueDate) return null;
-        const newStart = durationDays > 0 ? addDays(newDue, -durationDays) : undefined;
+        const newStart = durationDays > 0 ? shiftWorkingDays(newDue, -durationDays, calendar) : undefined;
         return { startDate: newStart ?? dependent.startDate, dueDate: newDue };
       }
 
       case "SF": {
-        // Start-to-Finish: dependent finishes when predecessor starts
+        // Start-to-Finish: dependent finishes when predecessor starts (+ lag)
         if (!predecessor.startDate) return null;
-        const newDue = predecessor.startDate;
+        const newDue = snapToWorkingDay(shiftWorkingDays(predecessor.startDate, lag, calendar), -1, calendar);
         if (dependent.dueDate && newDue <= dependent.dueDate) return null;
-        const newStart = durationDays > 0 ? addDays(newDue, -durationDays) : undefined;
+        const newStart = durationDays > 0 ? shiftWorkingDays(newDue, -durationDays, calendar) : undefined;
         return { startDate: newStart ?? dependent.startDate, dueDate: newDue };
       }
 
@@ -756,7 +931,11 @@ export class TaskStore {
     }
   }
 
-  async deleteTask(id: string): Promise<void> {
+  async deleteTask(id: string, options: TaskWriteOptions = {}): Promise<void> {
+    await this.write("Delete task", options, () => this.applyDeleteTask(id));
+  }
+
+  private async applyDeleteTask(id: string): Promise<void> {
     // Get task before deleting for sync purposes
     const task = this.tasks.find(t => t.id === id);
     const deletedParentId = task?.parentId;
@@ -794,6 +973,10 @@ export class TaskStore {
   }
 
   async setOrder(ids: string[]): Promise<void> {
+    await this.transaction("Reorder tasks", () => this.applySetOrder(ids));
+  }
+
+  private async applySetOrder(ids: string[]): Promise<void> {
     const idToTask = new Map(this.tasks.map((t) => [t.id, t]));
     this.tasks = ids
       .map((id) => idToTask.get(id))
@@ -810,6 +993,10 @@ export class TaskStore {
   }
 
   async makeSubtask(taskId: string, parentId: string): Promise<void> {
+    await this.transaction("Indent task", () => this.applyMakeSubtask(taskId, parentId));
+  }
+
+  private async applyMakeSubtask(taskId: string, parentId: string): Promise<void> {
     const task = this.tasks.find((t) => t.id === taskId);
     if (!task) return;
     const oldParentId = task.parentId;
@@ -830,11 +1017,24 @@ export class TaskStore {
     return this.taskIndex.get(id);
   }
 
+  /** ID of the project a task belongs to (the active project when not found elsewhere). */
+  getProjectIdForTask(id: string): string {
+    if (this.taskIndex.has(id)) return this.activeProjectId;
+    for (const [projectId, tasks] of Object.entries(this.tasksByProject)) {
+      if (tasks.some(t => t.id === id)) return projectId;
+    }
+    return this.activeProjectId;
+  }
+
   getTasks(): PlannerTask[] {
     return this.tasks;
   }
 
   async promoteSubtask(taskId: string): Promise<void> {
+    await this.transaction("Outdent task", () => this.applyPromoteSubtask(taskId));
+  }
+
+  private async applyPromoteSubtask(taskId: string): Promise<void> {
     const task = this.tasks.find((t) => t.id === taskId);
     if (!task) return;
     const oldParentId = task.parentId;
@@ -850,6 +1050,380 @@ export class TaskStore {
     this.emit();
   }
 
+  // ---------------------------------------------------------------------------
+  // Baselines (schedule snapshots; not part of undo history)
+  // ---------------------------------------------------------------------------
+
+  getBaselines(projectId: string = this.activeProjectId): ProjectBaseline[] {
+    return this.baselinesByProject[projectId] ?? [];
+  }
+
+  /** Snapshot the project's tasks as a new baseline and make it the one compared against. */
+  async saveBaseline(name: string, projectId: string = this.activeProjectId): Promise<ProjectBaseline> {
+    const project = this.plugin.settings.projects.find(p => p.id === projectId);
+    const baseline = createBaseline(name, this.getAllForProject(projectId), project);
+    this.baselinesByProject[projectId] = [...this.getBaselines(projectId), baseline];
+    if (project) project.activeBaselineId = baseline.id;
+    await this.save();
+    return baseline;
+  }
+
+  async deleteBaseline(baselineId: string, projectId: string = this.activeProjectId): Promise<void> {
+    const remaining = this.getBaselines(projectId).filter(b => b.id !== baselineId);
+    this.baselinesByProject[projectId] = remaining;
+    const project = this.plugin.settings.projects.find(p => p.id === projectId);
+    if (project?.activeBaselineId === baselineId) {
+      project.activeBaselineId = remaining[remaining.length - 1]?.id;
+    }
+    await this.save();
+  }
+
+  /** Choose the baseline shown in the views (undefined = none). */
+  async setActiveBaseline(baselineId: string | undefined, projectId: string = this.activeProjectId): Promise<void> {
+    const project = this.plugin.settings.projects.find(p => p.id === projectId);
+    if (!project) return;
+    project.activeBaselineId = baselineId;
+    await this.save();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Time tracking (time log entries and the running timer)
+  // ---------------------------------------------------------------------------
+
+  /** Find a task in any project (timers can run on tasks outside the active one). */
+  private findTaskInAnyProject(id: string): PlannerTask | undefined {
+    const active = this.taskIndex.get(id);
+    if (active) return active;
+    for (const tasks of Object.values(this.tasksByProject)) {
+      const task = tasks.find(t => t.id === id);
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  /**
+   * Add a time log entry and its hours to effortCompleted. Remaining effort
+   * shrinks by the same amount (never below zero), as when editing effort by
+   * hand; hourly tasks derive their actual cost from effortCompleted.
+   */
+  async addTimeLogEntry(taskId: string, entry: TimeLogEntry): Promise<void> {
+    await this.transaction("Log time", async () => {
+      const task = this.findTaskInAnyProject(taskId);
+      if (!task) return;
+      await this.applyUpdateTask(taskId, {
+        timeLog: [...(task.timeLog ?? []), entry],
+        effortCompleted: roundHours((task.effortCompleted ?? 0) + entry.duration),
+        effortRemaining: roundHours(Math.max(0, (task.effortRemaining ?? 0) - entry.duration)),
+      });
+    });
+  }
+
+  /** Remove a time log entry, moving its hours from effortCompleted back to effortRemaining. */
+  async deleteTimeLogEntry(taskId: string, entryId: string): Promise<void> {
+    await this.transaction("Delete time entry", async () => {
+      const task = this.findTaskInAnyProject(taskId);
+      const entry = task?.timeLog?.find(e => e.id === entryId);
+      if (!task || !entry) return;
+      await this.applyUpdateTask(taskId, {
+        timeLog: task.timeLog!.filter(e => e.id !== entryId),
+        effortCompleted: roundHours(Math.max(0, (task.effortCompleted ?? 0) - entry.duration)),
+        effortRemaining: roundHours((task.effortRemaining ?? 0) + entry.duration),
+      });
+    });
+  }
+
+  getRunningTimer(): RunningTimer | null {
+    return this.runningTimer;
+  }
+
+  /** Start timing a task. A timer already running on another task is stopped and logged first. */
+  async startTimer(taskId: string): Promise<void> {
+    if (this.runningTimer?.taskId === taskId) return;
+    const projectId = this.taskIndex.has(taskId)
+      ? this.activeProjectId
+      : Object.keys(this.tasksByProject).find(id => this.tasksByProject[id].some(t => t.id === taskId));
+    if (!projectId) return;
+    if (this.runningTimer) await this.stopTimer();
+    this.runningTimer = { taskId, projectId, start: new Date().toISOString() };
+    await this.save();
+  }
+
+  /** Stop the running timer and log the elapsed time to its task. */
+  async stopTimer(note?: string): Promise<TimeLogEntry | null> {
+    const timer = this.runningTimer;
+    if (!timer) return null;
+    this.runningTimer = null;
+
+    const entry = createTimeLogEntry(new Date(timer.start), new Date(), {
+      note,
+      personId: this.plugin.settings.currentUserId || undefined,
+    });
+    if (entry.duration > 0 && this.findTaskInAnyProject(timer.taskId)) {
+      await this.addTimeLogEntry(timer.taskId, entry);
+      return entry;
+    }
+    // Under 36 seconds (or the task is gone): nothing to log
+    await this.save();
+    return null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Undo / Redo (transactional history)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Run `fn` as a single undoable action. Every mutation made while it runs —
+   * including dependency cascades, parent roll-ups and nested store calls —
+   * is recorded as one history entry. Nested transactions join the outer one,
+   * so views can group several store calls (e.g. a drag that re-parents and
+   * reorders) under a single label.
+   *
+   * The store can't tell which async call chain a write comes from, so any
+   * undoable write that starts while a transaction is open joins it, even one
+   * from another view, and is undone with it. Keep `fn` to the store calls of
+   * a single user action: no prompts or other waits on the user inside it.
+   * Writes with `{ history: false }` (syncs, imports) never join; they wait
+   * for the transaction to end.
+   */
+  async transaction<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    if (this.restoringHistory) return fn();
+
+    // A background write in progress finishes first, so it stays out of this entry
+    while (this.transactionDepth === 0 && this.backgroundWrite) {
+      await this.backgroundWrite.catch(() => undefined);
+    }
+
+    if (this.transactionDepth === 0) {
+      this.transactionLabel = label;
+      // Other projects are added when a write first touches them (touchProject)
+      this.transactionSnapshot = new Map([[this.activeProjectId, this.captureSnapshot(this.activeProjectId)]]);
+      this.transactionEnded = new Promise(resolve => { this.endTransaction = resolve; });
+    }
+    this.transactionDepth++;
+    try {
+      return await fn();
+    } finally {
+      this.transactionDepth--;
+      if (this.transactionDepth === 0) {
+        this.commitTransaction();
+        this.endTransaction?.();
+        this.transactionEnded = null;
+        this.endTransaction = null;
+        if (this.emitPending) {
+          this.emitPending = false;
+          this.emit();
+        }
+      }
+    }
+  }
+
+  /** Run a store write as an undoable action, or outside history when options.history is false. */
+  private write<T>(label: string, options: TaskWriteOptions, fn: () => Promise<T>): Promise<T> {
+    return options.history === false ? this.withoutHistory(fn) : this.transaction(label, fn);
+  }
+
+  /**
+   * Run `fn` without recording it. It waits for an open transaction to end,
+   * and transactions started meanwhile wait for it, so background writes and
+   * user actions never end up in each other's history entries.
+   */
+  private async withoutHistory<T>(fn: () => Promise<T>): Promise<T> {
+    while (this.transactionEnded || this.backgroundWrite) {
+      await (this.transactionEnded ?? this.backgroundWrite!.catch(() => undefined));
+    }
+
+    const write = fn();
+    this.backgroundWrite = write;
+    try {
+      return await write;
+    } finally {
+      if (this.backgroundWrite === write) this.backgroundWrite = null;
+    }
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Label of the action the next undo() would revert, if any. */
+  getUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /** Label of the action the next redo() would re-apply, if any. */
+  getRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  /** Drop all recorded history (e.g. after an external reload of data.json). */
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /** Revert the most recent action. Returns its label, or null if there was nothing to undo. */
+  async undo(): Promise<string | null> {
+    if (this.transactionDepth > 0) return null;
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push(entry);
+    await this.applyHistoryEntry(entry, "before");
+    this.emit();
+    return entry.label;
+  }
+
+  /** Re-apply the most recently undone action. Returns its label, or null if there was nothing to redo. */
+  async redo(): Promise<string | null> {
+    if (this.transactionDepth > 0) return null;
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push(entry);
+    await this.applyHistoryEntry(entry, "after");
+    this.emit();
+    return entry.label;
+  }
+
+  /** Add a project to the open transaction's snapshot before its first change. */
+  private touchProject(projectId: string): void {
+    if (this.transactionSnapshot && !this.transactionSnapshot.has(projectId)) {
+      this.transactionSnapshot.set(projectId, this.captureSnapshot(projectId));
+    }
+  }
+
+  private captureSnapshot(projectId: string): ProjectSnapshot {
+    const tasks = projectId === this.activeProjectId ? this.tasks : (this.tasksByProject[projectId] || []);
+    const project = this.plugin.settings.projects?.find(p => p.id === projectId);
+    return {
+      tasks: new Map(tasks.map(t => [t.id, JSON.stringify(t)])),
+      order: tasks.map(t => t.id),
+      buckets: JSON.stringify(project?.buckets ?? null),
+    };
+  }
+
+  /** Diff the current state against the transaction's snapshot and push a history entry. */
+  private commitTransaction(): void {
+    const before = this.transactionSnapshot;
+    this.transactionSnapshot = null;
+    if (!before) return;
+
+    const changes: ProjectChange[] = [];
+    for (const [projectId, b] of before) {
+      const a = this.captureSnapshot(projectId);
+      const change: ProjectChange = { projectId, before: { tasks: {} }, after: { tasks: {} } };
+      let changed = false;
+
+      for (const id of new Set([...b.tasks.keys(), ...a.tasks.keys()])) {
+        const beforeJson = b.tasks.get(id);
+        const afterJson = a.tasks.get(id);
+        if (beforeJson === afterJson) continue;
+        change.before.tasks[id] = beforeJson ? JSON.parse(beforeJson) as PlannerTask : null;
+        change.after.tasks[id] = afterJson ? JSON.parse(afterJson) as PlannerTask : null;
+        changed = true;
+      }
+      if (b.order.join("\n") !== a.order.join("\n")) {
+        change.before.order = b.order;
+        change.after.order = a.order;
+        changed = true;
+      }
+      if (b.buckets !== a.buckets) {
+        change.before.buckets = b.buckets;
+        change.after.buckets = a.buckets;
+        changed = true;
+      }
+      if (changed) changes.push(change);
+    }
+
+    if (changes.length === 0) return;
+    this.undoStack.push({ label: this.transactionLabel, changes });
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  /** Restore one side of a history entry, persist it, and re-sync the affected task notes. */
+  private async applyHistoryEntry(entry: HistoryEntry, side: "before" | "after"): Promise<void> {
+    this.restoringHistory = true;
+    try {
+      for (const change of entry.changes) {
+        await this.restoreProjectState(change.projectId, change[side]);
+      }
+      this.updateProjectTimestamp();
+      await this.saveQuietly();
+    } finally {
+      this.restoringHistory = false;
+    }
+  }
+
+  private async restoreProjectState(projectId: string, state: ProjectChangeSide): Promise<void> {
+    const project = this.plugin.settings.projects?.find(p => p.id === projectId);
+    const current = projectId === this.activeProjectId ? this.tasks : (this.tasksByProject[projectId] || []);
+    const byId = new Map(current.map(t => [t.id, t]));
+
+    const removed: PlannerTask[] = [];
+    const restored: { task: PlannerTask; previousTitle?: string }[] = [];
+    for (const [id, snapshot] of Object.entries(state.tasks)) {
+      const existing = byId.get(id);
+      if (snapshot === null) {
+        if (existing) {
+          byId.delete(id);
+          removed.push(existing);
+        }
+        continue;
+      }
+      // Copy so the history entry stays pristine for later redo/undo
+      const task = JSON.parse(JSON.stringify(snapshot)) as PlannerTask;
+      byId.set(id, task);
+      restored.push({ task, previousTitle: existing?.title });
+    }
+
+    // Rebuild the array in the recorded order; anything not in it keeps its place at the end
+    const order = state.order ?? current.map(t => t.id);
+    const next: PlannerTask[] = [];
+    for (const id of order) {
+      const task = byId.get(id);
+      if (task) {
+        next.push(task);
+        byId.delete(id);
+      }
+    }
+    next.push(...byId.values());
+
+    this.tasksByProject[projectId] = next;
+    if (projectId === this.activeProjectId) {
+      this.tasks = next;
+      this.rebuildIndex();
+    }
+
+    if (state.buckets !== undefined && project) {
+      project.buckets = (JSON.parse(state.buckets) as BoardBucket[] | null) ?? undefined;
+    }
+
+    // Bring task notes back in line with the restored data
+    if (project && this.plugin.settings.enableMarkdownSync && this.plugin.settings.autoCreateTaskNotes) {
+      for (const task of removed) {
+        try {
+          await this.plugin.taskSync.deleteTaskMarkdown(task, project.name);
+        } catch (error) {
+          console.error("Failed to delete task note during undo/redo:", error);
+        }
+      }
+      for (const { task, previousTitle } of restored) {
+        try {
+          if (previousTitle !== undefined && previousTitle !== task.title) {
+            await this.plugin.taskSync.handleTaskRename(task, previousTitle, projectId);
+          } else {
+            await this.plugin.taskSync.syncTaskToMarkdown(task, projectId);
+          }
+        } catch (error) {
+          console.error("Failed to restore task note during undo/redo:", error);
+        }
+      }
+    }
+  }
+
   private updateProjectTimestamp(): void {
     const activeProject = this.plugin.settings.projects.find(
       p => p.id === this.plugin.settings.activeProjectId
@@ -1,8 +1,18 @@
+// What a status means for completion, roll-up and reporting, independent of its name
+export type StatusCategory = "not-started" | "active" | "blocked" | "done";
+
+// Task field the Board view groups its swimlanes by
+export type SwimlaneField = "priority" | "tag" | "parent" | "assignee";
+
+// What the Board view's columns are: buckets, or derived from a task field
+export type BoardGroupBy = "bucket" | "status" | "priority" | "due";
+
 // Status definition
 export interface PlannerStatus {
   id: string;
   name: string;
   color: string;
+  category?: StatusCategory; // unset on statuses saved before categories; inferred from the name
 }
 
 // Priority definition
@@ -19,6 +29,64 @@ export interface PlannerTag {
   color: string;
 }
 
+// Person who can be assigned to tasks
+export interface PlannerPerson {
+  id: string;
+  name: string;
+  color: string;
+  email?: string;
+}
+
+// Working-day calendar used for scheduling (per project)
+export interface WorkingCalendar {
+  workingDays: number[]; // Working weekdays (0 = Sunday … 6 = Saturday)
+  holidays: string[]; // Non-working dates (YYYY-MM-DD)
+  exceptions?: Record<string, boolean>; // Per-date overrides: YYYY-MM-DD → true (working) / false (non-working)
+}
+
+// Custom field defined per project (values live on tasks, keyed by field ID)
+export type CustomFieldType = "text" | "number" | "date" | "select" | "multiselect" | "checkbox" | "url";
+
+export interface CustomFieldDefinition {
+  id: string;
+  name: string; // Column label and frontmatter key
+  type: CustomFieldType;
+  options?: string[]; // Choices for select / multiselect
+}
+
+// text / url / select → string, date → YYYY-MM-DD, number → number,
+// checkbox → boolean, multiselect → string[]
+export type CustomFieldValue = string | number | boolean | string[];
+
+// View a saved view was saved from (and opens in)
+export type SavedViewKind = "grid" | "board" | "gantt" | "myday";
+
+// Filters a saved view restores; unset entries mean "no filter"
+export interface SavedViewFilters {
+  status?: string; // Status name or category filter value (Grid, Timeline)
+  priority?: string; // Priority name
+  search?: string;
+  fieldId?: string; // Custom field filter (Grid)
+  fieldQuery?: string;
+  showCompleted?: boolean; // My Tasks
+}
+
+// Named filter / sort / column / grouping preset of a project
+export interface SavedView {
+  id: string;
+  name: string;
+  view: SavedViewKind;
+  filters: SavedViewFilters;
+  sort?: { key: string; direction: "asc" | "desc" }; // Grid ("Manual" or "field:<id>")
+  columns?: string[]; // Grid: visible column keys
+  groupBy?: BoardGroupBy; // Board columns
+  swimlanes?: SwimlaneField; // Board swimlanes
+  myDayMode?: "today" | "week" | "assigned"; // My Tasks
+}
+
+// Everything of a saved view except its identity
+export type SavedViewState = Omit<SavedView, "id" | "name" | "view">;
+
 // For backwards compatibility
 export type TaskStatus = string;
 
@@ -29,6 +97,20 @@ export type DependencyType = "FS" | "SS" | "FF" | "SF";
 export interface TaskDependency {
   predecessorId: string;  // ID of the task that must be completed/started first
   type: DependencyType;   // FS = Finish-to-Start, SS = Start-to-Start, FF = Finish-to-Finish, SF = Start-to-Finish
+  lag?: number;           // Signed offset in days (positive = lag/delay, negative = lead/overlap)
+}
+
+// Recurrence frequency (RRULE FREQ subset)
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+// Recurrence rule for repeating tasks (RRULE-like subset)
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval?: number;      // Every N periods (default 1)
+  byWeekday?: number[];   // Weekly only: weekdays to repeat on (0 = Sunday … 6 = Saturday)
+  byMonthDay?: number;    // Monthly/yearly: day the series is anchored on while clamped to shorter months (31 → Feb 28)
+  until?: string;         // YYYY-MM-DD — no occurrences after this date
+  count?: number;         // Occurrences left in the series, including this one
 }
 
 // Task link/attachment definition (similar to Microsoft Planner)
@@ -46,6 +128,23 @@ export interface PlannerSubtask {
   completed: boolean;
 }
 
+// One block of time worked on a task (manual entry or a stopped timer)
+export interface TimeLogEntry {
+  id: string;
+  start: string; // ISO date-time
+  end: string; // ISO date-time
+  duration: number; // Hours (may differ from end − start for manual entries)
+  note?: string;
+  personId?: string; // Who logged it (PlannerPerson id)
+}
+
+// Timer currently running on a task (at most one; stored in data.json)
+export interface RunningTimer {
+  taskId: string;
+  projectId: string;
+  start: string; // ISO date-time
+}
+
 // Main grid task (can be parent or child)
 export interface PlannerTask {
   id: string;
@@ -62,6 +161,7 @@ export interface PlannerTask {
   bucketId?: string; // Board view bucket assignment (independent of status)
   startDate?: string; // YYYY-MM-DD format
   dueDate?: string; // YYYY-MM-DD format
+  milestone?: boolean; // Zero-duration checkpoint: one date (startDate = dueDate), drawn as a diamond
   createdDate?: string; // YYYY-MM-DD format - when task was created
   lastModifiedDate?: string; // YYYY-MM-DD format - when task was last updated
   description?: string;
@@ -69,9 +169,15 @@ export interface PlannerTask {
   // Tags/Labels
   tags?: string[]; // array of tag IDs
 
+  // Assignees
+  assignees?: string[]; // array of person IDs
+
   // Task dependencies (project management)
   dependencies?: TaskDependency[];
 
+  // Repeat rule — completing the task creates the next occurrence
+  recurrence?: TaskRecurrence;
+
   // Links/Attachments (Microsoft Planner style)
   links?: TaskLink[];
 
@@ -85,10 +191,31 @@ export interface PlannerTask {
   effortCompleted?: number; // Completed hours
   effortRemaining?: number; // Remaining hours
   percentComplete?: number; // 0–100 completion percentage
+  timeLog?: TimeLogEntry[]; // Logged time; each entry also adds to effortCompleted
 
   // Cost tracking
   costEstimate?: number; // Planned/budgeted cost for this task
   costActual?: number; // Actual cost incurred so far
   costType?: "fixed" | "hourly"; // Fixed amount or derived from effort × rate
   hourlyRate?: number; // Per-task rate override (uses project default if omitted)
+
+  // Project-defined custom fields: field ID → value
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+// Snapshot of one task's schedule, effort and cost when a baseline was saved
+export interface BaselineTask {
+  startDate?: string; // YYYY-MM-DD
+  dueDate?: string; // YYYY-MM-DD
+  effortCompleted?: number;
+  effortRemaining?: number;
+  cost?: number; // Estimated cost at the time (fixed estimate or effort × rate)
+}
+
+// Named baseline of a project (stored in data.json under baselinesByProject)
+export interface ProjectBaseline {
+  id: string;
+  name: string;
+  createdDate: string; // ISO timestamp
+  tasks: Record<string, BaselineTask>; // task ID → snapshot
 }
@@ -1,13 +1,41 @@
 import { ItemView, WorkspaceLeaf, Menu, setIcon, MarkdownRenderer, Notice, TFile } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
-import type { PlannerTask } from "../types";
+import type { BoardGroupBy, PlannerTask, SavedView, SavedViewState, SwimlaneField } from "../types";
 import { TaskStore } from "../stores/taskStore";
 import type { BoardBucket } from "../settings";
-import { renderPlannerHeader } from "./Header";
+import { renderPlannerHeader, type SavedViewHost } from "./Header";
+import { renderTimerButton } from "./TimerButton";
+import { getTaskAssignees, renderAvatarStack } from "../utils/peopleUtils";
+import { getProjectPriorities, getProjectStatuses, getProjectTags } from "../utils/projectLists";
+import { getCompletionStatus, isDoneStatus } from "../utils/statusCategories";
+import { checkWipLimit, countWipTasks, isOverWipLimit, isTransitionAllowed } from "../utils/workflowRules";
+import { WipLimitModal } from "./WipLimitModal";
+import {
+    SWIMLANE_FIELD_LABELS,
+    getSwimlanes,
+    getTaskLaneKey,
+    moveTaskToLane,
+    type Swimlane,
+    type SwimlaneContext,
+} from "../utils/swimlanes";
+import {
+    BOARD_GROUP_BY_LABELS,
+    getBoardColumns,
+    getTaskColumnKey,
+    moveTaskToColumn,
+    type BoardColumn,
+    type BoardColumnContext,
+} from "../utils/boardColumns";
+import { toLocalDateStr } from "../utils/timeTracking";
+import { compileFilterQuery, getFilterQueryContext, type FilterQuery } from "../utils/filterQuery";
+import { attachFilterQueryInput } from "./FilterQueryInput";
 
 export const VIEW_TYPE_BOARD = "project-planner-board-view";
 
-export class BoardView extends ItemView {
+// Column key for tasks without a bucketId
+const UNASSIGNED_COLUMN = "unassigned";
+
+export class BoardView extends ItemView implements SavedViewHost {
     private plugin: ProjectPlannerPlugin;
     public taskStore: TaskStore;
     private unsubscribe: (() => void) | null = null;
@@ -18,6 +46,14 @@ export class BoardView extends ItemView {
     private buckets: BoardBucket[] = [];
     private completedSectionsCollapsed: { [bucketId: string]: boolean } = {};
 
+    // Column grouping and swimlanes (per-project)
+    readonly kind = "board";
+    activeSavedViewId: string | null = null;
+    private groupBy: BoardGroupBy = "bucket";
+    private swimlaneField: SwimlaneField | null = null;
+    private collapsedSwimlanes: Set<string> = new Set();
+    private swimlanes: Swimlane[] = []; // Lanes of the last render
+
     // Filters
     private currentFilters = {
         priority: "All",
@@ -26,6 +62,7 @@ export class BoardView extends ItemView {
 
     // Scroll preservation
     private savedBoardScrollLeft: number | null = null;
+    private savedBoardScrollTop: number | null = null; // Swimlane layout scrolls vertically
     private savedColumnScrollTops: Map<string, number> = new Map();
 
     // Render guard: prevents overlapping async renders that corrupt scroll state
@@ -54,7 +91,11 @@ export class BoardView extends ItemView {
 
     async onOpen() {
         await this.taskStore.ensureLoaded();
-        this.unsubscribe = this.taskStore.subscribe(() => this.render());
+        this.unsubscribe = this.taskStore.subscribe(() => {
+            // Buckets can change underneath us (e.g. undoing a bucket delete)
+            this.refreshBucketsFromProject();
+            this.render();
+        });
         await this.initializeBuckets();
         this.render();
     }
@@ -78,17 +119,21 @@ export class BoardView extends ItemView {
         return tasks.filter(t => !this.isParentTask(t.id, allTasks));
     }
 
-    private matchesFilters(task: PlannerTask): boolean {
+    private matchesFilters(task: PlannerTask, query: FilterQuery): boolean {
         if (this.currentFilters.priority !== "All" && task.priority !== this.currentFilters.priority) {
             return false;
         }
-        if (this.currentFilters.search) {
-            const search = this.currentFilters.search.toLowerCase();
-            if (!task.title.toLowerCase().includes(search)) {
-                return false;
-            }
+        return query.matches(task);
+    }
+
+    /** Re-read the active project's saved bucket layout, if it has one. */
+    private refreshBucketsFromProject() {
+        const activeProject = (this.plugin.settings.projects || []).find(
+            p => p.id === this.plugin.settings.activeProjectId
+        );
+        if (activeProject?.buckets && activeProject.buckets.length > 0) {
+            this.buckets = [...activeProject.buckets];
         }
-        return true;
     }
 
     private async initializeBuckets() {
@@ -122,6 +167,11 @@ export class BoardView extends ItemView {
             // Reset collapsed state for new project
             this.completedSectionsCollapsed = {};
         }
+
+        // Load column grouping and swimlanes (per-project)
+        this.groupBy = activeProject?.boardGroupBy ?? "bucket";
+        this.swimlaneField = activeProject?.boardSwimlanes ?? null;
+        this.collapsedSwimlanes = new Set(activeProject?.collapsedSwimlanes ?? []);
     }
 
     async render() {
@@ -157,6 +207,7 @@ export class BoardView extends ItemView {
         const existingBoard = container.querySelector('.planner-board-container') as HTMLElement;
         if (existingBoard && this.savedBoardScrollLeft === null) {
             this.savedBoardScrollLeft = existingBoard.scrollLeft;
+            this.savedBoardScrollTop = existingBoard.scrollTop;
             this.savedColumnScrollTops.clear();
             existingBoard.querySelectorAll('.planner-board-column-content').forEach((col: Element) => {
                 const bucketId = (col as HTMLElement).dataset.bucketId;
@@ -173,7 +224,9 @@ export class BoardView extends ItemView {
         // Shared header
         renderPlannerHeader(wrapper, this.plugin, {
             active: "board",
+            savedViewHost: this,
             onProjectChange: async () => {
+                this.activeSavedViewId = null;
                 await this.taskStore.load();
                 await this.initializeBuckets();
                 this.render();
@@ -188,7 +241,8 @@ export class BoardView extends ItemView {
         const priorityFilterGroup = filters.createDiv("planner-filter-group");
         priorityFilterGroup.createSpan({ cls: "planner-filter-label", text: "Priority:" });
         const priorityFilter = priorityFilterGroup.createEl("select", { cls: "planner-filter-select" });
-        ["All", "Low", "Medium", "High", "Critical"].forEach(priority => {
+        const priorityNames = getProjectPriorities(this.plugin.settings).map(p => p.name);
+        ["All", ...priorityNames].forEach(priority => {
             const option = priorityFilter.createEl("option", { text: priority, value: priority });
             if (priority === this.currentFilters.priority) option.selected = true;
         });
@@ -197,6 +251,37 @@ export class BoardView extends ItemView {
             this.render();
         };
 
+        // Column grouping
+        const groupByGroup = filters.createDiv("planner-filter-group");
+        groupByGroup.createSpan({ cls: "planner-filter-label", text: "Group by:" });
+        const groupBySelect = groupByGroup.createEl("select", { cls: "planner-filter-select" });
+        for (const [groupBy, label] of Object.entries(BOARD_GROUP_BY_LABELS)) {
+            const option = groupBySelect.createEl("option", { text: label, value: groupBy });
+            if (groupBy === this.groupBy) option.selected = true;
+        }
+        groupBySelect.onchange = async () => {
+            this.groupBy = groupBySelect.value as BoardGroupBy;
+            await this.saveBoardLayout();
+            this.render();
+        };
+
+        // Swimlane grouping
+        const swimlaneGroup = filters.createDiv("planner-filter-group");
+        swimlaneGroup.createSpan({ cls: "planner-filter-label", text: "Swimlanes:" });
+        const swimlaneSelect = swimlaneGroup.createEl("select", { cls: "planner-filter-select" });
+        swimlaneSelect.createEl("option", { text: "None", value: "" });
+        for (const [field, label] of Object.entries(SWIMLANE_FIELD_LABELS)) {
+            const option = swimlaneSelect.createEl("option", { text: label, value: field });
+            if (field === this.swimlaneField) option.selected = true;
+        }
+        swimlaneSelect.onchange = async () => {
+            this.swimlaneField = (swimlaneSelect.value as SwimlaneField) || null;
+            // Lane keys only mean something for the field they were saved with
+            this.collapsedSwimlanes.clear();
+            await this.saveBoardLayout();
+            this.render();
+        };
+
         // Search filter
         const searchInput = filters.createEl("input", {
             type: "text",
@@ -204,6 +289,9 @@ export class BoardView extends ItemView {
             cls: "planner-filter-search"
         });
         searchInput.value = this.currentFilters.search;
+        attachFilterQueryInput(searchInput, () =>
+            getFilterQueryContext(this.plugin.settings, this.taskStore.getAll())
+        );
         searchInput.oninput = () => {
             this.currentFilters.search = searchInput.value;
             // Don't call render() here - it would recreate the input and lose focus
@@ -251,9 +339,11 @@ export class BoardView extends ItemView {
         // Only the LATEST render's callback fires — stale renders are skipped.
         if (this.savedBoardScrollLeft !== null || this.savedColumnScrollTops.size > 0) {
             const scrollLeft = this.savedBoardScrollLeft;
+            const scrollTop = this.savedBoardScrollTop;
             const columnScrolls = new Map(this.savedColumnScrollTops);
             // Clear saved values so a queued re-render doesn't read stale 0s
             this.savedBoardScrollLeft = null;
+            this.savedBoardScrollTop = null;
             this.savedColumnScrollTops.clear();
 
             requestAnimationFrame(() => {
@@ -263,6 +353,9 @@ export class BoardView extends ItemView {
                     if (boardEl && scrollLeft !== null) {
                         boardEl.scrollLeft = scrollLeft;
                     }
+                    if (boardEl && scrollTop !== null) {
+                        boardEl.scrollTop = scrollTop;
+                    }
                     if (columnScrolls.size > 0) {
                         boardEl?.querySelectorAll('.planner-board-column-content').forEach((col: Element) => {
                             const bucketId = (col as HTMLElement).dataset.bucketId;
@@ -286,99 +379,257 @@ export class BoardView extends ItemView {
         let tasks = this.filterLeafTasks(allTasks);
 
         // Apply user filters
-        tasks = tasks.filter(t => this.matchesFilters(t));
+        const query = compileFilterQuery(this.currentFilters.search, getFilterQueryContext(this.plugin.settings, allTasks));
+        tasks = tasks.filter(t => this.matchesFilters(t, query));
+
+        const columns = this.getColumns();
 
-        // Render "Unassigned" bucket first for tasks without bucketId
-        await this.renderUnassignedBucket(boardContainer, tasks);
+        if (this.swimlaneField) {
+            await this.renderSwimlanes(boardContainer, tasks, columns, this.swimlaneField);
+            return;
+        }
 
-        // Render each bucket/column
-        for (const bucket of this.buckets) {
+        // Render each column: "Unassigned" then the buckets, or the status /
+        // priority / due-date columns
+        for (const col of columns) {
             const column = boardContainer.createDiv("planner-board-column");
-            column.setAttribute("data-bucket-id", bucket.id);
-
-            // Column header
-            const columnHeader = column.createDiv("planner-board-column-header");
-            columnHeader.draggable = true;
-            columnHeader.setAttribute("data-bucket-id", bucket.id);
-
-            // Track if background is light or dark for button styling
-            let isDarkBackground = false;
-
-            // Apply bucket color if set
-            if (bucket.color) {
-                columnHeader.style.backgroundColor = bucket.color;
-                const contrastColor = this.getContrastColor(bucket.color);
-                columnHeader.style.color = contrastColor;
-                isDarkBackground = contrastColor === "#ffffff";
-            }
+            column.setAttribute("data-bucket-id", col.key);
 
-            // Setup bucket drag events
-            this.setupBucketDrag(columnHeader, column, bucket);
+            const columnTasks = tasks.filter((t) => this.getTaskColumn(t) === col.key);
+            this.renderColumnHeader(column, col, columnTasks);
+            await this.renderColumnContent(column, col, columnTasks);
+        }
 
-            const headerTitle = columnHeader.createDiv("planner-board-column-title");
-            
-            // Create editable bucket name (same pattern as grid view task titles)
-            this.createEditableBucketName(headerTitle, bucket);
+        // Add "New Bucket" column at the end
+        if (this.groupBy === "bucket") {
+            this.renderAddBucketColumn(boardContainer);
+        }
+    }
 
-            // 3-dots menu button (hover-visible)
-            const bucketMenuBtn = columnHeader.createEl("button", {
-                cls: "planner-bucket-menu",
-                text: "⋯",
-            });
-            // Set hover color on the button based on bucket background
-            if (bucket.color) {
-                bucketMenuBtn.style.setProperty('--hover-color', isDarkBackground ? 'rgba(255, 255, 255, 0.12)' : 'rgba(0, 0, 0, 0.12)');
+    private getColumnContext(): BoardColumnContext {
+        const settings = this.plugin.settings;
+        return {
+            statuses: getProjectStatuses(settings),
+            priorities: getProjectPriorities(settings),
+            today: toLocalDateStr(new Date()),
+        };
+    }
+
+    /** Columns of the current grouping; for buckets, "Unassigned" comes first. */
+    private getColumns(): BoardColumn[] {
+        if (this.groupBy === "bucket") {
+            return [
+                { key: UNASSIGNED_COLUMN, label: "Unassigned" },
+                ...this.buckets.map((b) => ({ key: b.id, label: b.name, color: b.color })),
+            ];
+        }
+        return getBoardColumns(this.groupBy, this.getColumnContext());
+    }
+
+    /** Key of the column a task is shown in. */
+    private getTaskColumn(task: PlannerTask): string {
+        if (this.groupBy === "bucket") return task.bucketId || UNASSIGNED_COLUMN;
+        return getTaskColumnKey(this.groupBy, task, this.getColumnContext());
+    }
+
+    /**
+     * Swimlane layout: column headers once at the top, then one collapsible
+     * row per lane with a cell per column. Cells are drop zones for both
+     * their column and their lane.
+     */
+    private async renderSwimlanes(
+        boardContainer: HTMLElement,
+        tasks: PlannerTask[],
+        columns: BoardColumn[],
+        field: SwimlaneField
+    ) {
+        boardContainer.classList.add("planner-board-swimlanes");
+        this.swimlanes = getSwimlanes(field, this.getSwimlaneContext());
+        const inColumn = (list: PlannerTask[], col: BoardColumn) =>
+            list.filter((t) => this.getTaskColumn(t) === col.key);
+
+        // Column headers
+        const headerRow = boardContainer.createDiv("planner-board-lane-row planner-board-lane-headers");
+        for (const col of columns) {
+            const column = headerRow.createDiv("planner-board-column");
+            column.setAttribute("data-bucket-id", col.key);
+            this.renderColumnHeader(column, col, inColumn(tasks, col));
+        }
+        if (this.groupBy === "bucket") {
+            this.renderAddBucketColumn(headerRow);
+        }
+
+        for (const lane of this.swimlanes) {
+            const laneTasks = tasks.filter((t) => getTaskLaneKey(field, t, this.swimlanes) === lane.key);
+            const isCollapsed = this.collapsedSwimlanes.has(lane.key);
+
+            const laneEl = boardContainer.createDiv("planner-board-lane");
+            laneEl.setAttribute("data-lane-key", lane.key);
+
+            const laneHeader = laneEl.createDiv("planner-board-lane-header");
+            const toggleIcon = laneHeader.createSpan("planner-board-lane-toggle");
+            toggleIcon.textContent = isCollapsed ? "▶" : "▼";
+            if (lane.color) {
+                const swatch = laneHeader.createSpan("planner-board-lane-swatch");
+                swatch.style.backgroundColor = lane.color;
             }
-            bucketMenuBtn.onclick = (evt) => {
-                evt.stopPropagation();
-                this.showBucketContextMenu(evt, bucket, columnHeader);
-            };
+            laneHeader.createSpan({ cls: "planner-board-lane-label", text: lane.label });
+            laneHeader.createSpan({ cls: "planner-board-lane-count", text: `${laneTasks.length}` });
 
-            // Context menu for bucket actions (right-click)
-            columnHeader.oncontextmenu = (e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                this.showBucketContextMenu(e, bucket, columnHeader);
+            laneHeader.onclick = async () => {
+                if (isCollapsed) this.collapsedSwimlanes.delete(lane.key);
+                else this.collapsedSwimlanes.add(lane.key);
+                await this.saveBoardLayout();
+                this.render();
             };
 
-            // Task count - only leaf tasks
-            const bucketTasks = tasks.filter((t) => t.bucketId === bucket.id);
-            const taskCount = columnHeader.createDiv("planner-board-column-count");
+            // Dropping on the lane header (e.g. of a collapsed lane) only changes the lane
+            this.setupDropZone(laneHeader, null, lane.key);
+
+            if (isCollapsed) continue;
+
+            const row = laneEl.createDiv("planner-board-lane-row");
+            for (const col of columns) {
+                const cell = row.createDiv("planner-board-column planner-board-lane-cell");
+                cell.setAttribute("data-bucket-id", col.key);
+                await this.renderColumnContent(cell, col, inColumn(laneTasks, col), lane.key);
+            }
+        }
+    }
+
+    /**
+     * Column header: the editable bucket header (or the Unassigned one) when
+     * grouping by bucket, otherwise a read-only header for the derived column.
+     */
+    private renderColumnHeader(column: HTMLElement, col: BoardColumn, columnTasks: PlannerTask[]) {
+        if (this.groupBy === "bucket") {
+            const bucket = this.buckets.find((b) => b.id === col.key);
+            if (bucket) {
+                this.renderBucketHeader(column, bucket, columnTasks);
+            } else {
+                column.classList.add("planner-board-column-unassigned");
+                this.renderUnassignedHeader(column, columnTasks);
+            }
+            return;
+        }
+
+        const columnHeader = column.createDiv("planner-board-column-header");
+        if (col.color) {
+            columnHeader.style.borderBottomColor = col.color;
+        }
+        const headerTitle = columnHeader.createDiv({ cls: "planner-board-column-title", text: col.label });
+        if (col.locked) {
+            headerTitle.title = "Tasks can't be moved into this column";
+        }
+        const taskCount = columnHeader.createDiv("planner-board-column-count");
+        taskCount.textContent = `${columnTasks.length}`;
+    }
+
+    private renderBucketHeader(column: HTMLElement, bucket: BoardBucket, bucketTasks: PlannerTask[]) {
+        // Column header
+        const columnHeader = column.createDiv("planner-board-column-header");
+        columnHeader.draggable = true;
+        columnHeader.setAttribute("data-bucket-id", bucket.id);
+
+        // Track if background is light or dark for button styling
+        let isDarkBackground = false;
+
+        // Apply bucket color if set
+        if (bucket.color) {
+            columnHeader.style.backgroundColor = bucket.color;
+            const contrastColor = this.getContrastColor(bucket.color);
+            columnHeader.style.color = contrastColor;
+            isDarkBackground = contrastColor === "#ffffff";
+        }
+
+        // Setup bucket drag events
+        this.setupBucketDrag(columnHeader, column, bucket);
+
+        const headerTitle = columnHeader.createDiv("planner-board-column-title");
+        
+        // Create editable bucket name (same pattern as grid view task titles)
+        this.createEditableBucketName(headerTitle, bucket);
+
+        // 3-dots menu button (hover-visible)
+        const bucketMenuBtn = columnHeader.createEl("button", {
+            cls: "planner-bucket-menu",
+            text: "⋯",
+        });
+        // Set hover color on the button based on bucket background
+        if (bucket.color) {
+            bucketMenuBtn.style.setProperty('--hover-color', isDarkBackground ? 'rgba(255, 255, 255, 0.12)' : 'rgba(0, 0, 0, 0.12)');
+        }
+        bucketMenuBtn.onclick = (evt) => {
+            evt.stopPropagation();
+            this.showBucketContextMenu(evt, bucket, columnHeader);
+        };
+
+        // Context menu for bucket actions (right-click)
+        columnHeader.oncontextmenu = (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.showBucketContextMenu(e, bucket, columnHeader);
+        };
+
+        // Task count - only leaf tasks
+        const taskCount = columnHeader.createDiv("planner-board-column-count");
+        if (bucket.wipLimit !== undefined) {
+            // WIP counts open tasks regardless of the active filters
+            const openCount = countWipTasks(this.filterLeafTasks(this.taskStore.getAll()), bucket.id);
+            taskCount.textContent = `${openCount} / ${bucket.wipLimit}`;
+            taskCount.title = `${openCount} open of ${bucket.wipLimit} allowed`;
+            if (isOverWipLimit(bucket, openCount)) {
+                taskCount.classList.add("planner-board-column-count-over");
+            }
+        } else {
             taskCount.textContent = `${bucketTasks.length}`;
+        }
+    }
 
-            // Column content (cards container)
-            const columnContent = column.createDiv("planner-board-column-content");
-            columnContent.setAttribute("data-bucket-id", bucket.id);
+    /**
+     * Cards container of a column (or of one lane's cell in it): add-task
+     * button, open cards, then the collapsible completed section. `laneKey`
+     * is the swimlane the cell belongs to, if any.
+     */
+    private async renderColumnContent(
+        column: HTMLElement,
+        col: BoardColumn,
+        columnTasks: PlannerTask[],
+        laneKey: string | null = null
+    ) {
+        const columnContent = column.createDiv("planner-board-column-content");
+        columnContent.setAttribute("data-bucket-id", col.key);
 
+        // Locked columns (e.g. Overdue) only list tasks
+        if (!col.locked) {
             // Enable drop zone
-            this.setupDropZone(columnContent, bucket);
+            this.setupDropZone(columnContent, col.key, laneKey);
 
             // Add task button at the top (MS Planner style)
             const addTaskBtn = columnContent.createDiv("planner-board-add-card");
             addTaskBtn.textContent = "+ Add task";
             addTaskBtn.onclick = async () => {
-                const newTask = await this.taskStore.addTask("New Task");
-                await this.taskStore.updateTask(newTask.id, { bucketId: bucket.id });
+                await this.taskStore.transaction("Add task", async () => {
+                    const newTask = await this.taskStore.addTask("New Task");
+                    await this.moveTaskToCell(newTask, col.key, laneKey);
+                });
                 // No explicit render() — TaskStore.save() → emit() already re-renders via subscription
             };
+        }
 
-            // Separate incomplete and completed tasks
-            const incompleteTasks = bucketTasks.filter(t => !t.completed);
-            const completedTasks = bucketTasks.filter(t => t.completed);
-
-            // Render incomplete task cards
-            for (const task of incompleteTasks) {
-                await this.renderCard(columnContent, task);
-            }
+        // Separate incomplete and completed tasks
+        const incompleteTasks = columnTasks.filter(t => !t.completed);
+        const completedTasks = columnTasks.filter(t => t.completed);
 
-            // Render completed section if there are completed tasks
-            if (completedTasks.length > 0) {
-                await this.renderCompletedSection(columnContent, completedTasks, bucket.id);
-            }
+        // Render incomplete task cards
+        for (const task of incompleteTasks) {
+            await this.renderCard(columnContent, task);
         }
 
-        // Add "New Bucket" column at the end
-        this.renderAddBucketColumn(boardContainer);
+        // Render completed section if there are completed tasks
+        if (completedTasks.length > 0) {
+            await this.renderCompletedSection(columnContent, completedTasks, col.key);
+        }
     }
 
     private renderAddBucketColumn(boardContainer: HTMLElement) {
@@ -471,31 +722,35 @@ export class BoardView extends ItemView {
 
             if (!draggedTask || !targetTask) return;
 
-            // Update bucket if moving between buckets
-            const targetBucketId = targetTask.bucketId || undefined;
-            if (draggedTask.bucketId !== targetBucketId) {
-                await this.taskStore.updateTask(this.draggedTaskId, { bucketId: targetBucketId });
-            }
-
-            // Reorder tasks
-            const allTasks = this.taskStore.getAll();
-            const taskIds = allTasks.map(t => t.id);
-
-            // Remove dragged task from its current position
-            const draggedIndex = taskIds.indexOf(this.draggedTaskId);
-            if (draggedIndex !== -1) {
-                taskIds.splice(draggedIndex, 1);
-            }
+            const draggedTaskId = this.draggedTaskId;
+            const dropTargetCardId = this.dropTargetCardId;
+            await this.taskStore.transaction("Move task", async () => {
+                // Move into the target card's column and swimlane
+                const targetLaneKey = this.swimlaneField
+                    ? getTaskLaneKey(this.swimlaneField, targetTask, this.swimlanes)
+                    : null;
+                if (!(await this.moveTaskToCell(draggedTask, this.getTaskColumn(targetTask), targetLaneKey))) return;
+
+                // Reorder tasks
+                const allTasks = this.taskStore.getAll();
+                const taskIds = allTasks.map(t => t.id);
+
+                // Remove dragged task from its current position
+                const draggedIndex = taskIds.indexOf(draggedTaskId);
+                if (draggedIndex !== -1) {
+                    taskIds.splice(draggedIndex, 1);
+                }
 
-            // Find target position and insert
-            const targetIndex = taskIds.indexOf(this.dropTargetCardId);
-            if (targetIndex !== -1) {
-                const insertIndex = this.dropPosition === "before" ? targetIndex : targetIndex + 1;
-                taskIds.splice(insertIndex, 0, this.draggedTaskId);
-            }
+                // Find target position and insert
+                const targetIndex = taskIds.indexOf(dropTargetCardId);
+                if (targetIndex !== -1) {
+                    const insertIndex = this.dropPosition === "before" ? targetIndex : targetIndex + 1;
+                    taskIds.splice(insertIndex, 0, draggedTaskId);
+                }
 
-            // Update order
-            await this.taskStore.setOrder(taskIds);
+                // Update order
+                await this.taskStore.setOrder(taskIds);
+            });
 
             this.dropTargetCardId = null;
             this.dropPosition = null;
@@ -524,7 +779,7 @@ export class BoardView extends ItemView {
         if (task.tags && task.tags.length > 0) {
             const tagsRow = card.createDiv("planner-board-card-tags-top");
             const settings = this.plugin.settings;
-            const availableTags = settings.availableTags || [];
+            const availableTags = getProjectTags(settings);
 
             task.tags.forEach((tagId) => {
                 const tag = availableTags.find(t => t.id === tagId);
@@ -550,11 +805,18 @@ export class BoardView extends ItemView {
             const isDone = !task.completed;
             await this.taskStore.updateTask(task.id, {
                 completed: isDone,
-                status: isDone ? "Completed" : "Not Started",
+                status: getCompletionStatus(getProjectStatuses(this.plugin.settings), isDone),
             });
             // No explicit render() — TaskStore.save() → emit() already re-renders via subscription
         };
 
+        // Milestone marker
+        if (task.milestone) {
+            const milestoneIcon = cardHeader.createSpan({ cls: "planner-milestone-icon" });
+            setIcon(milestoneIcon, "diamond");
+            milestoneIcon.setAttribute("title", "Milestone");
+        }
+
         // Title (inline with checkbox)
         const title = cardHeader.createDiv("planner-board-card-title");
         title.textContent = task.title;
@@ -562,6 +824,9 @@ export class BoardView extends ItemView {
             title.classList.add("planner-task-completed");
         }
 
+        // Start/stop timer
+        renderTimerButton(cardHeader, this.plugin, task);
+
         // Three-dot menu button
         const menuBtn = cardHeader.createEl("button", {
             cls: "planner-board-card-menu",
@@ -626,7 +891,7 @@ export class BoardView extends ItemView {
             const today = new Date();
             today.setHours(0, 0, 0, 0);
 
-            const isOverdue = date < today && task.status !== "Completed";
+            const isOverdue = date < today && !isDoneStatus(getProjectStatuses(this.plugin.settings), task.status);
             const isToday = date.toDateString() === today.toDateString();
 
             if (isOverdue) {
@@ -686,6 +951,13 @@ export class BoardView extends ItemView {
             linksIcon.textContent = "📎";
             linksIcon.title = `${task.links.length} links`;
         }
+
+        // Assignee avatars (right-aligned)
+        const assignees = getTaskAssignees(task, this.plugin.settings.availablePeople || []);
+        if (assignees.length > 0) {
+            const avatars = renderAvatarStack(footer, assignees);
+            avatars.classList.add("planner-board-card-assignees");
+        }
     }
 
     private showCardMenu(task: PlannerTask, evt: MouseEvent) {
@@ -810,53 +1082,147 @@ export class BoardView extends ItemView {
         }
     }
 
-    private setupDropZone(columnContent: HTMLElement, bucket: BoardBucket) {
-        columnContent.ondragover = (e) => {
+    private getSwimlaneContext(): SwimlaneContext {
+        const settings = this.plugin.settings;
+        return {
+            priorities: getProjectPriorities(settings),
+            tags: getProjectTags(settings),
+            people: settings.availablePeople || [],
+            tasks: this.taskStore.getAll(),
+        };
+    }
+
+    private async saveBoardLayout() {
+        const settings = this.plugin.settings;
+        const activeProjectId = settings.activeProjectId;
+        const projects = settings.projects || [];
+        const activeProject = projects.find((p) => p.id === activeProjectId);
+
+        if (activeProject) {
+            activeProject.boardGroupBy = this.groupBy === "bucket" ? undefined : this.groupBy;
+            activeProject.boardSwimlanes = this.swimlaneField ?? undefined;
+            activeProject.collapsedSwimlanes = this.collapsedSwimlanes.size > 0 ? [...this.collapsedSwimlanes] : undefined;
+            await this.plugin.saveSettings();
+        }
+    }
+
+    captureSavedView(): SavedViewState {
+        return {
+            filters: {
+                priority: this.currentFilters.priority !== "All" ? this.currentFilters.priority : undefined,
+                search: this.currentFilters.search,
+            },
+            groupBy: this.groupBy,
+            swimlanes: this.swimlaneField ?? undefined,
+        };
+    }
+
+    async applySavedView(view: SavedView) {
+        this.currentFilters.priority = view.filters.priority ?? "All";
+        this.currentFilters.search = view.filters.search ?? "";
+        this.groupBy = view.groupBy ?? "bucket";
+        if ((view.swimlanes ?? null) !== this.swimlaneField) {
+            this.swimlaneField = view.swimlanes ?? null;
+            this.collapsedSwimlanes.clear();
+        }
+        this.activeSavedViewId = view.id;
+        await this.saveBoardLayout();
+        this.render();
+    }
+
+    /**
+     * Make an element a drop target for cards. `columnKey` / `laneKey` are
+     * the column and swimlane a drop moves the task into; `null` keeps the
+     * task's current one.
+     */
+    private setupDropZone(dropZone: HTMLElement, columnKey: string | null, laneKey: string | null = null) {
+        dropZone.ondragover = (e) => {
             e.preventDefault();
             e.dataTransfer!.dropEffect = "move";
-            columnContent.classList.add("planner-board-column-dragover");
+            dropZone.classList.add("planner-board-column-dragover");
         };
 
-        columnContent.ondragleave = () => {
-            columnContent.classList.remove("planner-board-column-dragover");
+        dropZone.ondragleave = () => {
+            dropZone.classList.remove("planner-board-column-dragover");
         };
 
-        columnContent.ondrop = async (e) => {
+        dropZone.ondrop = async (e) => {
             e.preventDefault();
-            columnContent.classList.remove("planner-board-column-dragover");
+            dropZone.classList.remove("planner-board-column-dragover");
 
             if (!this.draggedTaskId) return;
 
-            // Update task bucket
-            if (bucket.id === "unassigned") {
-                // Remove bucketId to move to unassigned
-                await this.taskStore.updateTask(this.draggedTaskId, {
-                    bucketId: undefined,
-                });
-            } else {
-                await this.taskStore.updateTask(this.draggedTaskId, {
-                    bucketId: bucket.id,
-                });
-            }
+            const task = this.taskStore.getTaskById(this.draggedTaskId);
+            if (!task) return;
 
+            await this.moveTaskToCell(task, columnKey, laneKey);
             // No explicit render() — TaskStore.save() → emit() already re-renders via subscription
         };
     }
 
-    private async renderUnassignedBucket(boardContainer: HTMLElement, tasks: PlannerTask[]) {
-        // Filter tasks without bucketId (tasks are already filtered to exclude parents)
-        const unassignedTasks = tasks.filter((t) => !t.bucketId);
+    /**
+     * Move a task into a column and/or swimlane (`null` keeps the current
+     * one). Bucket columns set bucketId and apply the bucket's WIP limit;
+     * status, priority and due-date columns set that field. Returns false
+     * when the move was refused (WIP limit or workflow rules).
+     */
+    private async moveTaskToCell(task: PlannerTask, columnKey: string | null, laneKey: string | null): Promise<boolean> {
+        const update: Partial<PlannerTask> = {};
+
+        if (columnKey !== null && columnKey !== this.getTaskColumn(task)) {
+            if (this.groupBy === "bucket") {
+                // Unassigned column: remove bucketId
+                const bucket = this.buckets.find((b) => b.id === columnKey);
+
+                // WIP limit: completed tasks don't count towards it
+                if (bucket && !task.completed) {
+                    const openCount = countWipTasks(this.filterLeafTasks(this.taskStore.getAll()), bucket.id);
+                    const check = checkWipLimit(bucket, openCount);
+                    if (check === "block") {
+                        new Notice(`"${bucket.name}" is at its WIP limit of ${bucket.wipLimit}. Finish or move a task first.`);
+                        return false;
+                    }
+                    if (check === "warn") {
+                        new Notice(`"${bucket.name}" is now over its WIP limit of ${bucket.wipLimit}.`);
+                    }
+                }
+                update.bucketId = bucket?.id;
+            } else {
+                const change = moveTaskToColumn(this.groupBy, columnKey, this.getColumnContext());
+                if (!change) {
+                    const label = this.getColumns().find((c) => c.key === columnKey)?.label ?? columnKey;
+                    new Notice(`Tasks can't be moved into "${label}".`);
+                    return false;
+                }
+                Object.assign(update, change);
+            }
+        }
 
-        // Get custom name from settings
-        const settings = this.plugin.settings;
-        const activeProjectId = settings.activeProjectId;
-        const projects = settings.projects || [];
-        const activeProject = projects.find((p) => p.id === activeProjectId);
-        const bucketName = activeProject?.unassignedBucketName || "📋 Unassigned";
+        // Swimlane: rewrite the grouped field (priority, tags, parent, assignees)
+        if (this.swimlaneField && laneKey !== null) {
+            const fromKey = getTaskLaneKey(this.swimlaneField, task, this.swimlanes);
+            if (fromKey !== laneKey) {
+                Object.assign(update, moveTaskToLane(this.swimlaneField, task, fromKey, laneKey));
+            }
+        }
 
-        const column = boardContainer.createDiv("planner-board-column planner-board-column-unassigned");
-        column.setAttribute("data-bucket-id", "unassigned");
+        // Workflow rules: refuse the whole drop so the card stays where it was
+        if (update.status !== undefined && update.status !== task.status) {
+            const settings = this.plugin.settings;
+            const transitions = settings.projects.find((p) => p.id === settings.activeProjectId)?.statusTransitions;
+            if (!isTransitionAllowed(transitions, getProjectStatuses(settings), task.status, update.status)) {
+                new Notice(`Can't move "${task.title}" from ${task.status} to ${update.status}: this project's workflow doesn't allow it.`);
+                return false;
+            }
+        }
+
+        if (Object.keys(update).length > 0) {
+            await this.taskStore.updateTask(task.id, update);
+        }
+        return true;
+    }
 
+    private renderUnassignedHeader(column: HTMLElement, unassignedTasks: PlannerTask[]) {
         // Column header
         const columnHeader = column.createDiv("planner-board-column-header");
 
@@ -884,37 +1250,6 @@ export class BoardView extends ItemView {
         // Task count
         const taskCount = columnHeader.createDiv("planner-board-column-count");
         taskCount.textContent = `${unassignedTasks.length}`;
-
-        // Column content (cards container)
-        const columnContent = column.createDiv("planner-board-column-content");
-        columnContent.setAttribute("data-bucket-id", "unassigned");
-
-        // Enable drop zone for unassigned bucket (allows moving tasks back)
-        const unassignedBucket: BoardBucket = { id: "unassigned", name: "Unassigned" };
-        this.setupDropZone(columnContent, unassignedBucket);
-
-        // Add task button at the top (MS Planner style)
-        const addTaskBtn = columnContent.createDiv("planner-board-add-card");
-        addTaskBtn.textContent = "+ Add task";
-        addTaskBtn.onclick = async () => {
-            const newTask = await this.taskStore.addTask("New Task");
-            // Don't assign bucketId - leave it unassigned
-            // No explicit render() — TaskStore.save() → emit() already re-renders via subscription
-        };
-
-        // Separate incomplete and completed tasks
-        const incompleteTasks = unassignedTasks.filter(t => !t.completed);
-        const completedTasks = unassignedTasks.filter(t => t.completed);
-
-        // Render incomplete task cards
-        for (const task of incompleteTasks) {
-            await this.renderCard(columnContent, task);
-        }
-
-        // Render completed section if there are completed tasks
-        if (completedTasks.length > 0) {
-            await this.renderCompletedSection(columnContent, completedTasks, "unassigned");
-        }
     }
 
     private startRenameUnassignedBucket(titleElement: HTMLElement) {
@@ -1143,6 +1478,25 @@ export class BoardView extends ItemView {
                 })
         );
 
+        menu.addItem((item) =>
+            item
+                .setTitle("Set WIP limit…")
+                .setIcon("gauge")
+                .onClick(() => {
+                    new WipLimitModal(this.app, bucket, async (limit, strict) => {
+                        if (limit === undefined) {
+                            delete bucket.wipLimit;
+                            delete bucket.wipLimitStrict;
+                        } else {
+                            bucket.wipLimit = limit;
+                            bucket.wipLimitStrict = strict || undefined;
+                        }
+                        await this.saveBuckets();
+                        this.render();
+                    }).open();
+                })
+        );
+
         menu.addItem((item) =>
             item
                 .setTitle("Add bucket to right")
@@ -1171,19 +1525,21 @@ export class BoardView extends ItemView {
                         return; // Don't delete the last bucket
                     }
 
-                    // Move tasks to first remaining bucket
-                    const tasks = this.taskStore.getAll();
-                    const tasksInBucket = tasks.filter(t => t.bucketId === bucket.id);
-                    const targetBucket = this.buckets.find(b => b.id !== bucket.id);
+                    await this.taskStore.transaction("Delete bucket", async () => {
+                        // Move tasks to first remaining bucket
+                        const tasks = this.taskStore.getAll();
+                        const tasksInBucket = tasks.filter(t => t.bucketId === bucket.id);
+                        const targetBucket = this.buckets.find(b => b.id !== bucket.id);
 
-                    if (targetBucket && tasksInBucket.length > 0) {
-                        for (const task of tasksInBucket) {
-                            await this.taskStore.updateTask(task.id, { bucketId: targetBucket.id });
+                        if (targetBucket && tasksInBucket.length > 0) {
+                            for (const task of tasksInBucket) {
+                                await this.taskStore.updateTask(task.id, { bucketId: targetBucket.id });
+                            }
                         }
-                    }
 
-                    this.buckets = this.buckets.filter(b => b.id !== bucket.id);
-                    await this.saveBuckets();
+                        this.buckets = this.buckets.filter(b => b.id !== bucket.id);
+                        await this.saveBuckets();
+                    });
                     this.render();
                 })
         );
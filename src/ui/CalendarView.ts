@@ -0,0 +1,330 @@
+import { ItemView, WorkspaceLeaf, setIcon } from "obsidian";
+import type ProjectPlannerPlugin from "../main";
+import type { PlannerTask } from "../types";
+import { TaskStore } from "../stores/taskStore";
+import { renderPlannerHeader } from "./Header";
+import { getProjectStatuses } from "../utils/projectLists";
+import { toLocalDateStr } from "../utils/timeTracking";
+import {
+  daysBetween,
+  getCalendarSpans,
+  getDroppedTaskDates,
+  getMonthWeeks,
+  layoutWeek,
+  type CalendarSpan,
+  type WeekSegment,
+} from "../utils/calendarLayout";
+
+export const VIEW_TYPE_CALENDAR = "project-planner-calendar-view";
+
+const DAY_NAMES_SHORT = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+/** Task bars shown per week row before days collapse the rest into "+N more". */
+const MAX_LANES = 4;
+
+export class CalendarView extends ItemView {
+  private plugin: ProjectPlannerPlugin;
+  private taskStore: TaskStore;
+  private unsubscribe: (() => void) | null = null;
+
+  // First day of the displayed month
+  private monthAnchor: Date = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+
+  private showCompleted = true;
+
+  // Drag state: the task being moved and which of its days was grabbed
+  private draggedTaskId: string | null = null;
+  private draggedGrabOffset = 0;
+
+  // Day with an open quick-add input
+  private quickAddDate: string | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ProjectPlannerPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.taskStore = plugin.taskStore;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_CALENDAR;
+  }
+
+  getDisplayText() {
+    return "Calendar";
+  }
+
+  getIcon() {
+    return "calendar-days";
+  }
+
+  async onOpen() {
+    await this.taskStore.ensureLoaded();
+    this.unsubscribe = this.taskStore.subscribe(() => this.render());
+    this.render();
+  }
+
+  async onClose() {
+    this.containerEl.empty();
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Data helpers
+  // ---------------------------------------------------------------------------
+
+  /** Dated tasks of the active project as spans. Tasks with only a start date show on that day. */
+  private getSpans(): CalendarSpan[] {
+    return getCalendarSpans(this.taskStore.getAll().filter((t) => this.showCompleted || !t.completed));
+  }
+
+  private isRolledUpParent(task: PlannerTask): boolean {
+    return !!this.plugin.settings.enableParentRollUp &&
+      this.taskStore.getAll().some((t) => t.parentId === task.id);
+  }
+
+  private getStatusColor(status: string): string {
+    const match = getProjectStatuses(this.plugin.settings).find((s) => s.name === status);
+    return match?.color ?? "var(--interactive-accent)";
+  }
+
+  /**
+   * Move a task so the grabbed day lands on `dropDate`, keeping its length.
+   * Goes through updateTask so dependent tasks are rescheduled as usual.
+   */
+  private async moveTask(taskId: string, dropDate: string) {
+    const task = this.taskStore.getTaskById(taskId);
+    const dates = task && getDroppedTaskDates(task, dropDate, this.draggedGrabOffset);
+    if (dates) await this.taskStore.updateTask(taskId, dates);
+  }
+
+  /** Create a task scheduled on a single day (one undo step). */
+  private async quickAddTask(title: string, date: string) {
+    await this.taskStore.transaction("Add task", async () => {
+      const task = await this.taskStore.addTask(title);
+      await this.taskStore.updateTask(task.id, { startDate: date, dueDate: date });
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rendering
+  // ---------------------------------------------------------------------------
+
+  render() {
+    const container = this.containerEl;
+    const scrollTop = (container.querySelector(".planner-calendar-scroll") as HTMLElement | null)?.scrollTop ?? 0;
+
+    container.empty();
+    const wrapper = container.createDiv("planner-calendar-wrapper");
+
+    renderPlannerHeader(wrapper, this.plugin, {
+      active: "calendar",
+      onProjectChange: () => this.render(),
+    });
+
+    this.renderToolbar(wrapper);
+
+    const scroll = wrapper.createDiv("planner-calendar-scroll");
+    this.renderMonth(scroll);
+    scroll.scrollTop = scrollTop;
+  }
+
+  private renderToolbar(wrapper: HTMLElement) {
+    const toolbar = wrapper.createDiv("myday-toolbar");
+
+    toolbar.createSpan({
+      cls: "planner-calendar-month-label",
+      text: `${MONTH_NAMES[this.monthAnchor.getMonth()]} ${this.monthAnchor.getFullYear()}`,
+    });
+
+    // Show completed toggle
+    const toggleGroup = toolbar.createDiv("myday-toggle-group");
+    const toggleLabel = toggleGroup.createEl("label", { cls: "myday-toggle-label" });
+    const toggleCheckbox = toggleLabel.createEl("input", { attr: { type: "checkbox" } });
+    toggleCheckbox.checked = this.showCompleted;
+    toggleLabel.appendText(" Show completed");
+    toggleCheckbox.onchange = () => {
+      this.showCompleted = toggleCheckbox.checked;
+      this.render();
+    };
+
+    // Month navigation
+    const nav = toolbar.createDiv("myday-week-nav");
+
+    const prevBtn = nav.createEl("button", { cls: "myday-week-nav-btn", title: "Previous month" });
+    setIcon(prevBtn, "chevron-left");
+    prevBtn.onclick = () => {
+      this.monthAnchor = new Date(this.monthAnchor.getFullYear(), this.monthAnchor.getMonth() - 1, 1);
+      this.render();
+    };
+
+    const todayBtn = nav.createEl("button", { cls: "myday-week-nav-today", text: "Today" });
+    todayBtn.onclick = () => {
+      const now = new Date();
+      this.monthAnchor = new Date(now.getFullYear(), now.getMonth(), 1);
+      this.render();
+    };
+
+    const nextBtn = nav.createEl("button", { cls: "myday-week-nav-btn", title: "Next month" });
+    setIcon(nextBtn, "chevron-right");
+    nextBtn.onclick = () => {
+      this.monthAnchor = new Date(this.monthAnchor.getFullYear(), this.monthAnchor.getMonth() + 1, 1);
+      this.render();
+    };
+  }
+
+  private renderMonth(scroll: HTMLElement) {
+    const month = this.monthAnchor.getMonth();
+    const weeks = getMonthWeeks(this.monthAnchor.getFullYear(), month);
+    const spans = this.getSpans();
+    const today = toLocalDateStr(new Date());
+
+    const calendar = scroll.createDiv("planner-calendar");
+    const dayHeader = calendar.createDiv("planner-calendar-day-names");
+    for (const name of DAY_NAMES_SHORT) {
+      dayHeader.createDiv({ text: name, cls: "planner-calendar-day-name" });
+    }
+
+    for (const week of weeks) {
+      const segments = layoutWeek(week, spans);
+      const lanes = Math.min(MAX_LANES, segments.reduce((max, s) => Math.max(max, s.lane + 1), 0));
+
+      // One CSS grid per week: day cells fill every row, bars sit in lane rows above them
+      const weekEl = calendar.createDiv("planner-calendar-week");
+      weekEl.style.gridTemplateRows = `24px ${lanes > 0 ? `repeat(${lanes}, 22px) ` : ""}1fr`;
+
+      week.forEach((date, col) => {
+        const inMonth = Number(date.slice(5, 7)) - 1 === month;
+        const day = weekEl.createDiv(
+          `planner-calendar-day${inMonth ? "" : " planner-calendar-day-outside"}${date === today ? " planner-calendar-day-today" : ""}`
+        );
+        day.style.gridColumn = `${col + 1}`;
+        day.style.gridRow = "1 / -1";
+        day.setAttribute("data-date", date);
+        day.createDiv({ text: String(Number(date.slice(8))), cls: "planner-calendar-day-num" });
+        this.setupDayCell(day, date);
+
+        // "+N more" for bars that don't fit
+        const hidden = segments.filter((s) => s.lane >= MAX_LANES && s.startCol <= col && s.endCol >= col);
+        if (hidden.length > 0) {
+          const more = weekEl.createDiv({ text: `+${hidden.length} more`, cls: "planner-calendar-more" });
+          more.style.gridColumn = `${col + 1}`;
+          more.style.gridRow = `${lanes + 2}`;
+          more.setAttribute("title", hidden.map((s) => s.span.task.title).join("\n"));
+        }
+
+        if (this.quickAddDate === date) this.renderQuickAdd(weekEl, date, col, lanes);
+      });
+
+      for (const segment of segments) {
+        if (segment.lane < MAX_LANES) this.renderBar(weekEl, week, segment);
+      }
+    }
+  }
+
+  private setupDayCell(day: HTMLElement, date: string) {
+    day.onclick = (e) => {
+      if (e.target !== day && !(e.target as HTMLElement).hasClass("planner-calendar-day-num")) return;
+      this.quickAddDate = date;
+      this.render();
+    };
+
+    day.ondragover = (e) => {
+      if (!this.draggedTaskId) return;
+      e.preventDefault();
+      e.dataTransfer!.dropEffect = "move";
+      day.addClass("planner-calendar-day-dragover");
+    };
+
+    day.ondragleave = () => day.removeClass("planner-calendar-day-dragover");
+
+    day.ondrop = async (e) => {
+      e.preventDefault();
+      day.removeClass("planner-calendar-day-dragover");
+      const taskId = this.draggedTaskId;
+      this.draggedTaskId = null;
+      if (taskId) await this.moveTask(taskId, date);
+    };
+  }
+
+  private renderBar(weekEl: HTMLElement, week: string[], segment: WeekSegment) {
+    const { span, startCol, endCol, lane } = segment;
+    const task = span.task;
+    const continuesBefore = span.start < week[0];
+    const continuesAfter = span.end > week[6];
+
+    const bar = weekEl.createDiv(
+      `planner-calendar-bar${task.completed ? " planner-calendar-bar-completed" : ""}` +
+      `${continuesBefore ? " planner-calendar-bar-continues-before" : ""}` +
+      `${continuesAfter ? " planner-calendar-bar-continues-after" : ""}`
+    );
+    bar.style.gridColumn = `${startCol + 1} / ${endCol + 2}`;
+    bar.style.gridRow = `${lane + 2}`;
+    bar.style.setProperty("--planner-calendar-bar-color", this.getStatusColor(task.status));
+    bar.setAttribute("title", span.start === span.end ? task.title : `${task.title} (${span.start} → ${span.end})`);
+
+    if (task.milestone) setIcon(bar.createSpan("planner-calendar-bar-icon"), "diamond");
+    bar.createSpan({ text: task.title, cls: "planner-calendar-bar-title" });
+
+    bar.onclick = () => this.plugin.openTaskDetail(task);
+
+    // Rolled-up parents take their dates from subtasks, so they can't be dragged
+    if (this.isRolledUpParent(task)) return;
+    bar.draggable = true;
+    bar.ondragstart = (e) => {
+      // Which day of the task was grabbed, so the drop keeps it under the pointer
+      const cols = endCol - startCol + 1;
+      const rect = bar.getBoundingClientRect();
+      const grabbedCol = rect.width > 0
+        ? Math.min(cols - 1, Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * cols)))
+        : 0;
+      this.draggedTaskId = task.id;
+      this.draggedGrabOffset = daysBetween(span.start, week[startCol + grabbedCol]);
+      bar.addClass("planner-calendar-bar-dragging");
+      e.dataTransfer!.effectAllowed = "move";
+      // Let drops reach the day cells underneath the other bars
+      window.setTimeout(() => weekEl.parentElement?.addClass("planner-calendar-dragging"), 0);
+    };
+    bar.ondragend = () => {
+      this.draggedTaskId = null;
+      bar.removeClass("planner-calendar-bar-dragging");
+      weekEl.parentElement?.removeClass("planner-calendar-dragging");
+    };
+  }
+
+  private renderQuickAdd(weekEl: HTMLElement, date: string, col: number, lanes: number) {
+    const input = weekEl.createEl("input", {
+      type: "text",
+      cls: "planner-calendar-quick-add",
+      placeholder: "New task…",
+    });
+    input.style.gridColumn = `${col + 1}`;
+    input.style.gridRow = `${lanes + 2}`;
+
+    let done = false;
+    const finish = async (save: boolean) => {
+      if (done) return;
+      done = true;
+      this.quickAddDate = null;
+      const title = input.value.trim();
+      if (save && title) {
+        await this.quickAddTask(title, date);
+      } else if (input.isConnected) {
+        // Not when a re-render removed the input (and blurred it)
+        this.render();
+      }
+    };
+    input.onkeydown = async (e) => {
+      if (e.key === "Enter") await finish(true);
+      else if (e.key === "Escape") await finish(false);
+    };
+    input.onblur = () => void finish(true);
+    window.setTimeout(() => input.focus(), 0);
+  }
+}
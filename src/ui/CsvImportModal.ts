@@ -0,0 +1,176 @@
+import { App, Modal, Notice } from "obsidian";
+import type ProjectPlannerPlugin from "../main";
+import {
+    CSV_COLUMNS,
+    CsvField,
+    CsvRejectedRow,
+    guessColumnMapping,
+    importTasksFromCsv,
+    parseCsv,
+} from "../utils/csvUtils";
+import { withProjectLists } from "../utils/projectLists";
+
+/**
+ * Modal for importing tasks from a CSV file: pick a file and a target
+ * project, map each CSV column to a task field (pre-filled from the headers),
+ * then import. Rejected rows are listed after the import with the reason.
+ */
+export class CsvImportModal extends Modal {
+    private plugin: ProjectPlannerPlugin;
+    private projectId: string;
+    private headers: string[] = [];
+    private rows: string[][] = [];
+    private mapping: (CsvField | null)[] = [];
+    private fileName = "";
+
+    constructor(app: App, plugin: ProjectPlannerPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.projectId = plugin.settings.activeProjectId;
+    }
+
+    onOpen() {
+        this.titleEl.setText("Import tasks from CSV");
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("planner-import-modal");
+
+        // Target project
+        const projectRow = contentEl.createDiv("planner-import-row");
+        projectRow.createEl("label", { text: "Import into project" });
+        const projectSelect = projectRow.createEl("select");
+        for (const project of this.plugin.settings.projects) {
+            const opt = projectSelect.createEl("option", { text: project.name, value: project.id });
+            if (project.id === this.projectId) opt.selected = true;
+        }
+        projectSelect.onchange = () => {
+            this.projectId = projectSelect.value;
+        };
+
+        // File picker
+        const fileRow = contentEl.createDiv("planner-import-row");
+        fileRow.createEl("label", { text: "CSV file" });
+        const fileInput = fileRow.createEl("input", { attr: { type: "file", accept: ".csv,text/csv" } });
+        if (this.fileName) fileRow.createSpan({ cls: "planner-import-filename", text: this.fileName });
+        fileInput.onchange = async () => {
+            const file = fileInput.files?.[0];
+            if (!file) return;
+            this.loadCsv(file.name, await file.text());
+        };
+
+        if (this.headers.length === 0) return;
+
+        // Column mapping
+        contentEl.createEl("h3", { text: "Map columns" });
+        contentEl.createDiv({
+            cls: "planner-import-hint",
+            text: `${this.rows.length} data row(s) found. Choose the task field for each column.`,
+        });
+
+        const table = contentEl.createEl("table", { cls: "planner-import-mapping" });
+        const head = table.createEl("tr");
+        head.createEl("th", { text: "CSV column" });
+        head.createEl("th", { text: "First row" });
+        head.createEl("th", { text: "Task field" });
+
+        this.headers.forEach((header, col) => {
+            const tr = table.createEl("tr");
+            tr.createEl("td", { text: header || `Column ${col + 1}` });
+            tr.createEl("td", { cls: "planner-import-sample", text: this.rows[0]?.[col] ?? "" });
+            const select = tr.createEl("td").createEl("select");
+            select.createEl("option", { text: "— Skip —", value: "" });
+            for (const column of CSV_COLUMNS) {
+                const opt = select.createEl("option", { text: column.header, value: column.field });
+                if (this.mapping[col] === column.field) opt.selected = true;
+            }
+            select.onchange = () => {
+                const field = (select.value || null) as CsvField | null;
+                // A field can only come from one column
+                if (field) this.mapping = this.mapping.map((f) => (f === field ? null : f));
+                this.mapping[col] = field;
+                this.render();
+            };
+        });
+
+        const buttons = contentEl.createDiv("planner-import-buttons");
+        const importBtn = buttons.createEl("button", { cls: "mod-cta", text: "Import" });
+        const hasTitle = this.mapping.includes("title");
+        importBtn.disabled = !hasTitle;
+        if (!hasTitle) {
+            buttons.createSpan({ cls: "planner-import-hint", text: "Map a column to Title to import." });
+        }
+        importBtn.onclick = async () => {
+            importBtn.disabled = true;
+            await this.runImport();
+        };
+    }
+
+    private loadCsv(fileName: string, text: string) {
+        const rows = parseCsv(text);
+        this.fileName = fileName;
+        this.headers = rows[0] ?? [];
+        this.rows = rows.slice(1);
+        this.mapping = guessColumnMapping(this.headers);
+        if (this.headers.length === 0) new Notice("The CSV file is empty.");
+        this.render();
+    }
+
+    private async runImport() {
+        const store = this.plugin.taskStore;
+        const project = this.plugin.settings.projects.find((p) => p.id === this.projectId);
+        if (!project) {
+            new Notice("Choose a project to import into.");
+            return;
+        }
+
+        const { tasks, rejected, warnings } = importTasksFromCsv(this.rows, this.mapping, {
+            settings: withProjectLists(this.plugin.settings, project.id),
+            buckets: project.buckets ?? [],
+            existingTaskIds: new Set(store.getAllForProject(project.id).map((t) => t.id)),
+        });
+
+        await store.transaction("Import CSV", async () => {
+            for (const task of tasks) {
+                await store.addTaskToProject(task, project.id);
+            }
+        });
+
+        new Notice(
+            `Imported ${tasks.length} task(s) into ${project.name}` +
+            (rejected.length > 0 ? `; ${rejected.length} row(s) rejected` : "")
+        );
+        this.renderResult(tasks.length, rejected, warnings);
+    }
+
+    private renderResult(imported: number, rejected: CsvRejectedRow[], warnings: string[]) {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("p", { text: `Imported ${imported} task(s).` });
+
+        if (rejected.length > 0) {
+            contentEl.createEl("h3", { text: `Rejected rows (${rejected.length})` });
+            const list = contentEl.createEl("ul", { cls: "planner-import-rejected" });
+            for (const r of rejected) {
+                list.createEl("li", { text: `Row ${r.row}: ${r.reason}` });
+            }
+        }
+
+        if (warnings.length > 0) {
+            const list = contentEl.createEl("ul", { cls: "planner-import-rejected" });
+            for (const warning of warnings) {
+                list.createEl("li", { text: warning });
+            }
+        }
+
+        const buttons = contentEl.createDiv("planner-import-buttons");
+        buttons.createEl("button", { text: "Close" }).onclick = () => this.close();
+    }
+}
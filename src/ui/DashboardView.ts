@@ -1,8 +1,12 @@
 import { ItemView, WorkspaceLeaf, setIcon } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
-import type { PlannerTask } from "../types";
+import type { PlannerTask, StatusCategory } from "../types";
 import { renderPlannerHeader } from "./Header";
 import { getProjectCostSummary, formatCurrency, getCostBreakdown } from "../utils/costUtils";
+import { getActiveBaseline, getSlippedTasks } from "../utils/baselineUtils";
+import { getProjectCalendar } from "../utils/workingCalendar";
+import { getProjectStatuses } from "../utils/projectLists";
+import { getCompletionStatus, getStatusCategory, getStatusColor } from "../utils/statusCategories";
 
 export const VIEW_TYPE_DASHBOARD = "project-planner-dashboard-view";
 
@@ -93,13 +97,14 @@ export class DashboardView extends ItemView {
     }
 
     private calculateProjectStats(projectId: string, projectName: string, tasks: PlannerTask[]): ProjectStats {
+        const category = this.getStatusCategoryFn(projectId);
         const totalTasks = tasks.length;
-        const completedTasks = tasks.filter(t => t.status === "Completed").length;
-        const inProgressTasks = tasks.filter(t => t.status === "In Progress").length;
-        const blockedTasks = tasks.filter(t => t.status === "Blocked").length;
-        const notStartedTasks = tasks.filter(t => t.status === "Not Started").length;
-        const highPriorityTasks = tasks.filter(t => t.priority === "High" && t.status !== "Completed").length;
-        const criticalPriorityTasks = tasks.filter(t => t.priority === "Critical" && t.status !== "Completed").length;
+        const completedTasks = tasks.filter(t => category(t) === "done").length;
+        const inProgressTasks = tasks.filter(t => category(t) === "active").length;
+        const blockedTasks = tasks.filter(t => category(t) === "blocked").length;
+        const notStartedTasks = tasks.filter(t => category(t) === "not-started").length;
+        const highPriorityTasks = tasks.filter(t => t.priority === "High" && category(t) !== "done").length;
+        const criticalPriorityTasks = tasks.filter(t => t.priority === "Critical" && category(t) !== "done").length;
 
         const now = new Date();
         now.setHours(0, 0, 0, 0);
@@ -107,20 +112,20 @@ export class DashboardView extends ItemView {
         const weekFromNow = today + 7 * 24 * 60 * 60 * 1000;
 
         const overdueTasks = tasks.filter(t => {
-            if (!t.dueDate || t.status === "Completed") return false;
+            if (!t.dueDate || category(t) === "done") return false;
             const dueDate = new Date(t.dueDate).getTime();
             return dueDate < today;
         }).length;
 
         const dueTodayTasks = tasks.filter(t => {
-            if (!t.dueDate || t.status === "Completed") return false;
+            if (!t.dueDate || category(t) === "done") return false;
             const dueDate = new Date(t.dueDate);
             dueDate.setHours(0, 0, 0, 0);
             return dueDate.getTime() === today;
         }).length;
 
         const dueThisWeekTasks = tasks.filter(t => {
-            if (!t.dueDate || t.status === "Completed") return false;
+            if (!t.dueDate || category(t) === "done") return false;
             const dueDate = new Date(t.dueDate).getTime();
             return dueDate >= today && dueDate <= weekFromNow;
         }).length;
@@ -268,13 +273,12 @@ export class DashboardView extends ItemView {
                 checkbox.onclick = async (e) => {
                     e.stopPropagation();
                     const isDone = checkbox.checked;
-                    await this.plugin.taskStore.updateTask(task.id, {
-                        completed: isDone,
-                        status: isDone ? "Completed" : "Not Started"
-                    });
+                    const statuses = getProjectStatuses(this.plugin.settings, this.plugin.taskStore.getProjectIdForTask(task.id));
+                    const status = getCompletionStatus(statuses, isDone);
+                    await this.plugin.taskStore.updateTask(task.id, { completed: isDone, status });
                     // Update UI
                     task.completed = isDone;
-                    task.status = isDone ? "Completed" : "Not Started";
+                    task.status = status;
                     if (isDone) {
                         titleEl.addClass("dashboard-task-modal-completed");
                     } else {
@@ -340,21 +344,18 @@ export class DashboardView extends ItemView {
     }
 
     private getStatusColor(status: string): string {
-        const settings = this.plugin.settings;
-        const statusObj = settings.availableStatuses?.find((s) => s.name === status);
-        if (statusObj) return statusObj.color;
-        
-        // Fallback colors
-        switch (status) {
-            case "Completed": return "#2f9e44";
-            case "In Progress": return "#0a84ff";
-            case "Blocked": return "#d70022";
-            case "Not Started": return "#6c757d";
-            default: return "#6c757d";
-        }
+        // The status's own colour, else its category's
+        return getStatusColor(getProjectStatuses(this.plugin.settings), status);
+    }
+
+    /** Category lookup for a project's tasks (counts go by category, not status name). */
+    private getStatusCategoryFn(projectId: string): (task: PlannerTask) => StatusCategory {
+        const statuses = getProjectStatuses(this.plugin.settings, projectId);
+        return (task) => getStatusCategory(statuses, task.status);
     }
 
     private renderProjectDashboard(container: HTMLElement, stats: ProjectStats, allTasks: PlannerTask[]) {
+        const category = this.getStatusCategoryFn(stats.projectId);
         const projectCard = container.createDiv("dashboard-project-card");
 
         // Header
@@ -392,15 +393,15 @@ export class DashboardView extends ItemView {
         );
         this.renderKPICard(
             kpiGrid, "Completed", stats.completedTasks, "check-circle", "#2f9e44",
-            () => this.showTaskListModal("Completed Tasks", allTasks.filter(t => t.status === "Completed"))
+            () => this.showTaskListModal("Completed Tasks", allTasks.filter(t => category(t) === "done"))
         );
         this.renderKPICard(
             kpiGrid, "In Progress", stats.inProgressTasks, "loader", "#0a84ff",
-            () => this.showTaskListModal("In Progress Tasks", allTasks.filter(t => t.status === "In Progress"))
+            () => this.showTaskListModal("In Progress Tasks", allTasks.filter(t => category(t) === "active"))
         );
         this.renderKPICard(
             kpiGrid, "Blocked", stats.blockedTasks, "alert-circle", "#d70022",
-            () => this.showTaskListModal("Blocked Tasks", allTasks.filter(t => t.status === "Blocked"))
+            () => this.showTaskListModal("Blocked Tasks", allTasks.filter(t => category(t) === "blocked"))
         );
 
         // Progress section
@@ -417,25 +418,25 @@ export class DashboardView extends ItemView {
         const weekFromNow = today + 7 * 24 * 60 * 60 * 1000;
 
         const overdueTasks = allTasks.filter(t => {
-            if (!t.dueDate || t.status === "Completed") return false;
+            if (!t.dueDate || category(t) === "done") return false;
             const dueDate = new Date(t.dueDate).getTime();
             return dueDate < today;
         });
 
         const dueTodayTasks = allTasks.filter(t => {
-            if (!t.dueDate || t.status === "Completed") return false;
+            if (!t.dueDate || category(t) === "done") return false;
             const dueDate = new Date(t.dueDate);
             dueDate.setHours(0, 0, 0, 0);
             return dueDate.getTime() === today;
         });
 
         const dueThisWeekTasks = allTasks.filter(t => {
-            if (!t.dueDate || t.status === "Completed") return false;
+            if (!t.dueDate || category(t) === "done") return false;
             const dueDate = new Date(t.dueDate).getTime();
             return dueDate >= today && dueDate <= weekFromNow;
         });
 
-        const criticalTasks = allTasks.filter(t => t.priority === "Critical" && t.status !== "Completed");
+        const criticalTasks = allTasks.filter(t => t.priority === "Critical" && category(t) !== "done");
 
         this.renderKPICard(
             alertsGrid, "Overdue", stats.overdueTasks, "alert-triangle", "#d70022",
@@ -457,9 +458,9 @@ export class DashboardView extends ItemView {
         // Additional stats
         const statsGrid = projectCard.createDiv("dashboard-kpi-grid");
 
-        const highPriorityTasks = allTasks.filter(t => t.priority === "High" && t.status !== "Completed");
-        const dependencyTasks = allTasks.filter(t => t.dependencies && t.dependencies.length > 0 && t.status !== "Completed");
-        const notStartedTasks = allTasks.filter(t => t.status === "Not Started");
+        const highPriorityTasks = allTasks.filter(t => t.priority === "High" && category(t) !== "done");
+        const dependencyTasks = allTasks.filter(t => t.dependencies && t.dependencies.length > 0 && category(t) !== "done");
+        const notStartedTasks = allTasks.filter(t => category(t) === "not-started");
 
         this.renderKPICard(
             statsGrid, "High Priority", stats.highPriorityTasks, "arrow-up", "#f59e0b",
@@ -474,6 +475,29 @@ export class DashboardView extends ItemView {
             () => this.showTaskListModal("Not Started Tasks", notStartedTasks)
         );
 
+        // Slipped against the project's active baseline ("-" when none is set)
+        const baseline = getActiveBaseline(activeProject, this.plugin.taskStore.getBaselines(stats.projectId));
+        if (baseline) {
+            const slippedTasks = getSlippedTasks(
+                allTasks.filter(t => category(t) !== "done"),
+                baseline,
+                getProjectCalendar(settings, stats.projectId)
+            );
+            this.renderKPICard(
+                statsGrid, "Slipped", slippedTasks.length, "trending-down", "#d70022",
+                () => this.showTaskListModal(`Slipped vs. ${baseline.name}`, slippedTasks)
+            );
+        } else {
+            this.renderKPICard(statsGrid, "Slipped", "-", "trending-down", "#6c757d");
+        }
+
+        // Upcoming milestones (only show if the project has any)
+        if (allTasks.some(t => t.milestone)) {
+            const milestoneSection = projectCard.createDiv("dashboard-section");
+            milestoneSection.createEl("h3", { text: "Upcoming Milestones" });
+            this.renderUpcomingMilestones(milestoneSection, allTasks);
+        }
+
         // Effort section (only show if any tasks have effort data)
         if (stats.totalEffort > 0) {
             const effortSection = projectCard.createDiv("dashboard-section");
@@ -722,6 +746,49 @@ export class DashboardView extends ItemView {
         else if (totalVar > 0) totalVarCell.classList.add("planner-cost-under-budget");
     }
 
+    /** Open milestones by date (overdue first), with a countdown to each. */
+    private renderUpcomingMilestones(container: HTMLElement, tasks: PlannerTask[], limit = 5) {
+        const dateOf = (t: PlannerTask) => t.dueDate || t.startDate || "";
+        const milestones = tasks
+            .filter(t => t.milestone && !t.completed && dateOf(t))
+            .sort((a, b) => dateOf(a).localeCompare(dateOf(b)));
+
+        if (milestones.length === 0) {
+            container.createDiv({ text: "All milestones are complete.", cls: "dashboard-task-modal-empty" });
+            return;
+        }
+
+        const now = new Date();
+        now.setHours(0, 0, 0, 0);
+        const list = container.createDiv("dashboard-milestone-list");
+
+        milestones.slice(0, limit).forEach(task => {
+            const item = list.createDiv("dashboard-task-modal-item");
+            const iconEl = item.createSpan({ cls: "planner-milestone-icon" });
+            setIcon(iconEl, "diamond");
+            item.createDiv({ text: task.title, cls: "dashboard-task-modal-title" });
+
+            const [y, m, d] = dateOf(task).split("-").map(Number);
+            const days = Math.round((new Date(y, m - 1, d).getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+            const countdown = days < 0 ? `${-days}d overdue` : days === 0 ? "Today" : `in ${days}d`;
+
+            const meta = item.createDiv("dashboard-task-modal-meta");
+            meta.createSpan({ text: dateOf(task), cls: "dashboard-task-modal-due" });
+            const countdownEl = meta.createSpan({ text: countdown, cls: "dashboard-milestone-countdown" });
+            if (days < 0) countdownEl.addClass("dashboard-milestone-overdue");
+
+            item.onclick = () => this.plugin.openTaskDetail(task);
+        });
+
+        if (milestones.length > limit) {
+            const more = container.createEl("button", {
+                text: `Show all ${milestones.length} open milestones`,
+                cls: "dashboard-milestone-more",
+            });
+            more.onclick = () => this.showTaskListModal("Open Milestones", milestones);
+        }
+    }
+
     private renderOverBudgetList(
         container: HTMLElement,
         tasks: PlannerTask[],
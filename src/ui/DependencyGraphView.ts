@@ -2,6 +2,8 @@ import { ItemView, WorkspaceLeaf, setIcon } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
 import type { PlannerTask } from "../types";
 import { renderPlannerHeader } from "./Header";
+import { getProjectStatuses } from "../utils/projectLists";
+import { getStatusColor } from "../utils/statusCategories";
 
 export const VIEW_TYPE_DEPENDENCY_GRAPH = "project-planner-dependency-graph";
 
@@ -473,15 +475,8 @@ export class DependencyGraphView extends ItemView {
         ctx.beginPath();
         ctx.arc(node.x, node.y, 30, 0, Math.PI * 2);
 
-        // Status-based colors
-        const statusColors: Record<string, string> = {
-            "Not Started": "#6c757d",
-            "In Progress": "#0a84ff",
-            "Blocked": "#d70022",
-            "Completed": "#2f9e44"
-        };
-
-        ctx.fillStyle = statusColors[task.status] || "#6c757d";
+        // Status colour (the status's own, else its category's)
+        ctx.fillStyle = getStatusColor(getProjectStatuses(this.plugin.settings), task.status);
         ctx.fill();
 
         if (isSelected) {
@@ -0,0 +1,101 @@
+import {
+    compileFilterQuery,
+    getFilterSuggestions,
+    type FilterQueryContext,
+    type FilterSuggestions,
+} from "../utils/filterQuery";
+
+/**
+ * Turns a view's search box into a filter query box (see utils/filterQuery):
+ * suggests fields and values for the term at the cursor and reports
+ * problems with the query below the box. The view keeps handling the box's
+ * own input events; attach before adding them so Enter and Tab pick a
+ * suggestion instead of reaching the view.
+ */
+export function attachFilterQueryInput(input: HTMLInputElement, getContext: () => FilterQueryContext): void {
+    const wrapper = document.createElement("div");
+    wrapper.className = "planner-filter-query";
+    input.replaceWith(wrapper);
+    wrapper.appendChild(input);
+    input.setAttribute("placeholder", "Search or filter, e.g. status:Blocked due<today+7d");
+    input.setAttribute("spellcheck", "false");
+
+    const list = wrapper.createDiv("planner-filter-query-suggestions");
+    const errorEl = wrapper.createDiv("planner-filter-query-error");
+
+    let suggestions: FilterSuggestions | null = null;
+    let selected = 0;
+
+    const hideSuggestions = () => {
+        suggestions = null;
+        list.empty();
+        list.style.display = "none";
+    };
+
+    const accept = (index: number) => {
+        if (!suggestions) return;
+        const { from, to, items } = suggestions;
+        const insert = items[index].insert;
+        input.value = input.value.slice(0, from) + insert + input.value.slice(to);
+        const cursor = from + insert.length;
+        input.setSelectionRange(cursor, cursor);
+        input.dispatchEvent(new Event("input"));
+    };
+
+    const renderSuggestions = () => {
+        list.empty();
+        if (!suggestions) {
+            list.style.display = "none";
+            return;
+        }
+        list.style.display = "";
+        suggestions.items.forEach((item, index) => {
+            const row = list.createDiv({
+                cls: `planner-filter-query-suggestion${index === selected ? " is-selected" : ""}`,
+                text: item.label,
+            });
+            // Keep focus in the box so a blur doesn't re-render the view first
+            row.onmousedown = (evt) => {
+                evt.preventDefault();
+                accept(index);
+            };
+        });
+    };
+
+    // While typing, the term at the cursor is still incomplete: only report it once the box loses focus
+    const refresh = (typing: boolean) => {
+        const ctx = getContext();
+        const cursor = input.selectionStart ?? input.value.length;
+        const errors = compileFilterQuery(input.value, ctx).errors.filter(
+            (e) => !typing || cursor < e.start || cursor > e.end
+        );
+        input.classList.toggle("planner-filter-query-invalid", errors.length > 0);
+        errorEl.setText(errors.map((e) => e.message).join(" · "));
+        errorEl.style.display = errors.length > 0 ? "" : "none";
+
+        suggestions = typing ? getFilterSuggestions(input.value, cursor, ctx) : null;
+        selected = 0;
+        renderSuggestions();
+    };
+
+    input.addEventListener("input", () => refresh(true));
+    input.addEventListener("blur", () => refresh(false));
+    input.addEventListener("keydown", (evt) => {
+        if (!suggestions) return;
+        const count = suggestions.items.length;
+        if (evt.key === "ArrowDown" || evt.key === "ArrowUp") {
+            selected = (selected + (evt.key === "ArrowDown" ? 1 : count - 1)) % count;
+            renderSuggestions();
+        } else if (evt.key === "Enter" || evt.key === "Tab") {
+            accept(selected);
+        } else if (evt.key === "Escape") {
+            hideSuggestions();
+        } else {
+            return;
+        }
+        evt.preventDefault();
+        evt.stopImmediatePropagation();
+    });
+
+    refresh(false);
+}
@@ -1,7 +1,21 @@
 import { ItemView, WorkspaceLeaf, Menu, setIcon, Notice, TFile } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
-import type { PlannerTask, TaskDependency } from "../types";
-import { renderPlannerHeader } from "./Header";
+import type { PlannerTask, ProjectBaseline, SavedView, SavedViewState, StatusCategory, TaskDependency } from "../types";
+import { renderPlannerHeader, type SavedViewHost } from "./Header";
+import { attachFilterQueryInput } from "./FilterQueryInput";
+import { compileFilterQuery, getFilterQueryContext, type FilterQuery } from "../utils/filterQuery";
+import { computeCriticalPath, criticalLinkKey, type CriticalPathResult } from "../utils/criticalPath";
+import { getProjectCalendar, isWorkingDay } from "../utils/workingCalendar";
+import { getProjectPriorities, getProjectStatuses } from "../utils/projectLists";
+import {
+    STATUS_CATEGORY_LABELS,
+    categoryFilterValue,
+    getCompletionStatus,
+    getStatusColor,
+    isDoneStatus,
+    matchesStatusFilter,
+} from "../utils/statusCategories";
+import { formatVariance, getActiveBaseline, getScheduleVariance } from "../utils/baselineUtils";
 
 export const VIEW_TYPE_GANTT = "project-planner-gantt-view";
 
@@ -11,11 +25,14 @@ interface VisibleTask {
     hasChildren: boolean;
 }
 
-export class GanttView extends ItemView {
+export class GanttView extends ItemView implements SavedViewHost {
     private plugin: ProjectPlannerPlugin;
     private unsubscribe: (() => void) | null = null;
     private readonly dayMs = 24 * 60 * 60 * 1000;
 
+    readonly kind = "gantt";
+    activeSavedViewId: string | null = null;
+
     // Drag and drop state
     private currentDragId: string | null = null;
     private dragTargetTaskId: string | null = null;
@@ -42,6 +59,9 @@ export class GanttView extends ItemView {
     // Dependency arrows toggle
     private showDependencyArrows: boolean = true;
 
+    // Critical path highlight toggle
+    private showCriticalPath: boolean = false;
+
     // Scroll preservation
     private savedLeftScrollTop: number | null = null;
     private savedRightScrollTop: number | null = null;
@@ -130,6 +150,18 @@ export class GanttView extends ItemView {
         return { start: start!, end: end! };
     }
 
+    /** Planned range of a task in the baseline, or null if it wasn't baselined or had no dates. */
+    private getBaselineRange(task: PlannerTask, baseline: ProjectBaseline): { start: number; end: number } | null {
+        const planned = baseline.tasks[task.id];
+        const startStr = planned?.startDate || planned?.dueDate;
+        const endStr = planned?.dueDate || planned?.startDate;
+        if (!startStr || !endStr) return null;
+        const start = this.parseLocalDate(startStr);
+        const end = this.parseLocalDate(endStr);
+        if (!start || !end) return null;
+        return { start: start.getTime(), end: Math.max(start.getTime(), end.getTime()) };
+    }
+
     private toISODate(ms: number): string {
         const d = new Date(ms);
         const y = d.getFullYear();
@@ -258,20 +290,14 @@ export class GanttView extends ItemView {
         // No explicit render() — TaskStore.save() → emit() already re-renders via subscription
     }
 
-    private matchesFilters(task: PlannerTask): boolean {
-        if (this.currentFilters.status !== "All" && task.status !== this.currentFilters.status) {
+    private matchesFilters(task: PlannerTask, query: FilterQuery): boolean {
+        if (!matchesStatusFilter(getProjectStatuses(this.plugin.settings), task.status, this.currentFilters.status)) {
             return false;
         }
         if (this.currentFilters.priority !== "All" && task.priority !== this.currentFilters.priority) {
             return false;
         }
-        if (this.currentFilters.search) {
-            const search = this.currentFilters.search.toLowerCase();
-            if (!task.title.toLowerCase().includes(search)) {
-                return false;
-            }
-        }
-        return true;
+        return query.matches(task);
     }
 
     private showTaskMenu(evt: MouseEvent, task: PlannerTask) {
@@ -408,19 +434,21 @@ export class GanttView extends ItemView {
             item.setIcon("plus");
             item.onClick(async () => {
                 const store = this.plugin.taskStore;
-                const newTask = await store.addTask("New Task");
-                // Insert before current task in manual order
-                const allTasks = store.getAll();
-                const taskIndex = allTasks.findIndex((t: PlannerTask) => t.id === task.id);
-                if (taskIndex >= 0) {
-                    const reordered = [...allTasks];
-                    const newIndex = reordered.findIndex((t: PlannerTask) => t.id === newTask.id);
-                    if (newIndex >= 0) {
-                        const [moved] = reordered.splice(newIndex, 1);
-                        reordered.splice(taskIndex, 0, moved);
-                        await store.setOrder(reordered.map((t: PlannerTask) => t.id));
+                await store.transaction("Add task", async () => {
+                    const newTask = await store.addTask("New Task");
+                    // Insert before current task in manual order
+                    const allTasks = store.getAll();
+                    const taskIndex = allTasks.findIndex((t: PlannerTask) => t.id === task.id);
+                    if (taskIndex >= 0) {
+                        const reordered = [...allTasks];
+                        const newIndex = reordered.findIndex((t: PlannerTask) => t.id === newTask.id);
+                        if (newIndex >= 0) {
+                            const [moved] = reordered.splice(newIndex, 1);
+                            reordered.splice(taskIndex, 0, moved);
+                            await store.setOrder(reordered.map((t: PlannerTask) => t.id));
+                        }
                     }
-                }
+                });
             });
         });
 
@@ -429,18 +457,20 @@ export class GanttView extends ItemView {
             item.setIcon("plus");
             item.onClick(async () => {
                 const store = this.plugin.taskStore;
-                const newTask = await store.addTask("New Task");
-                const allTasks = store.getAll();
-                const taskIndex = allTasks.findIndex((t: PlannerTask) => t.id === task.id);
-                if (taskIndex >= 0) {
-                    const reordered = [...allTasks];
-                    const newIndex = reordered.findIndex((t: PlannerTask) => t.id === newTask.id);
-                    if (newIndex >= 0) {
-                        const [moved] = reordered.splice(newIndex, 1);
-                        reordered.splice(taskIndex + 1, 0, moved);
-                        await store.setOrder(reordered.map((t: PlannerTask) => t.id));
+                await store.transaction("Add task", async () => {
+                    const newTask = await store.addTask("New Task");
+                    const allTasks = store.getAll();
+                    const taskIndex = allTasks.findIndex((t: PlannerTask) => t.id === task.id);
+                    if (taskIndex >= 0) {
+                        const reordered = [...allTasks];
+                        const newIndex = reordered.findIndex((t: PlannerTask) => t.id === newTask.id);
+                        if (newIndex >= 0) {
+                            const [moved] = reordered.splice(newIndex, 1);
+                            reordered.splice(taskIndex + 1, 0, moved);
+                            await store.setOrder(reordered.map((t: PlannerTask) => t.id));
+                        }
                     }
-                }
+                });
             });
         });
 
@@ -833,7 +863,9 @@ export class GanttView extends ItemView {
             this.dragInsertAfter = false;
 
             if (dragId && targetId && dragId !== targetId) {
-                await this.handleDrop(dragId, targetId, insertAfter);
+                await this.plugin.taskStore.transaction("Move task", () =>
+                    this.handleDrop(dragId, targetId, insertAfter)
+                );
             }
         };
 
@@ -852,7 +884,28 @@ export class GanttView extends ItemView {
         };
     }
 
-    private render() {
+    captureSavedView(): SavedViewState {
+        const f = this.currentFilters;
+        return {
+            filters: {
+                status: f.status !== "All" ? f.status : undefined,
+                priority: f.priority !== "All" ? f.priority : undefined,
+                search: f.search,
+            },
+        };
+    }
+
+    applySavedView(view: SavedView) {
+        this.currentFilters = {
+            status: view.filters.status ?? "All",
+            priority: view.filters.priority ?? "All",
+            search: view.filters.search ?? "",
+        };
+        this.activeSavedViewId = view.id;
+        this.render();
+    }
+
+    render() {
         if (this.isRendering) {
             this.renderPending = true;
             return;
@@ -878,7 +931,9 @@ export class GanttView extends ItemView {
         // Shared header
         renderPlannerHeader(container, this.plugin, {
             active: "gantt",
+            savedViewHost: this,
             onProjectChange: async () => {
+                this.activeSavedViewId = null;
                 await this.plugin.taskStore.load();
                 // No explicit render() — TaskStore.load() → emit() already re-renders via subscription
             }
@@ -894,10 +949,16 @@ export class GanttView extends ItemView {
         const statusFilterGroup = filters.createDiv("planner-filter-group");
         statusFilterGroup.createSpan({ cls: "planner-filter-label", text: "Status:" });
         const statusFilter = statusFilterGroup.createEl("select", { cls: "planner-filter-select" });
-        ["All", "Not Started", "In Progress", "Blocked", "Completed"].forEach(status => {
-            const option = statusFilter.createEl("option", { text: status, value: status });
-            if (status === this.currentFilters.status) option.selected = true;
+        statusFilter.createEl("option", { text: "All", value: "All" });
+        const categoryGroup = statusFilter.createEl("optgroup", { attr: { label: "Category" } });
+        (Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).forEach(category => {
+            categoryGroup.createEl("option", { text: STATUS_CATEGORY_LABELS[category], value: categoryFilterValue(category) });
+        });
+        const statusGroup = statusFilter.createEl("optgroup", { attr: { label: "Status" } });
+        getProjectStatuses(this.plugin.settings).forEach(status => {
+            statusGroup.createEl("option", { text: status.name, value: status.name });
         });
+        statusFilter.value = this.currentFilters.status;
         statusFilter.onchange = () => {
             this.currentFilters.status = statusFilter.value;
             this.render();
@@ -907,7 +968,8 @@ export class GanttView extends ItemView {
         const priorityFilterGroup = filters.createDiv("planner-filter-group");
         priorityFilterGroup.createSpan({ cls: "planner-filter-label", text: "Priority:" });
         const priorityFilter = priorityFilterGroup.createEl("select", { cls: "planner-filter-select" });
-        ["All", "Low", "Medium", "High", "Critical"].forEach(priority => {
+        const priorityNames = getProjectPriorities(this.plugin.settings).map(p => p.name);
+        ["All", ...priorityNames].forEach(priority => {
             const option = priorityFilter.createEl("option", { text: priority, value: priority });
             if (priority === this.currentFilters.priority) option.selected = true;
         });
@@ -923,6 +985,9 @@ export class GanttView extends ItemView {
             cls: "planner-filter-search"
         });
         searchInput.value = this.currentFilters.search;
+        attachFilterQueryInput(searchInput, () =>
+            getFilterQueryContext(this.plugin.settings, this.plugin.taskStore.getAll())
+        );
         searchInput.oninput = () => {
             this.currentFilters.search = searchInput.value;
             // Don't call render() here - it would recreate the input and lose focus
@@ -1002,14 +1067,45 @@ export class GanttView extends ItemView {
             this.render();
         };
 
+        // Critical path toggle
+        const criticalPathBtn = toolbar.createEl("button", {
+            cls: `planner-critical-path-btn${this.showCriticalPath ? " active" : ""}`,
+        });
+        setIcon(criticalPathBtn, "route");
+        criticalPathBtn.setAttribute("title", this.showCriticalPath ? "Hide critical path" : "Highlight critical path");
+        criticalPathBtn.onclick = () => {
+            this.showCriticalPath = !this.showCriticalPath;
+            this.render();
+        };
+
+        // Baseline selector (ghost bars under the live bars)
+        const activeProject = this.plugin.settings.projects.find(p => p.id === this.plugin.settings.activeProjectId);
+        const baselines = this.plugin.taskStore.getBaselines();
+        const baseline = getActiveBaseline(activeProject, baselines);
+        if (baselines.length > 0) {
+            const baselineSelect = toolbar.createEl("select", { cls: "planner-filter-select planner-baseline-select" });
+            baselineSelect.setAttribute("title", "Compare against baseline");
+            baselineSelect.createEl("option", { text: "No baseline", value: "" });
+            for (const b of baselines) {
+                baselineSelect.createEl("option", { text: b.name, value: b.id });
+            }
+            baselineSelect.value = baseline?.id ?? "";
+            baselineSelect.onchange = async () => {
+                await this.plugin.taskStore.setActiveBaseline(baselineSelect.value || undefined);
+            };
+        }
+
         // Content area
         const content = container.createDiv("planner-gantt-content");
         const allTasks: PlannerTask[] = this.plugin.taskStore.getAll();
+        const calendar = getProjectCalendar(this.plugin.settings, this.plugin.settings.activeProjectId);
+        const criticalPath = this.showCriticalPath ? computeCriticalPath(allTasks, calendar) : null;
 
         // Build hierarchical task list with filters
         const matchesFilter = new Map<string, boolean>();
+        const query = compileFilterQuery(this.currentFilters.search, getFilterQueryContext(this.plugin.settings, allTasks));
         for (const t of allTasks) {
-            matchesFilter.set(t.id, this.matchesFilters(t));
+            matchesFilter.set(t.id, this.matchesFilters(t, query));
         }
 
         // Build visible task hierarchy
@@ -1059,6 +1155,10 @@ export class GanttView extends ItemView {
         for (const r of ranges) {
             dates.push(r.start, r.end);
         }
+        const baselineRanges = visibleTasks.map((vt) => (baseline ? this.getBaselineRange(vt.task, baseline) : null));
+        for (const r of baselineRanges) {
+            if (r) dates.push(r.start, r.end);
+        }
         let minTime = dates.length ? Math.min(...dates) : today.getTime();
         let maxTime = dates.length ? Math.max(...dates) : today.getTime() + 30 * this.dayMs;
         // Ensure at least 30 days span
@@ -1222,6 +1322,19 @@ export class GanttView extends ItemView {
             }
         }
 
+        // Non-working day shading (project working calendar)
+        if (calendar) {
+            for (let i = 0; i < totalDays; i++) {
+                // Step by calendar date (not ms) so DST changes can't skip or repeat a day
+                const date = new Date(minDate.getFullYear(), minDate.getMonth(), minDate.getDate() + i);
+                if (isWorkingDay(this.toISODate(date.getTime()), calendar)) continue;
+                dayRow.children[i]?.classList.add("planner-gantt-day-nonworking");
+                const shade = rightCol.createDiv("planner-gantt-nonworking");
+                shade.style.left = `${i * dayWidth}px`;
+                shade.style.width = `${dayWidth}px`;
+            }
+        }
+
         // Today marker
         const todayTime = today.getTime();
         if (todayTime >= minTime && todayTime <= maxTime) {
@@ -1231,15 +1344,8 @@ export class GanttView extends ItemView {
         }
 
         // Rows: one per visible task (hierarchical)
-        const statusColor = (status: string): string => {
-            switch (status) {
-                case "Completed": return "#2f9e44";
-                case "In Progress": return "#0a84ff";
-                case "Blocked": return "#d70022";
-                case "Not Started":
-                default: return "#6c757d";
-            }
-        };
+        const statuses = getProjectStatuses(this.plugin.settings);
+        const statusColor = (status: string): string => getStatusColor(statuses, status);
 
         visibleTasks.forEach((vt, idx) => {
             const t = vt.task;
@@ -1289,12 +1395,12 @@ export class GanttView extends ItemView {
             const checkbox = rowLeft.createEl("input", {
                 type: "checkbox",
             });
-            checkbox.checked = t.status === "Completed";
+            checkbox.checked = isDoneStatus(statuses, t.status);
             checkbox.style.marginRight = "8px";
             checkbox.onclick = async (e) => {
                 e.stopPropagation();
-                const isDone = t.status !== "Completed";
-                const newStatus = isDone ? "Completed" : "Not Started";
+                const isDone = !isDoneStatus(statuses, t.status);
+                const newStatus = getCompletionStatus(statuses, isDone);
                 await this.plugin.taskStore.updateTask(t.id, { status: newStatus, completed: isDone });
             };
 
@@ -1313,12 +1419,41 @@ export class GanttView extends ItemView {
             const endDays = Math.floor((clampedEnd - minTime) / dayMs);
             const spanDays = Math.max(1, endDays - startDays + 1);
 
+            // Baseline ghost bar, drawn first so the live bar sits on top
+            const baselineRange = baselineRanges[idx];
+            if (baseline && baselineRange) {
+                const baseStartDays = Math.floor((Math.max(baselineRange.start, minTime) - minTime) / dayMs);
+                const baseEndDays = Math.floor((Math.min(baselineRange.end, maxTime) - minTime) / dayMs);
+                const baseBar = row.createDiv("planner-gantt-baseline-bar");
+                baseBar.style.left = `${baseStartDays * dayWidth}px`;
+                baseBar.style.width = `${Math.max(1, baseEndDays - baseStartDays + 1) * dayWidth - 4}px`;
+                const planned = baseline.tasks[t.id];
+                const variance = getScheduleVariance(t, baseline, calendar);
+                const finishNote = variance?.finish != null ? ` (finish ${formatVariance(variance.finish)})` : "";
+                baseBar.setAttribute(
+                    "title",
+                    `${baseline.name}: ${planned.startDate || planned.dueDate} → ${planned.dueDate || planned.startDate}${finishNote}`
+                );
+            }
+
+            if (t.milestone) {
+                this.renderMilestone(row, t, end, minTime, dayWidth, statusColor(t.status), criticalPath);
+                return;
+            }
+
             const bar = row.createDiv("planner-gantt-bar");
             bar.dataset.taskId = t.id;
             bar.style.left = `${startDays * dayWidth}px`;
             bar.style.width = `${spanDays * dayWidth - 4}px`;
             bar.style.backgroundColor = statusColor(t.status);
             bar.setAttribute("title", `${t.title}`);
+            if (criticalPath) {
+                const info = criticalPath.tasks.get(t.id);
+                if (info?.critical) bar.classList.add("planner-gantt-bar-critical");
+                if (info) {
+                    bar.setAttribute("title", `${t.title}\nTotal float: ${info.totalFloat}d · Free float: ${info.freeFloat}d`);
+                }
+            }
             bar.oncontextmenu = (e) => this.showTaskMenu(e, t);
 
             // Resize handles
@@ -1330,7 +1465,7 @@ export class GanttView extends ItemView {
 
         // Draw dependency arrows between connected task bars
         if (this.showDependencyArrows) {
-            this.renderDependencyArrows(rightCol, visibleTasks, ranges, minTime, dayWidth, finalTimelineWidth);
+            this.renderDependencyArrows(rightCol, visibleTasks, ranges, minTime, dayWidth, finalTimelineWidth, criticalPath);
         }
 
         // Handle scroll to date if requested
@@ -1358,6 +1493,37 @@ export class GanttView extends ItemView {
         }
     }
 
+    /**
+     * Milestones are drawn as a diamond centred in their day cell. The cell-wide
+     * wrapper takes the bar interactions, so dragging moves the single date.
+     */
+    private renderMilestone(
+        row: HTMLElement,
+        task: PlannerTask,
+        dateMs: number,
+        minTime: number,
+        dayWidth: number,
+        color: string,
+        criticalPath: CriticalPathResult | null,
+    ) {
+        const marker = row.createDiv("planner-gantt-milestone");
+        marker.dataset.taskId = task.id;
+        marker.style.left = `${Math.floor((dateMs - minTime) / this.dayMs) * dayWidth}px`;
+        marker.style.width = `${dayWidth}px`;
+
+        const diamond = marker.createDiv("planner-gantt-milestone-diamond");
+        diamond.style.backgroundColor = color;
+
+        let title = `◆ ${task.title}\n${task.dueDate || task.startDate || ""}`;
+        const info = criticalPath?.tasks.get(task.id);
+        if (info?.critical) marker.classList.add("planner-gantt-milestone-critical");
+        if (info) title += `\nTotal float: ${info.totalFloat}d · Free float: ${info.freeFloat}d`;
+        marker.setAttribute("title", title);
+        marker.oncontextmenu = (e) => this.showTaskMenu(e, task);
+
+        this.attachBarInteractions(marker, task, dateMs, dateMs, minTime, dayWidth);
+    }
+
     // ---------------------------------------------------------------------------
     // Dependency arrow rendering (MS Project / GanttProject style)
     // ---------------------------------------------------------------------------
@@ -1369,6 +1535,7 @@ export class GanttView extends ItemView {
         minTime: number,
         dayWidth: number,
         timelineWidth: number,
+        criticalPath: CriticalPathResult | null = null,
     ) {
         const dayMs = this.dayMs;
         const rowHeight = 28; // must match bar row height
@@ -1387,6 +1554,12 @@ export class GanttView extends ItemView {
             const startDays = Math.floor((Math.max(range.start, minTime) - minTime) / dayMs);
             const endDays = Math.floor((Math.min(range.end, minTime + (timelineWidth / dayWidth) * dayMs) - minTime) / dayMs);
             const spanDays = Math.max(1, endDays - startDays + 1);
+            if (vt.task.milestone) {
+                // Connect to the diamond's tips rather than the day cell's edges
+                const centre = startDays * dayWidth + dayWidth / 2;
+                barPositions.set(vt.task.id, { left: centre - 9, right: centre + 9, row: i });
+                return;
+            }
             barPositions.set(vt.task.id, {
                 left: startDays * dayWidth,
                 right: startDays * dayWidth + spanDays * dayWidth - 4,
@@ -1423,6 +1596,12 @@ export class GanttView extends ItemView {
         arrowPath.setAttribute("class", "planner-dep-arrow-fill");
         marker.appendChild(arrowPath);
         defs.appendChild(marker);
+
+        // Critical arrowhead (coloured via CSS)
+        const criticalMarker = marker.cloneNode(true) as SVGMarkerElement;
+        criticalMarker.setAttribute("id", "dep-arrowhead-critical");
+        criticalMarker.firstElementChild?.setAttribute("class", "planner-dep-arrow-fill planner-dep-arrow-fill-critical");
+        defs.appendChild(criticalMarker);
         svg.appendChild(defs);
 
         let hasArrows = false;
@@ -1480,9 +1659,22 @@ export class GanttView extends ItemView {
 
                 const pathEl = document.createElementNS("http://www.w3.org/2000/svg", "path");
                 pathEl.setAttribute("d", path);
-                pathEl.setAttribute("class", "planner-dep-arrow-line");
-                pathEl.setAttribute("marker-end", "url(#dep-arrowhead)");
+                const isCritical = criticalPath?.criticalLinks.has(criticalLinkKey(dep.predecessorId, task.id)) ?? false;
+                pathEl.setAttribute("class", isCritical ? "planner-dep-arrow-line planner-dep-arrow-critical" : "planner-dep-arrow-line");
+                pathEl.setAttribute("marker-end", isCritical ? "url(#dep-arrowhead-critical)" : "url(#dep-arrowhead)");
                 svg.appendChild(pathEl);
+
+                // Lag / lead label next to the arrowhead
+                const lag = dep.lag ?? 0;
+                if (lag !== 0) {
+                    const labelEl = document.createElementNS("http://www.w3.org/2000/svg", "text");
+                    labelEl.setAttribute("x", String(toX - arrowSize * 2 - 2));
+                    labelEl.setAttribute("y", String(toY - 4));
+                    labelEl.setAttribute("text-anchor", "end");
+                    labelEl.setAttribute("class", isCritical ? "planner-dep-lag-label planner-dep-lag-label-critical" : "planner-dep-lag-label");
+                    labelEl.textContent = `${lag > 0 ? "+" : ""}${lag}d`;
+                    svg.appendChild(labelEl);
+                }
                 hasArrows = true;
             }
         }
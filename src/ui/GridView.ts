@@ -1,9 +1,39 @@
 import { ItemView, WorkspaceLeaf, Menu, setIcon, Notice, TFile } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
-import type { PlannerTask, TaskStatus } from "../types";
+import type {
+  CustomFieldDefinition,
+  PlannerTask,
+  ProjectBaseline,
+  SavedView,
+  SavedViewState,
+  StatusCategory,
+  TaskStatus,
+} from "../types";
 import { TaskStore } from "../stores/taskStore";
-import { renderPlannerHeader } from "./Header";
+import { renderPlannerHeader, type SavedViewHost } from "./Header";
+import { attachFilterQueryInput } from "./FilterQueryInput";
 import { getTaskEstimatedCost, getTaskActualCost, formatCurrency } from "../utils/costUtils";
+import { getTaskAssignees, renderAvatarStack } from "../utils/peopleUtils";
+import { computeCriticalPath, type CriticalPathResult } from "../utils/criticalPath";
+import { formatDuration, getProjectCalendar } from "../utils/workingCalendar";
+import { formatVariance, getActiveBaseline, getScheduleVariance } from "../utils/baselineUtils";
+import { renderTimerButton } from "./TimerButton";
+import {
+  formatCustomFieldValue,
+  getCustomFieldValue,
+  getProjectCustomFields,
+  matchesCustomFieldFilter,
+  setCustomFieldValue,
+  sortTasksByCustomField,
+} from "../utils/customFields";
+import { getProjectPriorities, getProjectStatuses, getProjectTags } from "../utils/projectLists";
+import {
+  STATUS_CATEGORY_LABELS,
+  categoryFilterValue,
+  getCompletionStatus,
+  matchesStatusFilter,
+} from "../utils/statusCategories";
+import { compileFilterQuery, getFilterQueryContext } from "../utils/filterQuery";
 
 export const GRID_VIEW_ICON = "layout-grid";
 
@@ -13,7 +43,8 @@ type SortKey =
   | "Priority"
   | "Status"
   | "StartDate"
-  | "DueDate";
+  | "DueDate"
+  | `field:${string}`; // custom field ID
 
 const NON_HIDEABLE_COLUMNS = new Set(["drag", "number", "check"]);
 
@@ -24,17 +55,22 @@ interface VisibleRow {
   depth: number; // Track nesting depth for visual indentation
 }
 
-export class GridView extends ItemView {
+export class GridView extends ItemView implements SavedViewHost {
   private plugin: ProjectPlannerPlugin;
   private taskStore: TaskStore;
   private unsubscribe: (() => void) | null = null;
 
+  readonly kind = "grid";
+  activeSavedViewId: string | null = null;
+
   private currentFilters = {
     status: "All",
     priority: "All",
     search: "",
-    sortKey: "Manual" as SortKey, // locked to Manual - drag/drop order only
+    sortKey: "Manual" as SortKey, // Manual (drag/drop order) unless a custom field column header was clicked
     sortDirection: "asc" as "asc" | "desc",
+    fieldFilterId: "", // custom field ID ("" = no field filter)
+    fieldFilterQuery: "",
   };
 
   private visibleRows: VisibleRow[] = [];
@@ -72,6 +108,9 @@ export class GridView extends ItemView {
   private static readonly ROW_BATCH_SIZE = 100;
   private scrollRenderPending = false;
 
+  // Critical path results for the Float column (computed lazily per render)
+  private criticalPathCache: CriticalPathResult | null = null;
+
   // Cleanup callbacks for mid-operation view close
   private activeDragCleanup: (() => void) | null = null;
   private activeResizeCleanup: (() => void) | null = null;
@@ -160,7 +199,9 @@ export class GridView extends ItemView {
 
     const { actionsEl: headerActions } = renderPlannerHeader(wrapper, this.plugin, {
       active: "grid",
+      savedViewHost: this,
       onProjectChange: async () => {
+        this.activeSavedViewId = null;
         await this.taskStore.load();
         this.render();
       },
@@ -198,11 +239,14 @@ export class GridView extends ItemView {
     const statusFilter = statusFilterGroup.createEl("select", {
       cls: "planner-filter",
     });
-    const statusOptions = settings.availableStatuses || [];
-    const statusNames = statusOptions.map((s) => s.name);
-
-    ["All", ...statusNames].forEach((s) =>
-      statusFilter.createEl("option", { text: s })
+    statusFilter.createEl("option", { text: "All", value: "All" });
+    const categoryGroup = statusFilter.createEl("optgroup", { attr: { label: "Category" } });
+    (Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).forEach((category) =>
+      categoryGroup.createEl("option", { text: STATUS_CATEGORY_LABELS[category], value: categoryFilterValue(category) })
+    );
+    const statusGroup = statusFilter.createEl("optgroup", { attr: { label: "Status" } });
+    getProjectStatuses(settings).forEach((s) =>
+      statusGroup.createEl("option", { text: s.name, value: s.name })
     );
     statusFilter.value = this.currentFilters.status;
 
@@ -212,7 +256,7 @@ export class GridView extends ItemView {
     const priorityFilter = priorityFilterGroup.createEl("select", {
       cls: "planner-filter",
     });
-    const priorityOptions = settings.availablePriorities || [];
+    const priorityOptions = getProjectPriorities(settings);
     const priorityNames = priorityOptions.map((p) => p.name);
 
     ["All", ...priorityNames].forEach((p) =>
@@ -220,12 +264,31 @@ export class GridView extends ItemView {
     );
     priorityFilter.value = this.currentFilters.priority;
 
+    // Custom field filter (field + value)
+    const customFields = this.getCustomFields();
+    const fieldFilterGroup = filterBar.createDiv("planner-filter-group");
+    let fieldFilterSelect: HTMLSelectElement | null = null;
+    let readFieldQuery = () => "";
+    if (customFields.length > 0) {
+      fieldFilterGroup.createSpan({ cls: "planner-filter-label", text: "Field:" });
+      fieldFilterSelect = fieldFilterGroup.createEl("select", { cls: "planner-filter" });
+      fieldFilterSelect.createEl("option", { text: "Any", value: "" });
+      customFields.forEach((field) => fieldFilterSelect!.createEl("option", { text: field.name, value: field.id }));
+      fieldFilterSelect.value = this.currentFilters.fieldFilterId;
+      readFieldQuery = this.renderFieldFilterQuery(
+        fieldFilterGroup,
+        customFields.find((field) => field.id === this.currentFilters.fieldFilterId),
+        () => applyFilters(false)
+      );
+    }
+
     // Search input
     const searchInput = filterBar.createEl("input", {
       cls: "planner-search",
       attr: { type: "text", placeholder: "Search tasks..." },
     });
     searchInput.value = this.currentFilters.search;
+    attachFilterQueryInput(searchInput, () => getFilterQueryContext(settings, this.taskStore.getAll()));
 
     // Clear filters button
     const clearFilterBtn = filterBar.createEl("button", {
@@ -238,7 +301,9 @@ export class GridView extends ItemView {
       const hasFilters =
         this.currentFilters.status !== "All" ||
         this.currentFilters.priority !== "All" ||
-        this.currentFilters.search.trim() !== "";
+        this.currentFilters.search.trim() !== "" ||
+        this.currentFilters.fieldFilterQuery.trim() !== "" ||
+        this.currentFilters.sortKey !== "Manual";
       clearFilterBtn.style.display = hasFilters ? "block" : "none";
     };
 
@@ -250,8 +315,10 @@ export class GridView extends ItemView {
         status: "All",
         priority: "All",
         search: "",
-        sortKey: "Manual", // always use manual order for drag and drop
+        sortKey: "Manual", // back to manual order for drag and drop
         sortDirection: "asc",
+        fieldFilterId: "",
+        fieldFilterQuery: "",
       };
       this.secondarySortKeys = [];
       this.saveGridViewSettings();
@@ -260,12 +327,16 @@ export class GridView extends ItemView {
     };
 
     const applyFilters = (isSearchInput = false) => {
+      const fieldFilterId = fieldFilterSelect?.value ?? "";
       this.currentFilters = {
         status: statusFilter.value,
         priority: priorityFilter.value,
-        search: searchInput.value.toLowerCase(),
-        sortKey: "Manual", // always use manual order for drag and drop
+        search: searchInput.value,
+        sortKey: this.currentFilters.sortKey,
         sortDirection: this.currentFilters.sortDirection,
+        fieldFilterId,
+        // Switching fields starts from an empty query (its control is rebuilt)
+        fieldFilterQuery: fieldFilterId === this.currentFilters.fieldFilterId ? readFieldQuery() : "",
       };
       this.secondarySortKeys = [];
       this.saveGridViewSettings();
@@ -281,6 +352,7 @@ export class GridView extends ItemView {
 
     statusFilter.onchange = () => applyFilters(false);
     priorityFilter.onchange = () => applyFilters(false);
+    if (fieldFilterSelect) fieldFilterSelect.onchange = () => applyFilters(false);
     searchInput.oninput = () => applyFilters(true);
 
     // Initial visibility check
@@ -299,28 +371,30 @@ export class GridView extends ItemView {
     
     const matchesFilter = new Map<string, boolean>();
     const f = this.currentFilters;
+    const statuses = getProjectStatuses(settings);
+    const query = compileFilterQuery(f.search, getFilterQueryContext(settings, this.taskStore.getAll()));
 
     for (const t of all) {
       let match = true;
 
-      if (f.status !== "All" && t.status !== f.status) match = false;
-      const defaultPriority = settings.availablePriorities?.[0]?.name || "Medium";
+      if (!matchesStatusFilter(statuses, t.status, f.status)) match = false;
+      const defaultPriority = getProjectPriorities(settings)[0]?.name || "Medium";
       if (f.priority !== "All" && (t.priority || defaultPriority) !== f.priority)
         match = false;
-      if (f.search.trim() !== "" && !t.title.toLowerCase().includes(f.search))
-        match = false;
+      if (!query.matches(t)) match = false;
+      if (!this.matchesFieldFilter(t)) match = false;
 
       matchesFilter.set(t.id, match);
     }
 
-    // Roots: keep manual order only (no sorting)
-    const roots = all.filter((t) => !t.parentId);
+    // Roots: manual order unless sorted by a custom field (siblings sort within their parent)
+    const roots = this.sortSiblings(all.filter((t) => !t.parentId));
 
     const visibleRows: VisibleRow[] = [];
 
     // Recursive function to build hierarchy
     const addTaskAndChildren = (task: PlannerTask, depth: number) => {
-      const children = all.filter((t) => t.parentId === task.id);
+      const children = this.sortSiblings(all.filter((t) => t.parentId === task.id));
       const taskMatches = matchesFilter.get(task.id) ?? true;
       const matchingChildren = children.filter(
         (c) => matchesFilter.get(c.id) ?? true
@@ -351,6 +425,7 @@ export class GridView extends ItemView {
     }
 
     this.visibleRows = visibleRows;
+    this.criticalPathCache = null;
 
     // -----------------------------------------------------------------------
     // Grid table (wrapped in scrollable content area)
@@ -406,6 +481,33 @@ export class GridView extends ItemView {
       // Label
       const labelSpan = th.createSpan({ text: col.label });
 
+      // Custom field columns sort on click: ascending → descending → manual order
+      if (col.key.startsWith("cf:")) {
+        const sortKey: SortKey = `field:${col.key.slice(3)}`;
+        const sorted = this.currentFilters.sortKey === sortKey;
+        labelSpan.addClass("planner-sortable-header");
+        labelSpan.setAttribute("title", "Sort by this field");
+        if (sorted) {
+          th.createSpan({
+            cls: "planner-sort-indicator",
+            text: this.currentFilters.sortDirection === "asc" ? " ▲" : " ▼",
+          });
+        }
+        labelSpan.onclick = () => {
+          if (!sorted) {
+            this.currentFilters.sortKey = sortKey;
+            this.currentFilters.sortDirection = "asc";
+          } else if (this.currentFilters.sortDirection === "asc") {
+            this.currentFilters.sortDirection = "desc";
+          } else {
+            this.currentFilters.sortKey = "Manual";
+            this.currentFilters.sortDirection = "asc";
+          }
+          this.saveGridViewSettings();
+          this.render();
+        };
+      }
+
       // Column resizing + double-click auto-fit
       this.attachColumnResizer(th, col.key, table, visibleIndex);
       visibleIndex++;
@@ -484,28 +586,30 @@ export class GridView extends ItemView {
 
     const matchesFilter = new Map<string, boolean>();
     const f = this.currentFilters;
+    const statuses = getProjectStatuses(settings);
+    const query = compileFilterQuery(f.search, getFilterQueryContext(settings, this.taskStore.getAll()));
 
     for (const t of all) {
       let match = true;
 
-      if (f.status !== "All" && t.status !== f.status) match = false;
-      const defaultPriority = settings.availablePriorities?.[0]?.name || "Medium";
+      if (!matchesStatusFilter(statuses, t.status, f.status)) match = false;
+      const defaultPriority = getProjectPriorities(settings)[0]?.name || "Medium";
       if (f.priority !== "All" && (t.priority || defaultPriority) !== f.priority)
         match = false;
-      if (f.search.trim() !== "" && !t.title.toLowerCase().includes(f.search))
-        match = false;
+      if (!query.matches(t)) match = false;
+      if (!this.matchesFieldFilter(t)) match = false;
 
       matchesFilter.set(t.id, match);
     }
 
-    // Roots: keep manual order only
-    const roots = all.filter((t) => !t.parentId);
+    // Roots: manual order unless sorted by a custom field
+    const roots = this.sortSiblings(all.filter((t) => !t.parentId));
 
     const visibleRows: VisibleRow[] = [];
 
     // Recursive function to build hierarchy
     const addTaskAndChildren = (task: PlannerTask, depth: number) => {
-      const children = all.filter((t) => t.parentId === task.id);
+      const children = this.sortSiblings(all.filter((t) => t.parentId === task.id));
       const taskMatches = matchesFilter.get(task.id) ?? true;
       const matchingChildren = children.filter(
         (c) => matchesFilter.get(c.id) ?? true
@@ -536,6 +640,7 @@ export class GridView extends ItemView {
     }
 
     this.visibleRows = visibleRows;
+    this.criticalPathCache = null;
 
     // -------------------------------------------------------
     // Generate Planner-style numbering
@@ -621,7 +726,7 @@ export class GridView extends ItemView {
           const isDone = checkbox.checked;
           await this.taskStore.updateTask(task.id, {
             completed: isDone,
-            status: isDone ? "Completed" : "Not Started",
+            status: getCompletionStatus(getProjectStatuses(this.plugin.settings), isDone),
           });
         };
       },
@@ -647,6 +752,11 @@ export class GridView extends ItemView {
           titleCell.createSpan({ cls: "planner-expand-spacer", text: "" });
         }
         const titleInner = titleCell.createDiv({ cls: "planner-title-inner" });
+        if (task.milestone) {
+          const milestoneIcon = titleInner.createSpan({ cls: "planner-milestone-icon" });
+          setIcon(milestoneIcon, "diamond");
+          milestoneIcon.setAttribute("title", "Milestone");
+        }
         const titleSpan = this.createEditableTextSpan(
           titleInner,
           task.title,
@@ -665,12 +775,13 @@ export class GridView extends ItemView {
           evt.stopPropagation();
           this.buildInlineMenu(task, evt);
         };
+        renderTimerButton(titleCell, this.plugin, task);
       },
 
       status: () => {
         const statusCell = row.createEl("td");
         const settings = this.plugin.settings;
-        const availableStatuses = settings.availableStatuses || [];
+        const availableStatuses = getProjectStatuses(settings);
         const statusNames = availableStatuses.map((s) => s.name);
         this.createEditableSelectCell(
           statusCell,
@@ -687,7 +798,7 @@ export class GridView extends ItemView {
       priority: () => {
         const priorityCell = row.createEl("td");
         const settings = this.plugin.settings;
-        const availablePriorities = settings.availablePriorities || [];
+        const availablePriorities = getProjectPriorities(settings);
         const priorityNames = availablePriorities.map((p) => p.name);
         const defaultPriority = availablePriorities[0]?.name || "Medium";
         this.createEditableSelectCell(
@@ -740,6 +851,11 @@ export class GridView extends ItemView {
         this.renderTaskTags(tagsCell, task);
       },
 
+      assignees: () => {
+        const assigneesCell = row.createEl("td", { cls: "planner-assignees-cell" });
+        this.renderTaskAssignees(assigneesCell, task);
+      },
+
       dependencies: () => {
         const depsCell = row.createEl("td", { cls: "planner-deps-cell" });
         const dependencies = task.dependencies || [];
@@ -901,18 +1017,9 @@ export class GridView extends ItemView {
       duration: () => {
         let durationText = "-";
         if (task.startDate && task.dueDate) {
-          // Parse dates without timezone issues (YYYY-MM-DD format)
-          const sp = task.startDate.split("-").map(Number);
-          const ep = task.dueDate.split("-").map(Number);
-          const start = new Date(sp[0], sp[1] - 1, sp[2]);
-          const end = new Date(ep[0], ep[1] - 1, ep[2]);
-          const diffDays = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-          if (diffDays >= 0) {
-            const inclusive = Math.max(1, diffDays);
-            durationText = inclusive === 1 ? "1 day" : `${inclusive} days`;
-          } else {
-            durationText = "Invalid";
-          }
+          // Inclusive; working days only when the project has a calendar
+          const calendar = getProjectCalendar(this.plugin.settings, this.plugin.settings.activeProjectId);
+          durationText = formatDuration(task.startDate, task.dueDate, calendar) ?? "Invalid";
         }
         const isRolledUp = hasChildren && this.plugin.settings.enableParentRollUp;
         const cell = row.createEl("td", {
@@ -922,6 +1029,26 @@ export class GridView extends ItemView {
         if (isRolledUp) cell.setAttribute("title", "Rolled up from subtasks");
       },
 
+      float: () => {
+        const info = this.getCriticalPath().tasks.get(task.id);
+        const cell = row.createEl("td", { cls: "planner-effort-cell planner-float-cell" });
+        if (!info) {
+          cell.setText("-");
+          return;
+        }
+        cell.setText(`${info.totalFloat}d`);
+        if (info.critical) cell.classList.add("planner-float-critical");
+        cell.setAttribute(
+          "title",
+          `Total float: ${info.totalFloat}d · Free float: ${info.freeFloat}d\n` +
+          `Early: ${info.earlyStart} → ${info.earlyFinish}\nLate: ${info.lateStart} → ${info.lateFinish}`
+        );
+      },
+
+      startVariance: () => this.renderVarianceCell(row, task, "start"),
+
+      finishVariance: () => this.renderVarianceCell(row, task, "finish"),
+
       costEstimate: () => {
         const settings = this.plugin.settings;
         const project = settings.projects?.find(p => p.id === settings.activeProjectId);
@@ -958,6 +1085,10 @@ export class GridView extends ItemView {
 
     };
 
+    for (const field of this.getCustomFields()) {
+      cellRenderers[`cf:${field.id}`] = () => this.renderCustomFieldCell(row, task, field);
+    }
+
     // Render cells in the dynamic column order (respects drag-and-drop reordering)
     const columns = this.getColumnDefinitions();
     for (const col of columns) {
@@ -1023,29 +1154,32 @@ export class GridView extends ItemView {
 
           const { task: clipTask, isCut } = this.clipboardTask;
 
-          if (isCut) {
-            // Move the task by updating its parentId
-            await this.taskStore.updateTask(clipTask.id, {
-              parentId: task.parentId,
-            });
-            this.clipboardTask = null;
-          } else {
-            // Copy: create a duplicate task
-            const newTask = await this.taskStore.addTask(clipTask.title);
-            await this.taskStore.updateTask(newTask.id, {
-              description: clipTask.description,
-              status: clipTask.status,
-              priority: clipTask.priority,
-              startDate: clipTask.startDate,
-              dueDate: clipTask.dueDate,
-              tags: clipTask.tags ? [...clipTask.tags] : [],
-              completed: clipTask.completed,
-              parentId: task.parentId,
-              bucketId: clipTask.bucketId,
-              links: clipTask.links ? [...clipTask.links] : [],
-              dependencies: [], // Don't copy dependencies
-            });
-          }
+          await this.taskStore.transaction(isCut ? "Move task" : "Paste task", async () => {
+            if (isCut) {
+              // Move the task by updating its parentId
+              await this.taskStore.updateTask(clipTask.id, {
+                parentId: task.parentId,
+              });
+              this.clipboardTask = null;
+            } else {
+              // Copy: create a duplicate task
+              const newTask = await this.taskStore.addTask(clipTask.title);
+              await this.taskStore.updateTask(newTask.id, {
+                description: clipTask.description,
+                status: clipTask.status,
+                priority: clipTask.priority,
+                startDate: clipTask.startDate,
+                dueDate: clipTask.dueDate,
+                tags: clipTask.tags ? [...clipTask.tags] : [],
+                assignees: clipTask.assignees ? [...clipTask.assignees] : [],
+                completed: clipTask.completed,
+                parentId: task.parentId,
+                bucketId: clipTask.bucketId,
+                links: clipTask.links ? [...clipTask.links] : [],
+                dependencies: [], // Don't copy dependencies
+              });
+            }
+          });
 
           // Don't call render() - TaskStore subscription handles it
         })
@@ -1517,7 +1651,9 @@ export class GridView extends ItemView {
       this.dragDropOnto = false;
 
       if (dragId && targetId && dragId !== targetId) {
-        await this.handleDrop(dragId, targetId, insertAfter, dropOnto);
+        await this.taskStore.transaction("Move task", () =>
+          this.handleDrop(dragId, targetId, insertAfter, dropOnto)
+        );
       }
     };
 
@@ -1753,7 +1889,7 @@ export class GridView extends ItemView {
 
     // Find the status color
     const settings = this.plugin.settings;
-    const availableStatuses = settings.availableStatuses || [];
+    const availableStatuses = getProjectStatuses(settings);
     const status = availableStatuses.find((s) => s.name === value);
 
     if (status) {
@@ -1771,7 +1907,7 @@ export class GridView extends ItemView {
 
     // Find the priority color
     const settings = this.plugin.settings;
-    const availablePriorities = settings.availablePriorities || [];
+    const availablePriorities = getProjectPriorities(settings);
     const priority = availablePriorities.find((p) => p.name === value);
 
     if (priority) {
@@ -2126,6 +2262,7 @@ export class GridView extends ItemView {
       { key: "priority", label: "Priority", hideable: true, reorderable: true },
       { key: "bucket", label: "Bucket", hideable: true, reorderable: true },
       { key: "tags", label: "Tags", hideable: true, reorderable: true },
+      { key: "assignees", label: "Assigned To", hideable: true, reorderable: true },
       { key: "dependencies", label: "Deps", hideable: true, reorderable: true },
       { key: "start", label: "Start Date", hideable: true, reorderable: true },
       { key: "due", label: "Due Date", hideable: true, reorderable: true },
@@ -2136,8 +2273,14 @@ export class GridView extends ItemView {
       { key: "effortRemaining", label: "Effort Left", hideable: true, reorderable: true },
       { key: "effortTotal", label: "Effort Total", hideable: true, reorderable: true },
       { key: "duration", label: "Duration", hideable: true, reorderable: true },
+      { key: "float", label: "Float", hideable: true, reorderable: true },
+      { key: "startVariance", label: "Start Var.", hideable: true, reorderable: true },
+      { key: "finishVariance", label: "Finish Var.", hideable: true, reorderable: true },
       { key: "costEstimate", label: "Est. Cost", hideable: true, reorderable: true },
       { key: "costActual", label: "Actual Cost", hideable: true, reorderable: true },
+      ...this.getCustomFields().map((field) => ({
+        key: `cf:${field.id}`, label: field.name, hideable: true, reorderable: true,
+      })),
     ];
     
     // Apply custom column order if available
@@ -2162,6 +2305,171 @@ export class GridView extends ItemView {
     return allColumns;
   }
 
+  // ---------------------------------------------------------------------------
+  // Custom fields (columns, sorting, filtering)
+  // ---------------------------------------------------------------------------
+
+  private getCustomFields(): CustomFieldDefinition[] {
+    const settings = this.plugin.settings;
+    return getProjectCustomFields(settings.projects?.find((p) => p.id === settings.activeProjectId));
+  }
+
+  /** Sort sibling tasks by the custom field chosen in the header; manual order otherwise. */
+  private sortSiblings(tasks: PlannerTask[]): PlannerTask[] {
+    const { sortKey, sortDirection } = this.currentFilters;
+    if (!sortKey.startsWith("field:")) return tasks;
+    const field = this.getCustomFields().find((f) => f.id === sortKey.slice(6));
+    return field ? sortTasksByCustomField(tasks, field, sortDirection) : tasks;
+  }
+
+  private matchesFieldFilter(task: PlannerTask): boolean {
+    const { fieldFilterId, fieldFilterQuery } = this.currentFilters;
+    if (!fieldFilterId || !fieldFilterQuery.trim()) return true;
+    const field = this.getCustomFields().find((f) => f.id === fieldFilterId);
+    return !field || matchesCustomFieldFilter(field, getCustomFieldValue(task, field), fieldFilterQuery);
+  }
+
+  /**
+   * Value control for the field filter: a dropdown for choice and checkbox
+   * fields, a text box otherwise. Returns a reader for the current query.
+   */
+  private renderFieldFilterQuery(
+    group: HTMLElement,
+    field: CustomFieldDefinition | undefined,
+    onChange: () => void
+  ): () => string {
+    if (!field) return () => "";
+
+    if (field.type === "select" || field.type === "multiselect" || field.type === "checkbox") {
+      const select = group.createEl("select", { cls: "planner-filter" });
+      const choices = field.type === "checkbox" ? ["checked", "unchecked"] : [...(field.options ?? []), "(empty)"];
+      select.createEl("option", { text: "Any", value: "" });
+      choices.forEach((choice) => select.createEl("option", { text: choice, value: choice }));
+      select.value = this.currentFilters.fieldFilterQuery;
+      select.onchange = onChange;
+      return () => select.value;
+    }
+
+    const placeholders: Partial<Record<CustomFieldDefinition["type"], string>> = {
+      number: "e.g. >3",
+      date: "e.g. 2026-03",
+    };
+    const input = group.createEl("input", {
+      cls: "planner-search planner-field-filter-input",
+      attr: { type: "text", placeholder: placeholders[field.type] ?? "Contains..." },
+    });
+    input.value = this.currentFilters.fieldFilterQuery;
+    input.onchange = onChange;
+    return () => input.value;
+  }
+
+  private renderCustomFieldCell(row: HTMLElement, task: PlannerTask, field: CustomFieldDefinition) {
+    const cell = row.createEl("td", { cls: `planner-custom-field-cell planner-custom-field-${field.type}` });
+    const value = getCustomFieldValue(task, field);
+    const save = async (raw: unknown) => {
+      this.saveScrollPosition();
+      await this.taskStore.updateTask(task.id, { customFields: setCustomFieldValue(task.customFields, field, raw) });
+    };
+
+    switch (field.type) {
+      case "checkbox": {
+        const checkbox = cell.createEl("input", { attr: { type: "checkbox" } });
+        checkbox.checked = value === true;
+        checkbox.onchange = () => void save(checkbox.checked);
+        break;
+      }
+      case "date":
+        this.createEditableDateOnlyCell(cell, typeof value === "string" ? value : "", save);
+        break;
+      case "select": {
+        const current = typeof value === "string" ? value : "";
+        const options = field.options ?? [];
+        this.createEditableSelectCell(
+          cell,
+          current,
+          ["", ...options, ...(current && !options.includes(current) ? [current] : [])],
+          save
+        );
+        break;
+      }
+      case "multiselect": {
+        const selected = Array.isArray(value) ? value : [];
+        const display = cell.createSpan({ cls: "planner-editable", text: selected.join(", ") });
+        display.onclick = (evt) => {
+          const menu = new Menu();
+          const options = [...new Set([...(field.options ?? []), ...selected])];
+          options.forEach((option) => {
+            menu.addItem((item) => {
+              item.setTitle(option);
+              item.setChecked(selected.includes(option));
+              item.onClick(() => {
+                const next = selected.includes(option)
+                  ? selected.filter((v) => v !== option)
+                  : options.filter((o) => o === option || selected.includes(o));
+                void save(next);
+              });
+            });
+          });
+          if (options.length === 0) {
+            menu.addItem((item) => item.setTitle("Add options in settings").setDisabled(true));
+          }
+          menu.showAtMouseEvent(evt);
+        };
+        break;
+      }
+      default: {
+        const text = formatCustomFieldValue(field, value);
+        this.createEditableTextSpan(cell, text, save);
+        if (field.type === "url" && text) {
+          const link = cell.createEl("a", {
+            cls: "planner-custom-field-link",
+            href: text,
+            attr: { target: "_blank", rel: "noopener", "aria-label": "Open link" },
+          });
+          setIcon(link, "external-link");
+        }
+      }
+    }
+  }
+
+  private getCriticalPath(): CriticalPathResult {
+    if (!this.criticalPathCache) {
+      this.criticalPathCache = computeCriticalPath(
+        this.taskStore.getAll(),
+        getProjectCalendar(this.plugin.settings, this.plugin.settings.activeProjectId)
+      );
+    }
+    return this.criticalPathCache;
+  }
+
+  private getActiveBaseline(): ProjectBaseline | undefined {
+    const settings = this.plugin.settings;
+    const project = settings.projects?.find(p => p.id === settings.activeProjectId);
+    return getActiveBaseline(project, this.taskStore.getBaselines());
+  }
+
+  /** Start/finish variance against the active baseline ("+2d" = later than planned). */
+  private renderVarianceCell(row: HTMLElement, task: PlannerTask, kind: "start" | "finish") {
+    const cell = row.createEl("td", { cls: "planner-effort-cell planner-variance-cell" });
+    const baseline = this.getActiveBaseline();
+    const variance = baseline
+      ? getScheduleVariance(task, baseline, getProjectCalendar(this.plugin.settings, this.plugin.settings.activeProjectId))
+      : null;
+    const days = variance?.[kind];
+    if (!baseline || days == null) {
+      cell.setText("-");
+      return;
+    }
+    cell.setText(formatVariance(days));
+    if (days > 0) cell.classList.add("planner-variance-late");
+    if (days < 0) cell.classList.add("planner-variance-early");
+    const planned = baseline.tasks[task.id];
+    cell.setAttribute(
+      "title",
+      `${baseline.name}: ${kind === "start" ? planned.startDate : planned.dueDate}`
+    );
+  }
+
   private isColumnVisible(key: string): boolean {
     if (NON_HIDEABLE_COLUMNS.has(key)) return true;
     const stored = this.columnVisibility[key];
@@ -2365,6 +2673,54 @@ export class GridView extends ItemView {
     };
   }
 
+  // ---------------------------------------------------------------------------
+  // Saved views (filters, sort and visible columns)
+  // ---------------------------------------------------------------------------
+
+  captureSavedView(): SavedViewState {
+    const f = this.currentFilters;
+    return {
+      filters: {
+        status: f.status !== "All" ? f.status : undefined,
+        priority: f.priority !== "All" ? f.priority : undefined,
+        search: f.search,
+        fieldId: f.fieldFilterId,
+        fieldQuery: f.fieldFilterId ? f.fieldFilterQuery : undefined,
+      },
+      sort: f.sortKey !== "Manual" ? { key: f.sortKey, direction: f.sortDirection } : undefined,
+      columns: this.getColumnDefinitions()
+        .filter((col) => col.hideable && this.isColumnVisible(col.key))
+        .map((col) => col.key),
+    };
+  }
+
+  applySavedView(view: SavedView) {
+    const { filters } = view;
+    this.currentFilters = {
+      status: filters.status ?? "All",
+      priority: filters.priority ?? "All",
+      search: filters.search ?? "",
+      sortKey: (view.sort?.key ?? "Manual") as SortKey,
+      sortDirection: view.sort?.direction ?? "asc",
+      fieldFilterId: filters.fieldId ?? "",
+      fieldFilterQuery: filters.fieldQuery ?? "",
+    };
+    this.secondarySortKeys = [];
+
+    if (view.columns) {
+      const visible = new Set(view.columns);
+      for (const col of this.getColumnDefinitions()) {
+        if (col.hideable && !NON_HIDEABLE_COLUMNS.has(col.key)) {
+          this.columnVisibility[col.key] = visible.has(col.key);
+        }
+      }
+    }
+
+    this.activeSavedViewId = view.id;
+    this.saveGridViewSettings();
+    this.render();
+  }
+
   // ---------------------------------------------------------------------------
   // Persist / load grid-view-specific settings (sort + column widths)
   // ---------------------------------------------------------------------------
@@ -2431,7 +2787,7 @@ export class GridView extends ItemView {
 
   private renderTaskTags(cell: HTMLElement, task: PlannerTask) {
     const settings = this.plugin.settings;
-    const availableTags = settings.availableTags || [];
+    const availableTags = getProjectTags(settings);
     const taskTags = task.tags || [];
 
     // Make cell clickable to open tag selector
@@ -2512,4 +2868,51 @@ export class GridView extends ItemView {
       menu.showAtMouseEvent(e as MouseEvent);
     };
   }
+
+  // ---------------------------------------------------------------------------
+  // Assignees rendering
+  // ---------------------------------------------------------------------------
+
+  private renderTaskAssignees(cell: HTMLElement, task: PlannerTask) {
+    const availablePeople = this.plugin.settings.availablePeople || [];
+    const taskAssignees = task.assignees || [];
+    const assigned = getTaskAssignees(task, availablePeople);
+
+    cell.classList.add("planner-tags-cell-interactive");
+    cell.style.cursor = "pointer";
+
+    if (assigned.length > 0) {
+      renderAvatarStack(cell, assigned);
+    } else {
+      cell.createEl("span", {
+        text: "—",
+        cls: "planner-empty-cell"
+      });
+    }
+
+    // Click on cell to toggle assignees
+    cell.onclick = (e) => {
+      e.stopPropagation();
+      if (availablePeople.length === 0) return;
+
+      const menu = new Menu();
+      availablePeople.forEach((person) => {
+        const isAssigned = taskAssignees.includes(person.id);
+        menu.addItem((item) => {
+          item
+            .setTitle(person.name)
+            .setChecked(isAssigned)
+            .onClick(async () => {
+              const newAssignees = isAssigned
+                ? taskAssignees.filter(id => id !== person.id)
+                : [...taskAssignees, person.id];
+              await this.taskStore.updateTask(task.id, { assignees: newAssignees });
+              // Don't call render() - TaskStore subscription handles it
+            });
+        });
+      });
+
+      menu.showAtMouseEvent(e as MouseEvent);
+    };
+  }
 }
@@ -1,13 +1,26 @@
 import type ProjectPlannerPlugin from "../main";
-import { App, setIcon } from "obsidian";
+import { App, Menu, Notice, setIcon } from "obsidian";
+import type { SavedView, SavedViewKind, SavedViewState } from "../types";
+import { createSavedView, getSavedViewLabel, getSavedViews, updateSavedView } from "../utils/savedViews";
+import { SavedViewNameModal } from "./SavedViewNameModal";
 
-type ActiveView = "grid" | "board" | "graph" | "gantt" | "dashboard" | "myday";
+type ActiveView = "grid" | "board" | "graph" | "gantt" | "dashboard" | "myday" | "timesheet" | "calendar";
+
+/** A view whose filters, sort, columns and grouping can be saved as named views. */
+export interface SavedViewHost {
+    kind: SavedViewKind;
+    activeSavedViewId: string | null; // Saved view last applied here, shown in the picker
+    captureSavedView(): SavedViewState;
+    applySavedView(view: SavedView): void;
+    render(): void | Promise<void>;
+}
 
 export interface HeaderOptions {
     active: ActiveView;
     onProjectChange?: () => Promise<void> | void;
     buildExtraActions?: (actionsEl: HTMLElement) => void;
     hideAddTask?: boolean;
+    savedViewHost?: SavedViewHost;
 }
 
 export function renderPlannerHeader(
@@ -53,6 +66,11 @@ export function renderPlannerHeader(
         };
     }
 
+    // Saved views of the active project
+    if (options.savedViewHost) {
+        renderSavedViewPicker(header, plugin, options.savedViewHost);
+    }
+
     // View switcher
     const viewSwitcher = header.createDiv("planner-view-switcher");
 
@@ -84,6 +102,13 @@ export function renderPlannerHeader(
     setIcon(ganttViewBtn, "calendar-range");
     ganttViewBtn.onclick = async () => await plugin.activateGanttView();
 
+    const calendarViewBtn = viewSwitcher.createEl("button", {
+        cls: `planner-view-btn${options.active === "calendar" ? " planner-view-btn-active" : ""}`,
+        title: "Calendar",
+    });
+    setIcon(calendarViewBtn, "calendar-days");
+    calendarViewBtn.onclick = async () => await plugin.activateCalendarView();
+
     const graphViewBtn = viewSwitcher.createEl("button", {
         cls: `planner-view-btn${options.active === "graph" ? " planner-view-btn-active" : ""}`,
         title: "Graph",
@@ -98,6 +123,13 @@ export function renderPlannerHeader(
     setIcon(myDayBtn, "sun");
     myDayBtn.onclick = async () => await plugin.activateMyDayView();
 
+    const timesheetBtn = viewSwitcher.createEl("button", {
+        cls: `planner-view-btn${options.active === "timesheet" ? " planner-view-btn-active" : ""}`,
+        title: "Timesheet",
+    });
+    setIcon(timesheetBtn, "timer");
+    timesheetBtn.onclick = async () => await plugin.activateTimesheetView();
+
     // Header actions (Add task, extra, Project Hub, Settings)
     const headerActions = header.createDiv("planner-header-actions");
 
@@ -115,6 +147,25 @@ export function renderPlannerHeader(
         options.buildExtraActions(headerActions);
     }
 
+    // Undo / Redo (state is refreshed on every render, which follows each store change)
+    const undoLabel = plugin.taskStore.getUndoLabel();
+    const undoBtn = headerActions.createEl("button", {
+        cls: "planner-history-btn planner-undo-btn",
+        title: undoLabel ? `Undo: ${undoLabel}` : "Nothing to undo",
+    });
+    setIcon(undoBtn, "undo-2");
+    undoBtn.disabled = !undoLabel;
+    undoBtn.onclick = async () => await plugin.undoPlannerAction();
+
+    const redoLabel = plugin.taskStore.getRedoLabel();
+    const redoBtn = headerActions.createEl("button", {
+        cls: "planner-history-btn planner-redo-btn",
+        title: redoLabel ? `Redo: ${redoLabel}` : "Nothing to redo",
+    });
+    setIcon(redoBtn, "redo-2");
+    redoBtn.disabled = !redoLabel;
+    redoBtn.onclick = async () => await plugin.redoPlannerAction();
+
     const settingsBtn = headerActions.createEl("button", {
         cls: "planner-settings-btn",
         title: "Open plugin settings",
@@ -135,3 +186,86 @@ export function renderPlannerHeader(
 
     return { headerEl: header, actionsEl: headerActions };
 }
+
+function renderSavedViewPicker(header: HTMLElement, plugin: ProjectPlannerPlugin, host: SavedViewHost): void {
+    const project = plugin.settings.projects?.find((p) => p.id === plugin.settings.activeProjectId);
+    if (!project) return;
+
+    const container = header.createDiv("planner-saved-views");
+    const select = container.createEl("select", {
+        cls: "planner-saved-view-select",
+        title: "Saved views",
+    });
+    select.createEl("option", { text: "Saved views", value: "" });
+
+    const views = getSavedViews(plugin.settings);
+    for (const view of views) {
+        select.createEl("option", { text: getSavedViewLabel(view), value: view.id });
+    }
+    const active = views.find((v) => v.id === host.activeSavedViewId && v.view === host.kind);
+    select.value = active?.id ?? "";
+    select.onchange = async () => {
+        if (select.value) await plugin.openSavedView(select.value);
+    };
+
+    const menuBtn = container.createEl("button", {
+        cls: "planner-saved-view-menu-btn",
+        title: "Save or manage saved views",
+    });
+    setIcon(menuBtn, "bookmark");
+    menuBtn.onclick = (evt) => {
+        const menu = new Menu();
+        menu.addItem((item) =>
+            item
+                .setTitle("Save current view as…")
+                .setIcon("bookmark-plus")
+                .onClick(() => {
+                    new SavedViewNameModal(plugin.app, "Save view", "", async (name) => {
+                        const saved = createSavedView(name, host.kind, host.captureSavedView());
+                        project.savedViews = [...(project.savedViews ?? []), saved];
+                        await plugin.saveSettings();
+                        host.activeSavedViewId = saved.id;
+                        await host.render();
+                    }).open();
+                })
+        );
+
+        if (active) {
+            menu.addItem((item) =>
+                item
+                    .setTitle(`Update "${active.name}"`)
+                    .setIcon("save")
+                    .onClick(async () => {
+                        updateSavedView(active, host.captureSavedView());
+                        await plugin.saveSettings();
+                        new Notice(`Saved view "${active.name}" updated`);
+                    })
+            );
+            menu.addItem((item) =>
+                item
+                    .setTitle(`Rename "${active.name}"`)
+                    .setIcon("pencil")
+                    .onClick(() => {
+                        new SavedViewNameModal(plugin.app, "Rename saved view", active.name, async (name) => {
+                            active.name = name;
+                            await plugin.saveSettings();
+                            await host.render();
+                        }).open();
+                    })
+            );
+            menu.addItem((item) =>
+                item
+                    .setTitle(`Delete "${active.name}"`)
+                    .setIcon("trash")
+                    .onClick(async () => {
+                        project.savedViews = (project.savedViews ?? []).filter((v) => v.id !== active.id);
+                        host.activeSavedViewId = null;
+                        await plugin.saveSettings();
+                        await host.render();
+                    })
+            );
+        }
+
+        menu.showAtMouseEvent(evt);
+    };
+}
@@ -0,0 +1,127 @@
+import { App, Modal, Notice } from "obsidian";
+import type ProjectPlannerPlugin from "../main";
+import { importMspdi, MspdiImportResult } from "../utils/mspdiUtils";
+
+const NEW_PROJECT = "__new__";
+
+/**
+ * Modal for importing a Microsoft Project XML (MSPDI) file, either as a new
+ * project named after the file's project title or into an existing project.
+ */
+export class MspdiImportModal extends Modal {
+    private plugin: ProjectPlannerPlugin;
+    private target = NEW_PROJECT;
+    private parsed: MspdiImportResult | null = null;
+    private fileName = "";
+
+    constructor(app: App, plugin: ProjectPlannerPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.titleEl.setText("Import Microsoft Project XML");
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("planner-import-modal");
+
+        const fileRow = contentEl.createDiv("planner-import-row");
+        fileRow.createEl("label", { text: "Project XML file" });
+        const fileInput = fileRow.createEl("input", { attr: { type: "file", accept: ".xml,application/xml,text/xml" } });
+        if (this.fileName) fileRow.createSpan({ cls: "planner-import-filename", text: this.fileName });
+        fileInput.onchange = async () => {
+            const file = fileInput.files?.[0];
+            if (!file) return;
+            this.fileName = file.name;
+            try {
+                this.parsed = importMspdi(await file.text(), this.plugin.settings);
+            } catch (error) {
+                this.parsed = null;
+                new Notice(error instanceof Error ? error.message : "Could not read the XML file.");
+            }
+            this.render();
+        };
+
+        const projectRow = contentEl.createDiv("planner-import-row");
+        projectRow.createEl("label", { text: "Import into" });
+        const projectSelect = projectRow.createEl("select");
+        projectSelect.createEl("option", {
+            text: this.parsed ? `New project "${this.parsed.projectName}"` : "New project",
+            value: NEW_PROJECT,
+        });
+        for (const project of this.plugin.settings.projects) {
+            projectSelect.createEl("option", { text: project.name, value: project.id });
+        }
+        projectSelect.value = this.target;
+        projectSelect.onchange = () => {
+            this.target = projectSelect.value;
+        };
+
+        if (!this.parsed) return;
+
+        contentEl.createDiv({
+            cls: "planner-import-hint",
+            text: `${this.parsed.tasks.length} task(s) found in "${this.parsed.projectName}".`,
+        });
+
+        const buttons = contentEl.createDiv("planner-import-buttons");
+        const importBtn = buttons.createEl("button", { cls: "mod-cta", text: "Import" });
+        importBtn.disabled = this.parsed.tasks.length === 0;
+        importBtn.onclick = async () => {
+            importBtn.disabled = true;
+            await this.runImport(this.parsed!);
+        };
+    }
+
+    private async runImport(parsed: MspdiImportResult) {
+        const { settings, taskStore } = this.plugin;
+        let project = settings.projects.find((p) => p.id === this.target);
+
+        if (!project) {
+            const now = new Date().toISOString();
+            project = {
+                id: crypto.randomUUID(),
+                name: parsed.projectName,
+                createdDate: now,
+                lastUpdatedDate: now,
+            };
+            if (parsed.currencySymbol) project.currencySymbol = parsed.currencySymbol;
+            settings.projects.push(project);
+            await this.plugin.saveSettings();
+        }
+
+        const projectId = project.id;
+        await taskStore.transaction("Import Project XML", async () => {
+            for (const task of parsed.tasks) {
+                await taskStore.addTaskToProject(task, projectId);
+            }
+        });
+
+        new Notice(`Imported ${parsed.tasks.length} task(s) into ${project.name}`);
+        this.renderResult(parsed, project.name);
+    }
+
+    private renderResult(parsed: MspdiImportResult, projectName: string) {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("p", { text: `Imported ${parsed.tasks.length} task(s) into ${projectName}.` });
+
+        if (parsed.warnings.length > 0) {
+            const list = contentEl.createEl("ul", { cls: "planner-import-rejected" });
+            for (const warning of parsed.warnings) {
+                list.createEl("li", { text: warning });
+            }
+        }
+
+        const buttons = contentEl.createDiv("planner-import-buttons");
+        buttons.createEl("button", { text: "Close" }).onclick = () => this.close();
+    }
+}
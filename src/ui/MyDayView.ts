@@ -1,12 +1,18 @@
 import { ItemView, WorkspaceLeaf, Menu, setIcon } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
-import type { PlannerTask } from "../types";
+import type { PlannerTask, SavedView, SavedViewState } from "../types";
 import { TaskStore } from "../stores/taskStore";
-import { renderPlannerHeader } from "./Header";
+import { renderPlannerHeader, type SavedViewHost } from "./Header";
+import { attachFilterQueryInput } from "./FilterQueryInput";
+import { renderTimerButton } from "./TimerButton";
+import { isAssignedTo } from "../utils/peopleUtils";
+import { getProjectPriorities, getProjectStatuses } from "../utils/projectLists";
+import { getCompletionStatus } from "../utils/statusCategories";
+import { compileFilterQuery, getFilterQueryContext } from "../utils/filterQuery";
 
 export const VIEW_TYPE_MY_DAY = "project-planner-my-day-view";
 
-type ViewMode = "today" | "week";
+type ViewMode = "today" | "week" | "assigned";
 
 const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 const DAY_NAMES_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -69,11 +75,14 @@ function sortTasks(items: MyDayTask[]): MyDayTask[] {
   });
 }
 
-export class MyDayView extends ItemView {
+export class MyDayView extends ItemView implements SavedViewHost {
   private plugin: ProjectPlannerPlugin;
   private taskStore: TaskStore;
   private unsubscribe: (() => void) | null = null;
 
+  readonly kind = "myday";
+  activeSavedViewId: string | null = null;
+
   // View mode
   private viewMode: ViewMode = "today";
 
@@ -152,6 +161,23 @@ export class MyDayView extends ItemView {
     return this.getTasksForDate(getTodayDate());
   }
 
+  /** Tasks across all projects assigned to the configured current user. */
+  private getAssignedTasks(): MyDayTask[] {
+    const settings = this.plugin.settings;
+    const userId = settings.currentUserId;
+    const result: MyDayTask[] = [];
+    if (!userId) return result;
+    for (const project of settings.projects || []) {
+      const tasks = this.taskStore.getAllForProject(project.id) || [];
+      for (const task of tasks) {
+        if (isAssignedTo(task, userId)) {
+          result.push({ task, projectId: project.id, projectName: project.name });
+        }
+      }
+    }
+    return result;
+  }
+
   /** Tasks across all 7 days of the displayed week, keyed by YYYY-MM-DD. */
   private getWeekTaskMap(): Map<string, MyDayTask[]> {
     const weekDates = getWeekDates(this.weekAnchor);
@@ -179,16 +205,17 @@ export class MyDayView extends ItemView {
   }
 
   private applyFilters(items: MyDayTask[]): MyDayTask[] {
+    // Tasks come from every project; fields resolve against the active project's lists
+    const query = compileFilterQuery(
+      this.currentFilters.search,
+      getFilterQueryContext(this.plugin.settings, items.map((i) => i.task))
+    );
     return items.filter(({ task }) => {
       if (!this.currentFilters.showCompleted && task.completed) return false;
       if (this.currentFilters.priority !== "All" && task.priority !== this.currentFilters.priority) {
         return false;
       }
-      if (this.currentFilters.search) {
-        const q = this.currentFilters.search.toLowerCase();
-        if (!task.title.toLowerCase().includes(q)) return false;
-      }
-      return true;
+      return query.matches(task);
     });
   }
 
@@ -212,6 +239,37 @@ export class MyDayView extends ItemView {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Saved views (mode and filters)
+  // ---------------------------------------------------------------------------
+
+  captureSavedView(): SavedViewState {
+    const f = this.currentFilters;
+    return {
+      filters: {
+        priority: f.priority !== "All" ? f.priority : undefined,
+        search: f.search,
+        showCompleted: f.showCompleted || undefined,
+      },
+      myDayMode: this.viewMode,
+    };
+  }
+
+  applySavedView(view: SavedView) {
+    this.currentFilters = {
+      priority: view.filters.priority ?? "All",
+      search: view.filters.search ?? "",
+      showCompleted: view.filters.showCompleted ?? false,
+    };
+    if (view.myDayMode && view.myDayMode !== this.viewMode) {
+      this.viewMode = view.myDayMode;
+      this.savedScrollTop = null;
+      this.savedScrollLeft = null;
+    }
+    this.activeSavedViewId = view.id;
+    this.render();
+  }
+
   // ---------------------------------------------------------------------------
   // Rendering – entry point
   // ---------------------------------------------------------------------------
@@ -245,12 +303,14 @@ export class MyDayView extends ItemView {
     const mainArea = body.createDiv("myday-main");
     if (this.viewMode === "today") {
       this.renderTodayContent(mainArea, thisRender);
-    } else {
+    } else if (this.viewMode === "week") {
       this.renderWeekContent(mainArea, thisRender);
+    } else {
+      this.renderAssignedContent(mainArea, thisRender);
     }
 
     // Task picker panel (slide-in from the right)
-    if (this.pickerOpen) {
+    if (this.pickerOpen && this.viewMode !== "assigned") {
       this.renderPickerPanel(body);
     }
   }
@@ -263,7 +323,9 @@ export class MyDayView extends ItemView {
     renderPlannerHeader(wrapper, this.plugin, {
       active: "myday",
       hideAddTask: true,
+      savedViewHost: this,
       onProjectChange: async () => {
+        this.activeSavedViewId = null;
         await this.plugin.taskStore.load();
         this.render();
       },
@@ -297,6 +359,19 @@ export class MyDayView extends ItemView {
             this.render();
           }
         };
+
+        const assignedBtn = modeToggle.createEl("button", {
+          text: "Assigned to me",
+          cls: `myday-mode-btn${this.viewMode === "assigned" ? " myday-mode-btn-active" : ""}`,
+        });
+        assignedBtn.onclick = () => {
+          if (this.viewMode !== "assigned") {
+            this.viewMode = "assigned";
+            this.savedScrollTop = null;
+            this.savedScrollLeft = null;
+            this.render();
+          }
+        };
       },
     });
   }
@@ -328,9 +403,17 @@ export class MyDayView extends ItemView {
       cls: "planner-filter-search",
     });
     searchInput.value = this.currentFilters.search;
+    const renderedSearch = searchInput.value;
+    attachFilterQueryInput(searchInput, () => getFilterQueryContext(this.plugin.settings));
+    // Re-rendering recreates the box, so apply the query on Enter or blur rather than per keystroke
     searchInput.oninput = () => {
       this.currentFilters.search = searchInput.value;
-      this.render();
+    };
+    searchInput.onkeydown = (e) => {
+      if (e.key === "Enter") this.render();
+    };
+    searchInput.onblur = () => {
+      if (searchInput.value !== renderedSearch) this.render();
     };
 
     // Show completed toggle
@@ -344,18 +427,20 @@ export class MyDayView extends ItemView {
       this.render();
     };
 
-    // Add Tasks button
-    const addTasksBtn = toolbar.createEl("button", {
-      cls: `myday-add-tasks-btn${this.pickerOpen ? " myday-add-tasks-btn-active" : ""}`,
-    });
-    const addIcon = addTasksBtn.createSpan("myday-add-tasks-btn-icon");
-    setIcon(addIcon, this.pickerOpen ? "x" : "plus-circle");
-    addTasksBtn.createSpan({ text: this.pickerOpen ? "Close" : "Add Tasks" });
-    addTasksBtn.onclick = () => {
-      this.pickerOpen = !this.pickerOpen;
-      this.pickerSearch = "";
-      this.render();
-    };
+    // Add Tasks button (picker schedules tasks for today, so not shown in assigned mode)
+    if (this.viewMode !== "assigned") {
+      const addTasksBtn = toolbar.createEl("button", {
+        cls: `myday-add-tasks-btn${this.pickerOpen ? " myday-add-tasks-btn-active" : ""}`,
+      });
+      const addIcon = addTasksBtn.createSpan("myday-add-tasks-btn-icon");
+      setIcon(addIcon, this.pickerOpen ? "x" : "plus-circle");
+      addTasksBtn.createSpan({ text: this.pickerOpen ? "Close" : "Add Tasks" });
+      addTasksBtn.onclick = () => {
+        this.pickerOpen = !this.pickerOpen;
+        this.pickerSearch = "";
+        this.render();
+      };
+    }
 
     // Week navigation (only in week mode)
     if (this.viewMode === "week") {
@@ -526,7 +611,7 @@ export class MyDayView extends ItemView {
   }
 
   private renderWeekCard(container: HTMLElement, item: MyDayTask) {
-    const { task, projectName } = item;
+    const { task, projectId, projectName } = item;
     const card = container.createDiv(
       `myday-week-card${task.completed ? " myday-week-card-completed" : ""}`
     );
@@ -540,7 +625,7 @@ export class MyDayView extends ItemView {
       const isDone = checkbox.checked;
       await this.taskStore.updateTask(task.id, {
         completed: isDone,
-        status: isDone ? "Completed" : "Not Started",
+        status: getCompletionStatus(getProjectStatuses(this.plugin.settings, projectId), isDone),
       });
     };
 
@@ -553,7 +638,7 @@ export class MyDayView extends ItemView {
     // Bottom row: project + priority pill
     const cardBottom = card.createDiv("myday-week-card-bottom");
     cardBottom.createSpan({ text: projectName, cls: "myday-week-card-project" });
-    this.createPriorityPill(cardBottom, task.priority || "Medium");
+    this.createPriorityPill(cardBottom, task.priority || "Medium", projectId);
 
     // Context menu
     card.oncontextmenu = (evt) => {
@@ -562,6 +647,67 @@ export class MyDayView extends ItemView {
     };
   }
 
+  // ===========================================================================
+  // ASSIGNED content (all tasks assigned to the current user)
+  // ===========================================================================
+
+  private renderAssignedContent(wrapper: HTMLElement, thisRender: number) {
+    const content = wrapper.createDiv("myday-content");
+    this.restoreScroll(content, thisRender);
+
+    const settings = this.plugin.settings;
+    const me = (settings.availablePeople || []).find((p) => p.id === settings.currentUserId);
+    if (!me) {
+      const emptyState = content.createDiv("myday-empty");
+      const emptyIcon = emptyState.createDiv("myday-empty-icon");
+      setIcon(emptyIcon, "user");
+      emptyState.createDiv({ text: "Who are you?", cls: "myday-empty-title" });
+      emptyState.createDiv({
+        text: "Choose yourself under People → Me in the plugin settings to see your assigned tasks.",
+        cls: "myday-empty-subtitle",
+      });
+      return;
+    }
+
+    const allItems = this.getAssignedTasks();
+    const filtered = this.applyFilters(allItems);
+
+    if (filtered.length === 0) {
+      const emptyState = content.createDiv("myday-empty");
+      const emptyIcon = emptyState.createDiv("myday-empty-icon");
+      setIcon(emptyIcon, "user-check");
+      emptyState.createDiv({
+        text: allItems.length === 0 ? `Nothing assigned to ${me.name}` : "All tasks filtered out",
+        cls: "myday-empty-title",
+      });
+      if (allItems.length > 0) {
+        emptyState.createDiv({
+          text: `${allItems.length} assigned task(s) are hidden by your current filters.`,
+          cls: "myday-empty-subtitle",
+        });
+      }
+      return;
+    }
+
+    const completedCount = allItems.filter((i) => i.task.completed).length;
+    const summaryBar = content.createDiv("myday-summary");
+    summaryBar.createSpan({
+      text: `${filtered.length} task${filtered.length !== 1 ? "s" : ""} assigned to ${me.name}`,
+      cls: "myday-summary-count",
+    });
+    const pct = Math.round((completedCount / allItems.length) * 100);
+    const progressContainer = summaryBar.createDiv("myday-summary-progress");
+    const bar = progressContainer.createDiv("myday-progress-bar");
+    const fill = bar.createDiv("myday-progress-fill");
+    fill.style.width = `${pct}%`;
+    progressContainer.createSpan({
+      text: `${completedCount}/${allItems.length} done`,
+      cls: "myday-progress-label",
+    });
+
+    this.renderTable(content, filtered);
+  }
+
   // ===========================================================================
   // Task picker panel
   // ===========================================================================
@@ -644,7 +790,7 @@ export class MyDayView extends ItemView {
 
         const meta = info.createDiv("myday-picker-row-meta");
         if (task.priority) {
-          this.createPriorityPill(meta, task.priority);
+          this.createPriorityPill(meta, task.priority, group.projectId);
         }
         if (task.dueDate) {
           meta.createSpan({ text: this.formatDate(task.dueDate), cls: "myday-picker-row-date" });
@@ -715,7 +861,7 @@ export class MyDayView extends ItemView {
   }
 
   private renderRow(tbody: HTMLElement, item: MyDayTask) {
-    const { task, projectName } = item;
+    const { task, projectId, projectName } = item;
     const row = tbody.createEl("tr", { cls: "myday-row" });
     if (task.completed) row.classList.add("myday-row-completed");
 
@@ -727,7 +873,7 @@ export class MyDayView extends ItemView {
       const isDone = checkbox.checked;
       await this.taskStore.updateTask(task.id, {
         completed: isDone,
-        status: isDone ? "Completed" : "Not Started",
+        status: getCompletionStatus(getProjectStatuses(this.plugin.settings, projectId), isDone),
       });
     };
 
@@ -736,17 +882,18 @@ export class MyDayView extends ItemView {
     const titleSpan = titleCell.createSpan({ text: task.title, cls: "myday-task-title" });
     if (task.completed) titleSpan.classList.add("myday-task-completed");
     titleSpan.onclick = () => this.plugin.openTaskDetail(task);
+    renderTimerButton(titleCell, this.plugin, task);
 
     // Project
     row.createEl("td", { text: projectName, cls: "myday-project-cell" });
 
     // Status pill
     const statusCell = row.createEl("td");
-    this.createStatusPill(statusCell, task.status);
+    this.createStatusPill(statusCell, task.status, projectId);
 
     // Priority pill
     const priorityCell = row.createEl("td");
-    this.createPriorityPill(priorityCell, task.priority || "Medium");
+    this.createPriorityPill(priorityCell, task.priority || "Medium", projectId);
 
     // Due date
     row.createEl("td", { text: this.formatDate(task.dueDate), cls: "myday-date-cell" });
@@ -762,17 +909,15 @@ export class MyDayView extends ItemView {
   // Pills
   // ---------------------------------------------------------------------------
 
-  private createStatusPill(container: HTMLElement, status: string) {
-    const settings = this.plugin.settings;
-    const statusDef = settings.availableStatuses?.find((s) => s.name === status);
+  private createStatusPill(container: HTMLElement, status: string, projectId: string) {
+    const statusDef = getProjectStatuses(this.plugin.settings, projectId).find((s) => s.name === status);
     const color = statusDef?.color || "var(--text-muted)";
     const pill = container.createSpan({ text: status, cls: "planner-status-pill" });
     pill.style.setProperty("--status-color", color);
   }
 
-  private createPriorityPill(container: HTMLElement, priority: string) {
-    const settings = this.plugin.settings;
-    const priorityDef = settings.availablePriorities?.find((p) => p.name === priority);
+  private createPriorityPill(container: HTMLElement, priority: string, projectId: string) {
+    const priorityDef = getProjectPriorities(this.plugin.settings, projectId).find((p) => p.name === priority);
     const color = priorityDef?.color || "var(--text-muted)";
     const pill = container.createSpan({ text: priority, cls: "planner-priority-pill" });
     pill.style.setProperty("--priority-color", color);
@@ -801,7 +946,7 @@ export class MyDayView extends ItemView {
           const isDone = !task.completed;
           await this.taskStore.updateTask(task.id, {
             completed: isDone,
-            status: isDone ? "Completed" : "Not Started",
+            status: getCompletionStatus(getProjectStatuses(this.plugin.settings, projectId), isDone),
           });
         })
     );
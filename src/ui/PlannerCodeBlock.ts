@@ -0,0 +1,172 @@
+import { MarkdownRenderChild } from "obsidian";
+import type ProjectPlannerPlugin from "../main";
+import type { PlannerStatus, PlannerTask } from "../types";
+import { formatDateForDisplay } from "../settings";
+import { compileFilterQuery, getFilterQueryContext } from "../utils/filterQuery";
+import {
+    getBlockProgress,
+    parsePlannerBlock,
+    resolveBlockProject,
+    summarizeByBucket,
+    type PlannerBlockConfig,
+} from "../utils/plannerBlock";
+import { getProjectStatuses } from "../utils/projectLists";
+import { getCompletionStatus, getStatusColor } from "../utils/statusCategories";
+
+/** Language of the fenced code block the plugin renders. */
+export const PLANNER_CODE_BLOCK = "planner";
+
+/**
+ * Live task list for a ```planner code block (see utils/plannerBlock).
+ * Re-renders on every task store change while the note is open; checking a
+ * task off completes it in the store.
+ */
+export class PlannerCodeBlock extends MarkdownRenderChild {
+    private plugin: ProjectPlannerPlugin;
+    private source: string;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(containerEl: HTMLElement, plugin: ProjectPlannerPlugin, source: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.source = source;
+    }
+
+    onload() {
+        this.unsubscribe = this.plugin.taskStore.subscribe(() => this.render());
+        this.render();
+    }
+
+    onunload() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private render() {
+        const el = this.containerEl;
+        el.empty();
+        el.addClass("planner-block");
+
+        const settings = this.plugin.settings;
+        const { config, errors } = parsePlannerBlock(this.source);
+        const project = resolveBlockProject(settings.projects || [], settings.activeProjectId, config.project);
+        if (!project) {
+            errors.push(config.project ? `No project named "${config.project}"` : "No active project");
+            this.renderErrors(errors);
+            return;
+        }
+
+        const allTasks = this.plugin.taskStore.getAllForProject(project.id);
+        const query = compileFilterQuery(config.filter, getFilterQueryContext(settings, allTasks, project.id));
+        errors.push(...query.errors.map((e) => `Filter: ${e.message}`));
+        this.renderErrors(errors);
+
+        const tasks = allTasks.filter((t) => query.matches(t));
+        const statuses = getProjectStatuses(settings, project.id);
+
+        const header = el.createDiv("planner-block-header");
+        header.createSpan({ cls: "planner-block-project", text: project.name });
+        header.createSpan({
+            cls: "planner-block-count",
+            text: `${tasks.length} ${tasks.length === 1 ? "task" : "tasks"}`,
+        });
+
+        switch (config.mode) {
+            case "progress": {
+                const { done, total, percent } = getBlockProgress(tasks, statuses);
+                const bar = el.createDiv("planner-block-progress");
+                const fill = bar.createDiv("planner-block-progress-fill");
+                fill.style.width = `${percent}%`;
+                el.createDiv({
+                    cls: "planner-block-progress-label",
+                    text: `${done} of ${total} complete (${percent}%)`,
+                });
+                break;
+            }
+            case "board": {
+                const board = el.createDiv("planner-block-board");
+                const buckets = summarizeByBucket(tasks, project.buckets || [], statuses, project.unassignedBucketName);
+                for (const bucket of buckets) {
+                    const column = board.createDiv("planner-block-board-column");
+                    if (bucket.color) column.style.borderTopColor = bucket.color;
+                    column.createDiv({ cls: "planner-block-board-name", text: bucket.name });
+                    column.createDiv({ cls: "planner-block-board-open", text: `${bucket.open} open` });
+                    column.createDiv({ cls: "planner-block-board-done", text: `${bucket.done} done` });
+                }
+                break;
+            }
+            case "table":
+            case "list":
+                if (tasks.length === 0) {
+                    el.createDiv({ cls: "planner-block-empty", text: "No matching tasks" });
+                    break;
+                }
+                this.renderTasks(config, tasks, statuses);
+                break;
+        }
+    }
+
+    private renderErrors(errors: string[]) {
+        if (errors.length === 0) return;
+        const list = this.containerEl.createEl("ul", { cls: "planner-block-errors" });
+        for (const error of errors) {
+            list.createEl("li", { text: error });
+        }
+    }
+
+    private renderTasks(config: PlannerBlockConfig, tasks: PlannerTask[], statuses: PlannerStatus[]) {
+        const el = this.containerEl;
+        const shown = config.limit ? tasks.slice(0, config.limit) : tasks;
+        const dateFormat = this.plugin.settings.dateFormat || "iso";
+
+        if (config.mode === "table") {
+            const table = el.createEl("table", { cls: "planner-block-table" });
+            const headRow = table.createEl("thead").createEl("tr");
+            for (const label of ["", "Task", "Status", "Priority", "Due"]) {
+                headRow.createEl("th", { text: label });
+            }
+            const body = table.createEl("tbody");
+            for (const task of shown) {
+                const row = body.createEl("tr", { cls: task.completed ? "planner-block-task-done" : "" });
+                this.renderCheckbox(row.createEl("td"), task, statuses);
+                row.createEl("td", { cls: "planner-block-title", text: task.title });
+                const statusCell = row.createEl("td");
+                const dot = statusCell.createSpan("planner-block-status-dot");
+                dot.style.backgroundColor = getStatusColor(statuses, task.status);
+                statusCell.appendText(task.status);
+                row.createEl("td", { text: task.priority || "" });
+                row.createEl("td", { text: task.dueDate ? formatDateForDisplay(task.dueDate, dateFormat) : "" });
+            }
+        } else {
+            const list = el.createEl("ul", { cls: "planner-block-list" });
+            for (const task of shown) {
+                const item = list.createEl("li", {
+                    cls: `planner-block-item${task.completed ? " planner-block-task-done" : ""}`,
+                });
+                this.renderCheckbox(item, task, statuses);
+                item.createSpan({ cls: "planner-block-title", text: task.title });
+                if (task.dueDate) {
+                    item.createSpan({ cls: "planner-block-due", text: formatDateForDisplay(task.dueDate, dateFormat) });
+                }
+            }
+        }
+
+        if (shown.length < tasks.length) {
+            el.createDiv({ cls: "planner-block-more", text: `+${tasks.length - shown.length} more` });
+        }
+    }
+
+    private renderCheckbox(parent: HTMLElement, task: PlannerTask, statuses: PlannerStatus[]) {
+        const checkbox = parent.createEl("input", { type: "checkbox", cls: "planner-block-checkbox" });
+        checkbox.checked = task.completed;
+        // Keep the click from putting the block into edit mode in Live Preview
+        checkbox.onclick = (evt) => evt.stopPropagation();
+        checkbox.onchange = async () => {
+            const isDone = checkbox.checked;
+            await this.plugin.taskStore.updateTask(task.id, {
+                completed: isDone,
+                status: getCompletionStatus(statuses, isDone),
+            });
+        };
+    }
+}
@@ -0,0 +1,51 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Modal asking for a saved view's name, used when saving the current view
+ * and when renaming a saved view.
+ */
+export class SavedViewNameModal extends Modal {
+    private heading: string;
+    private name: string;
+    private onSave: (name: string) => Promise<void>;
+
+    constructor(app: App, heading: string, name: string, onSave: (name: string) => Promise<void>) {
+        super(app);
+        this.heading = heading;
+        this.name = name;
+        this.onSave = onSave;
+    }
+
+    onOpen() {
+        this.titleEl.setText(this.heading);
+        const { contentEl } = this;
+
+        const save = async () => {
+            const name = this.name.trim();
+            if (!name) return;
+            await this.onSave(name);
+            this.close();
+        };
+
+        new Setting(contentEl).setName("Name").addText((text) => {
+            text
+                .setPlaceholder("e.g. Open bugs by priority")
+                .setValue(this.name)
+                .onChange((value) => {
+                    this.name = value;
+                });
+            text.inputEl.addEventListener("keydown", (evt) => {
+                if (evt.key === "Enter") {
+                    evt.preventDefault();
+                    void save();
+                }
+            });
+        });
+
+        new Setting(contentEl).addButton((btn) => btn.setButtonText("Save").setCta().onClick(save));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,31 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import type { SavedView } from "../types";
+import { getSavedViewLabel } from "../utils/savedViews";
+
+/**
+ * Quick picker over the active project's saved views, for the
+ * "Open saved view…" command.
+ */
+export class SavedViewSuggestModal extends FuzzySuggestModal<SavedView> {
+    private views: SavedView[];
+    private onChoose: (view: SavedView) => void;
+
+    constructor(app: App, views: SavedView[], onChoose: (view: SavedView) => void) {
+        super(app);
+        this.views = views;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Open saved view…");
+    }
+
+    getItems(): SavedView[] {
+        return this.views;
+    }
+
+    getItemText(view: SavedView): string {
+        return getSavedViewLabel(view);
+    }
+
+    onChooseItem(view: SavedView): void {
+        this.onChoose(view);
+    }
+}
@@ -1,6 +1,12 @@
 import { ItemView, WorkspaceLeaf, MarkdownRenderer, setIcon, Notice } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
-import type { PlannerTask, DependencyType } from "../types";
+import type {
+  PlannerTask,
+  DependencyType,
+  TaskDependency,
+  RecurrenceFrequency,
+  TaskRecurrence,
+} from "../types";
 import {
   getEffectiveRate,
   getTaskEstimatedCost,
@@ -8,6 +14,20 @@ import {
   formatCurrency,
   formatVariance,
 } from "../utils/costUtils";
+import { getPersonInitials, getTaskAssignees } from "../utils/peopleUtils";
+import { formatDuration, getProjectCalendar } from "../utils/workingCalendar";
+import { wouldCreateDependencyCycle } from "../utils/dependencyUtils";
+import { formatRecurrenceText } from "../utils/recurrence";
+import { getCustomFieldValue, getProjectCustomFields, setCustomFieldValue } from "../utils/customFields";
+import { getProjectPriorities, getProjectStatuses, getProjectTags } from "../utils/projectLists";
+import { getCompletionStatus, isDoneStatus } from "../utils/statusCategories";
+import {
+  createManualTimeLogEntry,
+  formatHours,
+  getEntryDate,
+  getLoggedHours,
+  toLocalDateStr,
+} from "../utils/timeTracking";
 
 export const VIEW_TYPE_TASK_DETAIL = "project-planner-task-detail";
 
@@ -123,19 +143,20 @@ export class TaskDetailView extends ItemView {
     const completeBtn = headerContainer.createEl("button", {
       cls: "planner-complete-btn"
     });
+    const statuses = getProjectStatuses(this.plugin.settings, this.plugin.taskStore.getProjectIdForTask(task.id));
+    const isDone = isDoneStatus(statuses, task.status);
     const checkIcon = completeBtn.createSpan({ cls: "planner-btn-icon" });
-    setIcon(checkIcon, task.status === "Completed" ? "check-circle" : "circle");
+    setIcon(checkIcon, isDone ? "check-circle" : "circle");
     completeBtn.createSpan({
       cls: "planner-btn-text",
-      text: task.status === "Completed" ? "Completed" : "Mark as Complete"
+      text: isDone ? "Completed" : "Mark as Complete"
     });
 
     completeBtn.onclick = async () => {
-      const newStatus = task.status === "Completed" ? "Not Started" : "Completed";
-      await this.update({ status: newStatus });
+      await this.update({ status: getCompletionStatus(statuses, !isDone) });
     };
 
-    if (task.status === "Completed") {
+    if (isDone) {
       completeBtn.classList.add("planner-complete-btn-active");
     }
 
@@ -214,7 +235,8 @@ export class TaskDetailView extends ItemView {
     //
     container.createEl("h3", { text: "Status" });
     const settings = this.plugin.settings;
-    const availableStatuses = settings.availableStatuses || [];
+    const projectId = this.plugin.taskStore.getProjectIdForTask(task.id);
+    const availableStatuses = getProjectStatuses(settings, projectId);
     const statusNames = availableStatuses.map(s => s.name);
 
     this.createEditableSelect(container, task.status, statusNames, async (val) => {
@@ -225,7 +247,7 @@ export class TaskDetailView extends ItemView {
     // PRIORITY — dropdown
     //
     container.createEl("h3", { text: "Priority" });
-    const availablePriorities = settings.availablePriorities || [];
+    const availablePriorities = getProjectPriorities(settings, projectId);
     const priorityNames = availablePriorities.map(p => p.name);
     const defaultPriority = availablePriorities[0]?.name || "Medium";
 
@@ -244,6 +266,12 @@ export class TaskDetailView extends ItemView {
     container.createEl("h3", { text: "Tags" });
     this.renderTagSelector(container, task);
 
+    //
+    // ASSIGNEES — multi-select with avatars
+    //
+    container.createEl("h3", { text: "Assigned to" });
+    this.renderAssigneeSelector(container, task);
+
     //
     // CHECKLIST / SUBTASKS
     //
@@ -342,31 +370,58 @@ export class TaskDetailView extends ItemView {
     );
 
     //
-    // START DATE
+    // CUSTOM FIELDS (defined per project in settings)
     //
-    container.createEl("h3", { text: "Start Date" });
-    if (isRolledUp) {
-      const startReadonly = container.createDiv("planner-date-readonly planner-rolled-up");
-      startReadonly.textContent = task.startDate || "—";
-      startReadonly.title = "Rolled up from subtasks";
-    } else {
-      this.createEditableDateTime(container, task.startDate, async (val) => {
-        await this.update({ startDate: val });
-      });
-    }
+    this.renderCustomFields(container, task);
 
     //
-    // DUE DATE
+    // MILESTONE — zero-duration checkpoint (parents roll up their dates, so they can't be one)
     //
-    container.createEl("h3", { text: "Due Date" });
-    if (isRolledUp) {
-      const dueReadonly = container.createDiv("planner-date-readonly planner-rolled-up");
-      dueReadonly.textContent = task.dueDate || "—";
-      dueReadonly.title = "Rolled up from subtasks";
-    } else {
-      this.createEditableDateTime(container, task.dueDate, async (val) => {
+    const milestoneToggle = container.createEl("label", { cls: "planner-milestone-toggle" });
+    const milestoneCheckbox = milestoneToggle.createEl("input", { attr: { type: "checkbox" } });
+    milestoneCheckbox.checked = !!task.milestone;
+    milestoneCheckbox.disabled = !!isRolledUp;
+    milestoneToggle.createSpan({ text: "Milestone (single date, no duration)" });
+    milestoneCheckbox.onchange = async () => {
+      await this.update({ milestone: milestoneCheckbox.checked || undefined });
+    };
+
+    if (task.milestone && !isRolledUp) {
+      //
+      // DATE — milestones have a single date (stored as both start and due)
+      //
+      container.createEl("h3", { text: "Date" });
+      this.createEditableDateTime(container, task.dueDate || task.startDate, async (val) => {
         await this.update({ dueDate: val });
       });
+    } else {
+      //
+      // START DATE
+      //
+      container.createEl("h3", { text: "Start Date" });
+      if (isRolledUp) {
+        const startReadonly = container.createDiv("planner-date-readonly planner-rolled-up");
+        startReadonly.textContent = task.startDate || "—";
+        startReadonly.title = "Rolled up from subtasks";
+      } else {
+        this.createEditableDateTime(container, task.startDate, async (val) => {
+          await this.update({ startDate: val });
+        });
+      }
+
+      //
+      // DUE DATE
+      //
+      container.createEl("h3", { text: "Due Date" });
+      if (isRolledUp) {
+        const dueReadonly = container.createDiv("planner-date-readonly planner-rolled-up");
+        dueReadonly.textContent = task.dueDate || "—";
+        dueReadonly.title = "Rolled up from subtasks";
+      } else {
+        this.createEditableDateTime(container, task.dueDate, async (val) => {
+          await this.update({ dueDate: val });
+        });
+      }
     }
 
     //
@@ -374,6 +429,12 @@ export class TaskDetailView extends ItemView {
     //
     this.renderDurationRow(container, task, isRolledUp);
 
+    //
+    // REPEAT (recurrence rule)
+    //
+    container.createEl("h3", { text: "Repeat" });
+    this.renderRecurrence(container, task);
+
     //
     // % COMPLETE
     //
@@ -385,6 +446,11 @@ export class TaskDetailView extends ItemView {
     //
     this.renderEffortSection(container, task, isRolledUp);
 
+    //
+    // TIME LOG (parents roll effort up from subtasks, so time is logged on the subtasks)
+    //
+    if (!isRolledUp) this.renderTimeLog(container, task);
+
     //
     // COST
     //
@@ -817,6 +883,90 @@ export class TaskDetailView extends ItemView {
     };
   }
 
+  // ---------------------------------------------------------------------------
+  // Custom fields
+  // ---------------------------------------------------------------------------
+
+  private renderCustomFields(container: HTMLElement, task: PlannerTask) {
+    const settings = this.plugin.settings;
+    const fields = getProjectCustomFields(settings.projects?.find(p => p.id === settings.activeProjectId));
+    if (fields.length === 0) return;
+
+    const section = container.createDiv("planner-custom-fields-section");
+    section.createEl("h3", { text: "Custom Fields" });
+
+    for (const field of fields) {
+      const row = section.createDiv("planner-custom-field-row");
+      row.createDiv({ text: field.name, cls: "planner-custom-field-label" });
+      const control = row.createDiv("planner-custom-field-control");
+      const value = getCustomFieldValue(task, field);
+      const save = (raw: unknown) => this.update({ customFields: setCustomFieldValue(task.customFields, field, raw) });
+
+      switch (field.type) {
+        case "checkbox": {
+          const checkbox = control.createEl("input", { attr: { type: "checkbox" } });
+          checkbox.checked = value === true;
+          checkbox.onchange = () => void save(checkbox.checked);
+          break;
+        }
+        case "date":
+          this.createEditableDateTime(control, typeof value === "string" ? value : undefined, save);
+          break;
+        case "number": {
+          const input = control.createEl("input", {
+            attr: { type: "number", step: "any" },
+            cls: "planner-detail-input",
+          });
+          input.value = value !== undefined ? String(value) : "";
+          input.onblur = () => void save(input.value);
+          input.onkeydown = (e) => { if (e.key === "Enter") input.blur(); };
+          break;
+        }
+        case "select": {
+          const current = typeof value === "string" ? value : "";
+          const options = field.options ?? [];
+          this.createEditableSelect(
+            control,
+            current,
+            ["", ...options, ...(current && !options.includes(current) ? [current] : [])],
+            save
+          );
+          break;
+        }
+        case "multiselect": {
+          const selected = new Set(Array.isArray(value) ? value : []);
+          const options = [...new Set([...(field.options ?? []), ...selected])];
+          if (options.length === 0) {
+            control.createSpan({ text: "Add options in settings", cls: "planner-custom-field-empty" });
+          }
+          for (const option of options) {
+            const label = control.createEl("label", { cls: "planner-custom-field-option" });
+            const checkbox = label.createEl("input", { attr: { type: "checkbox" } });
+            checkbox.checked = selected.has(option);
+            label.appendText(option);
+            checkbox.onchange = () => {
+              if (checkbox.checked) selected.add(option);
+              else selected.delete(option);
+              void save(options.filter(o => selected.has(o)));
+            };
+          }
+          break;
+        }
+        default: {
+          this.createEditableInput(control, typeof value === "string" ? value : "", save);
+          if (field.type === "url" && typeof value === "string") {
+            const link = control.createEl("a", {
+              cls: "planner-custom-field-link",
+              href: value,
+              attr: { target: "_blank", rel: "noopener", "aria-label": "Open link" },
+            });
+            setIcon(link, "external-link");
+          }
+        }
+      }
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Dependencies
   // ---------------------------------------------------------------------------
@@ -861,6 +1011,29 @@ export class TaskDetailView extends ItemView {
             text: predecessor.title
           });
 
+          // Lag (signed days; negative = lead)
+          const lagInput = depRow.createEl("input", {
+            cls: "planner-dependency-lag",
+            attr: { type: "number", step: "1", title: "Lag in days (negative for lead time)" }
+          });
+          lagInput.value = String(dep.lag ?? 0);
+          depRow.createEl("span", { cls: "planner-dependency-lag-unit", text: "d" });
+          lagInput.onchange = async () => {
+            const lag = Math.trunc(Number(lagInput.value));
+            if (!Number.isFinite(lag)) {
+              lagInput.value = String(dep.lag ?? 0);
+              return;
+            }
+            const newDeps = dependencies.map((d, i) => {
+              if (i !== index) return d;
+              const next: TaskDependency = { ...d };
+              if (lag !== 0) next.lag = lag;
+              else delete next.lag;
+              return next;
+            });
+            await this.update({ dependencies: newDeps });
+          };
+
           // Remove button
           const removeBtn = depRow.createEl("span", {
             cls: "planner-dependency-remove",
@@ -908,6 +1081,13 @@ export class TaskDetailView extends ItemView {
       typeSelect.createEl("option", { text: "Finish-to-Finish", value: "FF" });
       typeSelect.createEl("option", { text: "Start-to-Finish", value: "SF" });
 
+      // Lag input (signed days)
+      const lagInput = addDepDiv.createEl("input", {
+        cls: "planner-dependency-lag",
+        attr: { type: "number", step: "1", placeholder: "Lag", title: "Lag in days (negative for lead time)" }
+      });
+      lagInput.value = "0";
+
       // Add button
       const addBtn = addDepDiv.createEl("button", {
         cls: "planner-dependency-add-btn",
@@ -916,13 +1096,15 @@ export class TaskDetailView extends ItemView {
 
       addBtn.onclick = async () => {
         if (taskSelect.value) {
-          const newDep = {
+          const newDep: TaskDependency = {
             predecessorId: taskSelect.value,
             type: typeSelect.value as DependencyType
           };
+          const lag = Math.trunc(Number(lagInput.value));
+          if (Number.isFinite(lag) && lag !== 0) newDep.lag = lag;
 
           // Check for circular dependencies
-          if (this.wouldCreateCircularDependency(task.id, newDep.predecessorId)) {
+          if (wouldCreateDependencyCycle(this.getAllTasks(), task.id, newDep.predecessorId)) {
             new Notice("Cannot add dependency: This would create a circular dependency chain.");
             return;
           }
@@ -945,29 +1127,6 @@ export class TaskDetailView extends ItemView {
     return this.plugin.taskStore.getAll();
   }
 
-  private wouldCreateCircularDependency(taskId: string, predecessorId: string): boolean {
-    const allTasks = this.getAllTasks();
-    const visited = new Set<string>();
-
-    // Walk the dependency chain from predecessor
-    const checkChain = (currentId: string): boolean => {
-      if (currentId === taskId) return true; // Circular!
-      if (visited.has(currentId)) return false;
-      visited.add(currentId);
-
-      const current = allTasks.find(t => t.id === currentId);
-      if (!current || !current.dependencies) return false;
-
-      for (const dep of current.dependencies) {
-        if (checkChain(dep.predecessorId)) return true;
-      }
-
-      return false;
-    };
-
-    return checkChain(predecessorId);
-  }
-
   // ---------------------------------------------------------------------------
   // Links / Attachments
   // ---------------------------------------------------------------------------
@@ -1108,7 +1267,7 @@ export class TaskDetailView extends ItemView {
 
   private renderTagSelector(container: HTMLElement, task: PlannerTask) {
     const settings = this.plugin.settings;
-    const availableTags = settings.availableTags || [];
+    const availableTags = getProjectTags(settings, this.plugin.taskStore.getProjectIdForTask(task.id));
     const taskTags = task.tags || [];
 
     const tagContainer = container.createDiv("planner-tag-container");
@@ -1172,6 +1331,74 @@ export class TaskDetailView extends ItemView {
     }
   }
 
+  // Assignees
+  // ---------------------------------------------------------------------------
+
+  private renderAssigneeSelector(container: HTMLElement, task: PlannerTask) {
+    const settings = this.plugin.settings;
+    const availablePeople = settings.availablePeople || [];
+    const taskAssignees = task.assignees || [];
+
+    const assigneeContainer = container.createDiv("planner-assignee-container");
+
+    // Display assigned people as avatar chips
+    const assignedDiv = assigneeContainer.createDiv("planner-assigned-people");
+    const assigned = getTaskAssignees(task, availablePeople);
+    if (assigned.length === 0) {
+      assignedDiv.createEl("span", {
+        text: "Unassigned",
+        cls: "planner-no-tags"
+      });
+    } else {
+      assigned.forEach((person) => {
+        const chip = assignedDiv.createDiv("planner-assignee-chip");
+        const avatar = chip.createSpan({
+          cls: "planner-avatar",
+          text: getPersonInitials(person.name)
+        });
+        avatar.style.backgroundColor = person.color;
+        chip.createSpan({ text: person.name, cls: "planner-assignee-name" });
+
+        const removeBtn = chip.createEl("span", {
+          cls: "planner-tag-remove",
+          text: "×"
+        });
+        removeBtn.onclick = async () => {
+          const newAssignees = taskAssignees.filter(id => id !== person.id);
+          await this.update({ assignees: newAssignees });
+        };
+      });
+    }
+
+    // Add assignee dropdown
+    if (availablePeople.length > 0) {
+      const addDiv = assigneeContainer.createDiv("planner-add-tag");
+      const select = addDiv.createEl("select", {
+        cls: "planner-tag-select"
+      });
+
+      select.createEl("option", { text: "Assign to...", value: "" });
+
+      availablePeople.forEach((person) => {
+        if (!taskAssignees.includes(person.id)) {
+          select.createEl("option", { text: person.name, value: person.id });
+        }
+      });
+
+      select.onchange = async () => {
+        if (select.value) {
+          const newAssignees = [...taskAssignees, select.value];
+          await this.update({ assignees: newAssignees });
+        }
+      };
+    } else {
+      assigneeContainer.createEl("div", {
+        text: "No people available. Add people in plugin settings.",
+        cls: "planner-no-tags-hint"
+      });
+    }
+  }
+
   // Helpers
   // ---------------------------------------------------------------------------
 
@@ -1186,17 +1413,14 @@ export class TaskDetailView extends ItemView {
 
     const durationValue = wrapper.createDiv("planner-duration-value");
 
-    if (task.startDate && task.dueDate) {
-      // Parse as local midnight to match GridView (avoid UTC shift with new Date(string))
-      const sp = task.startDate.split("-").map(Number);
-      const ep = task.dueDate.split("-").map(Number);
-      const start = new Date(sp[0], sp[1] - 1, sp[2]);
-      const end = new Date(ep[0], ep[1] - 1, ep[2]);
-      const diffMs = end.getTime() - start.getTime();
-      const diffDays = Math.ceil(diffMs / (1000 * 60 * 60 * 24));
-
-      if (diffDays >= 0) {
-        durationValue.textContent = diffDays === 1 ? "1 day" : `${diffDays} days`;
+    if (task.milestone && !isRolledUp) {
+      durationValue.textContent = "Milestone (0 days)";
+    } else if (task.startDate && task.dueDate) {
+      // Inclusive like GridView; working days only when the project has a calendar
+      const calendar = getProjectCalendar(this.plugin.settings, this.plugin.settings.activeProjectId);
+      const duration = formatDuration(task.startDate, task.dueDate, calendar);
+      if (duration) {
+        durationValue.textContent = duration;
       } else {
         durationValue.textContent = "Invalid range";
         durationValue.classList.add("planner-duration-invalid");
@@ -1207,6 +1431,135 @@ export class TaskDetailView extends ItemView {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Repeat (recurrence rule)
+  // ---------------------------------------------------------------------------
+
+  private renderRecurrence(container: HTMLElement, task: PlannerTask) {
+    const wrapper = container.createDiv("planner-recurrence");
+    const rule = task.recurrence;
+
+    // Frequency
+    const freqSelect = wrapper.createEl("select", { cls: "planner-recurrence-frequency" });
+    const frequencies: { value: RecurrenceFrequency | ""; label: string }[] = [
+      { value: "", label: "Does not repeat" },
+      { value: "daily", label: "Daily" },
+      { value: "weekly", label: "Weekly" },
+      { value: "monthly", label: "Monthly" },
+      { value: "yearly", label: "Yearly" },
+    ];
+    for (const f of frequencies) {
+      const opt = freqSelect.createEl("option", { text: f.label, value: f.value });
+      if ((rule?.frequency ?? "") === f.value) opt.selected = true;
+    }
+    freqSelect.onchange = async () => {
+      const frequency = freqSelect.value as RecurrenceFrequency | "";
+      if (!frequency) {
+        await this.update({ recurrence: undefined });
+        return;
+      }
+      const next: TaskRecurrence = { ...rule, frequency };
+      if (frequency !== "weekly") delete next.byWeekday;
+      await this.update({ recurrence: next });
+    };
+
+    if (!rule) return;
+
+    const setRule = async (changes: Partial<TaskRecurrence>) => {
+      const next: TaskRecurrence = { ...rule, ...changes };
+      for (const key of Object.keys(changes) as (keyof TaskRecurrence)[]) {
+        if (next[key] === undefined) delete next[key];
+      }
+      await this.update({ recurrence: next });
+    };
+
+    // Interval
+    const intervalRow = wrapper.createDiv("planner-recurrence-row");
+    intervalRow.createSpan({ text: "Every" });
+    const intervalInput = intervalRow.createEl("input", {
+      cls: "planner-recurrence-interval",
+      attr: { type: "number", min: "1", step: "1" }
+    });
+    intervalInput.value = String(rule.interval ?? 1);
+    const units: Record<RecurrenceFrequency, string> = { daily: "day", weekly: "week", monthly: "month", yearly: "year" };
+    intervalRow.createSpan({ text: `${units[rule.frequency]}(s)` });
+    intervalInput.onchange = async () => {
+      const interval = Math.trunc(Number(intervalInput.value));
+      if (!Number.isFinite(interval) || interval < 1) {
+        intervalInput.value = String(rule.interval ?? 1);
+        return;
+      }
+      await setRule({ interval: interval > 1 ? interval : undefined });
+    };
+
+    // Weekdays (weekly only)
+    if (rule.frequency === "weekly") {
+      const daysRow = wrapper.createDiv("planner-recurrence-weekdays");
+      const dayLabels = ["S", "M", "T", "W", "T", "F", "S"];
+      const dayTitles = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+      const selected = new Set(rule.byWeekday ?? []);
+      [1, 2, 3, 4, 5, 6, 0].forEach((day) => {
+        const chip = daysRow.createEl("button", {
+          cls: `planner-recurrence-weekday${selected.has(day) ? " is-selected" : ""}`,
+          text: dayLabels[day],
+          attr: { title: dayTitles[day] }
+        });
+        chip.onclick = async () => {
+          if (selected.has(day)) selected.delete(day);
+          else selected.add(day);
+          const byWeekday = [...selected].sort((a, b) => a - b);
+          await setRule({ byWeekday: byWeekday.length > 0 ? byWeekday : undefined });
+        };
+      });
+    }
+
+    // End condition
+    const endRow = wrapper.createDiv("planner-recurrence-row");
+    endRow.createSpan({ text: "Ends" });
+    const endSelect = endRow.createEl("select", { cls: "planner-recurrence-end" });
+    const endMode = rule.until ? "until" : rule.count !== undefined ? "count" : "never";
+    for (const [value, label] of [["never", "Never"], ["until", "On date"], ["count", "After"]]) {
+      const opt = endSelect.createEl("option", { text: label, value });
+      if (value === endMode) opt.selected = true;
+    }
+    endSelect.onchange = async () => {
+      if (endSelect.value === "until") {
+        await setRule({ until: task.dueDate || task.startDate || new Date().toISOString().slice(0, 10), count: undefined });
+      } else if (endSelect.value === "count") {
+        await setRule({ count: 5, until: undefined });
+      } else {
+        await setRule({ until: undefined, count: undefined });
+      }
+    };
+
+    if (endMode === "until") {
+      const untilInput = endRow.createEl("input", { attr: { type: "date" } });
+      untilInput.value = rule.until ?? "";
+      untilInput.onchange = async () => {
+        if (untilInput.value) await setRule({ until: untilInput.value });
+      };
+    } else if (endMode === "count") {
+      const countInput = endRow.createEl("input", {
+        cls: "planner-recurrence-interval",
+        attr: { type: "number", min: "1", step: "1" }
+      });
+      countInput.value = String(rule.count ?? 1);
+      endRow.createSpan({ text: "occurrence(s)" });
+      countInput.onchange = async () => {
+        const count = Math.trunc(Number(countInput.value));
+        if (!Number.isFinite(count) || count < 1) {
+          countInput.value = String(rule.count ?? 1);
+          return;
+        }
+        await setRule({ count });
+      };
+    }
+
+    // Summary
+    const summary = wrapper.createDiv("planner-recurrence-summary");
+    summary.textContent = `Repeats ${formatRecurrenceText(rule)} — completing this task creates the next one.`;
+  }
+
   // ---------------------------------------------------------------------------
   // % Complete
   // ---------------------------------------------------------------------------
@@ -1325,6 +1678,86 @@ export class TaskDetailView extends ItemView {
     unitLabel.createSpan({ text: "hours" });
   }
 
+  // ---------------------------------------------------------------------------
+  // Time log
+  // ---------------------------------------------------------------------------
+
+  private renderTimeLog(container: HTMLElement, task: PlannerTask) {
+    const section = container.createDiv("planner-timelog-section");
+    const logged = getLoggedHours(task);
+    const heading = section.createEl("h3", { text: "Time log" });
+    if (logged > 0) heading.createSpan({ text: ` (${formatHours(logged)})`, cls: "planner-rolled-up-hint" });
+
+    // Timer
+    const taskStore = this.plugin.taskStore;
+    const running = taskStore.getRunningTimer()?.taskId === task.id;
+    const timerBtn = section.createEl("button", {
+      cls: `planner-timelog-timer${running ? " mod-warning" : ""}`,
+      text: running ? "Stop timer" : "Start timer",
+    });
+    timerBtn.onclick = async () => {
+      if (running) {
+        const entry = await taskStore.stopTimer();
+        if (entry) new Notice(`Logged ${formatHours(entry.duration)} to ${task.title}`);
+      } else {
+        await taskStore.startTimer(task.id);
+      }
+    };
+
+    // Manual entry: date, hours, note
+    const addRow = section.createDiv("planner-timelog-add");
+    const dateInput = addRow.createEl("input", { attr: { type: "date" }, cls: "planner-timelog-date" });
+    dateInput.value = toLocalDateStr(new Date());
+    const hoursInput = addRow.createEl("input", {
+      attr: { type: "number", min: "0", step: "0.25", placeholder: "Hours" },
+      cls: "planner-timelog-hours",
+    });
+    const noteInput = addRow.createEl("input", {
+      attr: { type: "text", placeholder: "Note (optional)" },
+      cls: "planner-timelog-note",
+    });
+    const addBtn = addRow.createEl("button", { text: "Log" });
+    const commitEntry = async () => {
+      const hours = parseFloat(hoursInput.value);
+      if (!dateInput.value || !Number.isFinite(hours) || hours <= 0) {
+        new Notice("Enter a date and a number of hours greater than 0.");
+        return;
+      }
+      await taskStore.addTimeLogEntry(
+        task.id,
+        createManualTimeLogEntry(dateInput.value, hours, {
+          note: noteInput.value.trim() || undefined,
+          personId: this.plugin.settings.currentUserId || undefined,
+        })
+      );
+    };
+    addBtn.onclick = commitEntry;
+    hoursInput.onkeydown = (e) => { if (e.key === "Enter") void commitEntry(); };
+    noteInput.onkeydown = (e) => { if (e.key === "Enter") void commitEntry(); };
+
+    // Entries, newest first
+    const entries = [...(task.timeLog ?? [])].sort((a, b) => b.start.localeCompare(a.start));
+    if (entries.length === 0) return;
+
+    const people = this.plugin.settings.availablePeople || [];
+    const list = section.createDiv("planner-timelog-list");
+    for (const entry of entries) {
+      const row = list.createDiv("planner-timelog-entry");
+      row.createSpan({ text: getEntryDate(entry), cls: "planner-timelog-entry-date" });
+      row.createSpan({ text: formatHours(entry.duration), cls: "planner-timelog-entry-hours" });
+      const person = people.find(p => p.id === entry.personId);
+      if (person) row.createSpan({ text: person.name, cls: "planner-timelog-entry-person" });
+      row.createSpan({ text: entry.note ?? "", cls: "planner-timelog-entry-note" });
+
+      const removeBtn = row.createEl("button", { cls: "planner-timelog-entry-remove" });
+      setIcon(removeBtn, "trash-2");
+      removeBtn.setAttribute("title", "Delete entry");
+      removeBtn.onclick = async () => {
+        await taskStore.deleteTimeLogEntry(task.id, entry.id);
+      };
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Cost section
   // ---------------------------------------------------------------------------
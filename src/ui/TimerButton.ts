@@ -0,0 +1,32 @@
+import type ProjectPlannerPlugin from "../main";
+import { Notice, setIcon } from "obsidian";
+import type { PlannerTask } from "../types";
+import { formatHours } from "../utils/timeTracking";
+
+/**
+ * Start/stop timer toggle for a task row or card. Shows "stop" while this
+ * task's timer runs; starting it stops (and logs) any other running timer.
+ */
+export function renderTimerButton(
+    container: HTMLElement,
+    plugin: ProjectPlannerPlugin,
+    task: PlannerTask
+): HTMLElement {
+    const running = plugin.taskStore.getRunningTimer()?.taskId === task.id;
+    const button = container.createEl("button", {
+        cls: `planner-timer-btn${running ? " planner-timer-running" : ""}`,
+    });
+    setIcon(button, running ? "square" : "play");
+    button.setAttribute("title", running ? "Stop timer and log time" : "Start timer");
+
+    button.onclick = async (e) => {
+        e.stopPropagation();
+        if (running) {
+            const entry = await plugin.taskStore.stopTimer();
+            if (entry) new Notice(`Logged ${formatHours(entry.duration)} to ${task.title}`);
+        } else {
+            await plugin.taskStore.startTimer(task.id);
+        }
+    };
+    return button;
+}
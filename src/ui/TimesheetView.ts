@@ -0,0 +1,304 @@
+import { ItemView, WorkspaceLeaf, setIcon } from "obsidian";
+import type ProjectPlannerPlugin from "../main";
+import type { PlannerTask } from "../types";
+import { TaskStore } from "../stores/taskStore";
+import { renderPlannerHeader } from "./Header";
+import {
+  formatHours,
+  getLoggedHoursOnDate,
+  getWeekDateStrings,
+  roundHours,
+  setLoggedHoursOnDate,
+  toLocalDateStr,
+} from "../utils/timeTracking";
+
+export const VIEW_TYPE_TIMESHEET = "project-planner-timesheet-view";
+
+const DAY_NAMES_SHORT = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const MONTH_NAMES_SHORT = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+interface TimesheetTask {
+  task: PlannerTask;
+  projectId: string;
+  projectName: string;
+}
+
+export class TimesheetView extends ItemView {
+  private plugin: ProjectPlannerPlugin;
+  private taskStore: TaskStore;
+  private unsubscribe: (() => void) | null = null;
+
+  // Week navigation anchor (any date in the displayed week)
+  private weekAnchor: Date = new Date();
+
+  // Tasks added by hand that have no time or dates in the displayed week
+  private addedTaskIds = new Set<string>();
+
+  constructor(leaf: WorkspaceLeaf, plugin: ProjectPlannerPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.taskStore = plugin.taskStore;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_TIMESHEET;
+  }
+
+  getDisplayText() {
+    return "Timesheet";
+  }
+
+  getIcon() {
+    return "timer";
+  }
+
+  async onOpen() {
+    await this.taskStore.ensureLoaded();
+    this.unsubscribe = this.taskStore.subscribe(() => this.render());
+    this.render();
+  }
+
+  async onClose() {
+    this.containerEl.empty();
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Data helpers
+  // ---------------------------------------------------------------------------
+
+  /** Every task of every project, skipping parents whose effort is rolled up from subtasks. */
+  private getAllTasks(): TimesheetTask[] {
+    const result: TimesheetTask[] = [];
+    for (const project of this.plugin.settings.projects || []) {
+      const tasks = this.taskStore.getAllForProject(project.id) || [];
+      const parentIds = this.plugin.settings.enableParentRollUp
+        ? new Set(tasks.map((t) => t.parentId).filter(Boolean))
+        : new Set<string | undefined>();
+      for (const task of tasks) {
+        if (parentIds.has(task.id)) continue;
+        result.push({ task, projectId: project.id, projectName: project.name });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Rows for the week: tasks with time logged in it, open tasks scheduled in
+   * it, the task with the running timer and any task added by hand.
+   */
+  private getWeekRows(dates: string[]): TimesheetTask[] {
+    const weekStart = dates[0];
+    const weekEnd = dates[6];
+    const timerTaskId = this.taskStore.getRunningTimer()?.taskId;
+
+    return this.getAllTasks().filter(({ task }) => {
+      if (this.addedTaskIds.has(task.id) || task.id === timerTaskId) return true;
+      if (dates.some((d) => getLoggedHoursOnDate(task, d) > 0)) return true;
+      if (task.completed) return false;
+      const start = task.startDate || task.dueDate;
+      const end = task.dueDate || task.startDate;
+      return !!start && !!end && start <= weekEnd && end >= weekStart;
+    });
+  }
+
+  /**
+   * Set a task's hours on a day. The difference is logged (or removed) as
+   * time entries and applied to Effort Done; added hours also come off Effort
+   * Remaining, as when logging time from Task Details.
+   */
+  private async setHours(task: PlannerTask, dateStr: string, hours: number) {
+    const { timeLog, delta } = setLoggedHoursOnDate(task.timeLog ?? [], dateStr, hours, {
+      personId: this.plugin.settings.currentUserId || undefined,
+    });
+    if (delta === 0) return;
+
+    // Hours taken off the day go back to remaining effort, as when deleting an entry
+    await this.taskStore.updateTask(task.id, {
+      timeLog,
+      effortCompleted: roundHours(Math.max(0, (task.effortCompleted ?? 0) + delta)),
+      effortRemaining: roundHours(Math.max(0, (task.effortRemaining ?? 0) - delta)),
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rendering
+  // ---------------------------------------------------------------------------
+
+  render() {
+    const container = this.containerEl;
+    const scrollTop = (container.querySelector(".planner-timesheet-scroll") as HTMLElement | null)?.scrollTop ?? 0;
+
+    container.empty();
+    const wrapper = container.createDiv("planner-timesheet-wrapper");
+
+    const dates = getWeekDateStrings(this.weekAnchor);
+    const rows = this.getWeekRows(dates);
+
+    renderPlannerHeader(wrapper, this.plugin, {
+      active: "timesheet",
+      hideAddTask: true,
+      onProjectChange: () => this.render(),
+      buildExtraActions: (actionsEl) => {
+        const exportBtn = actionsEl.createEl("button", {
+          cls: "planner-timesheet-export-btn",
+          text: "Export CSV",
+          title: "Export this week's timesheet",
+        });
+        exportBtn.onclick = async () => await this.plugin.exportWeeklyTimesheet(
+          rows.map(({ task, projectId, projectName }) => ({ project: { id: projectId, name: projectName }, task })),
+          dates
+        );
+      },
+    });
+
+    this.renderToolbar(wrapper, dates, rows);
+
+    const scroll = wrapper.createDiv("planner-timesheet-scroll");
+    if (rows.length === 0) {
+      const empty = scroll.createDiv("myday-empty");
+      setIcon(empty.createDiv("myday-empty-icon"), "timer");
+      empty.createDiv({ text: "No time this week", cls: "myday-empty-title" });
+      empty.createDiv({
+        text: "Tasks scheduled this week or with time logged appear here. Use \"Add task\" to log time on any other task.",
+        cls: "myday-empty-subtitle",
+      });
+      return;
+    }
+
+    this.renderTable(scroll, dates, rows);
+    scroll.scrollTop = scrollTop;
+  }
+
+  private renderToolbar(wrapper: HTMLElement, dates: string[], rows: TimesheetTask[]) {
+    const toolbar = wrapper.createDiv("myday-toolbar");
+
+    // Week range label
+    const first = new Date(`${dates[0]}T00:00:00`);
+    const last = new Date(`${dates[6]}T00:00:00`);
+    toolbar.createSpan({
+      cls: "myday-week-range-label",
+      text: `${MONTH_NAMES_SHORT[first.getMonth()]} ${first.getDate()} – ${MONTH_NAMES_SHORT[last.getMonth()]} ${last.getDate()}, ${last.getFullYear()}`,
+    });
+
+    // Add a task that isn't listed yet
+    const shown = new Set(rows.map((r) => r.task.id));
+    const candidates = this.getAllTasks().filter(({ task }) => !shown.has(task.id) && !task.completed);
+    const addSelect = toolbar.createEl("select", { cls: "planner-filter-select planner-timesheet-add" });
+    addSelect.createEl("option", { text: "Add task…", value: "" });
+    const groups = new Map<string, HTMLElement>();
+    for (const { task, projectId, projectName } of candidates) {
+      let group = groups.get(projectId);
+      if (!group) {
+        group = addSelect.createEl("optgroup", { attr: { label: projectName } });
+        groups.set(projectId, group);
+      }
+      group.createEl("option", { text: task.title, value: task.id });
+    }
+    addSelect.disabled = candidates.length === 0;
+    addSelect.onchange = () => {
+      if (!addSelect.value) return;
+      this.addedTaskIds.add(addSelect.value);
+      this.render();
+    };
+
+    // Week navigation
+    const weekNav = toolbar.createDiv("myday-week-nav");
+
+    const prevBtn = weekNav.createEl("button", { cls: "myday-week-nav-btn", title: "Previous week" });
+    setIcon(prevBtn, "chevron-left");
+    prevBtn.onclick = () => {
+      this.weekAnchor.setDate(this.weekAnchor.getDate() - 7);
+      this.render();
+    };
+
+    const todayNavBtn = weekNav.createEl("button", { cls: "myday-week-nav-today", text: "This Week" });
+    todayNavBtn.onclick = () => {
+      this.weekAnchor = new Date();
+      this.render();
+    };
+
+    const nextBtn = weekNav.createEl("button", { cls: "myday-week-nav-btn", title: "Next week" });
+    setIcon(nextBtn, "chevron-right");
+    nextBtn.onclick = () => {
+      this.weekAnchor.setDate(this.weekAnchor.getDate() + 7);
+      this.render();
+    };
+  }
+
+  private renderTable(scroll: HTMLElement, dates: string[], rows: TimesheetTask[]) {
+    const today = toLocalDateStr(new Date());
+    const table = scroll.createEl("table", { cls: "planner-timesheet-table" });
+
+    // Header: task, one column per day, total
+    const headRow = table.createEl("thead").createEl("tr");
+    headRow.createEl("th", { text: "Task", cls: "planner-timesheet-task-col" });
+    dates.forEach((d, i) => {
+      const th = headRow.createEl("th", {
+        cls: `planner-timesheet-day-col${d === today ? " planner-timesheet-today" : ""}`,
+      });
+      th.createDiv({ text: DAY_NAMES_SHORT[i], cls: "planner-timesheet-day-name" });
+      th.createDiv({ text: String(Number(d.slice(8))), cls: "planner-timesheet-day-num" });
+    });
+    headRow.createEl("th", { text: "Total", cls: "planner-timesheet-total-col" });
+
+    // Body: one row per task
+    const dayTotals = dates.map(() => 0);
+    const tbody = table.createEl("tbody");
+    for (const { task, projectName } of rows) {
+      const tr = tbody.createEl("tr", { cls: "planner-timesheet-row" });
+
+      const taskCell = tr.createEl("td", { cls: "planner-timesheet-task-cell" });
+      const title = taskCell.createSpan({ text: task.title, cls: "planner-timesheet-task-title" });
+      title.onclick = () => this.plugin.openTaskDetail(task);
+      taskCell.createSpan({ text: projectName, cls: "planner-timesheet-project" });
+
+      let rowTotal = 0;
+      dates.forEach((d, i) => {
+        const hours = getLoggedHoursOnDate(task, d);
+        rowTotal += hours;
+        dayTotals[i] += hours;
+
+        const td = tr.createEl("td", {
+          cls: `planner-timesheet-cell${d === today ? " planner-timesheet-today" : ""}`,
+        });
+        const input = td.createEl("input", {
+          type: "number",
+          cls: "planner-timesheet-input",
+          attr: { min: "0", step: "0.25", "aria-label": `${task.title} – ${d}` },
+        });
+        input.value = hours > 0 ? String(hours) : "";
+        input.onchange = async () => {
+          const value = input.value.trim() === "" ? 0 : Number(input.value);
+          if (!Number.isFinite(value) || value < 0) {
+            input.value = hours > 0 ? String(hours) : "";
+            return;
+          }
+          await this.setHours(task, d, value);
+        };
+      });
+
+      tr.createEl("td", { text: formatHours(roundHours(rowTotal)), cls: "planner-timesheet-total-cell" });
+    }
+
+    // Footer: day totals and the week total
+    const footRow = table.createEl("tfoot").createEl("tr", { cls: "planner-timesheet-totals" });
+    footRow.createEl("td", { text: "Total", cls: "planner-timesheet-task-cell" });
+    dates.forEach((d, i) => {
+      footRow.createEl("td", {
+        text: formatHours(roundHours(dayTotals[i])),
+        cls: `planner-timesheet-total-cell${d === today ? " planner-timesheet-today" : ""}`,
+      });
+    });
+    footRow.createEl("td", {
+      text: formatHours(roundHours(dayTotals.reduce((a, b) => a + b, 0))),
+      cls: "planner-timesheet-total-cell planner-timesheet-grand-total",
+    });
+  }
+}
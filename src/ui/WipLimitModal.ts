@@ -0,0 +1,68 @@
+import { App, Modal, Setting } from "obsidian";
+import type { BoardBucket } from "../settings";
+
+/**
+ * Modal for a board bucket's WIP limit: the maximum number of open tasks,
+ * and whether drops over the limit are blocked or only warned about.
+ */
+export class WipLimitModal extends Modal {
+    private bucket: BoardBucket;
+    private onSave: (limit: number | undefined, strict: boolean) => Promise<void>;
+    private limit: string;
+    private strict: boolean;
+
+    constructor(
+        app: App,
+        bucket: BoardBucket,
+        onSave: (limit: number | undefined, strict: boolean) => Promise<void>
+    ) {
+        super(app);
+        this.bucket = bucket;
+        this.onSave = onSave;
+        this.limit = bucket.wipLimit !== undefined ? String(bucket.wipLimit) : "";
+        this.strict = !!bucket.wipLimitStrict;
+    }
+
+    onOpen() {
+        this.titleEl.setText(`WIP limit — ${this.bucket.name}`);
+        const { contentEl } = this;
+
+        new Setting(contentEl)
+            .setName("Maximum open tasks")
+            .setDesc("Leave empty for no limit. Completed tasks don't count.")
+            .addText((text) => {
+                text.inputEl.type = "number";
+                text.inputEl.min = "1";
+                text
+                    .setPlaceholder("No limit")
+                    .setValue(this.limit)
+                    .onChange((value) => {
+                        this.limit = value;
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName("Block drops over the limit")
+            .setDesc("When off, moving a task into a full bucket only shows a warning.")
+            .addToggle((toggle) =>
+                toggle.setValue(this.strict).onChange((value) => {
+                    this.strict = value;
+                })
+            );
+
+        new Setting(contentEl).addButton((btn) =>
+            btn
+                .setButtonText("Save")
+                .setCta()
+                .onClick(async () => {
+                    const limit = Math.floor(Number(this.limit));
+                    await this.onSave(this.limit.trim() !== "" && limit > 0 ? limit : undefined, this.strict);
+                    this.close();
+                })
+        );
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -1,6 +1,25 @@
 import { App, TFile, Notice, normalizePath } from "obsidian";
 import type ProjectPlannerPlugin from "../main";
 import { PlannerTask } from "../types";
+import {
+    parseTaskText,
+    readTaskLine,
+    taskLineFieldsDiffer,
+    updateTaskLine,
+    TASK_LINE_REGEX,
+    type TaskLineFields,
+} from "./dailyNoteLines";
+import { getProjectStatuses, getProjectTags } from "./projectLists";
+import { getCompletionStatus } from "./statusCategories";
+import { wouldCreateDependencyCycle } from "./dependencyUtils";
+
+/** A parsed task line, with the Tasks 🆔 / ⛔ links still to be resolved to task IDs */
+interface ParsedTaskLine {
+    task: PlannerTask;
+    locationKey: string;
+    tasksId?: string;
+    dependsOn: string[];
+}
 
 /**
  * Scans daily notes and other markdown files for tagged tasks
@@ -19,6 +38,19 @@ export class DailyNoteTaskScanner {
     private pendingScans = new Set<string>(); // Track files pending scan
     // Map: "filePath:lineNumber" -> taskId to track task locations (persisted to settings)
     private taskLocationMap = new Map<string, string>();
+    // Task fields as last synced with their note, by task ID: a store task that
+    // differs from these has changed in the planner and is written back
+    private syncedFields = new Map<string, TaskLineFields>();
+    // Content the scanner last wrote to each file, so its modify event isn't re-imported
+    private writtenContent = new Map<string, string>();
+    // Obsidian Tasks 🆔 -> ID of the imported task whose line carries it
+    private tasksIdMap = new Map<string, string>();
+    // Task ID -> ⛔ 🆔 values of its line, kept until all resolve to imported tasks
+    private pendingDependencies = new Map<string, string[]>();
+    // Task ID -> predecessors of the dependencies its ⛔ links added, removed with the link
+    private linkedDependencies = new Map<string, Set<string>>();
+    private writeBackTimeout: ReturnType<typeof setTimeout> | null = null;
+    private unsubscribeWriteBack: (() => void) | null = null;
 
     constructor(app: App, plugin: ProjectPlannerPlugin) {
         this.app = app;
@@ -35,6 +67,12 @@ export class DailyNoteTaskScanner {
             this.scanTimeout = null;
         }
         this.pendingScans.clear();
+        if (this.writeBackTimeout) {
+            clearTimeout(this.writeBackTimeout);
+            this.writeBackTimeout = null;
+        }
+        this.unsubscribeWriteBack?.();
+        this.unsubscribeWriteBack = null;
     }
 
     /**
@@ -128,83 +166,30 @@ export class DailyNoteTaskScanner {
      */
     private isTaggedTask(line: string): boolean {
         const basePattern = this.plugin.settings.dailyNoteTagPattern.replace('#', '');
-        // Match task lines: - [ ] or - [x] or - [X]
-        const taskRegex = /^[\s]*-\s+\[([ xX])\]\s+(.+)/;
         const tagRegex = new RegExp(`#${basePattern}(?:/[^\\s#]+)?`, 'i');
 
-        return taskRegex.test(line) && tagRegex.test(line);
+        return TASK_LINE_REGEX.test(line) && tagRegex.test(line);
     }
 
     /**
      * Parse a tagged task line into a PlannerTask object
      */
-    private async parseTaskLine(line: string, file: TFile, lineNumber: number): Promise<{ task: PlannerTask, locationKey: string } | null> {
-        const taskRegex = /^[\s]*-\s+\[([ xX])\]\s+(.+)/;
-        const match = line.match(taskRegex);
+    private async parseTaskLine(line: string, file: TFile, lineNumber: number): Promise<ParsedTaskLine | null> {
+        const match = line.match(TASK_LINE_REGEX);
 
         if (!match) return null;
 
         const isCompleted = match[1].toLowerCase() === 'x';
         const taskContent = match[2].trim();
 
-        // Extract tags
         const basePattern = this.plugin.settings.dailyNoteTagPattern.replace('#', '');
-        const tagRegex = new RegExp(`#${basePattern}(?:/([^\\s#]+))?`, 'gi');
-        const tags: string[] = [];
-        let projectTag: string | null = null;
-
-        let tagMatch;
-        while ((tagMatch = tagRegex.exec(taskContent)) !== null) {
-            if (tagMatch[1]) {
-                projectTag = tagMatch[1];
-            }
-            tags.push(tagMatch[0]);
-        }
-
-        // Remove tags from title
-        let title = taskContent;
-        tags.forEach(tag => {
-            title = title.replace(tag, '').trim();
-        });
-
-        // Extract priority from text (e.g., "!!!" or "🔴" or "(high)")
-        let priority: string | undefined;
-        const priorityPatterns = [
-            { pattern: /!!!/g, value: "Critical" },
-            { pattern: /!!/g, value: "High" },
-            { pattern: /!/g, value: "Medium" },
-            { pattern: /\(critical\)/gi, value: "Critical" },
-            { pattern: /\(high\)/gi, value: "High" },
-            { pattern: /\(medium\)/gi, value: "Medium" },
-            { pattern: /\(low\)/gi, value: "Low" },
-        ];
-
-        for (const { pattern, value } of priorityPatterns) {
-            if (pattern.test(title)) {
-                priority = value;
-                title = title.replace(pattern, '').trim();
-                break;
-            }
-        }
-
-        // Extract due date from text (e.g., "📅 2026-01-15" or "due: 2026-01-15")
-        let dueDate: string | undefined;
-        const dueDatePatterns = [
-            /📅\s*(\d{4}-\d{2}-\d{2})/,
-            /due:\s*(\d{4}-\d{2}-\d{2})/i,
-            /@(\d{4}-\d{2}-\d{2})/,
-        ];
-
-        for (const pattern of dueDatePatterns) {
-            const dateMatch = title.match(pattern);
-            if (dateMatch) {
-                dueDate = dateMatch[1];
-                title = title.replace(pattern, '').trim();
-                break;
-            }
-        }
+        const { title, priority, dueDate, recurrence, startDate, createdDate, tasksId, dependsOn } =
+            parseTaskText(taskContent, basePattern);
 
-        // Extract additional tags (excluding planner tag)
+        // Extract additional tags (excluding planner tag), resolved against
+        // the tags of the project the task goes into
+        const projectId = this.findProjectId(this.extractProjectFromTag(line));
+        const projectTags = getProjectTags(this.plugin.settings, projectId);
         const additionalTagRegex = /#([^\s#]+)/g;
         const additionalTags: string[] = [];
         let additionalTagMatch;
@@ -212,7 +197,7 @@ export class DailyNoteTaskScanner {
             const tag = additionalTagMatch[1];
             if (!tag.startsWith(basePattern)) {
                 // Find matching tag in settings
-                const matchedTag = this.plugin.settings.availableTags.find(
+                const matchedTag = projectTags.find(
                     t => t.name.toLowerCase() === tag.toLowerCase()
                 );
                 if (matchedTag) {
@@ -252,18 +237,22 @@ export class DailyNoteTaskScanner {
             id: taskId,
             title: title,
             completed: isCompleted,
-            status: isCompleted ? "Completed" : "Not Started",
+            status: getCompletionStatus(getProjectStatuses(this.plugin.settings, projectId), isCompleted),
             description: `Imported from: [[${file.basename}]]\nLine: ${lineNumber + 1}`,
         };
 
         // Set timestamps
-        if (isNewTask) {
+        if (createdDate) {
+            task.createdDate = createdDate;
+        } else if (isNewTask) {
             task.createdDate = today;
         }
         task.lastModifiedDate = today;
 
         if (priority) task.priority = priority;
+        if (startDate) task.startDate = startDate;
         if (dueDate) task.dueDate = dueDate;
+        if (recurrence) task.recurrence = recurrence;
         if (additionalTags.length > 0) task.tags = additionalTags;
 
         // Add link back to the source note
@@ -274,7 +263,7 @@ export class DailyNoteTaskScanner {
             type: "obsidian",
         }];
 
-        return { task, locationKey };
+        return { task, locationKey, tasksId, dependsOn };
     }
 
     /**
@@ -315,6 +304,11 @@ export class DailyNoteTaskScanner {
         }
 
         const content = await this.app.vault.read(file);
+        // Our own write-back: the note already matches the store
+        if (this.writtenContent.get(file.path) === content) {
+            this.writtenContent.delete(file.path);
+            return;
+        }
         const lines = content.split('\n');
         const currentFileTasks = new Set<string>(); // Track task IDs in this file
         // File-local dedup: prevents duplicate lines within the same file from
@@ -356,20 +350,23 @@ export class DailyNoteTaskScanner {
                         if (contentDuplicate) {
                             console.log(`[DailyNoteScanner] Found duplicate by content, updating existing task: ${task.title}`);
                             // Update the existing duplicate instead of creating new task
-                            await this.plugin.taskStore.updateTask(contentDuplicate.id, task);
+                            await this.plugin.taskStore.updateTask(contentDuplicate.id, task, { history: false });
                             // Update location map to point to existing task
                             this.taskLocationMap.set(locationKey, contentDuplicate.id);
+                            this.trackImportedTask(contentDuplicate.id, result);
                             locallyProcessed.add(contentDuplicate.id);
                             this.processedTasks.add(contentDuplicate.id);
                         } else {
                             // No duplicates found, add new task
-                            await this.plugin.taskStore.addTaskToProject(task, projectId);
+                            await this.plugin.taskStore.addTaskToProject(task, projectId, { history: false });
+                            this.trackImportedTask(task.id, result);
                             locallyProcessed.add(task.id);
                             this.processedTasks.add(task.id);
                         }
                     } else {
                         // Update existing task (content may have changed)
-                        await this.plugin.taskStore.updateTask(task.id, task);
+                        await this.plugin.taskStore.updateTask(task.id, task, { history: false });
+                        this.trackImportedTask(task.id, result);
                         locallyProcessed.add(task.id);
                         this.processedTasks.add(task.id);
                     }
@@ -377,6 +374,8 @@ export class DailyNoteTaskScanner {
             }
         }
 
+        await this.resolveTasksDependencies();
+
         // Clean up location map entries for tasks that were removed from this file
         const allKeysForFile = Array.from(this.taskLocationMap.keys()).filter(key => key.startsWith(`${file.path}:`));
         let removedCount = 0;
@@ -399,6 +398,82 @@ export class DailyNoteTaskScanner {
         }
     }
 
+    /**
+     * Record what an imported line says about its task: its synced fields,
+     * its Tasks 🆔 and the ⛔ links to reconcile (none when ⛔ is gone)
+     */
+    private trackImportedTask(taskId: string, { tasksId, dependsOn }: ParsedTaskLine) {
+        this.rememberSyncedFields(taskId);
+        if (tasksId) {
+            this.tasksIdMap.set(tasksId, taskId);
+        }
+        this.pendingDependencies.set(taskId, dependsOn);
+    }
+
+    /**
+     * Reconcile each scanned line's ⛔ links with its task's dependencies: add
+     * a Finish-to-Start dependency for each 🆔 task imported into the same
+     * project, unless it would close a loop, and remove those added for links
+     * the line no longer has. Links to tasks not imported yet stay pending
+     * until a later scan finds them.
+     */
+    private async resolveTasksDependencies() {
+        const store = this.plugin.taskStore;
+        for (const [taskId, blockerIds] of this.pendingDependencies) {
+            const task = this.findStoreTask(taskId);
+            const projectId = store.getProjectIdForTask(taskId);
+            if (!task || !projectId) {
+                this.pendingDependencies.delete(taskId);
+                this.linkedDependencies.delete(taskId);
+                continue;
+            }
+
+            const wanted = new Set<string>();
+            const unresolved: string[] = [];
+            for (const blockerId of blockerIds) {
+                const predecessorId = this.tasksIdMap.get(blockerId);
+                if (!predecessorId) {
+                    unresolved.push(blockerId);
+                } else if (store.getProjectIdForTask(predecessorId) === projectId) {
+                    wanted.add(predecessorId);
+                }
+            }
+
+            // Drop links whose ⛔ has gone, then add the new ones
+            const previouslyLinked = this.linkedDependencies.get(taskId) ?? new Set<string>();
+            const dependencies = (task.dependencies ?? []).filter(
+                d => !previouslyLinked.has(d.predecessorId) || wanted.has(d.predecessorId)
+            );
+            let changed = dependencies.length !== (task.dependencies?.length ?? 0);
+            const linked = new Set<string>();
+            const projectTasks = store.getAllForProject(projectId);
+            for (const predecessorId of wanted) {
+                if (!dependencies.some(d => d.predecessorId === predecessorId)) {
+                    if (wouldCreateDependencyCycle(projectTasks, taskId, predecessorId)) {
+                        console.warn(`[DailyNoteScanner] Skipped ⛔ link on "${task.title}": it would create a circular dependency chain`);
+                        continue;
+                    }
+                    dependencies.push({ predecessorId, type: "FS" });
+                    changed = true;
+                }
+                linked.add(predecessorId);
+            }
+
+            if (changed) {
+                await store.updateTask(taskId, { dependencies }, { history: false });
+            }
+            if (linked.size > 0) {
+                this.linkedDependencies.set(taskId, linked);
+            } else {
+                this.linkedDependencies.delete(taskId);
+            }
+            // Keep the whole list: resolved links are reconciled again with the rest
+            if (unresolved.length === 0) {
+                this.pendingDependencies.delete(taskId);
+            }
+        }
+    }
+
     /**
      * Scan all notes in the vault for tagged tasks
      */
@@ -418,6 +493,138 @@ export class DailyNoteTaskScanner {
         new Notice(`Imported ${tasksFound} tasks from daily notes`);
     }
 
+    /**
+     * Write planner changes to imported tasks (completion, title, priority,
+     * due date) back to their source lines. Store changes come in bursts, so
+     * the writes are debounced.
+     */
+    startWriteBack() {
+        if (this.unsubscribeWriteBack) return;
+        this.unsubscribeWriteBack = this.plugin.taskStore.subscribe(() => this.scheduleWriteBack());
+    }
+
+    private scheduleWriteBack() {
+        if (this.syncedFields.size === 0) return;
+
+        if (this.writeBackTimeout) {
+            clearTimeout(this.writeBackTimeout);
+        }
+
+        this.writeBackTimeout = setTimeout(() => {
+            this.writeBackTimeout = null;
+            void this.writeBackChanges();
+        }, 500);
+    }
+
+    /**
+     * Rewrite the source lines of imported tasks that changed in the store
+     * since they were last synced
+     */
+    async writeBackChanges(): Promise<void> {
+        if (!this.plugin.settings.enableDailyNoteSync) return;
+
+        // Changed tasks, grouped by the file their line is in
+        const changesByFile = new Map<string, { key: string; taskId: string; from: TaskLineFields; to: TaskLineFields }[]>();
+        const changedFields = new Map<string, TaskLineFields>();
+        for (const [key, taskId] of this.taskLocationMap) {
+            const from = this.syncedFields.get(taskId);
+            const task = from ? this.findStoreTask(taskId) : undefined;
+            if (!from || !task) continue;
+
+            const to = toLineFields(task);
+            if (!taskLineFieldsDiffer(from, to)) continue;
+
+            const path = key.slice(0, key.lastIndexOf(':'));
+            const changes = changesByFile.get(path) ?? [];
+            changes.push({ key, taskId, from, to });
+            changesByFile.set(path, changes);
+            changedFields.set(taskId, to);
+        }
+
+        let locationsChanged = false;
+        for (const [path, changes] of changesByFile) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            const content = await this.app.vault.read(file);
+            const lines = content.split('\n');
+            const moved: { oldKey: string; newKey: string; taskId: string }[] = [];
+
+            for (const change of changes) {
+                const lineNumber = this.findSourceLine(lines, change.key, change.from);
+                if (lineNumber === null) continue;
+
+                lines[lineNumber] = updateTaskLine(lines[lineNumber], change.from, change.to);
+                const newKey = `${path}:${lineNumber}`;
+                if (newKey !== change.key) {
+                    moved.push({ oldKey: change.key, newKey, taskId: change.taskId });
+                }
+            }
+
+            // Drop every old key before adding new ones: a moved line can take
+            // over the key of another line that moved as well
+            for (const { oldKey, taskId } of moved) {
+                if (this.taskLocationMap.get(oldKey) === taskId) {
+                    this.taskLocationMap.delete(oldKey);
+                }
+            }
+            for (const { newKey, taskId } of moved) {
+                this.taskLocationMap.set(newKey, taskId);
+            }
+            locationsChanged = locationsChanged || moved.length > 0;
+
+            const updated = lines.join('\n');
+            if (updated !== content) {
+                this.writtenContent.set(path, updated);
+                await this.app.vault.modify(file, updated);
+            }
+        }
+
+        // Tasks whose line is gone are marked synced too, so they aren't retried on every change
+        for (const [taskId, fields] of changedFields) {
+            this.syncedFields.set(taskId, fields);
+        }
+        if (locationsChanged) {
+            await this.saveTaskLocationMap();
+        }
+    }
+
+    /**
+     * Line number of a task's source line: its recorded line if that still
+     * holds the task, else the first tagged line with the same title (the
+     * line moved). Null when the task is no longer in the file.
+     */
+    private findSourceLine(lines: string[], key: string, from: TaskLineFields): number | null {
+        const basePattern = this.plugin.settings.dailyNoteTagPattern.replace('#', '');
+        const holdsTask = (lineNumber: number) =>
+            this.isTaggedTask(lines[lineNumber]) && readTaskLine(lines[lineNumber], basePattern)?.title === from.title;
+
+        const recorded = Number(key.slice(key.lastIndexOf(':') + 1));
+        if (recorded < lines.length && holdsTask(recorded)) return recorded;
+
+        const found = lines.findIndex((_, lineNumber) => holdsTask(lineNumber));
+        return found === -1 ? null : found;
+    }
+
+    /**
+     * Find a task in whichever project it belongs to
+     */
+    private findStoreTask(taskId: string): PlannerTask | undefined {
+        const store = this.plugin.taskStore;
+        return store.getTaskById(taskId)
+            ?? store.getAllForProject(store.getProjectIdForTask(taskId)).find(t => t.id === taskId);
+    }
+
+    /**
+     * Record a task's store fields as in sync with its note
+     */
+    private rememberSyncedFields(taskId: string) {
+        const task = this.findStoreTask(taskId);
+        if (task) {
+            this.syncedFields.set(taskId, toLineFields(task));
+        }
+    }
+
     /**
      * Watch for changes to files and scan them
      */
@@ -517,3 +724,7 @@ export class DailyNoteTaskScanner {
         await this.scanAllNotes();
     }
 }
+
+function toLineFields(task: PlannerTask): TaskLineFields {
+    return { completed: task.completed, title: task.title, priority: task.priority, dueDate: task.dueDate };
+}
@@ -1,6 +1,54 @@
 import { App, TFile } from "obsidian";
 import { PlannerTask, TaskDependency, TaskLink, PlannerSubtask, DependencyType } from "../types";
 import type ProjectPlannerPlugin from "../main";
+import { formatRRule, parseRRule } from "./recurrence";
+import { customFieldsFromFrontmatter, customFieldsToFrontmatter, getProjectCustomFields } from "./customFields";
+import { getProjectStatuses } from "./projectLists";
+import { getStatusForCategory } from "./statusCategories";
+
+/**
+ * Format a dependency's type and lag as a compact code, e.g. "FS", "FS+2d", "SS-1d".
+ */
+export function formatDependencyCode(dep: TaskDependency): string {
+    const lag = dep.lag ?? 0;
+    if (lag === 0) return dep.type;
+    return `${dep.type}${lag > 0 ? "+" : ""}${lag}d`;
+}
+
+/**
+ * Quote a frontmatter key or string value when it isn't a plain YAML scalar
+ * (custom field names and values are free text).
+ */
+function yamlQuote(value: string): string {
+    return /^[A-Za-z0-9][\w .\/@+-]*$/.test(value) && !/\s$/.test(value) && !/^(true|false|null|yes|no|~)$/i.test(value)
+        ? value
+        : JSON.stringify(value);
+}
+
+/**
+ * Parse a frontmatter dependency entry: "FS:<id>" (legacy) or "FS+2d:<id>" / "SS-1d:<id>".
+ */
+export function parseDependencySpec(spec: string): TaskDependency | null {
+    const sep = spec.indexOf(":");
+    if (sep <= 0) return null;
+    const code = spec.substring(0, sep).trim();
+    const predecessorId = spec.substring(sep + 1).trim();
+    if (!predecessorId) return null;
+
+    const match = code.match(/^(FS|SS|FF|SF)(?:([+-]\d+)d?)?$/i);
+    if (!match) {
+        // Unknown code — keep the legacy behaviour of passing it through as the type
+        return { type: code as DependencyType, predecessorId };
+    }
+
+    const dep: TaskDependency = {
+        type: match[1].toUpperCase() as DependencyType,
+        predecessorId,
+    };
+    const lag = match[2] ? parseInt(match[2], 10) : 0;
+    if (lag !== 0) dep.lag = lag;
+    return dep;
+}
 
 /**
  * Handles bidirectional synchronization between plugin JSON data and vault markdown notes.
@@ -33,9 +81,11 @@ export class TaskSync {
         if (task.bucketId) yaml.bucketId = task.bucketId;
         if (task.startDate) yaml.startDate = task.startDate;
         if (task.dueDate) yaml.dueDate = task.dueDate;
+        if (task.milestone) yaml.milestone = true;
         if (task.createdDate) yaml.createdDate = task.createdDate;
         if (task.lastModifiedDate) yaml.lastModifiedDate = task.lastModifiedDate;
         if (task.tags && task.tags.length > 0) yaml.tags = task.tags;
+        if (task.assignees && task.assignees.length > 0) yaml.assignees = task.assignees;
         if (task.collapsed !== undefined) yaml.collapsed = task.collapsed;
 
         // Effort tracking
@@ -45,7 +95,19 @@ export class TaskSync {
 
         // Dependencies
         if (task.dependencies && task.dependencies.length > 0) {
-            yaml.dependencies = task.dependencies.map(d => `${d.type}:${d.predecessorId}`);
+            yaml.dependencies = task.dependencies.map(d => `${formatDependencyCode(d)}:${d.predecessorId}`);
+        }
+
+        // Recurrence (RRULE string)
+        if (task.recurrence) yaml.recurrence = formatRRule(task.recurrence);
+
+        // Custom fields, under their names (quoted where needed, as they're free text)
+        const project = this.plugin.settings.projects.find(p => p.name === projectName);
+        const customValues = customFieldsToFrontmatter(getProjectCustomFields(project), task.customFields);
+        for (const [name, value] of Object.entries(customValues)) {
+            yaml[yamlQuote(name)] = Array.isArray(value)
+                ? value.map(yamlQuote)
+                : typeof value === "string" ? yamlQuote(value) : value;
         }
 
         // Build content
@@ -81,7 +143,7 @@ export class TaskSync {
             task.dependencies.forEach(dep => {
                 const depTask = this.plugin.taskStore.getTaskById(dep.predecessorId);
                 if (depTask) {
-                    content += `- ${dep.type}: [[${depTask.title}]]\n`;
+                    content += `- ${formatDependencyCode(dep)}: [[${depTask.title}]]\n`;
                 }
             });
             content += `\n`;
@@ -121,7 +183,7 @@ export class TaskSync {
         const task: PlannerTask = {
             id: fm.id,
             title: fm.title,
-            status: fm.status || "Not Started",
+            status: fm.status || getStatusForCategory(getProjectStatuses(this.plugin.settings, projectId), "not-started"),
             completed: fm.completed === true,
         };
 
@@ -131,9 +193,11 @@ export class TaskSync {
         if (fm.bucketId) task.bucketId = fm.bucketId;
         if (fm.startDate) task.startDate = fm.startDate;
         if (fm.dueDate) task.dueDate = fm.dueDate;
+        if (fm.milestone === true) task.milestone = true;
         if (fm.createdDate) task.createdDate = fm.createdDate;
         if (fm.lastModifiedDate) task.lastModifiedDate = fm.lastModifiedDate;
         if (fm.tags) task.tags = Array.isArray(fm.tags) ? fm.tags : [fm.tags];
+        if (fm.assignees) task.assignees = Array.isArray(fm.assignees) ? fm.assignees : [fm.assignees];
         if (fm.collapsed !== undefined) task.collapsed = fm.collapsed;
 
         // Effort tracking
@@ -143,15 +207,21 @@ export class TaskSync {
 
         // Dependencies
         if (fm.dependencies && Array.isArray(fm.dependencies)) {
-            task.dependencies = fm.dependencies.map((d: string) => {
-                const [type, predecessorId] = d.split(':');
-                return {
-                    type: type as DependencyType,
-                    predecessorId,
-                };
-            });
+            task.dependencies = fm.dependencies
+                .map((d: unknown) => parseDependencySpec(String(d)))
+                .filter((d: TaskDependency | null): d is TaskDependency => d !== null);
         }
 
+        // Recurrence
+        if (fm.recurrence) {
+            const recurrence = parseRRule(String(fm.recurrence));
+            if (recurrence) task.recurrence = recurrence;
+        }
+
+        // Custom fields of the project (always set, so removing a key clears the value)
+        const customFields = getProjectCustomFields(this.plugin.settings.projects.find(p => p.id === projectId));
+        if (customFields.length > 0) task.customFields = customFieldsFromFrontmatter(customFields, fm);
+
         // Read file content to parse description, subtasks, and links
         try {
             const content = await this.app.vault.read(file);
@@ -364,7 +434,7 @@ export class TaskSync {
                 // Update existing task (always update to ensure markdown is source of truth)
                 // Don't use updateTask as it triggers lastModifiedDate change
                 // Instead use addTaskFromObject which handles merging
-                await this.plugin.taskStore.addTaskFromObject(task);
+                await this.plugin.taskStore.addTaskFromObject(task, { history: false });
                 
                 // If title changed, rename the markdown file to match new title
                 if (titleChanged) {
@@ -384,7 +454,7 @@ export class TaskSync {
                 }
             } else {
                 // Task doesn't exist in JSON - new task created via markdown
-                await this.plugin.taskStore.addTaskFromObject(task);
+                await this.plugin.taskStore.addTaskFromObject(task, { history: false });
             }
         } finally {
             // Longer timeout for Obsidian Sync delays
@@ -437,7 +507,7 @@ export class TaskSync {
                     const taskId = taskIdByPath.get(file.path);
                     if (taskId) {
                         taskIdByPath.delete(file.path);
-                        await this.plugin.taskStore.deleteTask(taskId);
+                        await this.plugin.taskStore.deleteTask(taskId, { history: false });
                     }
                 }
             })
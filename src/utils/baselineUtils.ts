@@ -0,0 +1,86 @@
+import type { BaselineTask, PlannerTask, ProjectBaseline, WorkingCalendar } from "../types";
+import type { PlannerProject } from "../settings";
+import { getTaskEstimatedCost } from "./costUtils";
+import { toDayNumber, workingDaysBetween } from "./workingCalendar";
+
+/**
+ * Baseline Utility Functions
+ *
+ * A baseline is a named snapshot of every task's start, due, effort and
+ * estimated cost. Comparing live tasks against it gives schedule variance:
+ * positive = later than planned (slipped), negative = ahead of plan. With a
+ * working calendar, variance is counted in working days.
+ */
+
+export interface ScheduleVariance {
+  start: number | null; // null when either side has no start date
+  finish: number | null; // null when either side has no due date
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/** Snapshot the given tasks into a new named baseline. */
+export function createBaseline(name: string, tasks: PlannerTask[], project?: PlannerProject): ProjectBaseline {
+  const snapshot: Record<string, BaselineTask> = {};
+  for (const task of tasks) {
+    const entry: BaselineTask = {};
+    if (task.startDate) entry.startDate = task.startDate;
+    if (task.dueDate) entry.dueDate = task.dueDate;
+    if (task.effortCompleted !== undefined) entry.effortCompleted = task.effortCompleted;
+    if (task.effortRemaining !== undefined) entry.effortRemaining = task.effortRemaining;
+    if (task.costType) entry.cost = getTaskEstimatedCost(task, project);
+    snapshot[task.id] = entry;
+  }
+  return { id: crypto.randomUUID(), name, createdDate: new Date().toISOString(), tasks: snapshot };
+}
+
+/** The baseline a project compares against, if it is set and still exists. */
+export function getActiveBaseline(
+  project: Pick<PlannerProject, "activeBaselineId"> | undefined,
+  baselines: ProjectBaseline[]
+): ProjectBaseline | undefined {
+  if (!project?.activeBaselineId) return undefined;
+  return baselines.find((b) => b.id === project.activeBaselineId);
+}
+
+// ---------------------------------------------------------------------------
+// Variance
+// ---------------------------------------------------------------------------
+
+/** Signed day difference from `planned` to `actual` (working days with a calendar). */
+function dayVariance(planned: string | undefined, actual: string | undefined, calendar?: WorkingCalendar): number | null {
+  const from = toDayNumber(planned);
+  const to = toDayNumber(actual);
+  if (from === null || to === null) return null;
+  return workingDaysBetween(from, to, calendar);
+}
+
+/** Start/finish variance of a task against a baseline, or null if the task isn't in it. */
+export function getScheduleVariance(
+  task: PlannerTask,
+  baseline: ProjectBaseline,
+  calendar?: WorkingCalendar
+): ScheduleVariance | null {
+  const planned = baseline.tasks[task.id];
+  if (!planned) return null;
+  return {
+    start: dayVariance(planned.startDate, task.startDate, calendar),
+    finish: dayVariance(planned.dueDate, task.dueDate, calendar),
+  };
+}
+
+/** Tasks whose due date is later than in the baseline. */
+export function getSlippedTasks(
+  tasks: PlannerTask[],
+  baseline: ProjectBaseline,
+  calendar?: WorkingCalendar
+): PlannerTask[] {
+  return tasks.filter((task) => (getScheduleVariance(task, baseline, calendar)?.finish ?? 0) > 0);
+}
+
+/** Format a variance for display: "+3d", "-2d", "0d". */
+export function formatVariance(days: number): string {
+  return days > 0 ? `+${days}d` : `${days}d`;
+}
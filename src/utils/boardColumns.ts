@@ -0,0 +1,141 @@
+import type { BoardGroupBy, PlannerPriority, PlannerStatus, PlannerTask } from "../types";
+import { getStatusCategory, getStatusForCategory } from "./statusCategories";
+import { fromDayNumber, toDayNumber } from "./workingCalendar";
+
+/**
+ * Board Column Grouping
+ *
+ * By default the Board's columns are the project's buckets
+ * (PlannerTask.bucketId, independent of status). A project can instead
+ * group columns by status, priority or due-date band. Those columns are
+ * derived from the task field, and dropping a card into one rewrites the
+ * field so the task lands in the column it was dropped on.
+ */
+
+/** A derived Board column (status, priority or due-date band). */
+export interface BoardColumn {
+  key: string; // Status name, priority name ("" = none) or due band
+  label: string;
+  color?: string;
+  locked?: boolean; // Cards can't be dropped or added here (e.g. Overdue)
+}
+
+/** Lists and date a task's column is resolved against. */
+export interface BoardColumnContext {
+  statuses: PlannerStatus[];
+  priorities: PlannerPriority[];
+  today: string; // YYYY-MM-DD
+}
+
+/** Due-date bands, relative to today and the Monday–Sunday week. */
+export type DueBand = "overdue" | "today" | "this-week" | "later" | "none";
+
+/** Labels of the grouping options, in the order offered on the Board. */
+export const BOARD_GROUP_BY_LABELS: Record<BoardGroupBy, string> = {
+  bucket: "Bucket",
+  status: "Status",
+  priority: "Priority",
+  due: "Due date",
+};
+
+const DUE_BAND_COLUMNS: BoardColumn[] = [
+  { key: "overdue", label: "Overdue", color: "#d70022", locked: true },
+  { key: "today", label: "Today", color: "#f59f00" },
+  { key: "this-week", label: "This week", color: "#0a84ff" },
+  { key: "later", label: "Later", color: "#6c757d" },
+  { key: "none", label: "No due date" },
+];
+
+/** Column key of tasks without a priority. */
+const NO_PRIORITY = "";
+
+/** Day number of the Sunday ending the week that contains `day`. */
+function endOfWeek(day: number): number {
+  // Day 0 (1970-01-01) was a Thursday; (day + 3) % 7 counts from Monday
+  return day + 6 - ((day + 3) % 7);
+}
+
+// ---------------------------------------------------------------------------
+// Columns
+// ---------------------------------------------------------------------------
+
+/** Due-date band of a date relative to today. */
+export function getDueBand(dueDate: string | undefined, today: string): DueBand {
+  const due = toDayNumber(dueDate);
+  const now = toDayNumber(today);
+  if (due === null || now === null) return "none";
+  if (due < now) return "overdue";
+  if (due === now) return "today";
+  return due <= endOfWeek(now) ? "this-week" : "later";
+}
+
+/** Columns for a grouping, in display order. */
+export function getBoardColumns(groupBy: Exclude<BoardGroupBy, "bucket">, ctx: BoardColumnContext): BoardColumn[] {
+  switch (groupBy) {
+    case "status":
+      return ctx.statuses.map((s) => ({ key: s.name, label: s.name, color: s.color }));
+    case "priority":
+      return [
+        ...ctx.priorities.map((p) => ({ key: p.name, label: p.name, color: p.color })),
+        { key: NO_PRIORITY, label: "No priority" },
+      ];
+    case "due": {
+      // On the last day of the week there is no date left to move into "This week"
+      const now = toDayNumber(ctx.today);
+      const weekOver = now !== null && endOfWeek(now) === now;
+      return DUE_BAND_COLUMNS.map((c) => (c.key === "this-week" && weekOver ? { ...c, locked: true } : { ...c }));
+    }
+  }
+}
+
+/**
+ * Key of the column a task belongs in. A status missing from the list falls
+ * into the first status of its category; an unknown priority into
+ * "No priority".
+ */
+export function getTaskColumnKey(groupBy: Exclude<BoardGroupBy, "bucket">, task: PlannerTask, ctx: BoardColumnContext): string {
+  switch (groupBy) {
+    case "status":
+      return ctx.statuses.some((s) => s.name === task.status)
+        ? task.status
+        : getStatusForCategory(ctx.statuses, getStatusCategory(ctx.statuses, task.status));
+    case "priority":
+      return ctx.priorities.some((p) => p.name === task.priority) ? task.priority! : NO_PRIORITY;
+    case "due":
+      return getDueBand(task.dueDate, ctx.today);
+  }
+}
+
+/**
+ * Changes that move a task into a column, or null when the column doesn't
+ * accept cards. Due bands set the earliest fitting date: today, the end of
+ * this week, or the Monday after it.
+ */
+export function moveTaskToColumn(
+  groupBy: Exclude<BoardGroupBy, "bucket">,
+  key: string,
+  ctx: BoardColumnContext
+): Partial<PlannerTask> | null {
+  switch (groupBy) {
+    case "status":
+      return ctx.statuses.some((s) => s.name === key) ? { status: key } : null;
+    case "priority":
+      return { priority: key === NO_PRIORITY ? undefined : key };
+    case "due": {
+      const now = toDayNumber(ctx.today);
+      if (now === null) return null;
+      switch (key as DueBand) {
+        case "today":
+          return { dueDate: ctx.today };
+        case "this-week":
+          return endOfWeek(now) > now ? { dueDate: fromDayNumber(endOfWeek(now)) } : null;
+        case "later":
+          return { dueDate: fromDayNumber(endOfWeek(now) + 1) };
+        case "none":
+          return { dueDate: undefined };
+        default:
+          return null;
+      }
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import type { PlannerTask } from "../types";
+import { toLocalDateStr } from "./timeTracking";
+import { fromDayNumber, toDayNumber } from "./workingCalendar";
+
+/**
+ * Calendar Month Layout Functions
+ *
+ * The Calendar view shows each dated task as a bar from its start to its due
+ * date (or on its single date). A month is drawn as Monday-first week rows;
+ * bars that overlap within a week are stacked into lanes, and a bar that runs
+ * past a week's edge continues in the next row. Dragging a bar to another day
+ * shifts the task's start and due dates together.
+ */
+
+/** A task's date span on the calendar: start → due, or a single day. */
+export interface CalendarSpan {
+  task: PlannerTask;
+  start: string;
+  end: string;
+}
+
+/** Part of a span that falls within one week row (columns 0 = Monday … 6 = Sunday). */
+export interface WeekSegment {
+  span: CalendarSpan;
+  startCol: number;
+  endCol: number;
+  lane: number;
+}
+
+/** Whole calendar days from `a` to `b`. */
+export function daysBetween(a: string, b: string): number {
+  return (toDayNumber(b) ?? 0) - (toDayNumber(a) ?? 0);
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/** The Monday-first weeks (as YYYY-MM-DD, seven per week) covering a month (0-based). */
+export function getMonthWeeks(year: number, month: number): string[][] {
+  const first = new Date(year, month, 1);
+  const cursor = new Date(year, month, 1 - ((first.getDay() + 6) % 7));
+  const weeks: string[][] = [];
+  do {
+    const week: string[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(toLocalDateStr(cursor));
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    weeks.push(week);
+  } while (cursor.getMonth() === month);
+  return weeks;
+}
+
+/** A task's span, or null when it has no dates. A task with one date shows on that day. */
+export function getTaskSpan(task: PlannerTask): CalendarSpan | null {
+  const end = task.dueDate || task.startDate;
+  if (!end) return null;
+  const start = task.startDate && task.startDate < end ? task.startDate : end;
+  return { task, start, end };
+}
+
+/** Spans of the dated tasks, by start; on the same day longer spans come first so they take the upper lanes. */
+export function getCalendarSpans(tasks: PlannerTask[]): CalendarSpan[] {
+  return tasks
+    .map(getTaskSpan)
+    .filter((span): span is CalendarSpan => span !== null)
+    .sort((a, b) => a.start.localeCompare(b.start) || daysBetween(b.start, b.end) - daysBetween(a.start, a.end));
+}
+
+/** Lay out the (sorted) spans overlapping a week into lanes, first free lane wins. */
+export function layoutWeek(week: string[], spans: CalendarSpan[]): WeekSegment[] {
+  const weekStart = week[0];
+  const weekEnd = week[6];
+  const laneEnds: number[] = [];
+  const segments: WeekSegment[] = [];
+
+  for (const span of spans) {
+    if (span.end < weekStart || span.start > weekEnd) continue;
+    const startCol = span.start < weekStart ? 0 : daysBetween(weekStart, span.start);
+    const endCol = span.end > weekEnd ? 6 : daysBetween(weekStart, span.end);
+    let lane = laneEnds.findIndex((end) => end < startCol);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(endCol);
+    } else {
+      laneEnds[lane] = endCol;
+    }
+    segments.push({ span, startCol, endCol, lane });
+  }
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// Moving
+// ---------------------------------------------------------------------------
+
+/**
+ * Dates for a task dropped on `dropDate`, where `grabOffset` is the day of
+ * the span that was grabbed (0 = its first day). Start and due shift by the
+ * same number of days, so the task keeps its length; a date the task doesn't
+ * have stays unset. Null when the task has no dates or doesn't move.
+ */
+export function getDroppedTaskDates(
+  task: PlannerTask,
+  dropDate: string,
+  grabOffset = 0
+): Pick<PlannerTask, "startDate" | "dueDate"> | null {
+  const span = getTaskSpan(task);
+  if (!span) return null;
+  const shift = daysBetween(span.start, dropDate) - grabOffset;
+  if (shift === 0) return null;
+
+  const move = (date: string) => fromDayNumber(toDayNumber(date)! + shift);
+  const dates: Pick<PlannerTask, "startDate" | "dueDate"> = {};
+  if (task.startDate) dates.startDate = move(task.startDate);
+  if (task.dueDate) dates.dueDate = move(task.dueDate);
+  return dates;
+}
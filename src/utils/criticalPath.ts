@@ -0,0 +1,279 @@
+import type { PlannerTask, DependencyType, WorkingCalendar } from "../types";
+import {
+  toDayNumber,
+  fromDayNumber,
+  shiftWorkingDays,
+  snapToWorkingDay,
+  workingDaysBetween,
+} from "./workingCalendar";
+
+/**
+ * Critical Path Method (CPM) Engine
+ *
+ * Runs a forward pass (early start/finish) and a backward pass (late
+ * start/finish) over the task dependency network to find the chain of tasks
+ * that drives the project finish date.
+ *
+ * Conventions match TaskStore.calculateScheduledDates:
+ * - Dates are inclusive YYYY-MM-DD days; a task's span is due − start in days
+ * - FS: successor starts the day after the predecessor finishes
+ * - SS: successor starts when the predecessor starts
+ * - FF: successor finishes when the predecessor finishes
+ * - SF: successor finishes when the predecessor starts
+ * - A dependency's signed lag (days) shifts each of the above
+ *
+ * A task's own start date acts as a "start no earlier than" constraint, so the
+ * early dates never pull a task before where it is currently scheduled.
+ * Tasks without any dates are not part of the network.
+ *
+ * With a working calendar, all arithmetic (spans, lags, float) is in working
+ * days: dates are mapped onto a working-day index before the passes run.
+ */
+
+export interface TaskScheduleInfo {
+  taskId: string;
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloat: number; // days the task can slip without delaying the project finish
+  freeFloat: number; // days the task can slip without delaying any successor
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  tasks: Map<string, TaskScheduleInfo>;
+  criticalTaskIds: Set<string>;
+  criticalLinks: Set<string>; // keys from criticalLinkKey()
+  projectStart?: string;
+  projectFinish?: string;
+}
+
+interface Node {
+  task: PlannerTask;
+  start: number; // scheduled start (day index on the active scale)
+  span: number; // finish − start in days (working days with a calendar)
+  es: number;
+  ef: number;
+  ls: number;
+  lf: number;
+}
+
+interface Edge {
+  from: string;
+  to: string;
+  type: DependencyType;
+  lag: number;
+}
+
+/** Maps dates to the integer time scale the passes run on. */
+interface DayScale {
+  startIndex(dateStr: string): number | null;
+  finishIndex(dateStr: string): number | null;
+  toDate(index: number): string;
+}
+
+// ---------------------------------------------------------------------------
+// Time scales
+// ---------------------------------------------------------------------------
+
+/** Calendar days: the index is the day number itself. */
+const calendarDayScale: DayScale = {
+  startIndex: toDayNumber,
+  finishIndex: toDayNumber,
+  toDate: fromDayNumber,
+};
+
+/**
+ * Working days counted from `base` (index 0 = first working day on/after base).
+ * Starts on non-working days map to the next working day, finishes to the previous one.
+ */
+function workingDayScale(calendar: WorkingCalendar, base: string): DayScale {
+  const anchor = snapToWorkingDay(base, 1, calendar);
+  const anchorDay = toDayNumber(anchor)!;
+  const startIndex = (dateStr: string): number | null => {
+    const day = toDayNumber(dateStr);
+    return day === null ? null : workingDaysBetween(anchorDay, day, calendar);
+  };
+  return {
+    startIndex,
+    finishIndex: (dateStr) => {
+      const day = toDayNumber(dateStr);
+      return day === null ? null : workingDaysBetween(anchorDay, day + 1, calendar) - 1;
+    },
+    toDate: (index) => shiftWorkingDays(anchor, index, calendar),
+  };
+}
+
+/** Key identifying a dependency link in CriticalPathResult.criticalLinks. */
+export function criticalLinkKey(predecessorId: string, successorId: string): string {
+  return `${predecessorId}->${successorId}`;
+}
+
+// ---------------------------------------------------------------------------
+// Link constraints
+// ---------------------------------------------------------------------------
+
+/** Earliest start the successor may take, given the predecessor's early dates. */
+function earliestSuccessorStart(pred: Node, succ: Node, edge: Edge): number {
+  switch (edge.type) {
+    case "FS": return pred.ef + 1 + edge.lag;
+    case "SS": return pred.es + edge.lag;
+    case "FF": return pred.ef + edge.lag - succ.span;
+    case "SF": return pred.es + edge.lag - succ.span;
+    default: return pred.ef + 1 + edge.lag;
+  }
+}
+
+/** Latest finish the predecessor may take, given the successor's late dates. */
+function latestPredecessorFinish(pred: Node, succ: Node, edge: Edge): number {
+  switch (edge.type) {
+    case "FS": return succ.ls - 1 - edge.lag;
+    case "SS": return succ.ls - edge.lag + pred.span;
+    case "FF": return succ.lf - edge.lag;
+    case "SF": return succ.lf - edge.lag + pred.span;
+    default: return succ.ls - 1 - edge.lag;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute early/late dates, total float and free float for every dated task.
+ * Dependencies on tasks outside `tasks` (or undated tasks) are ignored, and
+ * tasks caught in a dependency cycle are left out of the result.
+ */
+export function computeCriticalPath(tasks: PlannerTask[], calendar?: WorkingCalendar): CriticalPathResult {
+  const result: CriticalPathResult = {
+    tasks: new Map(),
+    criticalTaskIds: new Set(),
+    criticalLinks: new Set(),
+  };
+
+  let scale = calendarDayScale;
+  if (calendar) {
+    const dates = tasks
+      .flatMap((t) => [t.startDate, t.dueDate])
+      .filter((d): d is string => toDayNumber(d) !== null)
+      .sort();
+    if (dates.length > 0) scale = workingDayScale(calendar, dates[0]);
+  }
+
+  // Build nodes from tasks that have at least one date
+  const nodes = new Map<string, Node>();
+  for (const task of tasks) {
+    let start = task.startDate ? scale.startIndex(task.startDate) : null;
+    let finish = task.dueDate ? scale.finishIndex(task.dueDate) : null;
+    if (start === null && finish === null) continue;
+    if (start === null) start = finish;
+    if (finish === null) finish = start;
+    const span = Math.max(0, finish! - start!);
+    nodes.set(task.id, { task, start: start!, span, es: 0, ef: 0, ls: 0, lf: 0 });
+  }
+
+  // Build edges between nodes
+  const incoming = new Map<string, Edge[]>();
+  const outgoing = new Map<string, Edge[]>();
+  for (const id of nodes.keys()) {
+    incoming.set(id, []);
+    outgoing.set(id, []);
+  }
+  for (const node of nodes.values()) {
+    for (const dep of node.task.dependencies || []) {
+      if (!nodes.has(dep.predecessorId) || dep.predecessorId === node.task.id) continue;
+      const edge: Edge = { from: dep.predecessorId, to: node.task.id, type: dep.type, lag: dep.lag ?? 0 };
+      incoming.get(edge.to)!.push(edge);
+      outgoing.get(edge.from)!.push(edge);
+    }
+  }
+
+  // Topological order (Kahn); nodes in cycles never reach in-degree 0
+  const inDegree = new Map<string, number>();
+  for (const [id, edges] of incoming) inDegree.set(id, edges.length);
+  const queue = [...nodes.keys()].filter((id) => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const edge of outgoing.get(id)!) {
+      const remaining = inDegree.get(edge.to)! - 1;
+      inDegree.set(edge.to, remaining);
+      if (remaining === 0) queue.push(edge.to);
+    }
+  }
+  if (order.length === 0) return result;
+  const ordered = new Set(order);
+
+  // Forward pass
+  for (const id of order) {
+    const node = nodes.get(id)!;
+    let es = node.start;
+    for (const edge of incoming.get(id)!) {
+      if (!ordered.has(edge.from)) continue;
+      es = Math.max(es, earliestSuccessorStart(nodes.get(edge.from)!, node, edge));
+    }
+    node.es = es;
+    node.ef = es + node.span;
+  }
+
+  const projectStart = Math.min(...order.map((id) => nodes.get(id)!.es));
+  const projectFinish = Math.max(...order.map((id) => nodes.get(id)!.ef));
+
+  // Backward pass
+  for (let i = order.length - 1; i >= 0; i--) {
+    const node = nodes.get(order[i])!;
+    let lf = projectFinish;
+    for (const edge of outgoing.get(node.task.id)!) {
+      if (!ordered.has(edge.to)) continue;
+      lf = Math.min(lf, latestPredecessorFinish(node, nodes.get(edge.to)!, edge));
+    }
+    node.lf = lf;
+    node.ls = lf - node.span;
+  }
+
+  // Float and criticality
+  for (const id of order) {
+    const node = nodes.get(id)!;
+    const totalFloat = node.ls - node.es;
+
+    let freeFloat = projectFinish - node.ef;
+    for (const edge of outgoing.get(id)!) {
+      if (!ordered.has(edge.to)) continue;
+      const succ = nodes.get(edge.to)!;
+      const slack = succ.es - earliestSuccessorStart(node, succ, edge);
+      freeFloat = Math.min(freeFloat, slack);
+    }
+
+    const critical = totalFloat <= 0;
+    result.tasks.set(id, {
+      taskId: id,
+      earlyStart: scale.toDate(node.es),
+      earlyFinish: scale.toDate(node.ef),
+      lateStart: scale.toDate(node.ls),
+      lateFinish: scale.toDate(node.lf),
+      totalFloat,
+      freeFloat: Math.max(0, freeFloat),
+      critical,
+    });
+    if (critical) result.criticalTaskIds.add(id);
+  }
+
+  // A link is critical when it joins two critical tasks and is the driving constraint
+  for (const id of order) {
+    if (!result.criticalTaskIds.has(id)) continue;
+    const succ = nodes.get(id)!;
+    for (const edge of incoming.get(id)!) {
+      if (!result.criticalTaskIds.has(edge.from)) continue;
+      const pred = nodes.get(edge.from)!;
+      if (earliestSuccessorStart(pred, succ, edge) === succ.es) {
+        result.criticalLinks.add(criticalLinkKey(edge.from, edge.to));
+      }
+    }
+  }
+
+  result.projectStart = scale.toDate(projectStart);
+  result.projectFinish = scale.toDate(projectFinish);
+  return result;
+}
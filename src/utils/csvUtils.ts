@@ -0,0 +1,455 @@
+import type { PlannerTask, TaskDependency } from "../types";
+import type { BoardBucket, PlannerProject, ProjectPlannerSettings } from "../settings";
+import { parseDateInput } from "../settings";
+import { formatDependencyCode, parseDependencySpec } from "./TaskSync";
+import { formatRRule, parseRRule } from "./recurrence";
+import { getStatusForCategory, isDoneStatus } from "./statusCategories";
+import { wouldCreateDependencyCycle, wouldCreateParentCycle } from "./dependencyUtils";
+
+/**
+ * CSV Import / Export Utility Functions
+ *
+ * Converts project tasks to and from RFC 4180 CSV so task lists can round-trip
+ * through spreadsheets. Exports resolve tag, assignee and bucket IDs to names;
+ * imports resolve them back and validate status/priority names against the
+ * configured lists, collecting rejected rows instead of failing the whole file.
+ */
+
+/** Task fields that can be exported to / imported from a CSV column. */
+export type CsvField =
+  | "id"
+  | "title"
+  | "parentId"
+  | "status"
+  | "priority"
+  | "bucket"
+  | "startDate"
+  | "dueDate"
+  | "percentComplete"
+  | "effortCompleted"
+  | "effortRemaining"
+  | "costType"
+  | "costEstimate"
+  | "costActual"
+  | "hourlyRate"
+  | "tags"
+  | "assignees"
+  | "dependencies"
+  | "recurrence"
+  | "description";
+
+/** Column order and headers used for export (and offered in the import mapping). */
+export const CSV_COLUMNS: { field: CsvField; header: string }[] = [
+  { field: "id", header: "ID" },
+  { field: "title", header: "Title" },
+  { field: "parentId", header: "Parent ID" },
+  { field: "status", header: "Status" },
+  { field: "priority", header: "Priority" },
+  { field: "bucket", header: "Bucket" },
+  { field: "startDate", header: "Start Date" },
+  { field: "dueDate", header: "Due Date" },
+  { field: "percentComplete", header: "% Complete" },
+  { field: "effortCompleted", header: "Effort Completed (h)" },
+  { field: "effortRemaining", header: "Effort Remaining (h)" },
+  { field: "costType", header: "Cost Type" },
+  { field: "costEstimate", header: "Cost Estimate" },
+  { field: "costActual", header: "Cost Actual" },
+  { field: "hourlyRate", header: "Hourly Rate" },
+  { field: "tags", header: "Tags" },
+  { field: "assignees", header: "Assigned To" },
+  { field: "dependencies", header: "Dependencies" },
+  { field: "recurrence", header: "Recurrence" },
+  { field: "description", header: "Description" },
+];
+
+/** A data row the importer skipped, with the spreadsheet row number (header = row 1). */
+export interface CsvRejectedRow {
+  row: number;
+  reason: string;
+}
+
+export interface CsvImportResult {
+  tasks: PlannerTask[];
+  rejected: CsvRejectedRow[];
+  warnings: string[]; // links dropped because they would loop
+}
+
+/** Everything the importer needs to resolve names and references. */
+export interface CsvImportContext {
+  settings: Pick<
+    ProjectPlannerSettings,
+    "availableStatuses" | "availablePriorities" | "availableTags" | "availablePeople" | "dateFormat"
+  >;
+  buckets: BoardBucket[];
+  existingTaskIds: Set<string>; // tasks already in the target project (valid parent/predecessor targets)
+}
+
+// ---------------------------------------------------------------------------
+// CSV text
+// ---------------------------------------------------------------------------
+
+/** Guess the delimiter from the header line: semicolon (Excel in many locales), tab or comma. */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: firstLine.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ",";
+}
+
+/** Parse CSV text into rows of cells. Handles quoted fields, escaped quotes and embedded newlines. */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, ""); // strip a UTF-8 byte-order mark
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Serialize rows as CSV, quoting cells that contain delimiters, quotes or
+ * newlines. Text that a spreadsheet would run as a formula gets a leading "'"
+ * (plain numbers such as "-2" are left alone).
+ */
+export function toCsv(rows: string[][]): string {
+  const escape = (value: string) => {
+    const cell = FORMULA_START.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  };
+  return rows.map((r) => r.map(escape).join(",")).join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Convert a project's tasks to CSV with one row per task, in the project's task order. */
+export function exportTasksToCsv(
+  tasks: PlannerTask[],
+  settings: Pick<ProjectPlannerSettings, "availableTags" | "availablePeople">,
+  project?: Pick<PlannerProject, "buckets">
+): string {
+  const tagName = (id: string) => settings.availableTags.find((t) => t.id === id)?.name ?? id;
+  const personName = (id: string) => settings.availablePeople.find((p) => p.id === id)?.name ?? id;
+  const bucketName = (id?: string) => (id ? project?.buckets?.find((b) => b.id === id)?.name ?? "" : "");
+  const num = (n?: number) => (n === undefined || n === null ? "" : String(n));
+
+  const rows: string[][] = [CSV_COLUMNS.map((c) => c.header)];
+  for (const task of tasks) {
+    const values: Record<CsvField, string> = {
+      id: task.id,
+      title: task.title,
+      parentId: task.parentId ?? "",
+      status: task.status,
+      priority: task.priority ?? "",
+      bucket: bucketName(task.bucketId),
+      startDate: task.startDate ?? "",
+      dueDate: task.dueDate ?? "",
+      percentComplete: num(task.percentComplete),
+      effortCompleted: num(task.effortCompleted),
+      effortRemaining: num(task.effortRemaining),
+      costType: task.costType ?? "",
+      costEstimate: num(task.costEstimate),
+      costActual: num(task.costActual),
+      hourlyRate: num(task.hourlyRate),
+      tags: (task.tags ?? []).map(tagName).join("; "),
+      assignees: (task.assignees ?? []).map(personName).join("; "),
+      dependencies: (task.dependencies ?? []).map((d) => `${formatDependencyCode(d)}:${d.predecessorId}`).join("; "),
+      recurrence: task.recurrence ? formatRRule(task.recurrence) : "",
+      description: task.description ?? "",
+    };
+    rows.push(CSV_COLUMNS.map((c) => values[c.field]));
+  }
+  return toCsv(rows);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z%]/g, "");
+
+/** Extra header spellings recognised when guessing the column mapping. */
+const HEADER_ALIASES: Record<string, CsvField> = {
+  name: "title",
+  task: "title",
+  taskname: "title",
+  parent: "parentId",
+  start: "startDate",
+  due: "dueDate",
+  finish: "dueDate",
+  enddate: "dueDate",
+  percentcomplete: "percentComplete",
+  progress: "percentComplete",
+  assignee: "assignees",
+  assignedto: "assignees",
+  labels: "tags",
+  predecessors: "dependencies",
+  notes: "description",
+};
+
+/** Guess which task field each CSV header maps to (null = skip the column). */
+export function guessColumnMapping(headers: string[]): (CsvField | null)[] {
+  const used = new Set<CsvField>();
+  return headers.map((header) => {
+    const key = normalizeHeader(header);
+    const field =
+      CSV_COLUMNS.find((c) => normalizeHeader(c.header) === key || c.field.toLowerCase() === key)?.field ??
+      HEADER_ALIASES[key] ??
+      null;
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+/**
+ * Parse a number, ignoring currency symbols and "%" / "h" suffixes. Either "."
+ * or "," may be the decimal separator: with both, the last one is; a lone "."
+ * is always decimal, and a lone "," followed by exactly three digits ("1,500")
+ * is ambiguous and rejected.
+ */
+function parseNumberCell(value: string): number | null {
+  const cleaned = value.replace(/[^\d.,\-]/g, "");
+  if (cleaned === "") return null;
+  const dots = cleaned.split(".").length - 1;
+  const commas = cleaned.split(",").length - 1;
+
+  let decimal: "." | "," | null = null;
+  if (dots > 0 && commas > 0) decimal = cleaned.lastIndexOf(".") > cleaned.lastIndexOf(",") ? "." : ",";
+  else if (dots === 1) decimal = ".";
+  else if (commas === 1) {
+    if (/^-?[1-9]\d{0,2},\d{3}$/.test(cleaned)) return null;
+    decimal = ",";
+  }
+  const group = decimal === "." ? "," : decimal === "," ? "." : dots > 0 ? "." : ",";
+
+  // Thousands separators must sit between groups of three digits
+  const point = decimal ? cleaned.lastIndexOf(decimal) : cleaned.length;
+  const whole = cleaned.slice(0, point);
+  if (whole.includes(group) && !new RegExp(`^-?\\d{1,3}(\\${group}\\d{3})+$`).test(whole)) return null;
+
+  const n = Number(whole.split(group).join("") + (decimal ? "." + cleaned.slice(point + 1) : ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+function isValidIsoDate(dateStr: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return false;
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+/** Split a list cell; names may contain commas, so only ";" separates them. */
+const splitList = (value: string, separator: RegExp = /;/) => value.split(separator).map((s) => s.trim()).filter(Boolean);
+
+/**
+ * Build tasks from CSV data rows (header row excluded) using a column → field
+ * mapping. Rows with a missing title, unknown status/priority, or malformed
+ * dates and numbers are rejected. IDs that already exist in the target project
+ * are replaced with new ones; parent and dependency references that point
+ * outside the file and the target project are dropped, and those that would
+ * form a loop are dropped with a warning.
+ */
+export function importTasksFromCsv(
+  rows: string[][],
+  mapping: (CsvField | null)[],
+  context: CsvImportContext
+): CsvImportResult {
+  const { settings } = context;
+  const today = new Date().toISOString().slice(0, 10);
+  const tasks: PlannerTask[] = [];
+  const rejected: CsvRejectedRow[] = [];
+  const warnings: string[] = [];
+  const seenIds = new Set<string>();
+  const rawParents = new Map<string, string>();
+  const rawDependencies = new Map<string, TaskDependency[]>();
+  const renamedIds = new Map<string, string>(); // CSV ID → new ID when it clashes with an existing task
+
+  rows.forEach((cells, index) => {
+    const row = index + 2; // spreadsheet row number (row 1 is the header)
+    const get = (field: CsvField): string => {
+      const col = mapping.indexOf(field);
+      // Undo the "'" an export puts before formula-like text
+      return col >= 0 ? (cells[col] ?? "").replace(/^'(?=[=+\-@\t\r])/, "").trim() : "";
+    };
+    const reject = (reason: string) => rejected.push({ row, reason });
+
+    const title = get("title");
+    if (!title) return reject("Missing title");
+
+    const csvId = get("id");
+    if (csvId && (seenIds.has(csvId) || renamedIds.has(csvId))) return reject(`Duplicate ID "${csvId}"`);
+
+    // Status / priority must match configured names (case-insensitive)
+    let status = getStatusForCategory(settings.availableStatuses, "not-started");
+    const statusValue = get("status");
+    if (statusValue) {
+      const match = settings.availableStatuses.find((s) => s.name.toLowerCase() === statusValue.toLowerCase());
+      if (!match) return reject(`Unknown status "${statusValue}"`);
+      status = match.name;
+    }
+
+    let priority = "Medium";
+    const priorityValue = get("priority");
+    if (priorityValue) {
+      const match = settings.availablePriorities.find((p) => p.name.toLowerCase() === priorityValue.toLowerCase());
+      if (!match) return reject(`Unknown priority "${priorityValue}"`);
+      priority = match.name;
+    }
+
+    // Re-importing an export into the same project creates copies rather than ID clashes
+    let id = csvId || crypto.randomUUID();
+    if (context.existingTaskIds.has(id)) id = crypto.randomUUID();
+
+    const task: PlannerTask = {
+      id,
+      title,
+      status,
+      priority,
+      completed: isDoneStatus(settings.availableStatuses, status),
+      parentId: null,
+      createdDate: today,
+      lastModifiedDate: today,
+    };
+
+    // Dates (ISO or the configured display format)
+    for (const field of ["startDate", "dueDate"] as const) {
+      const value = get(field);
+      if (!value) continue;
+      const parsed = parseDateInput(value, settings.dateFormat);
+      if (!isValidIsoDate(parsed)) {
+        return reject(`Invalid ${field === "startDate" ? "start" : "due"} date "${value}"`);
+      }
+      task[field] = parsed;
+    }
+
+    // Numbers
+    const numericFields = ["percentComplete", "effortCompleted", "effortRemaining", "costEstimate", "costActual", "hourlyRate"] as const;
+    for (const field of numericFields) {
+      const value = get(field);
+      if (!value) continue;
+      const n = parseNumberCell(value);
+      if (n === null || n < 0) {
+        const label = CSV_COLUMNS.find((c) => c.field === field)!.header;
+        return reject(`Invalid ${label} "${value}"`);
+      }
+      task[field] = field === "percentComplete" ? Math.min(100, Math.round(n)) : n;
+    }
+    const totalEffort = (task.effortCompleted ?? 0) + (task.effortRemaining ?? 0);
+    if (task.percentComplete === undefined && totalEffort > 0) {
+      task.percentComplete = Math.round(((task.effortCompleted ?? 0) / totalEffort) * 100);
+    }
+
+    const costType = get("costType").toLowerCase();
+    if (costType) {
+      if (costType !== "fixed" && costType !== "hourly") return reject(`Invalid cost type "${get("costType")}"`);
+      task.costType = costType;
+    }
+
+    // Names → IDs (unknown names are skipped)
+    const bucketValue = get("bucket").toLowerCase();
+    if (bucketValue) {
+      task.bucketId = context.buckets.find((b) => b.name.toLowerCase() === bucketValue)?.id;
+    }
+    const tagIds = splitList(get("tags"))
+      .map((name) => settings.availableTags.find((t) => t.name.toLowerCase() === name.toLowerCase() || t.id === name)?.id)
+      .filter((tagId): tagId is string => !!tagId);
+    if (tagIds.length > 0) task.tags = [...new Set(tagIds)];
+    const personIds = splitList(get("assignees"))
+      .map((name) => settings.availablePeople.find((p) => p.name.toLowerCase() === name.toLowerCase() || p.id === name)?.id)
+      .filter((personId): personId is string => !!personId);
+    if (personIds.length > 0) task.assignees = [...new Set(personIds)];
+
+    const recurrenceValue = get("recurrence");
+    if (recurrenceValue) {
+      const recurrence = parseRRule(recurrenceValue);
+      if (recurrence) task.recurrence = recurrence;
+    }
+
+    const description = get("description");
+    if (description) task.description = description;
+
+    // References are resolved once every row's ID is known
+    const parentValue = get("parentId");
+    if (parentValue) rawParents.set(id, parentValue);
+    // Dependency specs never contain commas, so either separator works
+    const deps = splitList(get("dependencies"), /[;,]/)
+      .map((spec) => parseDependencySpec(spec))
+      .filter((d): d is TaskDependency => d !== null);
+    if (deps.length > 0) rawDependencies.set(id, deps);
+
+    if (csvId && id !== csvId) renamedIds.set(csvId, id);
+    seenIds.add(id);
+    tasks.push(task);
+  });
+
+  const resolve = (ref: string): string | null => {
+    const taskId = renamedIds.get(ref) ?? ref;
+    return seenIds.has(taskId) || context.existingTaskIds.has(taskId) ? taskId : null;
+  };
+  // Links are added one at a time so each is checked against those already kept
+  const titleOf = (taskId: string) => tasks.find((t) => t.id === taskId)?.title ?? taskId;
+  for (const task of tasks) {
+    const parentValue = rawParents.get(task.id);
+    const parentId = parentValue ? resolve(parentValue) : null;
+    if (parentId) {
+      if (wouldCreateParentCycle(tasks, task.id, parentId)) {
+        warnings.push(`Parent "${titleOf(parentId)}" of "${task.title}" was dropped: it would make the task its own ancestor`);
+      } else {
+        task.parentId = parentId;
+      }
+    }
+  }
+  for (const task of tasks) {
+    for (const dep of rawDependencies.get(task.id) ?? []) {
+      const predecessorId = resolve(dep.predecessorId);
+      if (!predecessorId) continue;
+      if (wouldCreateDependencyCycle(tasks, task.id, predecessorId)) {
+        warnings.push(`Dependency of "${task.title}" on "${titleOf(predecessorId)}" was dropped: it would create a circular chain`);
+        continue;
+      }
+      task.dependencies = [...(task.dependencies ?? []), { ...dep, predecessorId }];
+    }
+  }
+
+  return { tasks, rejected, warnings };
+}
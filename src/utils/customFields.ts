@@ -0,0 +1,235 @@
+import type { CustomFieldDefinition, CustomFieldType, CustomFieldValue, PlannerTask } from "../types";
+import type { PlannerProject } from "../settings";
+
+/**
+ * Custom Field Utility Functions
+ *
+ * Projects define extra task fields (CustomFieldDefinition); tasks store their
+ * values in `customFields`, keyed by field ID so renaming a field keeps its
+ * data. In task notes each field is written under its name as a frontmatter
+ * key. Empty values are never stored: an unset field, an empty string or an
+ * unchecked checkbox all mean "no value".
+ */
+
+/** Labels of the field types, in the order offered in settings. */
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Single select",
+  multiselect: "Multi select",
+  checkbox: "Checkbox",
+  url: "URL",
+};
+
+/** Frontmatter keys written by TaskSync; custom fields can't use these names. */
+const RESERVED_FIELD_NAMES = new Set([
+  "id", "title", "status", "completed", "parentId", "priority", "bucketId",
+  "startDate", "dueDate", "milestone", "createdDate", "lastModifiedDate",
+  "tags", "assignees", "collapsed", "effortCompleted", "effortRemaining",
+  "percentComplete", "dependencies", "recurrence",
+]);
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+/** Custom fields defined on a project (none when the project is unknown). */
+export function getProjectCustomFields(project: PlannerProject | undefined): CustomFieldDefinition[] {
+  return project?.customFields ?? [];
+}
+
+/** New field definition with a fresh ID. */
+export function createCustomField(name: string, type: CustomFieldType): CustomFieldDefinition {
+  const field: CustomFieldDefinition = { id: crypto.randomUUID(), name, type };
+  if (type === "select" || type === "multiselect") field.options = [];
+  return field;
+}
+
+/** Whether a field name would clash with a built-in task frontmatter key. */
+export function isReservedFieldName(name: string): boolean {
+  return RESERVED_FIELD_NAMES.has(name.trim());
+}
+
+/** Parse a comma-separated option list, dropping blanks and duplicates. */
+export function parseFieldOptions(input: string): string[] {
+  return [...new Set(input.split(",").map((o) => o.trim()).filter(Boolean))];
+}
+
+// ---------------------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------------------
+
+/**
+ * Coerce a raw value (form input, frontmatter, CSV) to the field's type.
+ * Returns undefined for empty or unparseable values.
+ */
+export function normalizeCustomFieldValue(
+  field: CustomFieldDefinition,
+  raw: unknown
+): CustomFieldValue | undefined {
+  if (raw === null || raw === undefined) return undefined;
+
+  switch (field.type) {
+    case "number": {
+      if (typeof raw === "string" && raw.trim() === "") return undefined;
+      const n = typeof raw === "number" ? raw : Number(raw);
+      return Number.isFinite(n) ? n : undefined;
+    }
+    case "checkbox": {
+      const checked = raw === true || (typeof raw === "string" && ["true", "yes", "1"].includes(raw.trim().toLowerCase())) || raw === 1;
+      return checked ? true : undefined;
+    }
+    case "date": {
+      const str = raw instanceof Date ? raw.toISOString() : String(raw).trim();
+      const date = str.slice(0, 10);
+      return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined;
+    }
+    case "multiselect": {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(",");
+      const values = [...new Set(items.map((v) => v.trim()).filter(Boolean))];
+      return values.length > 0 ? values : undefined;
+    }
+    default: {
+      const str = String(raw).trim();
+      return str === "" ? undefined : str;
+    }
+  }
+}
+
+/** A task's value for a field, or undefined when unset. */
+export function getCustomFieldValue(task: PlannerTask, field: CustomFieldDefinition): CustomFieldValue | undefined {
+  return task.customFields?.[field.id];
+}
+
+/** Copy of a task's values with one field set (or removed when empty). */
+export function setCustomFieldValue(
+  values: Record<string, CustomFieldValue> | undefined,
+  field: CustomFieldDefinition,
+  raw: unknown
+): Record<string, CustomFieldValue> {
+  const next = { ...(values ?? {}) };
+  const value = normalizeCustomFieldValue(field, raw);
+  if (value === undefined) delete next[field.id];
+  else next[field.id] = value;
+  return next;
+}
+
+/** Display text of a value ("" when unset). */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (field.type === "checkbox") return value ? "✓" : "";
+  return String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Sorting and filtering
+// ---------------------------------------------------------------------------
+
+/** Order two set values of a field, ascending. */
+function compareValues(field: CustomFieldDefinition, a: CustomFieldValue, b: CustomFieldValue): number {
+  if (field.type === "number") return Number(a) - Number(b);
+  if (field.type === "checkbox") return Number(a) - Number(b);
+  if (field.type === "select" && field.options?.length) {
+    // Follow the option order from the field definition; unknown values last
+    const rank = (v: CustomFieldValue) => {
+      const i = field.options!.indexOf(String(v));
+      return i === -1 ? field.options!.length : i;
+    };
+    const diff = rank(a) - rank(b);
+    if (diff !== 0) return diff;
+  }
+  return formatCustomFieldValue(field, a).localeCompare(formatCustomFieldValue(field, b), undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+}
+
+/** Sort tasks by a field's value. Tasks without a value stay last in either direction. */
+export function sortTasksByCustomField(
+  tasks: PlannerTask[],
+  field: CustomFieldDefinition,
+  direction: "asc" | "desc"
+): PlannerTask[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...tasks].sort((ta, tb) => {
+    const a = getCustomFieldValue(ta, field);
+    const b = getCustomFieldValue(tb, field);
+    if (a === undefined || b === undefined) return a === undefined ? (b === undefined ? 0 : 1) : -1;
+    return sign * compareValues(field, a, b);
+  });
+}
+
+/**
+ * Whether a value passes a filter query:
+ * - select: the option; multiselect: one of the chosen options
+ * - checkbox: "checked" / "unchecked"
+ * - number: "5", ">5", ">=5", "<5", "<=5"
+ * - text / url / date: case-insensitive substring ("2026-03" matches March dates)
+ * "(empty)" matches tasks without a value. An empty query matches everything.
+ */
+export function matchesCustomFieldFilter(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  query: string
+): boolean {
+  const q = query.trim();
+  if (q === "") return true;
+  if (q === "(empty)") return value === undefined;
+
+  switch (field.type) {
+    case "checkbox":
+      return q === "checked" ? value === true : q === "unchecked" ? value !== true : true;
+    case "select":
+      return value === q;
+    case "multiselect":
+      return Array.isArray(value) && value.includes(q);
+    case "number": {
+      if (typeof value !== "number") return false;
+      const match = /^(>=|<=|>|<|=)?\s*(-?\d+(?:\.\d+)?)$/.exec(q);
+      if (!match) return false;
+      const target = Number(match[2]);
+      switch (match[1]) {
+        case ">": return value > target;
+        case ">=": return value >= target;
+        case "<": return value < target;
+        case "<=": return value <= target;
+        default: return value === target;
+      }
+    }
+    default:
+      return value !== undefined && formatCustomFieldValue(field, value).toLowerCase().includes(q.toLowerCase());
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Frontmatter
+// ---------------------------------------------------------------------------
+
+/** Field values keyed by field name, for writing to a task note's frontmatter. */
+export function customFieldsToFrontmatter(
+  fields: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue> | undefined
+): Record<string, CustomFieldValue> {
+  const result: Record<string, CustomFieldValue> = {};
+  for (const field of fields) {
+    const value = values?.[field.id];
+    if (value !== undefined && !isReservedFieldName(field.name)) result[field.name] = value;
+  }
+  return result;
+}
+
+/** Field values (keyed by field ID) read from a task note's frontmatter. */
+export function customFieldsFromFrontmatter(
+  fields: CustomFieldDefinition[],
+  frontmatter: Record<string, unknown>
+): Record<string, CustomFieldValue> {
+  const values: Record<string, CustomFieldValue> = {};
+  for (const field of fields) {
+    if (isReservedFieldName(field.name)) continue;
+    const value = normalizeCustomFieldValue(field, frontmatter[field.name]);
+    if (value !== undefined) values[field.id] = value;
+  }
+  return values;
+}
@@ -0,0 +1,265 @@
+import type { TaskRecurrence } from "../types";
+import { parseRecurrenceText } from "./recurrence";
+import {
+  getTasksRecurrenceRule,
+  parseTasksFields,
+  plannerPriorityToTasks,
+  serializeTasksFields,
+  tasksPriorityToPlanner,
+  usesTasksFormat,
+} from "./tasksFormat";
+
+/**
+ * Daily Note Task Line Functions
+ *
+ * Reading and rewriting the `- [ ] Title !! 📅 2026-01-15 #planner` lines
+ * DailyNoteTaskScanner imports. Rewriting changes only the parts whose
+ * value changed and leaves the rest of the line (indentation, tags, the
+ * user's own marker style) as written. Lines in Obsidian Tasks notation
+ * (see utils/tasksFormat) are read and written in that notation.
+ */
+
+/** The parts of a task line that sync both ways. */
+export interface TaskLineFields {
+  completed: boolean;
+  title: string;
+  priority?: string;
+  dueDate?: string;
+}
+
+/** Text of a task line without its checkbox, split into its parts. */
+export interface ParsedTaskText {
+  title: string;
+  priority?: string;
+  dueDate?: string;
+  recurrence?: TaskRecurrence;
+  startDate?: string; // Tasks 🛫
+  createdDate?: string; // Tasks ➕
+  tasksId?: string; // Tasks 🆔
+  dependsOn: string[]; // Tasks ⛔: 🆔 values of the tasks this one waits for
+  plannerTags: string[]; // #planner and #planner/Project tags, as written
+  projectTag: string | null; // Project part of the last #planner/Project tag
+}
+
+/** Matches a task line; group 1 is the checkbox mark, group 2 the text. */
+export const TASK_LINE_REGEX = /^[\s]*-\s+\[([ xX])\]\s+(.+)/;
+
+const DUE_DATE_PATTERNS = [/📅\s*(\d{4}-\d{2}-\d{2})/, /due:\s*(\d{4}-\d{2}-\d{2})/i, /@(\d{4}-\d{2}-\d{2})/];
+
+/** Marker written for each priority the parser understands. */
+const PRIORITY_MARKERS: Record<string, { bang?: string; word: string }> = {
+  critical: { bang: "!!!", word: "(critical)" },
+  high: { bang: "!!", word: "(high)" },
+  medium: { bang: "!", word: "(medium)" },
+  low: { word: "(low)" },
+};
+
+const BANG_MARKER = /(?<!!)!{1,3}(?!!)/;
+const WORD_MARKER = /\((critical|high|medium|low)\)/i;
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/** Split task text into title, priority, dates, recurrence, Tasks links and planner tags. */
+export function parseTaskText(taskContent: string, basePattern: string): ParsedTaskText {
+  // Extract tags
+  const tagRegex = new RegExp(`#${basePattern}(?:/([^\\s#]+))?`, "gi");
+  const plannerTags: string[] = [];
+  let projectTag: string | null = null;
+
+  let tagMatch;
+  while ((tagMatch = tagRegex.exec(taskContent)) !== null) {
+    if (tagMatch[1]) {
+      projectTag = tagMatch[1];
+    }
+    plannerTags.push(tagMatch[0]);
+  }
+
+  // Remove tags from title
+  let title = taskContent;
+  plannerTags.forEach((tag) => {
+    title = title.replace(tag, "").trim();
+  });
+
+  // Extract Obsidian Tasks fields (e.g., "⏫", "🛫 2026-01-10" or "⛔ a1");
+  // the plain markers below are read from what remains
+  const tasks = parseTasksFields(title);
+  title = tasks.description;
+
+  // Extract priority from text (e.g., "!!!" or "(high)")
+  let priority = tasks.priority ? tasksPriorityToPlanner(tasks.priority) : undefined;
+  const priorityPatterns = [
+    { pattern: /!!!/g, value: "Critical" },
+    { pattern: /!!/g, value: "High" },
+    { pattern: /!/g, value: "Medium" },
+    { pattern: /\(critical\)/gi, value: "Critical" },
+    { pattern: /\(high\)/gi, value: "High" },
+    { pattern: /\(medium\)/gi, value: "Medium" },
+    { pattern: /\(low\)/gi, value: "Low" },
+  ];
+
+  if (!priority) {
+    for (const { pattern, value } of priorityPatterns) {
+      if (pattern.test(title)) {
+        priority = value;
+        title = title.replace(pattern, "").trim();
+        break;
+      }
+    }
+  }
+
+  // Extract due date from text (e.g., "due: 2026-01-15"; "📅" is a Tasks field)
+  let dueDate = tasks.dueDate;
+  if (!dueDate) {
+    for (const pattern of DUE_DATE_PATTERNS) {
+      const dateMatch = title.match(pattern);
+      if (dateMatch) {
+        dueDate = dateMatch[1];
+        title = title.replace(pattern, "").trim();
+        break;
+      }
+    }
+  }
+
+  // Recurrence (e.g., "🔁 every week" or "🔁 every 2 weeks on Monday when done")
+  let recurrence: TaskRecurrence | undefined;
+  if (tasks.recurrence) {
+    const parsed = parseRecurrenceText(getTasksRecurrenceRule(tasks.recurrence));
+    if (parsed) {
+      recurrence = parsed;
+    } else {
+      // A rule the planner can't repeat stays in the title
+      title = `${title} 🔁 ${tasks.recurrence}`;
+    }
+  }
+
+  return {
+    title,
+    priority,
+    dueDate,
+    recurrence,
+    startDate: tasks.startDate,
+    createdDate: tasks.createdDate,
+    tasksId: tasks.id,
+    dependsOn: tasks.dependsOn,
+    plannerTags,
+    projectTag,
+  };
+}
+
+/** The syncing fields of a task line, or null when it isn't a task line. */
+export function readTaskLine(line: string, basePattern: string): TaskLineFields | null {
+  const match = line.match(TASK_LINE_REGEX);
+  if (!match) return null;
+  const { title, priority, dueDate } = parseTaskText(match[2].trim(), basePattern);
+  return { completed: match[1].toLowerCase() === "x", title, priority, dueDate };
+}
+
+/** Whether two sets of fields differ in anything that is written back. */
+export function taskLineFieldsDiffer(a: TaskLineFields, b: TaskLineFields): boolean {
+  return (
+    a.completed !== b.completed ||
+    a.title !== b.title ||
+    (a.priority || undefined) !== (b.priority || undefined) ||
+    (a.dueDate || undefined) !== (b.dueDate || undefined)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Rewriting
+// ---------------------------------------------------------------------------
+
+const tidy = (text: string) => text.replace(/\s{2,}/g, " ").trim();
+
+function setDueDate(content: string, dueDate: string | undefined): string {
+  for (const pattern of DUE_DATE_PATTERNS) {
+    const match = content.match(pattern);
+    if (match) {
+      return tidy(
+        dueDate ? content.replace(pattern, match[0].replace(match[1], dueDate)) : content.replace(pattern, "")
+      );
+    }
+  }
+  return dueDate ? `${content} 📅 ${dueDate}` : content;
+}
+
+function setPriority(content: string, priority: string | undefined): string {
+  const marker = priority ? PRIORITY_MARKERS[priority.toLowerCase()] : undefined;
+  // A priority the line format can't express leaves the line as it is
+  if (priority && !marker) return content;
+
+  if (BANG_MARKER.test(content)) {
+    return tidy(content.replace(BANG_MARKER, () => (marker ? marker.bang ?? marker.word : "")));
+  }
+  if (WORD_MARKER.test(content)) {
+    return tidy(content.replace(WORD_MARKER, () => (marker ? marker.word : "")));
+  }
+  return marker ? `${content} ${marker.word}` : content;
+}
+
+/** Everything on a line that isn't the title: tags, markers, dates, recurrence. */
+const META_PATTERNS = [
+  /#[^\s#]+/g,
+  /📅\s*\d{4}-\d{2}-\d{2}/g,
+  /due:\s*\d{4}-\d{2}-\d{2}/gi,
+  /@\d{4}-\d{2}-\d{2}/g,
+  /\((?:critical|high|medium|low)\)/gi,
+  /(?<!!)!{1,3}(?!!)/g,
+  /🔁\s*every\b[^📅#]*/gu,
+];
+
+function setTitle(content: string, oldTitle: string, newTitle: string): string {
+  if (oldTitle && content.includes(oldTitle)) return content.replace(oldTitle, () => newTitle);
+
+  // The title is split up by markers: put the new one first, then the markers in order
+  const meta: { index: number; text: string }[] = [];
+  for (const pattern of META_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      meta.push({ index: match.index ?? 0, text: match[0].trim() });
+    }
+  }
+  meta.sort((a, b) => a.index - b.index);
+  return tidy([newTitle, ...meta.map((m) => m.text)].join(" "));
+}
+
+/** updateTaskLine for text in Tasks notation: ✅ follows completion, priorities are Tasks emoji. */
+function updateTasksText(content: string, from: TaskLineFields, to: TaskLineFields, today: string): string {
+  const fields = parseTasksFields(content);
+  if (from.completed !== to.completed) fields.doneDate = to.completed ? today : undefined;
+  if ((from.dueDate || undefined) !== (to.dueDate || undefined)) fields.dueDate = to.dueDate || undefined;
+  if ((from.priority || undefined) !== (to.priority || undefined)) {
+    const priority = plannerPriorityToTasks(to.priority);
+    // A priority Tasks can't express leaves the marker as it is
+    if (priority || !to.priority) fields.priority = priority;
+  }
+  if (from.title !== to.title) fields.description = setTitle(fields.description, from.title, to.title);
+  return serializeTasksFields(fields);
+}
+
+/**
+ * Rewrite the parts of a task line that changed from `from` to `to`. Lines
+ * that aren't task lines are returned unchanged. `today` is the ✅ date
+ * written when a Tasks-notation line is completed.
+ */
+export function updateTaskLine(
+  line: string,
+  from: TaskLineFields,
+  to: TaskLineFields,
+  today = new Date().toISOString().slice(0, 10)
+): string {
+  const match = /^(\s*-\s+\[)([ xX])(\]\s+)(.*)$/.exec(line);
+  if (!match) return line;
+  const [, head, mark, gap] = match;
+  let content = match[4];
+
+  const nextMark = from.completed === to.completed ? mark : to.completed ? "x" : " ";
+  if (usesTasksFormat(content)) {
+    return `${head}${nextMark}${gap}${updateTasksText(content, from, to, today)}`;
+  }
+  if ((from.dueDate || undefined) !== (to.dueDate || undefined)) content = setDueDate(content, to.dueDate);
+  if ((from.priority || undefined) !== (to.priority || undefined)) content = setPriority(content, to.priority);
+  if (from.title !== to.title) content = setTitle(content, from.title, to.title);
+
+  return `${head}${nextMark}${gap}${content}`;
+}
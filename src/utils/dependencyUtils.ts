@@ -0,0 +1,41 @@
+import type { PlannerTask } from "../types";
+
+/**
+ * Task Link Checks
+ *
+ * Guards shared by the task details pane, the CSV importer and the daily note
+ * scanner so that dependency chains and the parent hierarchy never loop.
+ */
+
+/** Whether making taskId depend on predecessorId would close a dependency loop. */
+export function wouldCreateDependencyCycle(tasks: PlannerTask[], taskId: string, predecessorId: string): boolean {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const visited = new Set<string>();
+
+  // Walk the dependency chain from the predecessor
+  const checkChain = (currentId: string): boolean => {
+    if (currentId === taskId) return true; // Circular!
+    if (visited.has(currentId)) return false;
+    visited.add(currentId);
+
+    for (const dep of byId.get(currentId)?.dependencies ?? []) {
+      if (checkChain(dep.predecessorId)) return true;
+    }
+    return false;
+  };
+
+  return checkChain(predecessorId);
+}
+
+/** Whether making parentId the parent of taskId would put the task under itself. */
+export function wouldCreateParentCycle(tasks: PlannerTask[], taskId: string, parentId: string): boolean {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const visited = new Set<string>();
+
+  for (let currentId: string | null | undefined = parentId; currentId; currentId = byId.get(currentId)?.parentId) {
+    if (currentId === taskId) return true;
+    if (visited.has(currentId)) return false; // an existing loop that does not include taskId
+    visited.add(currentId);
+  }
+  return false;
+}
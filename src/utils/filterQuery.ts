@@ -0,0 +1,392 @@
+import type { PlannerPerson, PlannerPriority, PlannerStatus, PlannerTag, PlannerTask, StatusCategory } from "../types";
+import type { BoardBucket, ProjectPlannerSettings } from "../settings";
+import { STATUS_CATEGORY_LABELS, getStatusCategory } from "./statusCategories";
+import { getProjectPriorities, getProjectStatuses, getProjectTags } from "./projectLists";
+import { toDayNumber } from "./workingCalendar";
+import { toLocalDateStr } from "./timeTracking";
+
+/**
+ * Filter Query Language
+ *
+ * One query syntax for every view's search box. Terms are separated by
+ * spaces and a task must match all of them:
+ * - words and "quoted phrases" search the title
+ * - field:value, e.g. status:"In Progress" tag:backend assignee:Ann
+ * - field<value, <=, >, >= for priorities (in list order, lowest first) and
+ *   dates (today, tomorrow, yesterday, today+7d, today-2w or YYYY-MM-DD)
+ * - has:<field> for tasks with a value, e.g. has:dependencies
+ * - the flags completed and overdue
+ * - a leading "-" negates a term: -completed, -tag:backend
+ * Terms that don't parse are reported with their position and left out, so a
+ * half-typed query still filters by the rest.
+ */
+
+/** Lists and date a query is resolved against (the project's effective lists). */
+export interface FilterQueryContext {
+  statuses: PlannerStatus[];
+  priorities: PlannerPriority[]; // Lowest first
+  tags: PlannerTag[];
+  people: PlannerPerson[];
+  buckets: BoardBucket[];
+  today: string; // YYYY-MM-DD
+  tasks?: PlannerTask[]; // All tasks, for has:subtasks
+}
+
+/** A problem with one term; start/end are offsets into the query. */
+export interface FilterQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/** A parsed query: its problems and a predicate for its valid terms. */
+export interface FilterQuery {
+  errors: FilterQueryError[];
+  isEmpty: boolean; // No valid terms, so every task matches
+  matches(task: PlannerTask): boolean;
+}
+
+/** Completion for the term at the cursor; `insert` replaces from..to. */
+export interface FilterSuggestions {
+  from: number;
+  to: number;
+  items: { label: string; insert: string }[];
+}
+
+type Operator = ":" | "<" | "<=" | ">" | ">=";
+type Predicate = (task: PlannerTask) => boolean;
+
+/** One space-separated term of a query. */
+interface Term {
+  start: number;
+  end: number;
+  negated: boolean;
+  field?: string; // Lower-cased; unset for words, phrases and flags
+  op?: Operator;
+  valueStart: number;
+  value: string; // Without quotes
+  quoted: boolean;
+  unterminated: boolean; // Opening quote without a closing one
+}
+
+/** Fields in the order they are suggested. */
+const FIELDS = ["status", "priority", "tag", "assignee", "bucket", "due", "start", "title", "has"] as const;
+type FilterField = (typeof FIELDS)[number];
+
+const FIELD_ALIASES: Record<string, FilterField> = { assigned: "assignee" };
+
+/** Fields that accept <, <=, > and >= besides ":". */
+const ORDERED_FIELDS = new Set<FilterField>(["priority", "due", "start"]);
+
+const FLAGS = ["completed", "overdue"] as const;
+
+const HAS_VALUES = [
+  "dependencies",
+  "tags",
+  "assignees",
+  "due",
+  "start",
+  "description",
+  "links",
+  "checklist",
+  "subtasks",
+  "parent",
+  "recurrence",
+] as const;
+
+const DATE_SUGGESTIONS = ["today", "tomorrow", "yesterday", "today+7d", "none"];
+
+const MAX_SUGGESTIONS = 8;
+
+/** Filter context for a project (the active project by default), from the plugin settings. */
+export function getFilterQueryContext(
+  settings: ProjectPlannerSettings,
+  tasks?: PlannerTask[],
+  projectId: string = settings.activeProjectId
+): FilterQueryContext {
+  const project = settings.projects?.find((p) => p.id === projectId);
+  return {
+    statuses: getProjectStatuses(settings, projectId),
+    priorities: getProjectPriorities(settings, projectId),
+    tags: getProjectTags(settings, projectId),
+    people: settings.availablePeople || [],
+    buckets: project?.buckets || [],
+    today: toLocalDateStr(new Date()),
+    tasks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function tokenize(query: string): Term[] {
+  const terms: Term[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = query[i] === "-" && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    let field: string | undefined;
+    let op: Operator | undefined;
+    const match = /^([a-z]+)(<=|>=|:|<|>)/i.exec(query.slice(i));
+    if (match) {
+      field = match[1].toLowerCase();
+      op = match[2] as Operator;
+      i += match[0].length;
+    }
+
+    const valueStart = i;
+    let value: string;
+    let quoted = false;
+    let unterminated = false;
+    if (query[i] === '"') {
+      quoted = true;
+      const close = query.indexOf('"', i + 1);
+      unterminated = close === -1;
+      value = query.slice(i + 1, unterminated ? query.length : close);
+      i = unterminated ? query.length : close + 1;
+    } else {
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(valueStart, i);
+    }
+    terms.push({ start, end: i, negated, field, op, valueStart, value, quoted, unterminated });
+  }
+  return terms;
+}
+
+/** Day number of a date value, or null when it isn't one. */
+function parseDateValue(value: string, today: string): number | null {
+  const relative = /^(today|tomorrow|yesterday)(?:([+-])(\d+)([dw]))?$/i.exec(value);
+  if (relative) {
+    const base = toDayNumber(today);
+    if (base === null) return null;
+    const shift = { today: 0, tomorrow: 1, yesterday: -1 }[relative[1].toLowerCase() as "today"];
+    const offset = relative[2] ? Number(relative[3]) * (relative[4].toLowerCase() === "w" ? 7 : 1) : 0;
+    return base + shift + (relative[2] === "-" ? -offset : offset);
+  }
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? toDayNumber(value) : null;
+}
+
+function compare(a: number, b: number, op: Operator): boolean {
+  switch (op) {
+    case ":":
+      return a === b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+}
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Predicate for one term, an error message, or null for a term with no effect. */
+function compileTerm(term: Term, ctx: FilterQueryContext): Predicate | string | null {
+  const { value, op } = term;
+
+  if (!term.field || !op) {
+    if (!term.quoted && FLAGS.some((f) => f === value.toLowerCase())) {
+      return value.toLowerCase() === "completed" ? (t) => t.completed : isOverdue(ctx.today);
+    }
+    if (value === "") return null;
+    const text = value.toLowerCase();
+    return (t) => t.title.toLowerCase().includes(text);
+  }
+
+  const field = FIELD_ALIASES[term.field] ?? FIELDS.find((f) => f === term.field);
+  if (!field) return `Unknown field "${term.field}"`;
+  if (value === "") return `Missing value after ${term.field}${op}`;
+  if (op !== ":" && !ORDERED_FIELDS.has(field)) return `${field} only supports ":"`;
+
+  switch (field) {
+    case "status": {
+      const status = ctx.statuses.find((s) => sameText(s.name, value));
+      if (status) return (t) => t.status === status.name;
+      const category = (Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).find(
+        (c) => sameText(c, value) || sameText(STATUS_CATEGORY_LABELS[c], value)
+      );
+      if (category) return (t) => getStatusCategory(ctx.statuses, t.status) === category;
+      return `Unknown status "${value}"`;
+    }
+    case "priority": {
+      if (op === ":" && sameText(value, "none")) return (t) => !t.priority;
+      const rank = ctx.priorities.findIndex((p) => sameText(p.name, value));
+      if (rank === -1) return `Unknown priority "${value}"`;
+      return (t) => {
+        const taskRank = ctx.priorities.findIndex((p) => p.name === t.priority);
+        return taskRank !== -1 && compare(taskRank, rank, op);
+      };
+    }
+    case "tag": {
+      const tag = ctx.tags.find((tg) => sameText(tg.name, value));
+      if (!tag) return `Unknown tag "${value}"`;
+      return (t) => (t.tags ?? []).includes(tag.id);
+    }
+    case "assignee": {
+      const person = ctx.people.find((p) => sameText(p.name, value));
+      if (!person) return `Unknown person "${value}"`;
+      return (t) => (t.assignees ?? []).includes(person.id);
+    }
+    case "bucket": {
+      if (sameText(value, "none")) return (t) => !t.bucketId;
+      const bucket = ctx.buckets.find((b) => sameText(b.name, value));
+      if (!bucket) return `Unknown bucket "${value}"`;
+      return (t) => t.bucketId === bucket.id;
+    }
+    case "due":
+    case "start": {
+      const key = field === "due" ? "dueDate" : "startDate";
+      if (op === ":" && sameText(value, "none")) return (t) => !t[key];
+      const day = parseDateValue(value, ctx.today);
+      if (day === null) return `Invalid date "${value}"`;
+      return (t) => {
+        const taskDay = toDayNumber(t[key]);
+        return taskDay !== null && compare(taskDay, day, op);
+      };
+    }
+    case "title": {
+      const text = value.toLowerCase();
+      return (t) => t.title.toLowerCase().includes(text);
+    }
+    case "has": {
+      const predicate = hasPredicate(value.toLowerCase(), ctx);
+      return predicate ?? `Unknown has: value "${value}"`;
+    }
+  }
+}
+
+function isOverdue(today: string): Predicate {
+  const now = toDayNumber(today);
+  return (t) => {
+    const due = toDayNumber(t.dueDate);
+    return !t.completed && due !== null && now !== null && due < now;
+  };
+}
+
+function hasPredicate(value: string, ctx: FilterQueryContext): Predicate | null {
+  switch (value) {
+    case "dependencies":
+      return (t) => (t.dependencies?.length ?? 0) > 0;
+    case "tags":
+      return (t) => (t.tags?.length ?? 0) > 0;
+    case "assignees":
+      return (t) => (t.assignees?.length ?? 0) > 0;
+    case "due":
+      return (t) => !!t.dueDate;
+    case "start":
+      return (t) => !!t.startDate;
+    case "description":
+      return (t) => !!t.description?.trim();
+    case "links":
+      return (t) => (t.links?.length ?? 0) > 0;
+    case "checklist":
+      return (t) => (t.subtasks?.length ?? 0) > 0;
+    case "subtasks": {
+      const parentIds = new Set((ctx.tasks ?? []).map((t) => t.parentId).filter((id): id is string => !!id));
+      return (t) => parentIds.has(t.id);
+    }
+    case "parent":
+      return (t) => !!t.parentId;
+    case "recurrence":
+      return (t) => !!t.recurrence;
+    default:
+      return null;
+  }
+}
+
+/** Parse a query. An empty or blank query matches every task. */
+export function compileFilterQuery(query: string, ctx: FilterQueryContext): FilterQuery {
+  const errors: FilterQueryError[] = [];
+  const predicates: Predicate[] = [];
+
+  for (const term of tokenize(query)) {
+    if (term.unterminated) {
+      errors.push({ message: "Missing closing quote", start: term.valueStart, end: term.end });
+    }
+    const result = compileTerm(term, ctx);
+    if (typeof result === "string") {
+      errors.push({ message: result, start: term.start, end: term.end });
+    } else if (result) {
+      predicates.push(term.negated ? (t) => !result(t) : result);
+    }
+  }
+
+  return {
+    errors,
+    isEmpty: predicates.length === 0,
+    matches: (task) => predicates.every((p) => p(task)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Autocomplete
+// ---------------------------------------------------------------------------
+
+function quoteIfNeeded(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+}
+
+function fieldValues(field: FilterField, op: Operator, ctx: FilterQueryContext): string[] {
+  switch (field) {
+    case "status":
+      return [...ctx.statuses.map((s) => s.name), ...Object.keys(STATUS_CATEGORY_LABELS)];
+    case "priority":
+      return [...ctx.priorities.map((p) => p.name), ...(op === ":" ? ["none"] : [])];
+    case "tag":
+      return ctx.tags.map((t) => t.name);
+    case "assignee":
+      return ctx.people.map((p) => p.name);
+    case "bucket":
+      return [...ctx.buckets.map((b) => b.name), "none"];
+    case "due":
+    case "start":
+      return DATE_SUGGESTIONS.filter((d) => op === ":" || d !== "none");
+    case "has":
+      return [...HAS_VALUES];
+    case "title":
+      return [];
+  }
+}
+
+/**
+ * Completions for the term at the cursor: field names and flags while the
+ * term has no operator yet, then the field's values. Null when there is
+ * nothing to suggest.
+ */
+export function getFilterSuggestions(query: string, cursor: number, ctx: FilterQueryContext): FilterSuggestions | null {
+  const term = tokenize(query).find((t) => t.start < cursor && cursor <= t.end);
+  if (!term) return null;
+  const from = term.negated ? term.start + 1 : term.start;
+  const current = query.slice(from, term.end);
+  let items: FilterSuggestions["items"];
+
+  if (term.field && term.op && cursor >= term.valueStart) {
+    const field = FIELD_ALIASES[term.field] ?? FIELDS.find((f) => f === term.field);
+    if (!field) return null;
+    const partial = term.value.toLowerCase();
+    items = fieldValues(field, term.op, ctx)
+      .filter((v) => v.toLowerCase().startsWith(partial))
+      .map((v) => ({ label: v, insert: `${term.field}${term.op}${quoteIfNeeded(v)} ` }));
+  } else {
+    if (term.quoted) return null;
+    const partial = query.slice(from, cursor).toLowerCase();
+    if (!partial) return null;
+    items = [
+      ...FIELDS.map((f) => ({ label: `${f}:`, insert: `${f}:` })),
+      ...FLAGS.map((f) => ({ label: f, insert: `${f} ` })),
+    ].filter((s) => s.label.startsWith(partial));
+  }
+
+  items = items.filter((s) => s.insert.trimEnd() !== current).slice(0, MAX_SUGGESTIONS);
+  return items.length > 0 ? { from, to: term.end, items } : null;
+}
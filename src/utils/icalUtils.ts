@@ -0,0 +1,142 @@
+import type { PlannerTask } from "../types";
+import type { PlannerProject } from "../settings";
+import { fromDayNumber, toDayNumber } from "./workingCalendar";
+
+/**
+ * iCalendar (.ics) Utility Functions
+ *
+ * Generates an RFC 5545 calendar from planner tasks so calendar apps can
+ * subscribe to a file in the vault. Each dated task becomes an all-day VEVENT
+ * (start → due) or a VTODO (due date + completion state). UIDs derive from
+ * PlannerTask.id and DTSTAMP from the task's last-modified date, so the output
+ * only changes when tasks change.
+ */
+
+export type ICalEntryType = "event" | "todo";
+
+export interface ICalOptions {
+  calendarName: string;
+  entryType: ICalEntryType;
+  includeCompleted: boolean;
+}
+
+/** Tasks of one project, as passed to the generator. */
+export interface ICalProjectTasks {
+  project: Pick<PlannerProject, "id" | "name">;
+  tasks: PlannerTask[];
+}
+
+const UID_DOMAIN = "obsidian-project-planner";
+
+// iCalendar PRIORITY: 1 = highest, 9 = lowest, 0 = undefined
+const PRIORITY_VALUES: Record<string, number> = { Critical: 1, High: 3, Medium: 5, Low: 9 };
+
+// ---------------------------------------------------------------------------
+// Formatting helpers
+// ---------------------------------------------------------------------------
+
+/** Escape a TEXT value (backslash, semicolon, comma, newline). */
+export function escapeICalText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** UTF-8 length of a single character (code point). */
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/** Fold a content line to 75 octets, continuing with a leading space (RFC 5545 §3.1). */
+export function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = utf8Length(char);
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const icalDate = (dateStr: string) => dateStr.replace(/-/g, "");
+
+/** Day after `dateStr` — all-day DTEND is exclusive. */
+function nextDay(dateStr: string): string {
+  const day = toDayNumber(dateStr);
+  return day === null ? dateStr : fromDayNumber(day + 1);
+}
+
+/** URI handled by the plugin's `open-planner-task` protocol handler. */
+export function getTaskUri(taskId: string, projectId: string): string {
+  return `obsidian://open-planner-task?id=${encodeURIComponent(taskId)}&project=${encodeURIComponent(projectId)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Generator
+// ---------------------------------------------------------------------------
+
+/** Content lines for one task, or an empty list when it has no dates. */
+function taskToLines(task: PlannerTask, project: ICalProjectTasks["project"], entryType: ICalEntryType): string[] {
+  const start = task.startDate || task.dueDate;
+  const due = task.dueDate || task.startDate;
+  if (!start || !due) return [];
+
+  const stamp = icalDate((task.lastModifiedDate || task.createdDate || start).slice(0, 10));
+  const component = entryType === "todo" ? "VTODO" : "VEVENT";
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}T000000Z`,
+    `SUMMARY:${escapeICalText(task.title)}`,
+  ];
+
+  if (entryType === "todo") {
+    if (task.startDate) lines.push(`DTSTART;VALUE=DATE:${icalDate(task.startDate)}`);
+    if (task.dueDate) lines.push(`DUE;VALUE=DATE:${icalDate(task.dueDate)}`);
+    const percent = task.completed ? 100 : task.percentComplete ?? 0;
+    lines.push(`STATUS:${task.completed ? "COMPLETED" : percent > 0 ? "IN-PROCESS" : "NEEDS-ACTION"}`);
+    if (percent > 0) lines.push(`PERCENT-COMPLETE:${percent}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${icalDate(start)}`);
+    lines.push(`DTEND;VALUE=DATE:${icalDate(nextDay(due < start ? start : due))}`);
+    lines.push("TRANSP:TRANSPARENT");
+  }
+
+  const priority = PRIORITY_VALUES[task.priority ?? ""];
+  if (priority) lines.push(`PRIORITY:${priority}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeICalText(task.description)}`);
+  lines.push(`CATEGORIES:${escapeICalText(project.name)}`);
+  lines.push(`URL:${getTaskUri(task.id, project.id)}`);
+  lines.push(`END:${component}`);
+  return lines;
+}
+
+/** Build a VCALENDAR for the given projects' dated tasks (CRLF line endings, folded lines). */
+export function generateICalendar(projects: ICalProjectTasks[], options: ICalOptions): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Project Planner//Obsidian//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(options.calendarName)}`,
+  ];
+
+  for (const { project, tasks } of projects) {
+    for (const task of tasks) {
+      if (task.completed && !options.includeCompleted) continue;
+      lines.push(...taskToLines(task, project, options.entryType));
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
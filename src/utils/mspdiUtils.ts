@@ -0,0 +1,413 @@
+import type { DependencyType, PlannerTask, TaskDependency } from "../types";
+import type { PlannerProject, ProjectPlannerSettings } from "../settings";
+import { getEffectiveRate, getTaskActualCost, getTaskEstimatedCost } from "./costUtils";
+import { getStatusForCategory } from "./statusCategories";
+
+/**
+ * Microsoft Project XML (MSPDI) Import / Export Utility Functions
+ *
+ * Maps between planner tasks and the MSPDI schema used by MS Project's
+ * "Save as XML": the outline hierarchy ↔ parentId, predecessor links ↔
+ * TaskDependency (type + lag), percent complete, work / actual / remaining
+ * work ↔ effort hours, and fixed cost / resource standard rate ↔ the cost
+ * fields in costUtils.ts.
+ *
+ * MSPDI units: durations are ISO 8601 ("PT16H0M0S"), link lag is in tenths of
+ * a minute, currency fields are in hundredths, and rates are per hour.
+ */
+
+const MSPDI_NAMESPACE = "http://schemas.microsoft.com/project";
+const DEFAULT_MINUTES_PER_DAY = 480;
+
+// MSPDI <Type> codes for predecessor links
+const LINK_TYPES: DependencyType[] = ["FF", "FS", "SF", "SS"];
+
+// Elapsed-time lag formats (em, eh, ed, ew, emo) count calendar minutes
+const ELAPSED_LAG_FORMATS = new Set([4, 6, 8, 10, 12]);
+const PERCENT_LAG_FORMATS = new Set([19, 20]);
+
+// MS Project priorities run 0–1000 (500 = Medium)
+const PRIORITY_VALUES: Record<string, number> = { Low: 300, Medium: 500, High: 700, Critical: 900 };
+
+export interface MspdiImportResult {
+  projectName: string;
+  currencySymbol?: string;
+  tasks: PlannerTask[];
+  warnings: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Value conversion
+// ---------------------------------------------------------------------------
+
+/** Hours as an MSPDI duration, e.g. 16.5 → "PT16H30M0S". */
+export function formatMspdiDuration(hours: number): string {
+  const totalMinutes = Math.round(Math.max(0, hours) * 60);
+  return `PT${Math.floor(totalMinutes / 60)}H${totalMinutes % 60}M0S`;
+}
+
+/** Parse an MSPDI / ISO 8601 duration into hours ("P1DT4H" counts a day as `hoursPerDay`). */
+export function parseMspdiDuration(value: string, hoursPerDay = DEFAULT_MINUTES_PER_DAY / 60): number | null {
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return null;
+  const [, d, h, m, s] = match.map((part) => (part === undefined ? 0 : Number(part)));
+  return d * hoursPerDay + h + m / 60 + s / 3600;
+}
+
+/** Round to two decimals so converted hours and currency stay tidy. */
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function priorityToMspdi(priority?: string): number {
+  return PRIORITY_VALUES[priority ?? ""] ?? 500;
+}
+
+function priorityFromMspdi(value: number, available: { name: string }[]): string {
+  const name = value >= 800 ? "Critical" : value > 500 ? "High" : value >= 500 ? "Medium" : "Low";
+  return available.some((p) => p.name === name) ? name : "Medium";
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Order tasks depth-first (parents before their subtasks) with outline levels and numbers. */
+function buildOutline(tasks: PlannerTask[]): { task: PlannerTask; level: number; number: string; summary: boolean }[] {
+  const ids = new Set(tasks.map((t) => t.id));
+  const children = new Map<string | null, PlannerTask[]>();
+  for (const task of tasks) {
+    const parent = task.parentId && ids.has(task.parentId) ? task.parentId : null;
+    if (!children.has(parent)) children.set(parent, []);
+    children.get(parent)!.push(task);
+  }
+
+  const rows: { task: PlannerTask; level: number; number: string; summary: boolean }[] = [];
+  const visit = (parentId: string | null, level: number, prefix: string) => {
+    (children.get(parentId) ?? []).forEach((task, i) => {
+      const number = prefix ? `${prefix}.${i + 1}` : `${i + 1}`;
+      rows.push({ task, level, number, summary: children.has(task.id) });
+      visit(task.id, level + 1, number);
+    });
+  };
+  visit(null, 1, "");
+  return rows;
+}
+
+/**
+ * Serialize a project's tasks as MSPDI XML. Assigned people become work
+ * resources; hourly-cost tasks also get a rate resource when none of their
+ * assignees carries the task's effective rate, so the rate survives a round-trip.
+ */
+export function exportProjectToMspdi(
+  project: PlannerProject,
+  tasks: PlannerTask[],
+  settings: Pick<ProjectPlannerSettings, "availablePeople">
+): string {
+  const outline = buildOutline(tasks);
+  const uidById = new Map(outline.map((row, i) => [row.task.id, i + 1]));
+  const lines: string[] = [];
+  const el = (indent: number, name: string, value: string | number) =>
+    lines.push(`${"  ".repeat(indent)}<${name}>${typeof value === "string" ? escapeXml(value) : value}</${name}>`);
+
+  // Resources: people first (rated by their first hourly task), then one per extra rate
+  const resources: { uid: number; name: string; rate: number }[] = [];
+  const personResource = new Map<string, { uid: number; name: string; rate: number }>();
+  const rateResource = new Map<number, { uid: number; name: string; rate: number }>();
+  for (const { task } of outline) {
+    for (const personId of task.assignees ?? []) {
+      if (personResource.has(personId)) continue;
+      const person = settings.availablePeople.find((p) => p.id === personId);
+      if (!person) continue;
+      const firstHourly = tasks.find((t) => t.costType === "hourly" && t.assignees?.includes(personId));
+      const rate = firstHourly ? getEffectiveRate(firstHourly, project) : project.defaultHourlyRate ?? 0;
+      const resource = { uid: resources.length + 1, name: person.name, rate };
+      resources.push(resource);
+      personResource.set(personId, resource);
+    }
+  }
+
+  const assignments: { taskUid: number; resourceUid: number; work: number }[] = [];
+  for (const { task } of outline) {
+    const taskUid = uidById.get(task.id)!;
+    const work = (task.effortCompleted ?? 0) + (task.effortRemaining ?? 0);
+    const people = (task.assignees ?? []).map((id) => personResource.get(id)).filter((r) => r !== undefined);
+    const taskResources = [...people];
+
+    if (task.costType === "hourly") {
+      const rate = getEffectiveRate(task, project);
+      if (rate > 0 && !people.some((r) => r.rate === rate)) {
+        let resource = rateResource.get(rate);
+        if (!resource) {
+          resource = { uid: resources.length + 1, name: `Hourly rate ${rate}`, rate };
+          resources.push(resource);
+          rateResource.set(rate, resource);
+        }
+        taskResources.unshift(resource); // the importer takes the first rated resource
+      }
+    }
+
+    for (const resource of taskResources) {
+      assignments.push({ taskUid, resourceUid: resource.uid, work: work / taskResources.length });
+    }
+  }
+
+  lines.push('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>');
+  lines.push(`<Project xmlns="${MSPDI_NAMESPACE}">`);
+  el(1, "Name", `${project.name}.xml`);
+  el(1, "Title", project.name);
+  if (project.currencySymbol) el(1, "CurrencySymbol", project.currencySymbol);
+  el(1, "MinutesPerDay", DEFAULT_MINUTES_PER_DAY);
+  const starts = tasks.map((t) => t.startDate || t.dueDate).filter((d): d is string => !!d).sort();
+  if (starts.length > 0) el(1, "StartDate", `${starts[0]}T08:00:00`);
+
+  lines.push("  <Tasks>");
+  for (const { task, level, number, summary } of outline) {
+    const uid = uidById.get(task.id)!;
+    const completed = task.effortCompleted ?? 0;
+    const remaining = task.effortRemaining ?? 0;
+    const work = completed + remaining;
+    const percent = task.percentComplete ?? (task.completed ? 100 : 0);
+    const start = task.startDate || task.dueDate;
+    const finish = task.dueDate || task.startDate;
+
+    lines.push("    <Task>");
+    el(3, "UID", uid);
+    el(3, "ID", uid);
+    el(3, "Name", task.title);
+    el(3, "OutlineNumber", number);
+    el(3, "OutlineLevel", level);
+    el(3, "Priority", priorityToMspdi(task.priority));
+    if (start) el(3, "Start", `${start}T08:00:00`);
+    if (finish) el(3, "Finish", `${finish}T17:00:00`);
+    el(3, "Summary", summary ? 1 : 0);
+    el(3, "PercentComplete", percent);
+    if (work > 0) {
+      el(3, "Work", formatMspdiDuration(work));
+      el(3, "ActualWork", formatMspdiDuration(completed));
+      el(3, "RemainingWork", formatMspdiDuration(remaining));
+      el(3, "PercentWorkComplete", Math.round((completed / work) * 100));
+    }
+    if (!summary && task.costType) {
+      if (task.costType === "fixed") el(3, "FixedCost", Math.round((task.costEstimate ?? 0) * 100));
+      el(3, "Cost", Math.round(getTaskEstimatedCost(task, project) * 100));
+      el(3, "ActualCost", Math.round(getTaskActualCost(task, project) * 100));
+    }
+    if (task.description) el(3, "Notes", task.description);
+
+    for (const dep of task.dependencies ?? []) {
+      const predecessorUid = uidById.get(dep.predecessorId);
+      if (predecessorUid === undefined) continue;
+      lines.push("      <PredecessorLink>");
+      el(4, "PredecessorUID", predecessorUid);
+      el(4, "Type", Math.max(0, LINK_TYPES.indexOf(dep.type)));
+      el(4, "LinkLag", (dep.lag ?? 0) * DEFAULT_MINUTES_PER_DAY * 10);
+      el(4, "LagFormat", 7);
+      lines.push("      </PredecessorLink>");
+    }
+    lines.push("    </Task>");
+  }
+  lines.push("  </Tasks>");
+
+  lines.push("  <Resources>");
+  for (const resource of resources) {
+    lines.push("    <Resource>");
+    el(3, "UID", resource.uid);
+    el(3, "ID", resource.uid);
+    el(3, "Name", resource.name);
+    el(3, "Type", 1);
+    el(3, "StandardRate", resource.rate);
+    el(3, "StandardRateFormat", 2);
+    lines.push("    </Resource>");
+  }
+  lines.push("  </Resources>");
+
+  lines.push("  <Assignments>");
+  assignments.forEach((a, i) => {
+    lines.push("    <Assignment>");
+    el(3, "UID", i + 1);
+    el(3, "TaskUID", a.taskUid);
+    el(3, "ResourceUID", a.resourceUid);
+    el(3, "Units", 1);
+    el(3, "Work", formatMspdiDuration(a.work));
+    lines.push("    </Assignment>");
+  });
+  lines.push("  </Assignments>");
+
+  lines.push("</Project>");
+  return lines.join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Direct child elements of `parent` with the given local name (namespace-agnostic). */
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((c) => c.localName === name);
+}
+
+function childText(parent: Element, name: string): string | undefined {
+  return childElements(parent, name)[0]?.textContent?.trim() || undefined;
+}
+
+function childNumber(parent: Element, name: string): number | undefined {
+  const text = childText(parent, name);
+  if (text === undefined) return undefined;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Parse MSPDI XML into planner tasks (new IDs, parents before subtasks).
+ * The project summary task (outline level 0) and blank rows are skipped;
+ * resources are matched to people by name. Throws if the XML is not MSPDI.
+ */
+export function importMspdi(
+  xml: string,
+  settings: Pick<ProjectPlannerSettings, "availablePeople" | "availablePriorities" | "availableStatuses">
+): MspdiImportResult {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName("parsererror").length > 0 || root?.localName !== "Project") {
+    throw new Error("Not a Microsoft Project XML file");
+  }
+
+  const warnings: string[] = [];
+  const today = new Date().toISOString().slice(0, 10);
+  const minutesPerDay = childNumber(root, "MinutesPerDay") || DEFAULT_MINUTES_PER_DAY;
+  const hoursPerDay = minutesPerDay / 60;
+  const projectName =
+    childText(root, "Title") ?? childText(root, "Name")?.replace(/\.(xml|mpp)$/i, "") ?? "Imported Project";
+
+  // Resources → people / rates
+  const resources = new Map<string, { personId?: string; rate: number }>();
+  const unknownResources = new Set<string>();
+  const resourcesEl = childElements(root, "Resources")[0];
+  for (const resourceEl of resourcesEl ? childElements(resourcesEl, "Resource") : []) {
+    const uid = childText(resourceEl, "UID");
+    const name = childText(resourceEl, "Name");
+    if (!uid || !name) continue;
+    const person = settings.availablePeople.find((p) => p.name.toLowerCase() === name.toLowerCase());
+    // Only per-hour rates map onto hourlyRate
+    const rateFormat = childNumber(resourceEl, "StandardRateFormat") ?? 2;
+    const rate = rateFormat === 2 ? childNumber(resourceEl, "StandardRate") ?? 0 : 0;
+    resources.set(uid, { personId: person?.id, rate });
+    if (!person && !/^Hourly rate /.test(name)) unknownResources.add(name);
+  }
+
+  const assignmentsByTask = new Map<string, string[]>();
+  const assignmentsEl = childElements(root, "Assignments")[0];
+  for (const assignmentEl of assignmentsEl ? childElements(assignmentsEl, "Assignment") : []) {
+    const taskUid = childText(assignmentEl, "TaskUID");
+    const resourceUid = childText(assignmentEl, "ResourceUID");
+    if (!taskUid || !resourceUid || !resources.has(resourceUid)) continue;
+    if (!assignmentsByTask.has(taskUid)) assignmentsByTask.set(taskUid, []);
+    assignmentsByTask.get(taskUid)!.push(resourceUid);
+  }
+
+  // Tasks
+  const tasks: PlannerTask[] = [];
+  const idByUid = new Map<string, string>();
+  const links: { task: PlannerTask; el: Element }[] = [];
+  const parentStack: PlannerTask[] = []; // parentStack[level - 1] = last task seen at that level
+  const tasksEl = childElements(root, "Tasks")[0];
+
+  for (const taskEl of tasksEl ? childElements(tasksEl, "Task") : []) {
+    const uid = childText(taskEl, "UID");
+    const title = childText(taskEl, "Name");
+    const level = childNumber(taskEl, "OutlineLevel") ?? 1;
+    if (!uid || level < 1 || childText(taskEl, "IsNull") === "1" || !title) continue;
+
+    const percent = Math.min(100, Math.max(0, Math.round(childNumber(taskEl, "PercentComplete") ?? 0)));
+    const category = percent >= 100 ? "done" : percent > 0 ? "active" : "not-started";
+    const status = getStatusForCategory(settings.availableStatuses, category);
+    parentStack.length = level - 1;
+    const parent = parentStack[level - 2];
+
+    const task: PlannerTask = {
+      id: crypto.randomUUID(),
+      title,
+      status,
+      completed: category === "done",
+      parentId: parent?.id ?? null,
+      priority: priorityFromMspdi(childNumber(taskEl, "Priority") ?? 500, settings.availablePriorities),
+      createdDate: today,
+      lastModifiedDate: today,
+    };
+    parentStack[level - 1] = task;
+
+    const start = childText(taskEl, "Start")?.slice(0, 10);
+    const finish = childText(taskEl, "Finish")?.slice(0, 10);
+    if (start) task.startDate = start;
+    if (finish) task.dueDate = finish;
+    if (percent > 0) task.percentComplete = percent;
+
+    const hours = (name: string) => {
+      const text = childText(taskEl, name);
+      return text ? parseMspdiDuration(text, hoursPerDay) : null;
+    };
+    const work = hours("Work");
+    const actualWork = hours("ActualWork");
+    const remainingWork = hours("RemainingWork");
+    if (work || actualWork || remainingWork) {
+      task.effortCompleted = round2(actualWork ?? 0);
+      task.effortRemaining = round2(remainingWork ?? Math.max(0, (work ?? 0) - (actualWork ?? 0)));
+    }
+
+    const notes = childText(taskEl, "Notes");
+    if (notes) task.description = notes;
+
+    // People and cost (summary tasks roll up cost from their subtasks)
+    const assigned = (assignmentsByTask.get(uid) ?? []).map((r) => resources.get(r)!);
+    const personIds = [...new Set(assigned.map((r) => r.personId).filter((id): id is string => !!id))];
+    if (personIds.length > 0) task.assignees = personIds;
+
+    if (childText(taskEl, "Summary") !== "1") {
+      const fixedCost = childNumber(taskEl, "FixedCost") ?? 0;
+      const rate = assigned.find((r) => r.rate > 0)?.rate;
+      if (fixedCost > 0) {
+        task.costType = "fixed";
+        task.costEstimate = round2(fixedCost / 100);
+        const actualCost = childNumber(taskEl, "ActualCost") ?? 0;
+        if (actualCost > 0) task.costActual = round2(actualCost / 100);
+      } else if (rate !== undefined && (task.effortCompleted || task.effortRemaining)) {
+        task.costType = "hourly";
+        task.hourlyRate = rate;
+      }
+    }
+
+    idByUid.set(uid, task.id);
+    links.push({ task, el: taskEl });
+    tasks.push(task);
+  }
+
+  // Predecessor links, once every task has its new ID
+  for (const { task, el } of links) {
+    const dependencies: TaskDependency[] = [];
+    for (const linkEl of childElements(el, "PredecessorLink")) {
+      const predecessorId = idByUid.get(childText(linkEl, "PredecessorUID") ?? "");
+      if (!predecessorId || predecessorId === task.id) continue;
+
+      const dep: TaskDependency = { predecessorId, type: LINK_TYPES[childNumber(linkEl, "Type") ?? 1] ?? "FS" };
+      const lagFormat = childNumber(linkEl, "LagFormat") ?? 7;
+      const linkLag = childNumber(linkEl, "LinkLag") ?? 0;
+      if (PERCENT_LAG_FORMATS.has(lagFormat)) {
+        if (linkLag !== 0) warnings.push(`Percentage lag on "${task.title}" was ignored`);
+      } else {
+        const minutes = linkLag / 10;
+        const lag = Math.round(minutes / (ELAPSED_LAG_FORMATS.has(lagFormat) ? 1440 : minutesPerDay));
+        if (lag !== 0) dep.lag = lag;
+      }
+      dependencies.push(dep);
+    }
+    if (dependencies.length > 0) task.dependencies = dependencies;
+  }
+
+  if (unknownResources.size > 0) {
+    warnings.push(`Resources not in the people list were not assigned: ${[...unknownResources].join(", ")}`);
+  }
+
+  return { projectName, currencySymbol: childText(root, "CurrencySymbol"), tasks, warnings };
+}
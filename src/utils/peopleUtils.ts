@@ -0,0 +1,52 @@
+import type { PlannerPerson, PlannerTask } from "../types";
+
+/**
+ * People / Assignee Utility Functions
+ *
+ * Shared helpers for resolving task assignees against the people registry
+ * in settings and rendering them as avatar badges.
+ */
+
+/** Derive up-to-two-letter initials from a display name. */
+export function getPersonInitials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  if (parts.length === 1) return parts[0].substring(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+/** Resolve a task's assignee IDs to people, skipping IDs no longer in the registry. */
+export function getTaskAssignees(task: PlannerTask, people: PlannerPerson[]): PlannerPerson[] {
+  const ids = task.assignees || [];
+  const result: PlannerPerson[] = [];
+  for (const id of ids) {
+    const person = people.find((p) => p.id === id);
+    if (person) result.push(person);
+  }
+  return result;
+}
+
+/** Whether the task is assigned to the given person ID. */
+export function isAssignedTo(task: PlannerTask, personId: string): boolean {
+  return !!personId && !!task.assignees?.includes(personId);
+}
+
+/** Render a row of circular avatar badges (initials on the person's colour). */
+export function renderAvatarStack(container: HTMLElement, people: PlannerPerson[], maxVisible = 3): HTMLElement {
+  const stack = container.createDiv("planner-avatar-stack");
+  const visible = people.slice(0, maxVisible);
+  for (const person of visible) {
+    const avatar = stack.createSpan({
+      cls: "planner-avatar",
+      text: getPersonInitials(person.name),
+    });
+    avatar.style.backgroundColor = person.color;
+    avatar.setAttribute("title", person.name);
+  }
+  const overflow = people.length - visible.length;
+  if (overflow > 0) {
+    const more = stack.createSpan({ cls: "planner-avatar planner-avatar-more", text: `+${overflow}` });
+    more.setAttribute("title", people.slice(maxVisible).map((p) => p.name).join(", "));
+  }
+  return stack;
+}
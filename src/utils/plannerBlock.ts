@@ -0,0 +1,127 @@
+import type { PlannerStatus, PlannerTask } from "../types";
+import type { BoardBucket, PlannerProject } from "../settings";
+import { isDoneStatus } from "./statusCategories";
+
+/**
+ * Planner Code Block Utility Functions
+ *
+ * A ```planner code block embeds a live task list in a note. Its body is a
+ * list of `key: value` lines:
+ *
+ *   project: Website Redesign   (name or ID; the active project if omitted)
+ *   filter: tag:backend -completed   (see utils/filterQuery)
+ *   mode: table | list | board | progress   (default list)
+ *   limit: 10   (table and list only)
+ */
+
+/** How a planner block shows its tasks. */
+export type PlannerBlockMode = "table" | "list" | "board" | "progress";
+
+export interface PlannerBlockConfig {
+  project?: string; // Project name or ID
+  filter: string;
+  mode: PlannerBlockMode;
+  limit?: number;
+}
+
+/** One board summary column: a bucket and how many of its tasks are open / done. */
+export interface BucketSummary {
+  id: string | null; // null = Unassigned
+  name: string;
+  color?: string;
+  open: number;
+  done: number;
+}
+
+export const PLANNER_BLOCK_MODES: PlannerBlockMode[] = ["table", "list", "board", "progress"];
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Parse a block body. Unknown keys and bad values are reported, not fatal. */
+export function parsePlannerBlock(source: string): { config: PlannerBlockConfig; errors: string[] } {
+  const config: PlannerBlockConfig = { filter: "", mode: "list" };
+  const errors: string[] = [];
+
+  for (const rawLine of source.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const colon = line.indexOf(":");
+    if (colon === -1) {
+      errors.push(`Expected "key: value", got "${line}"`);
+      continue;
+    }
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    switch (key) {
+      case "project":
+        config.project = value || undefined;
+        break;
+      case "filter":
+        config.filter = value;
+        break;
+      case "mode": {
+        const mode = PLANNER_BLOCK_MODES.find((m) => m === value.toLowerCase());
+        if (mode) config.mode = mode;
+        else errors.push(`Unknown mode "${value}" (use ${PLANNER_BLOCK_MODES.join(", ")})`);
+        break;
+      }
+      case "limit": {
+        const limit = Number(value);
+        if (Number.isInteger(limit) && limit > 0) config.limit = limit;
+        else errors.push(`Limit must be a positive whole number, got "${value}"`);
+        break;
+      }
+      default:
+        errors.push(`Unknown key "${key}"`);
+    }
+  }
+
+  return { config, errors };
+}
+
+/** The project a block refers to: by ID, then by name (case-insensitive), else the active project. */
+export function resolveBlockProject(
+  projects: PlannerProject[],
+  activeProjectId: string,
+  ref: string | undefined
+): PlannerProject | undefined {
+  if (!ref) return projects.find((p) => p.id === activeProjectId);
+  return projects.find((p) => p.id === ref) ?? projects.find((p) => p.name.toLowerCase() === ref.toLowerCase());
+}
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+/** Done and total task counts, and the share done as a whole percentage. */
+export function getBlockProgress(
+  tasks: PlannerTask[],
+  statuses: PlannerStatus[]
+): { done: number; total: number; percent: number } {
+  const done = tasks.filter((t) => t.completed || isDoneStatus(statuses, t.status)).length;
+  const total = tasks.length;
+  return { done, total, percent: total > 0 ? Math.round((done / total) * 100) : 0 };
+}
+
+/** Open and done counts per bucket, Unassigned first (only when it holds tasks). */
+export function summarizeByBucket(
+  tasks: PlannerTask[],
+  buckets: BoardBucket[],
+  statuses: PlannerStatus[],
+  unassignedName = "Unassigned"
+): BucketSummary[] {
+  const summaries: BucketSummary[] = [
+    { id: null, name: unassignedName, open: 0, done: 0 },
+    ...buckets.map((b) => ({ id: b.id, name: b.name, color: b.color, open: 0, done: 0 })),
+  ];
+  for (const task of tasks) {
+    const summary = summaries.find((s) => s.id !== null && s.id === task.bucketId) ?? summaries[0];
+    if (task.completed || isDoneStatus(statuses, task.status)) summary.done++;
+    else summary.open++;
+  }
+  return summaries.filter((s) => s.id !== null || s.open + s.done > 0);
+}
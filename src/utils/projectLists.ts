@@ -0,0 +1,115 @@
+import type { PlannerPriority, PlannerStatus, PlannerTag } from "../types";
+import type { PlannerProject, ProjectPlannerSettings } from "../settings";
+
+/**
+ * Per-Project Statuses, Priorities and Tags
+ *
+ * The lists in ProjectPlannerSettings are shared by every project. A project
+ * can replace any of them with its own list (PlannerProject.statuses /
+ * priorities / tags); an unset list falls back to the shared one. Views,
+ * importers and the daily note scanner should read the effective list for
+ * the task's project through these helpers rather than the settings directly.
+ */
+
+/** Settings needed to resolve a project's lists. */
+export type ProjectListSettings = Pick<
+  ProjectPlannerSettings,
+  "projects" | "activeProjectId" | "availableStatuses" | "availablePriorities" | "availableTags"
+>;
+
+/** Which of a project's lists is overridden. */
+export type ProjectListKey = "statuses" | "priorities" | "tags";
+
+/** A project by ID, or the active project when no ID is given. */
+function findProject(settings: ProjectListSettings, projectId?: string | null): PlannerProject | undefined {
+  const id = projectId || settings.activeProjectId;
+  return settings.projects?.find((p) => p.id === id);
+}
+
+// ---------------------------------------------------------------------------
+// Effective lists
+// ---------------------------------------------------------------------------
+
+/** Statuses available in a project (the active project by default). */
+export function getProjectStatuses(settings: ProjectListSettings, projectId?: string | null): PlannerStatus[] {
+  return findProject(settings, projectId)?.statuses ?? settings.availableStatuses ?? [];
+}
+
+/** Priorities available in a project (the active project by default). */
+export function getProjectPriorities(settings: ProjectListSettings, projectId?: string | null): PlannerPriority[] {
+  return findProject(settings, projectId)?.priorities ?? settings.availablePriorities ?? [];
+}
+
+/** Tags available in a project (the active project by default). */
+export function getProjectTags(settings: ProjectListSettings, projectId?: string | null): PlannerTag[] {
+  return findProject(settings, projectId)?.tags ?? settings.availableTags ?? [];
+}
+
+/**
+ * Copy of the settings with the shared lists replaced by a project's
+ * effective lists, for code that reads `availableStatuses` etc. directly
+ * (CSV and MS Project import/export).
+ */
+export function withProjectLists<T extends ProjectListSettings>(settings: T, projectId?: string | null): T {
+  return {
+    ...settings,
+    availableStatuses: getProjectStatuses(settings, projectId),
+    availablePriorities: getProjectPriorities(settings, projectId),
+    availableTags: getProjectTags(settings, projectId),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Overrides
+// ---------------------------------------------------------------------------
+
+/** Whether a project has its own copy of a list. */
+export function hasProjectList(project: PlannerProject, key: ProjectListKey): boolean {
+  return Array.isArray(project[key]);
+}
+
+/**
+ * Give a project its own copy of a shared list. Entries keep their IDs, so
+ * tasks tagged before the switch keep their tags.
+ */
+export function enableProjectList(settings: ProjectListSettings, project: PlannerProject, key: ProjectListKey): void {
+  switch (key) {
+    case "statuses":
+      project.statuses = settings.availableStatuses.map((s) => ({ ...s }));
+      break;
+    case "priorities":
+      project.priorities = settings.availablePriorities.map((p) => ({ ...p }));
+      break;
+    case "tags":
+      project.tags = settings.availableTags.map((t) => ({ ...t }));
+      break;
+  }
+}
+
+/** Drop a project's own list so it uses the shared one again. */
+export function disableProjectList(project: PlannerProject, key: ProjectListKey): void {
+  delete project[key];
+}
+
+/**
+ * Bring stored projects up to date with per-project lists. Projects saved
+ * before this feature have no overrides and keep using the shared lists;
+ * malformed overrides, and empty status or priority lists (a task always
+ * needs one of each), are removed so the project falls back to the shared
+ * list. Returns true when anything changed.
+ */
+export function migrateProjectLists(projects: PlannerProject[]): boolean {
+  let updated = false;
+  for (const project of projects) {
+    for (const key of ["statuses", "priorities", "tags"] as const) {
+      const list = project[key];
+      if (list === undefined) continue;
+      const invalid = !Array.isArray(list) || (key !== "tags" && list.length === 0);
+      if (invalid) {
+        delete project[key];
+        updated = true;
+      }
+    }
+  }
+  return updated;
+}
@@ -0,0 +1,302 @@
+import type { PlannerTask, RecurrenceFrequency, TaskRecurrence } from "../types";
+import { toDayNumber, fromDayNumber } from "./workingCalendar";
+
+/**
+ * Recurring Task Utility Functions
+ *
+ * Implements a small RRULE subset (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL,
+ * COUNT) for
+ * PlannerTask.recurrence: computing the next occurrence, building the next
+ * task in a series, and converting rules to/from the RRULE string stored in
+ * task-note frontmatter and the "🔁 every …" text used in daily notes.
+ *
+ * `count` is the number of occurrences left in the series including the
+ * current task; each generated occurrence carries count − 1.
+ */
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const FREQ_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+// ---------------------------------------------------------------------------
+// Date stepping
+// ---------------------------------------------------------------------------
+
+/** Number of days in a month (1-based month). */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Add months to a date, clamping the day to the end of shorter months
+ * (Jan 31 → Feb 28). `day` replaces the date's own day of the month.
+ */
+function addMonths(dateStr: string, months: number, day?: number): string {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  target.setUTCDate(Math.min(day ?? d, daysInMonth(target.getUTCFullYear(), target.getUTCMonth() + 1)));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the month a monthly or yearly series falls on: the rule's
+ * byMonthDay while the date is that day clamped to its month (Feb 28 for the
+ * 31st), otherwise the date's own day (it was moved by hand).
+ */
+function getSeriesMonthDay(dateStr: string, rule: TaskRecurrence): number {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return rule.byMonthDay !== undefined && Math.min(rule.byMonthDay, daysInMonth(y, m)) === d ? rule.byMonthDay : d;
+}
+
+/** Next date strictly after `dateStr` that matches the rule (ignores until/count). */
+export function getNextOccurrenceDate(dateStr: string, rule: TaskRecurrence): string | null {
+  const day = toDayNumber(dateStr);
+  if (day === null) return null;
+  const interval = Math.max(1, Math.floor(rule.interval ?? 1));
+
+  switch (rule.frequency) {
+    case "daily":
+      return fromDayNumber(day + interval);
+
+    case "weekly": {
+      const weekdays = [...new Set(rule.byWeekday ?? [])].filter((d) => d >= 0 && d <= 6);
+      if (weekdays.length === 0) return fromDayNumber(day + 7 * interval);
+      // Weeks start on Monday (RRULE's default WKST); offset 0 = Monday … 6 = Sunday
+      const offsets = weekdays.map((d) => (d + 6) % 7).sort((a, b) => a - b);
+      const currentOffset = (new Date(day * 86400000).getUTCDay() + 6) % 7;
+      const weekStart = day - currentOffset;
+      const laterThisWeek = offsets.find((o) => o > currentOffset);
+      if (laterThisWeek !== undefined) return fromDayNumber(weekStart + laterThisWeek);
+      return fromDayNumber(weekStart + 7 * interval + offsets[0]);
+    }
+
+    case "monthly":
+      return addMonths(dateStr, interval, getSeriesMonthDay(dateStr, rule));
+
+    case "yearly":
+      return addMonths(dateStr, 12 * interval, getSeriesMonthDay(dateStr, rule));
+
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Series
+// ---------------------------------------------------------------------------
+
+/**
+ * Start/due dates of the occurrence after `task`, or null when the series has
+ * ended (count exhausted or past `until`). Dates are anchored on the due date
+ * (falling back to the start date, then `today`) and both shift by the same
+ * number of days so the task keeps its duration.
+ */
+export function getNextOccurrenceDates(
+  task: PlannerTask,
+  today: string
+): { startDate?: string; dueDate?: string } | null {
+  const rule = task.recurrence;
+  if (!rule) return null;
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const anchor = task.dueDate || task.startDate || today;
+  const next = getNextOccurrenceDate(anchor, rule);
+  if (!next) return null;
+  if (rule.until && next > rule.until) return null;
+
+  const shift = toDayNumber(next)! - toDayNumber(anchor)!;
+  const move = (date?: string): string | undefined => {
+    const d = toDayNumber(date);
+    return d === null ? undefined : fromDayNumber(d + shift);
+  };
+
+  if (!task.startDate && !task.dueDate) return { dueDate: next };
+  return { startDate: move(task.startDate), dueDate: move(task.dueDate) };
+}
+
+/**
+ * Build the next task in a recurring series: same details, shifted dates,
+ * fresh progress (status, effort, checklist) and a new ID. `status` is the
+ * project's not-started status. Returns null when the series has ended.
+ */
+export function createNextOccurrence(task: PlannerTask, today: string, status = "Not Started"): PlannerTask | null {
+  const dates = getNextOccurrenceDates(task, today);
+  if (!dates || !task.recurrence) return null;
+
+  const recurrence: TaskRecurrence = { ...task.recurrence };
+  if (recurrence.byWeekday) recurrence.byWeekday = [...recurrence.byWeekday];
+  if (recurrence.count !== undefined) recurrence.count -= 1;
+  // A series on the 29th–31st remembers its day while shorter months clamp it
+  if (recurrence.frequency === "monthly" || recurrence.frequency === "yearly") {
+    const day = getSeriesMonthDay(task.dueDate || task.startDate || today, task.recurrence);
+    const nextDate = (dates.dueDate || dates.startDate)!;
+    if (Number(nextDate.slice(8)) !== day) recurrence.byMonthDay = day;
+    else delete recurrence.byMonthDay;
+  }
+
+  const totalEffort = (task.effortCompleted ?? 0) + (task.effortRemaining ?? 0);
+
+  const next: PlannerTask = {
+    id: crypto.randomUUID(),
+    title: task.title,
+    status,
+    completed: false,
+    parentId: task.parentId ?? null,
+    collapsed: false,
+    priority: task.priority,
+    bucketId: task.bucketId,
+    description: task.description,
+    startDate: dates.startDate,
+    dueDate: dates.dueDate,
+    createdDate: today,
+    lastModifiedDate: today,
+    recurrence,
+  };
+
+  if (task.tags?.length) next.tags = [...task.tags];
+  if (task.assignees?.length) next.assignees = [...task.assignees];
+  if (task.links?.length) next.links = task.links.map((l) => ({ ...l }));
+  if (task.subtasks?.length) {
+    next.subtasks = task.subtasks.map((st) => ({ id: crypto.randomUUID(), title: st.title, completed: false }));
+  }
+  if (task.cardPreview) next.cardPreview = task.cardPreview;
+  if (totalEffort > 0) {
+    next.effortCompleted = 0;
+    next.effortRemaining = totalEffort;
+    next.percentComplete = 0;
+  }
+  if (task.costType) next.costType = task.costType;
+  if (task.costEstimate !== undefined) next.costEstimate = task.costEstimate;
+  if (task.hourlyRate !== undefined) next.hourlyRate = task.hourlyRate;
+
+  return next;
+}
+
+// ---------------------------------------------------------------------------
+// RRULE strings (frontmatter)
+// ---------------------------------------------------------------------------
+
+/** Serialize a rule as an RRULE string, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR". */
+export function formatRRule(rule: TaskRecurrence): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map((d) => WEEKDAY_CODES[d]).join(",")}`);
+  }
+  if ((rule.frequency === "monthly" || rule.frequency === "yearly") && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+/** Parse an RRULE string (with or without an "RRULE:" prefix); unsupported parts are ignored. */
+export function parseRRule(input: string): TaskRecurrence | null {
+  const fields = new Map<string, string>();
+  for (const part of input.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (key && value) fields.set(key.trim().toUpperCase(), value.trim());
+  }
+
+  const frequency = fields.get("FREQ")?.toLowerCase();
+  if (!frequency || !(frequency in FREQ_UNITS)) return null;
+  const rule: TaskRecurrence = { frequency: frequency as RecurrenceFrequency };
+
+  const interval = parseInt(fields.get("INTERVAL") ?? "", 10);
+  if (interval > 1) rule.interval = interval;
+
+  const byDay = fields.get("BYDAY");
+  if (byDay && rule.frequency === "weekly") {
+    const days = byDay
+      .split(",")
+      .map((code) => WEEKDAY_CODES.indexOf(code.trim().toUpperCase().slice(-2)))
+      .filter((d) => d >= 0);
+    if (days.length > 0) rule.byWeekday = [...new Set(days)].sort((a, b) => a - b);
+  }
+
+  const byMonthDay = parseInt(fields.get("BYMONTHDAY") ?? "", 10);
+  if (byMonthDay >= 1 && byMonthDay <= 31 && (rule.frequency === "monthly" || rule.frequency === "yearly")) {
+    rule.byMonthDay = byMonthDay;
+  }
+
+  const until = fields.get("UNTIL")?.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+
+  const count = parseInt(fields.get("COUNT") ?? "", 10);
+  if (count > 0) rule.count = count;
+
+  return rule;
+}
+
+// ---------------------------------------------------------------------------
+// "every …" text (daily notes, UI labels)
+// ---------------------------------------------------------------------------
+
+/** 1 → "1st", 22 → "22nd", 31 → "31st". */
+function formatOrdinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+/** Describe a rule as text, e.g. "every 2 weeks on Monday, Friday until 2026-12-31". */
+export function formatRecurrenceText(rule: TaskRecurrence): string {
+  const interval = rule.interval && rule.interval > 1 ? rule.interval : 1;
+  const unit = FREQ_UNITS[rule.frequency];
+  let text = interval > 1 ? `every ${interval} ${unit}s` : `every ${unit}`;
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    text += ` on ${rule.byWeekday.map((d) => WEEKDAY_NAMES[d]).join(", ")}`;
+  }
+  if (rule.frequency === "monthly" && rule.byMonthDay) text += ` on the ${formatOrdinal(rule.byMonthDay)}`;
+  if (rule.until) text += ` until ${rule.until}`;
+  if (rule.count !== undefined) text += ` for ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  return text;
+}
+
+/**
+ * Parse "every …" text: "every day", "every 2 weeks", "every week on Monday, Thursday",
+ * "every weekday", "every month on the 31st", "every month until 2026-12-31",
+ * "every year for 3 times".
+ */
+export function parseRecurrenceText(input: string): TaskRecurrence | null {
+  const text = input.trim().toLowerCase();
+  const match = text.match(
+    /^every\s+(?:(\d+)\s+)?(day|week|month|year|weekday)s?(?:\s+on\s+the\s+(\d{1,2})(?:st|nd|rd|th))?(?:\s+on\s+([a-z,\s]+?))?(?:\s+until\s+(\d{4}-\d{2}-\d{2}))?(?:\s+(?:for\s+)?(\d+)\s+times?)?$/
+  );
+  if (!match) return null;
+
+  const [, intervalStr, unit, monthDayStr, daysStr, until, countStr] = match;
+  let rule: TaskRecurrence;
+  if (unit === "weekday") {
+    rule = { frequency: "weekly", byWeekday: [1, 2, 3, 4, 5] };
+  } else {
+    const frequency = (Object.keys(FREQ_UNITS) as RecurrenceFrequency[]).find((f) => FREQ_UNITS[f] === unit)!;
+    rule = { frequency };
+  }
+
+  const interval = intervalStr ? parseInt(intervalStr, 10) : 1;
+  if (interval > 1) rule.interval = interval;
+
+  if (daysStr && rule.frequency === "weekly") {
+    const days = daysStr
+      .split(/[,\s]+|\band\b/)
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => WEEKDAY_NAMES.findIndex((w) => w.toLowerCase().startsWith(name.slice(0, 3))))
+      .filter((d) => d >= 0);
+    if (days.length > 0) rule.byWeekday = [...new Set(days)].sort((a, b) => a - b);
+  }
+
+  const monthDay = monthDayStr ? parseInt(monthDayStr, 10) : 0;
+  if (monthDay >= 1 && monthDay <= 31 && rule.frequency === "monthly") rule.byMonthDay = monthDay;
+
+  if (until) rule.until = until;
+  if (countStr) rule.count = parseInt(countStr, 10);
+  return rule;
+}
@@ -0,0 +1,59 @@
+import type { SavedView, SavedViewKind, SavedViewState } from "../types";
+import type { ProjectPlannerSettings } from "../settings";
+
+/**
+ * Saved View Utility Functions
+ *
+ * A saved view is a named snapshot of a view's filters, sort, visible
+ * columns and grouping, stored per project (PlannerProject.savedViews).
+ * Views capture and apply the parts they support; the rest stays unset.
+ */
+
+/** Labels of the views a saved view can open in. */
+export const SAVED_VIEW_KIND_LABELS: Record<SavedViewKind, string> = {
+  grid: "Grid",
+  board: "Board",
+  gantt: "Timeline",
+  myday: "My Tasks",
+};
+
+/** Label of a saved view in pickers: its name and the view it opens in. */
+export function getSavedViewLabel(view: SavedView): string {
+  return `${view.name} (${SAVED_VIEW_KIND_LABELS[view.view]})`;
+}
+
+/** Saved views of a project (the active project by default). */
+export function getSavedViews(
+  settings: Pick<ProjectPlannerSettings, "projects" | "activeProjectId">,
+  projectId?: string
+): SavedView[] {
+  const id = projectId || settings.activeProjectId;
+  return settings.projects?.find((p) => p.id === id)?.savedViews ?? [];
+}
+
+/** A new saved view holding a copy of the captured state. */
+export function createSavedView(name: string, view: SavedViewKind, state: SavedViewState): SavedView {
+  return { id: crypto.randomUUID(), name, view, ...copyState(state) };
+}
+
+/** Replace a saved view's state in place, keeping its ID, name and view. */
+export function updateSavedView(saved: SavedView, state: SavedViewState): void {
+  for (const key of Object.keys(saved) as (keyof SavedView)[]) {
+    if (key !== "id" && key !== "name" && key !== "view") delete saved[key];
+  }
+  Object.assign(saved, copyState(state));
+}
+
+/** Deep copy of a state, dropping unset entries so stored views stay small. */
+function copyState(state: SavedViewState): SavedViewState {
+  const filters = Object.fromEntries(
+    Object.entries(state.filters).filter(([, value]) => value !== undefined && value !== "")
+  ) as SavedViewState["filters"];
+  const copy: SavedViewState = { filters };
+  if (state.sort) copy.sort = { ...state.sort };
+  if (state.columns) copy.columns = [...state.columns];
+  if (state.groupBy) copy.groupBy = state.groupBy;
+  if (state.swimlanes) copy.swimlanes = state.swimlanes;
+  if (state.myDayMode) copy.myDayMode = state.myDayMode;
+  return copy;
+}
@@ -0,0 +1,118 @@
+import type { PlannerStatus, StatusCategory } from "../types";
+
+/**
+ * Status Category Utility Functions
+ *
+ * Statuses are user-defined names; their category (not started / active /
+ * blocked / done) is what completion, parent roll-up, the Dashboard and
+ * filters act on, so statuses can be renamed freely. Statuses saved before
+ * categories existed have none; their category is inferred from the name
+ * until the load-time migration stores it.
+ */
+
+/** Labels of the categories, in the order offered in settings. */
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  "not-started": "Not started",
+  active: "Active",
+  blocked: "Blocked",
+  done: "Done",
+};
+
+/** Fallback colour per category, for statuses missing from the list. */
+export const STATUS_CATEGORY_COLORS: Record<StatusCategory, string> = {
+  "not-started": "#6c757d",
+  active: "#0a84ff",
+  blocked: "#d70022",
+  done: "#2f9e44",
+};
+
+/** Status names used when a list has no status in a category. */
+const FALLBACK_STATUS_NAMES: Record<StatusCategory, string> = {
+  "not-started": "Not Started",
+  active: "In Progress",
+  blocked: "Blocked",
+  done: "Completed",
+};
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+/** Category implied by a status name (for statuses without a stored category). */
+export function inferStatusCategory(name: string): StatusCategory {
+  const n = name.trim().toLowerCase();
+  if (["completed", "complete", "done", "closed", "finished"].includes(n)) return "done";
+  if (["blocked", "on hold", "waiting"].includes(n)) return "blocked";
+  if (["in progress", "active", "doing", "started", "in review"].includes(n)) return "active";
+  return "not-started";
+}
+
+/** Category of a task status, looked up in a status list by name. */
+export function getStatusCategory(statuses: PlannerStatus[], status: string | undefined): StatusCategory {
+  if (!status) return "not-started";
+  const def = statuses.find((s) => s.name === status);
+  return def?.category ?? inferStatusCategory(status);
+}
+
+/** Whether a task status counts as done. */
+export function isDoneStatus(statuses: PlannerStatus[], status: string | undefined): boolean {
+  return getStatusCategory(statuses, status) === "done";
+}
+
+/** Name of the first status in a category (the list order decides). */
+export function getStatusForCategory(statuses: PlannerStatus[], category: StatusCategory): string {
+  const def = statuses.find((s) => (s.category ?? inferStatusCategory(s.name)) === category);
+  return def?.name ?? FALLBACK_STATUS_NAMES[category];
+}
+
+/** Status for a task that was just checked off (done) or reopened (not started). */
+export function getCompletionStatus(statuses: PlannerStatus[], done: boolean): string {
+  return getStatusForCategory(statuses, done ? "done" : "not-started");
+}
+
+/** Colour of a task status: its own, else its category's. */
+export function getStatusColor(statuses: PlannerStatus[], status: string | undefined): string {
+  const def = statuses.find((s) => s.name === status);
+  return def?.color ?? STATUS_CATEGORY_COLORS[getStatusCategory(statuses, status)];
+}
+
+// ---------------------------------------------------------------------------
+// Filtering
+// ---------------------------------------------------------------------------
+
+/** Status filter value selecting a whole category rather than one status. */
+export function categoryFilterValue(category: StatusCategory): string {
+  return `category:${category}`;
+}
+
+/**
+ * Whether a task status passes a status filter: "All", a status name, or a
+ * category filter value (see categoryFilterValue).
+ */
+export function matchesStatusFilter(statuses: PlannerStatus[], status: string | undefined, filter: string): boolean {
+  if (filter === "All") return true;
+  if (filter.startsWith("category:")) return getStatusCategory(statuses, status) === filter.slice("category:".length);
+  return status === filter;
+}
+
+// ---------------------------------------------------------------------------
+// Migration
+// ---------------------------------------------------------------------------
+
+/**
+ * Store a category on every status that lacks one, inferred from its name,
+ * so renaming a status later keeps its meaning. Returns true when anything
+ * changed.
+ */
+export function migrateStatusCategories(lists: (PlannerStatus[] | undefined)[]): boolean {
+  let updated = false;
+  for (const list of lists) {
+    for (const status of list ?? []) {
+      if (!status.category) {
+        status.category = inferStatusCategory(status.name);
+        updated = true;
+      }
+    }
+  }
+  return updated;
+}
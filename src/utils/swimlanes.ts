@@ -0,0 +1,111 @@
+import type { PlannerPerson, PlannerPriority, PlannerTag, PlannerTask, SwimlaneField } from "../types";
+
+/**
+ * Board Swimlane Utility Functions
+ *
+ * Swimlanes split the Board into horizontal rows by one task field. Every
+ * task sits in exactly one lane: its priority, its first tag or assignee
+ * that has a lane, or its parent task. Tasks without a value go in a
+ * trailing "No …" lane. Dropping a card into another lane rewrites that
+ * field so the task lands where it was dropped.
+ */
+
+/** Lists a task's lane is resolved against (the project's effective lists). */
+export interface SwimlaneContext {
+  priorities: PlannerPriority[];
+  tags: PlannerTag[];
+  people: PlannerPerson[];
+  tasks: PlannerTask[]; // All tasks of the project, for parent lanes
+}
+
+/** One swimlane: a field value, or NO_LANE for tasks without one. */
+export interface Swimlane {
+  key: string; // Priority name, tag ID, parent task ID or person ID
+  label: string;
+  color?: string;
+}
+
+/** Key of the lane holding tasks without a value for the field. */
+export const NO_LANE = "";
+
+/** Labels of the grouping options, in the order offered on the Board. */
+export const SWIMLANE_FIELD_LABELS: Record<SwimlaneField, string> = {
+  priority: "Priority",
+  tag: "Tag",
+  parent: "Parent task",
+  assignee: "Assignee",
+};
+
+const NO_LANE_LABELS: Record<SwimlaneField, string> = {
+  priority: "No priority",
+  tag: "No tag",
+  parent: "No parent",
+  assignee: "No assignee",
+};
+
+// ---------------------------------------------------------------------------
+// Lanes
+// ---------------------------------------------------------------------------
+
+/** Lanes for a field in display order, ending with the NO_LANE lane. */
+export function getSwimlanes(field: SwimlaneField, ctx: SwimlaneContext): Swimlane[] {
+  let lanes: Swimlane[];
+  switch (field) {
+    case "priority":
+      lanes = ctx.priorities.map((p) => ({ key: p.name, label: p.name, color: p.color }));
+      break;
+    case "tag":
+      lanes = ctx.tags.map((t) => ({ key: t.id, label: t.name, color: t.color }));
+      break;
+    case "assignee":
+      lanes = ctx.people.map((p) => ({ key: p.id, label: p.name, color: p.color }));
+      break;
+    case "parent": {
+      const parentIds = new Set(ctx.tasks.map((t) => t.parentId).filter((id): id is string => !!id));
+      lanes = ctx.tasks.filter((t) => parentIds.has(t.id)).map((t) => ({ key: t.id, label: t.title }));
+      break;
+    }
+  }
+  return [...lanes, { key: NO_LANE, label: NO_LANE_LABELS[field] }];
+}
+
+/** Key of the lane a task belongs in. */
+export function getTaskLaneKey(field: SwimlaneField, task: PlannerTask, lanes: Swimlane[]): string {
+  const hasLane = (key: string | null | undefined): key is string => !!key && lanes.some((l) => l.key === key);
+  switch (field) {
+    case "priority":
+      return hasLane(task.priority) ? task.priority : NO_LANE;
+    case "parent":
+      return hasLane(task.parentId) ? task.parentId : NO_LANE;
+    case "tag":
+      return (task.tags ?? []).find(hasLane) ?? NO_LANE;
+    case "assignee":
+      return (task.assignees ?? []).find(hasLane) ?? NO_LANE;
+  }
+}
+
+/**
+ * Changes that move a task from one lane to another. For tags and
+ * assignees the old lane's value is swapped for the new one and put first,
+ * so the task resolves to the new lane; other values are kept. Moving to
+ * NO_LANE clears the field.
+ */
+export function moveTaskToLane(
+  field: SwimlaneField,
+  task: PlannerTask,
+  fromKey: string,
+  toKey: string
+): Partial<PlannerTask> {
+  const swap = (values: string[] | undefined): string[] =>
+    toKey === NO_LANE ? [] : [toKey, ...(values ?? []).filter((v) => v !== fromKey && v !== toKey)];
+  switch (field) {
+    case "priority":
+      return { priority: toKey === NO_LANE ? undefined : toKey };
+    case "parent":
+      return { parentId: toKey === NO_LANE ? null : toKey };
+    case "tag":
+      return { tags: swap(task.tags) };
+    case "assignee":
+      return { assignees: swap(task.assignees) };
+  }
+}
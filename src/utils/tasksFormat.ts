@@ -0,0 +1,171 @@
+/**
+ * Obsidian Tasks Format Functions
+ *
+ * Reading and writing the emoji fields of the Obsidian Tasks plugin:
+ *
+ *   Water plants #home 🆔 w1 ⛔ a2,b3 ⏫ 🔁 every week ➕ 2026-01-01 🛫 2026-01-10 ⏳ 2026-01-12 📅 2026-01-15 ✅ 2026-01-14
+ *
+ * Fields may appear anywhere after the description; the serializer writes
+ * them in the order the Tasks plugin does. Tags stay in the description.
+ */
+
+/** The five Tasks priorities; "none" is the absence of a marker. */
+export type TasksPriority = "highest" | "high" | "medium" | "low" | "lowest";
+
+/** A task line's text split into its description and Tasks fields. */
+export interface TasksFields {
+  description: string;
+  id?: string; // 🆔 — referenced by other tasks' ⛔
+  dependsOn: string[]; // ⛔ — IDs of the tasks this one waits for
+  priority?: TasksPriority;
+  recurrence?: string; // 🔁 rule text, e.g. "every week when done"
+  onCompletion?: string; // 🏁 delete | keep
+  createdDate?: string; // ➕
+  startDate?: string; // 🛫
+  scheduledDate?: string; // ⏳
+  dueDate?: string; // 📅
+  cancelledDate?: string; // ❌
+  doneDate?: string; // ✅
+}
+
+type TasksDateField = "createdDate" | "startDate" | "scheduledDate" | "dueDate" | "cancelledDate" | "doneDate";
+
+/** Date fields in serialization order; the first emoji is the one written. */
+const DATE_FIELDS: { field: TasksDateField; emojis: string[] }[] = [
+  { field: "createdDate", emojis: ["➕"] },
+  { field: "startDate", emojis: ["🛫"] },
+  { field: "scheduledDate", emojis: ["⏳", "⌛"] },
+  { field: "dueDate", emojis: ["📅", "📆", "🗓"] },
+  { field: "cancelledDate", emojis: ["❌"] },
+  { field: "doneDate", emojis: ["✅"] },
+];
+
+const PRIORITY_EMOJIS: Record<TasksPriority, string> = {
+  highest: "🔺",
+  high: "⏫",
+  medium: "🔼",
+  low: "🔽",
+  lowest: "⏬",
+};
+
+/** Planner priority name for each Tasks priority. */
+const PLANNER_PRIORITIES: Record<TasksPriority, string> = {
+  highest: "Critical",
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+  lowest: "Low",
+};
+
+// Emoji may carry a trailing variation selector (U+FE0F)
+const VS = "\\uFE0F?";
+const ID_CHARS = "[A-Za-z0-9_-]+";
+
+/** Every emoji that starts a Tasks field. */
+const FIELD_EMOJI_LIST = [
+  "🆔",
+  "⛔",
+  "🔁",
+  "🏁",
+  ...Object.values(PRIORITY_EMOJIS),
+  ...DATE_FIELDS.flatMap((d) => d.emojis),
+];
+const FIELD_EMOJIS = FIELD_EMOJI_LIST.join("|");
+
+const ID_PATTERN = new RegExp(`🆔${VS}\\s*(${ID_CHARS})`, "u");
+const DEPENDS_ON_PATTERN = new RegExp(`⛔${VS}\\s*(${ID_CHARS}(?:\\s*,\\s*${ID_CHARS})*)`, "u");
+const PRIORITY_PATTERN = new RegExp(`(${Object.values(PRIORITY_EMOJIS).join("|")})${VS}`, "u");
+const RECURRENCE_PATTERN = new RegExp(`🔁${VS}\\s*([^#]*?)\\s*(?=${FIELD_EMOJIS}|#|$)`, "u");
+const ON_COMPLETION_PATTERN = new RegExp(`🏁${VS}\\s*(delete|keep)\\b`, "iu");
+// 📅 and 🔁 are left out: the plain daily-note format uses them too
+const TASKS_ONLY_PATTERN = new RegExp(FIELD_EMOJI_LIST.filter((e) => e !== "📅" && e !== "🔁").join("|"), "u");
+
+const tidy = (text: string) => text.replace(/\s{2,}/g, " ").trim();
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Whether text is written in Tasks notation, i.e. has a field only that format uses. */
+export function usesTasksFormat(text: string): boolean {
+  return TASKS_ONLY_PATTERN.test(text);
+}
+
+/** Split task text (without its checkbox) into description and Tasks fields. */
+export function parseTasksFields(text: string): TasksFields {
+  const fields: TasksFields = { description: "", dependsOn: [] };
+  let rest = text;
+
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], " ");
+    return match;
+  };
+
+  const id = take(ID_PATTERN);
+  if (id) fields.id = id[1];
+
+  const dependsOn = take(DEPENDS_ON_PATTERN);
+  if (dependsOn) fields.dependsOn = dependsOn[1].split(",").map((s) => s.trim());
+
+  const priority = take(PRIORITY_PATTERN);
+  if (priority) {
+    fields.priority = (Object.keys(PRIORITY_EMOJIS) as TasksPriority[]).find(
+      (p) => PRIORITY_EMOJIS[p] === priority[1]
+    );
+  }
+
+  const recurrence = take(RECURRENCE_PATTERN);
+  if (recurrence && recurrence[1]) fields.recurrence = recurrence[1];
+
+  const onCompletion = take(ON_COMPLETION_PATTERN);
+  if (onCompletion) fields.onCompletion = onCompletion[1].toLowerCase();
+
+  for (const { field, emojis } of DATE_FIELDS) {
+    const date = take(new RegExp(`(?:${emojis.join("|")})${VS}\\s*(\\d{4}-\\d{2}-\\d{2})`, "u"));
+    if (date) fields[field] = date[1];
+  }
+
+  fields.description = tidy(rest);
+  return fields;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+/** Task text for the fields, in the Tasks plugin's field order. */
+export function serializeTasksFields(fields: TasksFields): string {
+  const parts = [fields.description];
+  if (fields.id) parts.push(`🆔 ${fields.id}`);
+  if (fields.dependsOn.length > 0) parts.push(`⛔ ${fields.dependsOn.join(",")}`);
+  if (fields.priority) parts.push(PRIORITY_EMOJIS[fields.priority]);
+  if (fields.recurrence) parts.push(`🔁 ${fields.recurrence}`);
+  if (fields.onCompletion) parts.push(`🏁 ${fields.onCompletion}`);
+  for (const { field, emojis } of DATE_FIELDS) {
+    const date = fields[field];
+    if (date) parts.push(`${emojis[0]} ${date}`);
+  }
+  return tidy(parts.join(" "));
+}
+
+// ---------------------------------------------------------------------------
+// Planner mapping
+// ---------------------------------------------------------------------------
+
+/** Planner priority name for a Tasks priority (lowest shares Low). */
+export function tasksPriorityToPlanner(priority: TasksPriority): string {
+  return PLANNER_PRIORITIES[priority];
+}
+
+/** Tasks priority for a planner priority name, or undefined when it has none. */
+export function plannerPriorityToTasks(priority: string | undefined): TasksPriority | undefined {
+  if (!priority) return undefined;
+  const name = priority.toLowerCase();
+  return (Object.keys(PLANNER_PRIORITIES) as TasksPriority[]).find((p) => PLANNER_PRIORITIES[p].toLowerCase() === name);
+}
+
+/** The rule of a 🔁 value, without the Tasks-only "when done" suffix. */
+export function getTasksRecurrenceRule(recurrence: string): string {
+  return recurrence.replace(/\s+when done$/i, "").trim();
+}
@@ -0,0 +1,231 @@
+import type { PlannerPerson, PlannerTask, TimeLogEntry } from "../types";
+import type { PlannerProject } from "../settings";
+import { toCsv } from "./csvUtils";
+
+/**
+ * Time Tracking Utility Functions
+ *
+ * Time is logged per task as TimeLogEntry records (from a start/stop timer or
+ * entered by hand). Each entry's hours are also added to the task's
+ * effortCompleted, so hourly tasks pick the time up in their actual cost.
+ * Entries belong to the local calendar day on which they start.
+ */
+
+/** Logged time of one task, with its project, as listed in a timesheet. */
+export interface TimesheetRow {
+  project: Pick<PlannerProject, "id" | "name">;
+  task: PlannerTask;
+  entry: TimeLogEntry;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Entries
+// ---------------------------------------------------------------------------
+
+/** Round hours to two decimals (36 seconds) to keep sums stable. */
+export function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/** Local YYYY-MM-DD of a date. */
+export function toLocalDateStr(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/** Local YYYY-MM-DD dates, Monday through Sunday, of the week containing `anchor`. */
+export function getWeekDateStrings(anchor: Date): string[] {
+  const monday = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  const dates: string[] = [];
+  for (let i = 0; i < 7; i++) {
+    dates.push(toLocalDateStr(new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + i)));
+  }
+  return dates;
+}
+
+/** Entry for the time between `start` and `end` (e.g. a stopped timer). */
+export function createTimeLogEntry(
+  start: Date,
+  end: Date,
+  options: { note?: string; personId?: string } = {}
+): TimeLogEntry {
+  const entry: TimeLogEntry = {
+    id: crypto.randomUUID(),
+    start: start.toISOString(),
+    end: end.toISOString(),
+    duration: roundHours(Math.max(0, end.getTime() - start.getTime()) / HOUR_MS),
+  };
+  if (options.note) entry.note = options.note;
+  if (options.personId) entry.personId = options.personId;
+  return entry;
+}
+
+/** Entry of `hours` on a day (YYYY-MM-DD), placed from 09:00 local time. */
+export function createManualTimeLogEntry(
+  dateStr: string,
+  hours: number,
+  options: { note?: string; personId?: string } = {}
+): TimeLogEntry {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const start = new Date(y, m - 1, d, 9, 0, 0);
+  const entry = createTimeLogEntry(start, new Date(start.getTime() + hours * HOUR_MS), options);
+  entry.duration = roundHours(hours);
+  return entry;
+}
+
+/** Local day (YYYY-MM-DD) an entry counts towards. */
+export function getEntryDate(entry: TimeLogEntry): string {
+  return toLocalDateStr(new Date(entry.start));
+}
+
+/** Hours logged on a task on one day (YYYY-MM-DD). */
+export function getLoggedHoursOnDate(task: PlannerTask, dateStr: string): number {
+  return roundHours(
+    (task.timeLog ?? []).filter((e) => getEntryDate(e) === dateStr).reduce((sum, e) => sum + e.duration, 0)
+  );
+}
+
+/**
+ * Set the hours logged on a day to `hours`. More time is added as one manual
+ * entry; less time is taken from that day's latest entries first, shortening
+ * or removing them. Returns the new log and the change in hours.
+ */
+export function setLoggedHoursOnDate(
+  timeLog: TimeLogEntry[],
+  dateStr: string,
+  hours: number,
+  options: { note?: string; personId?: string } = {}
+): { timeLog: TimeLogEntry[]; delta: number } {
+  const current = roundHours(
+    timeLog.filter((e) => getEntryDate(e) === dateStr).reduce((sum, e) => sum + e.duration, 0)
+  );
+  const delta = roundHours(Math.max(0, hours) - current);
+  if (delta === 0) return { timeLog, delta };
+  if (delta > 0) {
+    return { timeLog: [...timeLog, createManualTimeLogEntry(dateStr, delta, options)], delta };
+  }
+
+  let toRemove = -delta;
+  const trimmed = new Map<string, TimeLogEntry | null>();
+  const latestFirst = timeLog
+    .filter((e) => getEntryDate(e) === dateStr)
+    .sort((a, b) => b.start.localeCompare(a.start));
+  for (const entry of latestFirst) {
+    if (toRemove <= 0) break;
+    if (entry.duration <= toRemove) {
+      trimmed.set(entry.id, null);
+      toRemove = roundHours(toRemove - entry.duration);
+    } else {
+      const duration = roundHours(entry.duration - toRemove);
+      const end = new Date(Date.parse(entry.start) + duration * HOUR_MS).toISOString();
+      trimmed.set(entry.id, { ...entry, duration, end });
+      toRemove = 0;
+    }
+  }
+  const next: TimeLogEntry[] = [];
+  for (const entry of timeLog) {
+    if (!trimmed.has(entry.id)) next.push(entry);
+    else if (trimmed.get(entry.id)) next.push(trimmed.get(entry.id)!);
+  }
+  return { timeLog: next, delta };
+}
+
+/** Total hours logged on a task. */
+export function getLoggedHours(task: PlannerTask): number {
+  return roundHours((task.timeLog ?? []).reduce((sum, e) => sum + e.duration, 0));
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** "1h 30m", "45m", "0m". */
+export function formatHours(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
+/** Running-timer clock: "0:05:09", "12:00:00". */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Timesheet export
+// ---------------------------------------------------------------------------
+
+/** All entries of the given projects' tasks, oldest first, optionally limited to [from, to] days. */
+export function collectTimesheetRows(
+  projects: { project: TimesheetRow["project"]; tasks: PlannerTask[] }[],
+  from?: string,
+  to?: string
+): TimesheetRow[] {
+  const rows: TimesheetRow[] = [];
+  for (const { project, tasks } of projects) {
+    for (const task of tasks) {
+      for (const entry of task.timeLog ?? []) {
+        const day = getEntryDate(entry);
+        if ((from && day < from) || (to && day > to)) continue;
+        rows.push({ project, task, entry });
+      }
+    }
+  }
+  return rows.sort((a, b) => a.entry.start.localeCompare(b.entry.start));
+}
+
+/** Weekly timesheet CSV: one row per task with its hours per day, plus a totals row. */
+export function exportWeeklyTimesheetToCsv(
+  rows: { project: TimesheetRow["project"]; task: PlannerTask }[],
+  dates: string[]
+): string {
+  const csv: string[][] = [["Project", "Task", ...dates, "Total"]];
+  const dayTotals = dates.map(() => 0);
+  for (const { project, task } of rows) {
+    const hours = dates.map((d) => getLoggedHoursOnDate(task, d));
+    hours.forEach((h, i) => (dayTotals[i] += h));
+    csv.push([project.name, task.title, ...hours.map(String), String(roundHours(hours.reduce((a, b) => a + b, 0)))]);
+  }
+  csv.push([
+    "Total",
+    "",
+    ...dayTotals.map((h) => String(roundHours(h))),
+    String(roundHours(dayTotals.reduce((a, b) => a + b, 0))),
+  ]);
+  return toCsv(csv);
+}
+
+/** Timesheet CSV with one row per entry: date, project, task, person, start, end, hours, note. */
+export function exportTimesheetToCsv(rows: TimesheetRow[], people: PlannerPerson[]): string {
+  const personName = (id?: string) => (id ? people.find((p) => p.id === id)?.name ?? id : "");
+  const time = (iso: string) => {
+    const d = new Date(iso);
+    return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+  };
+
+  const csv: string[][] = [["Date", "Project", "Task", "Person", "Start", "End", "Hours", "Note"]];
+  for (const { project, task, entry } of rows) {
+    csv.push([
+      getEntryDate(entry),
+      project.name,
+      task.title,
+      personName(entry.personId),
+      time(entry.start),
+      time(entry.end),
+      String(entry.duration),
+      entry.note ?? "",
+    ]);
+  }
+  return toCsv(csv);
+}
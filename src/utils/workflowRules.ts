@@ -0,0 +1,81 @@
+import type { PlannerStatus, PlannerTask } from "../types";
+import type { BoardBucket } from "../settings";
+
+/**
+ * Workflow Rule Utility Functions
+ *
+ * Two optional rules a project can opt into:
+ * - WIP limits: a board bucket caps how many open tasks it holds. Drops over
+ *   the limit either warn or are blocked, per bucket.
+ * - Status transitions: for each status, the statuses a task may move to
+ *   next. Keyed by status ID so renaming a status keeps its rules; a status
+ *   without an entry may move anywhere.
+ */
+
+/** Allowed next statuses per status ID (see PlannerProject.statusTransitions). */
+export type StatusTransitions = Record<string, string[]>;
+
+/** Outcome of adding a task to a bucket with a WIP limit. */
+export type WipCheck = "ok" | "warn" | "block";
+
+// ---------------------------------------------------------------------------
+// WIP limits
+// ---------------------------------------------------------------------------
+
+/** Open (not completed) tasks in a bucket; `null` is the Unassigned bucket. */
+export function countWipTasks(tasks: PlannerTask[], bucketId: string | null): number {
+  return tasks.filter((t) => !t.completed && (t.bucketId ?? null) === bucketId).length;
+}
+
+/** Whether a bucket holds more open tasks than its limit allows. */
+export function isOverWipLimit(bucket: BoardBucket, openCount: number): boolean {
+  return bucket.wipLimit !== undefined && openCount > bucket.wipLimit;
+}
+
+/**
+ * Check moving one more open task into a bucket that already holds
+ * `openCount` open tasks.
+ */
+export function checkWipLimit(bucket: BoardBucket, openCount: number): WipCheck {
+  if (!isOverWipLimit(bucket, openCount + 1)) return "ok";
+  return bucket.wipLimitStrict ? "block" : "warn";
+}
+
+// ---------------------------------------------------------------------------
+// Status transitions
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a task may move from one status to another. Moves to or from a
+ * status that isn't in the list, and from a status without rules, are allowed.
+ */
+export function isTransitionAllowed(
+  transitions: StatusTransitions | undefined,
+  statuses: PlannerStatus[],
+  from: string | undefined,
+  to: string
+): boolean {
+  if (!transitions || from === undefined || from === to) return true;
+  const fromDef = statuses.find((s) => s.name === from);
+  const toDef = statuses.find((s) => s.name === to);
+  if (!fromDef || !toDef) return true;
+  const allowed = transitions[fromDef.id];
+  return !allowed || allowed.includes(toDef.id);
+}
+
+/** Copy of the rules with one allowed move switched on or off. */
+export function setTransitionAllowed(
+  transitions: StatusTransitions | undefined,
+  statuses: PlannerStatus[],
+  fromId: string,
+  toId: string,
+  allowed: boolean
+): StatusTransitions {
+  const next: StatusTransitions = { ...(transitions ?? {}) };
+  // A status without rules allows every move; start from that
+  const current = new Set(next[fromId] ?? statuses.map((s) => s.id).filter((id) => id !== fromId));
+  if (allowed) current.add(toId);
+  else current.delete(toId);
+  next[fromId] = statuses.map((s) => s.id).filter((id) => current.has(id));
+  return next;
+}
@@ -0,0 +1,164 @@
+import type { WorkingCalendar } from "../types";
+import type { ProjectPlannerSettings } from "../settings";
+
+/**
+ * Working-Day Calendar Utility Functions
+ *
+ * Date math that skips non-working days (weekends, holidays) for projects
+ * with a working calendar. Every function accepts `undefined` for the
+ * calendar, in which case all days are working days and the maths reduces
+ * to plain calendar-day arithmetic (the behaviour for projects without one).
+ *
+ * Dates are YYYY-MM-DD strings; arithmetic is done on UTC day numbers so
+ * daylight-saving transitions never shift a date.
+ */
+
+/** Monday–Friday (0 = Sunday … 6 = Saturday). */
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+/** Safety cap for day-by-day walks (ten years). */
+const MAX_WALK_DAYS = 3660;
+
+const DAY_MS = 86400000;
+
+// ---------------------------------------------------------------------------
+// Day numbers
+// ---------------------------------------------------------------------------
+
+/** Convert YYYY-MM-DD to a day number (days since 1970-01-01), or null if invalid. */
+export function toDayNumber(dateStr: string | undefined): number | null {
+  if (!dateStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return null;
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+}
+
+/** Convert a day number back to YYYY-MM-DD. */
+export function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// ---------------------------------------------------------------------------
+// Calendar lookup
+// ---------------------------------------------------------------------------
+
+/** Create a Monday–Friday calendar with no holidays. */
+export function createDefaultCalendar(): WorkingCalendar {
+  return { workingDays: [...DEFAULT_WORKING_DAYS], holidays: [], exceptions: {} };
+}
+
+/** Get a project's working calendar, or undefined if it schedules on calendar days. */
+export function getProjectCalendar(
+  settings: Pick<ProjectPlannerSettings, "projects">,
+  projectId: string
+): WorkingCalendar | undefined {
+  const calendar = settings.projects?.find((p) => p.id === projectId)?.calendar;
+  return calendar && hasWorkingDays(calendar) ? calendar : undefined;
+}
+
+/** A calendar with no working weekdays and no working exceptions can't schedule anything. */
+function hasWorkingDays(calendar: WorkingCalendar): boolean {
+  if (calendar.workingDays.length > 0) return true;
+  return Object.values(calendar.exceptions ?? {}).some((working) => working);
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+function isWorkingDayNumber(day: number, calendar: WorkingCalendar | undefined): boolean {
+  if (!calendar) return true;
+  const dateStr = fromDayNumber(day);
+  const exception = calendar.exceptions?.[dateStr];
+  if (exception !== undefined) return exception;
+  if (calendar.holidays.includes(dateStr)) return false;
+  const weekday = new Date(day * DAY_MS).getUTCDay();
+  return calendar.workingDays.includes(weekday);
+}
+
+/** Whether a YYYY-MM-DD date is a working day. */
+export function isWorkingDay(dateStr: string, calendar: WorkingCalendar | undefined): boolean {
+  const day = toDayNumber(dateStr);
+  if (day === null) return true;
+  return isWorkingDayNumber(day, calendar);
+}
+
+/** Count working days in the inclusive range [start, end]; 0 if end is before start. */
+export function countWorkingDays(start: string, end: string, calendar: WorkingCalendar | undefined): number {
+  const s = toDayNumber(start);
+  const e = toDayNumber(end);
+  if (s === null || e === null || e < s) return 0;
+  if (!calendar) return e - s + 1;
+  let count = 0;
+  for (let day = s; day <= e && day - s <= MAX_WALK_DAYS; day++) {
+    if (isWorkingDayNumber(day, calendar)) count++;
+  }
+  return count;
+}
+
+/**
+ * Duration label for the inclusive range [start, end]: "5 days", or "5 work
+ * days" with a calendar. Null if a date is missing or end is before start.
+ */
+export function formatDuration(
+  start: string | undefined,
+  end: string | undefined,
+  calendar: WorkingCalendar | undefined
+): string | null {
+  const s = toDayNumber(start);
+  const e = toDayNumber(end);
+  if (s === null || e === null || e < s) return null;
+  const days = countWorkingDays(start!, end!, calendar);
+  const unit = calendar ? "work day" : "day";
+  return days === 1 ? `1 ${unit}` : `${days} ${unit}s`;
+}
+
+// ---------------------------------------------------------------------------
+// Shifting
+// ---------------------------------------------------------------------------
+
+/**
+ * Move a date by `days` working days (negative moves backwards).
+ * A shift of 0 returns the date unchanged, even if it's a non-working day.
+ */
+export function shiftWorkingDays(dateStr: string, days: number, calendar: WorkingCalendar | undefined): string {
+  let day = toDayNumber(dateStr);
+  if (day === null) return dateStr;
+  if (!calendar) return fromDayNumber(day + days);
+
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  let walked = 0;
+  while (remaining > 0 && walked < MAX_WALK_DAYS) {
+    day += step;
+    walked++;
+    if (isWorkingDayNumber(day, calendar)) remaining--;
+  }
+  return fromDayNumber(day);
+}
+
+/** Snap a date to the nearest working day in the given direction (unchanged if already working). */
+export function snapToWorkingDay(dateStr: string, direction: 1 | -1, calendar: WorkingCalendar | undefined): string {
+  let day = toDayNumber(dateStr);
+  if (day === null || !calendar) return dateStr;
+  let walked = 0;
+  while (!isWorkingDayNumber(day, calendar) && walked < MAX_WALK_DAYS) {
+    day += direction;
+    walked++;
+  }
+  return fromDayNumber(day);
+}
+
+/**
+ * Number of working days between two dates, as a signed index offset:
+ * the count of working days in [from, to) (negated when `to` is before `from`).
+ */
+export function workingDaysBetween(from: number, to: number, calendar: WorkingCalendar | undefined): number {
+  if (!calendar) return to - from;
+  const lo = Math.min(from, to);
+  const hi = Math.max(from, to);
+  let count = 0;
+  for (let day = lo; day < hi && day - lo <= MAX_WALK_DAYS; day++) {
+    if (isWorkingDayNumber(day, calendar)) count++;
+  }
+  return to >= from ? count : -count;
+}
@@ -15,6 +15,17 @@ export class Plugin {
   addSettingTab(tab: any) {}
   registerView(type: string, viewCreator: any) {}
   registerExtensions(extensions: string[], type: string) {}
+  registerMarkdownCodeBlockProcessor(language: string, handler: any) {}
+
+  addStatusBarItem(): HTMLElement {
+    const el: any = document.createElement('div');
+    el.addClass = (cls: string) => el.classList.add(cls);
+    el.setText = (text: string) => { el.textContent = text; };
+    el.empty = () => { el.innerHTML = ''; };
+    el.hide = () => { el.style.display = 'none'; };
+    el.show = () => { el.style.display = ''; };
+    return el;
+  }
   
   async loadData() {
     return {};
@@ -157,6 +168,51 @@ export class Menu {
   showAtMouseEvent(event: MouseEvent) {}
 }
 
+export class MarkdownRenderChild {
+  containerEl: HTMLElement;
+
+  constructor(containerEl: HTMLElement) {
+    this.containerEl = containerEl;
+  }
+
+  onload() {}
+  onunload() {}
+}
+
+export class Modal {
+  app: any;
+  containerEl: HTMLElement;
+  modalEl: HTMLElement;
+  titleEl: HTMLElement;
+  contentEl: HTMLElement;
+
+  constructor(app: any) {
+    this.app = app;
+    this.containerEl = document.createElement('div');
+    this.modalEl = document.createElement('div');
+    this.titleEl = document.createElement('div');
+    this.contentEl = document.createElement('div');
+  }
+
+  open() {
+    this.onOpen();
+  }
+
+  close() {
+    this.onClose();
+  }
+
+  onOpen() {}
+  onClose() {}
+}
+
+export class FuzzySuggestModal<T> extends Modal {
+  setPlaceholder(placeholder: string) {}
+  getItems(): T[] { return []; }
+  getItemText(item: T): string { return ''; }
+  onChooseItem(item: T, evt: MouseEvent | KeyboardEvent) {}
+}
+
 export class Notice {
   constructor(message: string, timeout?: number) {}
 }
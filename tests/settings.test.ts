@@ -37,11 +37,13 @@ describe("Settings", () => {
                 id: "not-started",
                 name: "Not Started",
                 color: "#6c757d",
+                category: "not-started",
             });
             expect(DEFAULT_SETTINGS.availableStatuses[3]).toEqual({
                 id: "completed",
                 name: "Completed",
                 color: "#2f9e44",
+                category: "done",
             });
         });
 
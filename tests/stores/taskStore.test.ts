@@ -67,6 +67,39 @@ describe('TaskStore', () => {
       const updated = taskStore.getAll()[0];
       expect(updated.completed).toBe(true);
     });
+
+    it('should roll up both parents when parentId changes', async () => {
+      mockPlugin.settings.enableParentRollUp = true;
+      await taskStore.load();
+      const oldParent = await taskStore.addTask('Old parent');
+      const newParent = await taskStore.addTask('New parent');
+      const stays = await taskStore.addTask('Stays');
+      const moves = await taskStore.addTask('Moves');
+      await taskStore.makeSubtask(stays.id, oldParent.id);
+      await taskStore.makeSubtask(moves.id, oldParent.id);
+      await taskStore.updateTask(stays.id, { effortCompleted: 2 });
+      await taskStore.updateTask(moves.id, { effortCompleted: 3 });
+      expect(taskStore.getTaskById(oldParent.id)?.effortCompleted).toBe(5);
+
+      await taskStore.updateTask(moves.id, { parentId: newParent.id });
+      expect(taskStore.getTaskById(oldParent.id)?.effortCompleted).toBe(2);
+      expect(taskStore.getTaskById(newParent.id)?.effortCompleted).toBe(3);
+    });
+
+    it('should weight the roll-up by the inclusive duration the grid shows', async () => {
+      mockPlugin.settings.enableParentRollUp = true;
+      await taskStore.load();
+      const parent = await taskStore.addTask('Parent');
+      const long = await taskStore.addTask('Mon to Wed');
+      const short = await taskStore.addTask('One day');
+      await taskStore.makeSubtask(long.id, parent.id);
+      await taskStore.makeSubtask(short.id, parent.id);
+      await taskStore.updateTask(short.id, { startDate: '2026-03-05', dueDate: '2026-03-05', percentComplete: 0 });
+
+      // 3 days at 100% and 1 day at 0%
+      await taskStore.updateTask(long.id, { startDate: '2026-03-02', dueDate: '2026-03-04', percentComplete: 100 });
+      expect(taskStore.getTaskById(parent.id)?.percentComplete).toBe(75);
+    });
   });
 
   describe('deleteTask', () => {
@@ -509,4 +542,537 @@ describe('TaskStore', () => {
       expect(updated.completed).toBe(true);
     });
   });
+
+  describe('dependency scheduling', () => {
+    const setupChain = async (type: 'FS' | 'SS' | 'FF' | 'SF', lag?: number) => {
+      mockPlugin.settings.enableDependencyScheduling = true;
+      await taskStore.load();
+      const pred = await taskStore.addTask('Predecessor');
+      const succ = await taskStore.addTask('Successor');
+      await taskStore.updateTask(succ.id, {
+        startDate: '2026-01-01',
+        dueDate: '2026-01-03',
+        dependencies: [{ predecessorId: pred.id, type, lag }],
+      });
+      return { pred, succ };
+    };
+
+    it('should apply a positive FS lag when cascading', async () => {
+      const { pred, succ } = await setupChain('FS', 2);
+
+      await taskStore.updateTask(pred.id, { startDate: '2026-01-05', dueDate: '2026-01-09' });
+
+      const updated = taskStore.getTaskById(succ.id)!;
+      expect(updated.startDate).toBe('2026-01-12');
+      expect(updated.dueDate).toBe('2026-01-14');
+    });
+
+    it('should apply a negative SS lead when cascading', async () => {
+      const { pred, succ } = await setupChain('SS', -1);
+
+      await taskStore.updateTask(pred.id, { startDate: '2026-01-10', dueDate: '2026-01-12' });
+
+      const updated = taskStore.getTaskById(succ.id)!;
+      expect(updated.startDate).toBe('2026-01-09');
+      expect(updated.dueDate).toBe('2026-01-11');
+    });
+
+    it('should treat a missing lag as zero', async () => {
+      const { pred, succ } = await setupChain('FF');
+
+      await taskStore.updateTask(pred.id, { startDate: '2026-01-02', dueDate: '2026-01-08' });
+
+      const updated = taskStore.getTaskById(succ.id)!;
+      expect(updated.startDate).toBe('2026-01-06');
+      expect(updated.dueDate).toBe('2026-01-08');
+    });
+
+    it('should skip non-working days when the project has a working calendar', async () => {
+      mockPlugin.settings.projects[0].calendar = { workingDays: [1, 2, 3, 4, 5], holidays: [] };
+      const { pred, succ } = await setupChain('FS');
+
+      // Predecessor finishes on Friday 2026-01-09
+      await taskStore.updateTask(pred.id, { startDate: '2026-01-05', dueDate: '2026-01-09' });
+
+      const updated = taskStore.getTaskById(succ.id)!;
+      expect(updated.startDate).toBe('2026-01-12');
+      expect(updated.dueDate).toBe('2026-01-13');
+    });
+
+    it('should move a milestone successor as a single date', async () => {
+      const { pred, succ } = await setupChain('FF', 1);
+      await taskStore.updateTask(succ.id, { milestone: true });
+
+      await taskStore.updateTask(pred.id, { startDate: '2026-01-05', dueDate: '2026-01-09' });
+
+      const updated = taskStore.getTaskById(succ.id)!;
+      expect(updated.startDate).toBe('2026-01-10');
+      expect(updated.dueDate).toBe('2026-01-10');
+    });
+
+    it('should schedule from a milestone predecessor with only a due date', async () => {
+      const { pred, succ } = await setupChain('SS');
+
+      await taskStore.updateTask(pred.id, { milestone: true, dueDate: '2026-01-20' });
+
+      const updated = taskStore.getTaskById(succ.id)!;
+      expect(updated.startDate).toBe('2026-01-20');
+      expect(updated.dueDate).toBe('2026-01-22');
+    });
+  });
+
+  describe('milestones', () => {
+    it('should keep start and due on the same date', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('Go live');
+      await taskStore.updateTask(task.id, { startDate: '2026-03-02', dueDate: '2026-03-06' });
+
+      await taskStore.updateTask(task.id, { milestone: true });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ startDate: '2026-03-06', dueDate: '2026-03-06' });
+
+      await taskStore.updateTask(task.id, { startDate: '2026-03-10' });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ startDate: '2026-03-10', dueDate: '2026-03-10' });
+    });
+  });
+
+  describe('status categories', () => {
+    beforeEach(() => {
+      mockPlugin.settings.availableStatuses = [
+        { id: 'todo', name: 'To Do', color: '#888888', category: 'not-started' },
+        { id: 'doing', name: 'Doing', color: '#0a84ff', category: 'active' },
+        { id: 'shipped', name: 'Shipped', color: '#2f9e44', category: 'done' },
+      ];
+    });
+
+    it('should use the first not-started status for new tasks', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('New');
+
+      expect(task.status).toBe('To Do');
+    });
+
+    it('should complete and reopen tasks by category, not by name', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('Release');
+
+      await taskStore.updateTask(task.id, { status: 'Shipped' });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'Shipped', completed: true });
+
+      await taskStore.updateTask(task.id, { completed: false });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'To Do', completed: false });
+
+      await taskStore.updateTask(task.id, { completed: true });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'Shipped', completed: true });
+    });
+
+    it('should sync the status with effort using the renamed statuses', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('Build');
+      await taskStore.updateTask(task.id, { effortCompleted: 0, effortRemaining: 4 });
+
+      await taskStore.updateTask(task.id, { effortCompleted: 4, effortRemaining: 0 });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'Shipped', completed: true });
+
+      await taskStore.updateTask(task.id, { effortRemaining: 2 });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'Doing', completed: false });
+    });
+
+    it('should roll a parent up to the done status when all subtasks are done', async () => {
+      mockPlugin.settings.enableParentRollUp = true;
+      await taskStore.load();
+      const parent = await taskStore.addTask('Parent');
+      const child = await taskStore.addTask('Child');
+      await taskStore.makeSubtask(child.id, parent.id);
+
+      await taskStore.updateTask(child.id, { status: 'Shipped', percentComplete: 100 });
+      expect(taskStore.getTaskById(parent.id)).toMatchObject({ status: 'Shipped', completed: true });
+    });
+  });
+
+  describe('status transitions', () => {
+    beforeEach(() => {
+      mockPlugin.settings.availableStatuses = [
+        { id: 'todo', name: 'To Do', color: '#888888', category: 'not-started' },
+        { id: 'doing', name: 'Doing', color: '#0a84ff', category: 'active' },
+        { id: 'shipped', name: 'Shipped', color: '#2f9e44', category: 'done' },
+      ];
+      // To Do may only move to Doing; Doing and Shipped have no rules
+      mockPlugin.settings.projects[0].statusTransitions = { todo: ['doing'] };
+    });
+
+    it('should reject a status change the workflow does not allow', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('Release');
+
+      await taskStore.updateTask(task.id, { status: 'Shipped', title: 'Renamed' });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'To Do', completed: false, title: 'Renamed' });
+
+      await taskStore.updateTask(task.id, { completed: true });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'To Do', completed: false });
+    });
+
+    it('should keep the status when effort reaches 100% but the workflow forbids done', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('Release');
+      await taskStore.updateTask(task.id, { effortCompleted: 1, effortRemaining: 3 });
+
+      await taskStore.updateTask(task.id, { effortCompleted: 4, effortRemaining: 0 });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({
+        status: 'To Do',
+        completed: false,
+        effortCompleted: 4,
+        effortRemaining: 0,
+        percentComplete: 100,
+      });
+    });
+
+    it('should not hold background writes to the workflow', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('Release');
+
+      await taskStore.updateTask(task.id, { status: 'Shipped' }, { history: false });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'Shipped', completed: true });
+    });
+
+    it('should allow listed transitions and statuses without rules', async () => {
+      await taskStore.load();
+      const task = await taskStore.addTask('Release');
+
+      await taskStore.updateTask(task.id, { status: 'Doing' });
+      await taskStore.updateTask(task.id, { status: 'Shipped' });
+      expect(taskStore.getTaskById(task.id)).toMatchObject({ status: 'Shipped', completed: true });
+    });
+  });
+});
+
+describe('TaskStore recurring tasks', () => {
+  let taskStore: TaskStore;
+  let mockPlugin: any;
+
+  beforeEach(async () => {
+    mockPlugin = createMockPlugin();
+    taskStore = new TaskStore(mockPlugin);
+    await taskStore.load();
+  });
+
+  it('should create the next occurrence when a recurring task is completed', async () => {
+    const task = await taskStore.addTask('Weekly report');
+    await taskStore.updateTask(task.id, {
+      startDate: '2026-02-02',
+      dueDate: '2026-02-03',
+      recurrence: { frequency: 'weekly' },
+      subtasks: [{ id: 's1', title: 'Collect numbers', completed: true }],
+    });
+
+    await taskStore.updateTask(task.id, { status: 'Completed' });
+
+    const all = taskStore.getAll();
+    expect(all).toHaveLength(2);
+    const next = all[1];
+    expect(next.id).not.toBe(task.id);
+    expect(next.title).toBe('Weekly report');
+    expect(next.status).toBe('Not Started');
+    expect(next.startDate).toBe('2026-02-09');
+    expect(next.dueDate).toBe('2026-02-10');
+    expect(next.recurrence).toEqual({ frequency: 'weekly' });
+    expect(next.subtasks).toEqual([expect.objectContaining({ title: 'Collect numbers', completed: false })]);
+    expect(taskStore.getTaskById(task.id)!.recurrence).toBeUndefined();
+  });
+
+  it('should not create another occurrence when the series has ended', async () => {
+    const task = await taskStore.addTask('Last invoice');
+    await taskStore.updateTask(task.id, {
+      dueDate: '2026-03-31',
+      recurrence: { frequency: 'monthly', until: '2026-04-15' },
+    });
+
+    await taskStore.updateTask(task.id, { completed: true });
+
+    expect(taskStore.getAll()).toHaveLength(1);
+  });
+
+  it('should undo the completion and the generated occurrence together', async () => {
+    const task = await taskStore.addTask('Daily standup');
+    await taskStore.updateTask(task.id, { dueDate: '2026-02-02', recurrence: { frequency: 'daily' } });
+
+    await taskStore.updateTask(task.id, { status: 'Completed' });
+    await taskStore.undo();
+
+    expect(taskStore.getAll()).toHaveLength(1);
+    expect(taskStore.getTaskById(task.id)!.recurrence).toEqual({ frequency: 'daily' });
+  });
+});
+
+describe('TaskStore undo/redo', () => {
+  let taskStore: TaskStore;
+  let mockPlugin: any;
+
+  beforeEach(async () => {
+    mockPlugin = createMockPlugin();
+    taskStore = new TaskStore(mockPlugin);
+    await taskStore.load();
+  });
+
+  it('should undo and redo a task edit', async () => {
+    const task = await taskStore.addTask('Original');
+    await taskStore.updateTask(task.id, { title: 'Renamed' });
+
+    expect(await taskStore.undo()).toBe('Edit task');
+    expect(taskStore.getTaskById(task.id)!.title).toBe('Original');
+
+    expect(await taskStore.redo()).toBe('Edit task');
+    expect(taskStore.getTaskById(task.id)!.title).toBe('Renamed');
+  });
+
+  it('should restore a deleted task in its original position', async () => {
+    const a = await taskStore.addTask('A');
+    const b = await taskStore.addTask('B');
+    const c = await taskStore.addTask('C');
+
+    await taskStore.deleteTask(b.id);
+    await taskStore.undo();
+
+    expect(taskStore.getAll().map(t => t.id)).toEqual([a.id, b.id, c.id]);
+    expect(taskStore.getTaskById(b.id)).toBeDefined();
+  });
+
+  it('should record a dependency cascade as part of the same entry', async () => {
+    mockPlugin.settings.enableDependencyScheduling = true;
+    const pred = await taskStore.addTask('Predecessor');
+    const succ = await taskStore.addTask('Successor');
+    await taskStore.updateTask(pred.id, { startDate: '2026-01-01', dueDate: '2026-01-02' });
+    await taskStore.updateTask(succ.id, {
+      startDate: '2026-01-03',
+      dueDate: '2026-01-04',
+      dependencies: [{ predecessorId: pred.id, type: 'FS' }],
+    });
+
+    await taskStore.updateTask(pred.id, { dueDate: '2026-01-10' });
+    expect(taskStore.getTaskById(succ.id)!.startDate).toBe('2026-01-11');
+
+    await taskStore.undo();
+
+    expect(taskStore.getTaskById(pred.id)!.dueDate).toBe('2026-01-02');
+    expect(taskStore.getTaskById(succ.id)!.startDate).toBe('2026-01-03');
+  });
+
+  it('should group nested store calls in a transaction into one entry', async () => {
+    const listener = jest.fn();
+    taskStore.subscribe(listener);
+
+    await taskStore.transaction('Add task', async () => {
+      const task = await taskStore.addTask('New Task');
+      await taskStore.updateTask(task.id, { bucketId: 'bucket-1' });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(taskStore.getUndoLabel()).toBe('Add task');
+
+    await taskStore.undo();
+
+    expect(taskStore.getAll()).toHaveLength(0);
+    expect(taskStore.canUndo()).toBe(false);
+    expect(taskStore.canRedo()).toBe(true);
+  });
+
+  it('should restore the project board buckets', async () => {
+    const project = mockPlugin.settings.projects[0];
+    project.buckets = [{ id: 'b1', name: 'To Do' }, { id: 'b2', name: 'Done' }];
+
+    await taskStore.transaction('Delete bucket', async () => {
+      project.buckets = [{ id: 'b1', name: 'To Do' }];
+    });
+    await taskStore.undo();
+
+    expect(project.buckets.map((b: { id: string }) => b.id)).toEqual(['b1', 'b2']);
+  });
+
+  it('should clear the redo stack when a new action is recorded', async () => {
+    const task = await taskStore.addTask('Task');
+    await taskStore.updateTask(task.id, { title: 'Edited' });
+    await taskStore.undo();
+
+    await taskStore.updateTask(task.id, { priority: 'High' });
+
+    expect(taskStore.canRedo()).toBe(false);
+  });
+
+  it('should not record actions that change nothing', async () => {
+    const task = await taskStore.addTask('Task');
+    await taskStore.toggleCollapsed(task.id);
+    await taskStore.setOrder([task.id]);
+
+    expect(taskStore.getUndoLabel()).toBe('Add task');
+  });
+
+  it('should return null when there is nothing to undo or redo', async () => {
+    expect(await taskStore.undo()).toBeNull();
+    expect(await taskStore.redo()).toBeNull();
+  });
+
+  it('should keep background writes out of history', async () => {
+    const task = await taskStore.addTask('Task');
+    await taskStore.updateTask(task.id, { title: 'Edited' });
+    await taskStore.undo();
+
+    await taskStore.updateTask(task.id, { priority: 'High' }, { history: false });
+    await taskStore.addTaskFromObject({ id: 'synced', title: 'From note', completed: false, status: 'Not Started' }, { history: false });
+
+    expect(taskStore.getUndoLabel()).toBe('Add task');
+    expect(taskStore.canRedo()).toBe(true);
+    expect(taskStore.getTaskById(task.id)!.priority).toBe('High');
+  });
+
+  it('should not let a background write join an open transaction', async () => {
+    const task = await taskStore.addTask('Task');
+    const synced = await taskStore.addTask('Synced');
+    let background: Promise<void> | undefined;
+
+    await taskStore.transaction('Edit task', async () => {
+      await taskStore.updateTask(task.id, { title: 'Edited' });
+      background = taskStore.updateTask(synced.id, { title: 'From note' }, { history: false });
+      await Promise.resolve();
+      // Still waiting for this transaction to end
+      expect(taskStore.getTaskById(synced.id)!.title).toBe('Synced');
+    });
+    await background;
+
+    await taskStore.undo();
+    expect(taskStore.getTaskById(task.id)!.title).toBe('Task');
+    expect(taskStore.getTaskById(synced.id)!.title).toBe('From note');
+  });
+
+  it('should record changes to other projects', async () => {
+    mockPlugin.settings.projects.push({ id: 'other', name: 'Other' });
+    const other: PlannerTask = { id: 'o1', title: 'Elsewhere', completed: false, status: 'Not Started' };
+    await taskStore.addTaskToProject(other, 'other');
+
+    await taskStore.updateTask('o1', { title: 'Moved on' });
+    await taskStore.undo();
+
+    expect(taskStore.getAllForProject('other')[0].title).toBe('Elsewhere');
+  });
+});
+
+describe('TaskStore baselines', () => {
+  let taskStore: TaskStore;
+  let mockPlugin: any;
+
+  beforeEach(async () => {
+    mockPlugin = createMockPlugin();
+    taskStore = new TaskStore(mockPlugin);
+    await taskStore.load();
+  });
+
+  it('should snapshot tasks, persist the baseline and make it active', async () => {
+    const task = await taskStore.addTask('Design');
+    await taskStore.updateTask(task.id, { startDate: '2026-03-02', dueDate: '2026-03-06' });
+
+    const baseline = await taskStore.saveBaseline('Kickoff');
+
+    expect(baseline.tasks[task.id]).toEqual({ startDate: '2026-03-02', dueDate: '2026-03-06' });
+    expect(mockPlugin.settings.projects[0].activeBaselineId).toBe(baseline.id);
+    const saved = mockPlugin.saveData.mock.calls.at(-1)[0];
+    expect(saved.baselinesByProject['test-project']).toEqual([baseline]);
+  });
+
+  it('should keep the snapshot unchanged when tasks move', async () => {
+    const task = await taskStore.addTask('Build');
+    await taskStore.updateTask(task.id, { dueDate: '2026-03-06' });
+    const baseline = await taskStore.saveBaseline('Plan');
+
+    await taskStore.updateTask(task.id, { dueDate: '2026-03-10' });
+
+    expect(taskStore.getBaselines()[0].tasks[task.id].dueDate).toBe('2026-03-06');
+    expect(baseline.tasks[task.id].dueDate).toBe('2026-03-06');
+  });
+
+  it('should fall back to the latest remaining baseline on delete', async () => {
+    const first = await taskStore.saveBaseline('First');
+    const second = await taskStore.saveBaseline('Second');
+
+    await taskStore.deleteBaseline(second.id);
+
+    expect(taskStore.getBaselines().map(b => b.name)).toEqual(['First']);
+    expect(mockPlugin.settings.projects[0].activeBaselineId).toBe(first.id);
+  });
+});
+
+describe('TaskStore time tracking', () => {
+  let taskStore: TaskStore;
+  let mockPlugin: any;
+
+  beforeEach(async () => {
+    mockPlugin = createMockPlugin();
+    taskStore = new TaskStore(mockPlugin);
+    await taskStore.load();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const entry = (duration: number) => ({
+    id: `entry-${duration}`,
+    start: '2026-03-02T09:00:00.000Z',
+    end: '2026-03-02T10:00:00.000Z',
+    duration,
+  });
+
+  it('should add logged time to effort without completing the task', async () => {
+    const task = await taskStore.addTask('Write docs');
+    await taskStore.updateTask(task.id, { effortCompleted: 1, effortRemaining: 2 });
+
+    await taskStore.addTimeLogEntry(task.id, entry(2.5));
+
+    const updated = taskStore.getTaskById(task.id)!;
+    expect(updated.timeLog).toHaveLength(1);
+    expect(updated.effortCompleted).toBe(3.5);
+    expect(updated.effortRemaining).toBe(0);
+    expect(updated.completed).toBe(false);
+  });
+
+  it('should move deleted entries back from done to remaining effort', async () => {
+    const task = await taskStore.addTask('Write docs');
+    await taskStore.updateTask(task.id, { effortRemaining: 4 });
+    await taskStore.addTimeLogEntry(task.id, entry(1.5));
+
+    await taskStore.deleteTimeLogEntry(task.id, 'entry-1.5');
+
+    const updated = taskStore.getTaskById(task.id)!;
+    expect(updated.timeLog).toEqual([]);
+    expect(updated.effortCompleted).toBe(0);
+    expect(updated.effortRemaining).toBe(4);
+  });
+
+  it('should log the elapsed time when the timer stops', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    mockPlugin.settings.currentUserId = 'person-1';
+    const task = await taskStore.addTask('Write docs');
+
+    await taskStore.startTimer(task.id);
+    expect(taskStore.getRunningTimer()).toMatchObject({ taskId: task.id, projectId: 'test-project' });
+
+    jest.setSystemTime(new Date('2026-03-02T10:30:00Z'));
+    const logged = await taskStore.stopTimer();
+
+    expect(logged).toMatchObject({ duration: 1.5, personId: 'person-1' });
+    expect(taskStore.getRunningTimer()).toBeNull();
+    expect(taskStore.getTaskById(task.id)!.effortCompleted).toBe(1.5);
+  });
+
+  it('should stop the previous timer when starting another', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    const first = await taskStore.addTask('First');
+    const second = await taskStore.addTask('Second');
+
+    await taskStore.startTimer(first.id);
+    jest.setSystemTime(new Date('2026-03-02T09:45:00Z'));
+    await taskStore.startTimer(second.id);
+
+    expect(taskStore.getTaskById(first.id)!.timeLog).toEqual([expect.objectContaining({ duration: 0.75 })]);
+    expect(taskStore.getRunningTimer()!.taskId).toBe(second.id);
+    const saved = mockPlugin.saveData.mock.calls.at(-1)[0];
+    expect(saved.runningTimer.taskId).toBe(second.id);
+  });
 });
@@ -215,6 +215,7 @@ describe('ProjectPlannerSettingTab', () => {
             saveSettings: jest.fn().mockResolvedValue(undefined),
             taskStore: {
                 refresh: jest.fn(),
+                getBaselines: jest.fn().mockReturnValue([]),
             },
             initializeTaskSync: jest.fn(),
             initializeDailyNoteScanner: jest.fn(),
@@ -23,6 +23,9 @@ describe("DailyNoteTaskScanner", () => {
             addTaskToProject: jest.fn().mockResolvedValue(undefined),
             updateTask: jest.fn().mockResolvedValue(undefined),
             getAll: jest.fn().mockReturnValue([]),
+            getAllForProject: jest.fn().mockReturnValue([]),
+            getProjectIdForTask: jest.fn().mockReturnValue('default-project'),
+            subscribe: jest.fn().mockReturnValue(jest.fn()),
         };
 
         mockVault = {
@@ -30,6 +33,7 @@ describe("DailyNoteTaskScanner", () => {
             read: jest.fn(),
             getMarkdownFiles: jest.fn().mockReturnValue([]),
             on: jest.fn(),
+            modify: jest.fn().mockResolvedValue(undefined),
         };
 
         mockApp = {
@@ -196,6 +200,23 @@ describe("DailyNoteTaskScanner", () => {
             }
         });
 
+        it("should extract a recurrence rule from the repeat marker", async () => {
+            const line = "- [ ] Weekly report 🔁 every 2 weeks on Monday 📅 2026-02-09 #planner";
+            const result = await (scanner as any).parseTaskLine(line, mockFile, 5);
+
+            expect(result.task.title).toBe("Weekly report");
+            expect(result.task.dueDate).toBe("2026-02-09");
+            expect(result.task.recurrence).toEqual({ frequency: "weekly", interval: 2, byWeekday: [1] });
+        });
+
+        it("should leave an unrecognised repeat marker in the title", async () => {
+            const line = "- [ ] Odd task 🔁 every blue moon #planner";
+            const result = await (scanner as any).parseTaskLine(line, mockFile, 5);
+
+            expect(result.task.recurrence).toBeUndefined();
+            expect(result.task.title).toContain("🔁");
+        });
+
         it("should extract due date from various formats", async () => {
             const testCases = [
                 "- [ ] Task 📅 2026-03-15 #planner",
@@ -219,6 +240,16 @@ describe("DailyNoteTaskScanner", () => {
             expect(result.task.tags?.length).toBe(2);
         });
 
+        it("should resolve tags against the target project's own tags", async () => {
+            mockPlugin.settings.projects[1].tags = [
+                { id: 'tag-client', name: 'client', color: '#0000ff' },
+            ];
+            const line = "- [ ] Task #client #urgent #planner/Work-Project";
+            const result = await (scanner as any).parseTaskLine(line, mockFile, 5);
+
+            expect(result.task.tags).toEqual(['tag-client']);
+        });
+
         it("should ignore tags not in settings", async () => {
             const line = "- [ ] Task #unknown-tag #planner";
             const result = await (scanner as any).parseTaskLine(line, mockFile, 5);
@@ -282,6 +313,21 @@ describe("DailyNoteTaskScanner", () => {
             expect(result.task.dueDate).toBe("2026-05-01");
         });
 
+        it("should parse Obsidian Tasks emoji fields", async () => {
+            const line = "- [ ] Ship release ⏫ 🆔 rel1 ⛔ qa1 ➕ 2026-01-20 🛫 2026-02-01 📅 2026-02-06 #planner";
+            const result = await (scanner as any).parseTaskLine(line, mockFile, 5);
+
+            expect(result.task).toMatchObject({
+                title: "Ship release",
+                priority: "High",
+                createdDate: "2026-01-20",
+                startDate: "2026-02-01",
+                dueDate: "2026-02-06",
+            });
+            expect(result.tasksId).toBe("rel1");
+            expect(result.dependsOn).toEqual(["qa1"]);
+        });
+
         it("should return null for non-task line", async () => {
             const line = "Regular text #planner";
             const result = await (scanner as any).parseTaskLine(line, mockFile, 5);
@@ -337,7 +383,8 @@ describe("DailyNoteTaskScanner", () => {
             expect(mockTaskStore.addTaskToProject).toHaveBeenCalledTimes(2);
             expect(mockTaskStore.addTaskToProject).toHaveBeenCalledWith(
                 expect.objectContaining({ title: "New task" }),
-                'default-project'
+                'default-project',
+                { history: false }
             );
         });
 
@@ -361,7 +408,8 @@ describe("DailyNoteTaskScanner", () => {
 
             expect(mockTaskStore.addTaskToProject).toHaveBeenCalledWith(
                 expect.objectContaining({ title: "Work task" }),
-                'work-project'
+                'work-project',
+                { history: false }
             );
         });
 
@@ -561,6 +609,138 @@ describe("DailyNoteTaskScanner", () => {
         });
     });
 
+    describe("write-back", () => {
+        let mockFile: any;
+        let storeTask: any;
+        let noteContent: string;
+
+        beforeEach(() => {
+            mockFile = Object.create(TFile.prototype);
+            mockFile.path = "Daily Notes/2026-02-04.md";
+            mockFile.basename = "2026-02-04";
+            mockFile.extension = "md";
+            mockPlugin.settings.enableDailyNoteSync = true;
+
+            // A store that keeps the imported task, and a vault that keeps the note
+            storeTask = null;
+            mockTaskStore.addTaskToProject.mockImplementation(async (task: any) => { storeTask = { ...task }; });
+            mockTaskStore.getTaskById.mockImplementation((id: string) => (storeTask?.id === id ? storeTask : undefined));
+            mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
+            mockVault.read.mockImplementation(async () => noteContent);
+            mockVault.modify.mockImplementation(async (_file: any, content: string) => { noteContent = content; });
+        });
+
+        it("should write store changes back to the source line", async () => {
+            noteContent = "# Today\n- [ ] Buy milk !! #planner";
+            await scanner.scanFile(mockFile);
+
+            Object.assign(storeTask, { completed: true, priority: "Critical", dueDate: "2026-02-10" });
+            await scanner.writeBackChanges();
+
+            expect(noteContent).toBe("# Today\n- [x] Buy milk !!! #planner 📅 2026-02-10");
+        });
+
+        it("should find a line that moved by its title", async () => {
+            noteContent = "- [ ] Buy milk #planner";
+            await scanner.scanFile(mockFile);
+
+            noteContent = "# Today\n\n- [ ] Buy milk #planner";
+            storeTask.title = "Buy oat milk";
+            await scanner.writeBackChanges();
+
+            expect(noteContent).toBe("# Today\n\n- [ ] Buy oat milk #planner");
+            expect(mockPlugin.settings.dailyNoteTaskLocations).toEqual({
+                "Daily Notes/2026-02-04.md:2": storeTask.id,
+            });
+        });
+
+        it("should not re-import its own write", async () => {
+            noteContent = "- [ ] Buy milk #planner";
+            await scanner.scanFile(mockFile);
+
+            storeTask.completed = true;
+            await scanner.writeBackChanges();
+            mockTaskStore.updateTask.mockClear();
+            await scanner.scanFile(mockFile);
+
+            expect(mockTaskStore.updateTask).not.toHaveBeenCalled();
+        });
+
+        it("should leave notes alone when nothing changed or sync is off", async () => {
+            noteContent = "- [ ] Buy milk #planner";
+            await scanner.scanFile(mockFile);
+            await scanner.writeBackChanges();
+            expect(mockVault.modify).not.toHaveBeenCalled();
+
+            mockPlugin.settings.enableDailyNoteSync = false;
+            storeTask.completed = true;
+            await scanner.writeBackChanges();
+            expect(mockVault.modify).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Tasks dependencies", () => {
+        let storeTasks: any[];
+
+        beforeEach(() => {
+            storeTasks = [];
+            mockTaskStore.addTaskToProject.mockImplementation(async (task: any) => { storeTasks.push({ ...task }); });
+            mockTaskStore.getTaskById.mockImplementation((id: string) => storeTasks.find(t => t.id === id));
+            mockTaskStore.updateTask.mockImplementation(async (id: string, updates: any) => {
+                Object.assign(storeTasks.find(t => t.id === id), updates);
+            });
+            mockTaskStore.getAllForProject.mockImplementation(() => storeTasks);
+        });
+
+        const scan = async (path: string, content: string) => {
+            const file = Object.create(TFile.prototype);
+            file.path = path;
+            file.basename = path.replace(/\.md$/, "");
+            file.extension = "md";
+            mockVault.read.mockResolvedValue(content);
+            await scanner.scanFile(file);
+        };
+
+        it("should link ⛔ to the task with that 🆔, across files and scans", async () => {
+            await scan("a.md", "- [ ] Ship release ⛔ qa1,docs1 #planner");
+            await scan("b.md", "- [ ] Run QA 🆔 qa1 #planner");
+
+            const [release, qa] = storeTasks;
+            expect(release.dependencies).toEqual([{ predecessorId: qa.id, type: "FS" }]);
+
+            await scan("c.md", "- [ ] Write docs 🆔 docs1 #planner");
+            expect(release.dependencies).toEqual([
+                { predecessorId: qa.id, type: "FS" },
+                { predecessorId: storeTasks[2].id, type: "FS" },
+            ]);
+        });
+
+        it("should not link lines that ⛔ each other", async () => {
+            await scan("a.md", "- [ ] Run QA 🆔 qa1 ⛔ rel1 #planner\n- [ ] Ship release 🆔 rel1 ⛔ qa1 #planner");
+
+            const [qa, release] = storeTasks;
+            expect(qa.dependencies).toEqual([{ predecessorId: release.id, type: "FS" }]);
+            expect(release.dependencies).toBeUndefined();
+        });
+
+        it("should remove links whose ⛔ was taken off the line", async () => {
+            await scan("b.md", "- [ ] Run QA 🆔 qa1 #planner\n- [ ] Write docs 🆔 docs1 #planner");
+            await scan("a.md", "- [ ] Ship release ⛔ qa1,docs1 #planner");
+            const [qa, docs, release] = storeTasks;
+            release.dependencies.push({ predecessorId: "manual", type: "SS" });
+
+            await scan("a.md", "- [ ] Ship release ⛔ docs1 #planner");
+            expect(release.dependencies).toEqual([
+                { predecessorId: docs.id, type: "FS" },
+                { predecessorId: "manual", type: "SS" },
+            ]);
+
+            await scan("a.md", "- [ ] Ship release #planner");
+            expect(release.dependencies).toEqual([{ predecessorId: "manual", type: "SS" }]);
+            expect(qa.dependencies).toBeUndefined();
+        });
+    });
+
     describe("quickScan", () => {
         it("should show notice and perform scan", async () => {
             mockVault.getMarkdownFiles.mockReturnValue([]);
@@ -136,6 +136,34 @@ describe("TaskSync", () => {
             expect(markdown).toContain("collapsed: false");
         });
 
+        it("should write assignees as a YAML list", () => {
+            const task: PlannerTask = {
+                id: "task-3",
+                title: "Shared Task",
+                status: "Not Started",
+                completed: false,
+                assignees: ["person-1", "person-2"],
+            };
+
+            const markdown = taskSync.taskToMarkdown(task, "Test Project");
+
+            expect(markdown).toContain("assignees:\n  - person-1\n  - person-2\n");
+        });
+
+        it("should omit assignees when empty", () => {
+            const task: PlannerTask = {
+                id: "task-4",
+                title: "Solo Task",
+                status: "Not Started",
+                completed: false,
+                assignees: [],
+            };
+
+            const markdown = taskSync.taskToMarkdown(task, "Test Project");
+
+            expect(markdown).not.toContain("assignees:");
+        });
+
         it("should include description in markdown body", () => {
             const task: PlannerTask = {
                 id: "task-3",
@@ -199,6 +227,92 @@ describe("TaskSync", () => {
             expect(markdown).toContain("  - SS:pred-2");
         });
 
+        it("should encode dependency lag in the type code", () => {
+            const task: PlannerTask = {
+                id: "task-6",
+                title: "Task with Lag",
+                status: "Not Started",
+                completed: false,
+                dependencies: [
+                    { type: "FS", predecessorId: "pred-1", lag: 2 },
+                    { type: "SS", predecessorId: "pred-2", lag: -1 },
+                    { type: "FF", predecessorId: "pred-3", lag: 0 },
+                ],
+            };
+
+            (mockPlugin.taskStore.getTaskById as jest.Mock).mockImplementation((id: string) => {
+                if (id === "pred-1") return { id: "pred-1", title: "Predecessor 1" } as PlannerTask;
+                return null;
+            });
+
+            const markdown = taskSync.taskToMarkdown(task, "Test Project");
+
+            expect(markdown).toContain("  - FS+2d:pred-1");
+            expect(markdown).toContain("  - SS-1d:pred-2");
+            expect(markdown).toContain("  - FF:pred-3");
+            expect(markdown).toContain("- FS+2d: [[Predecessor 1]]");
+        });
+
+        it("should write the recurrence rule as an RRULE string", () => {
+            const task: PlannerTask = {
+                id: "task-7",
+                title: "Weekly Report",
+                status: "Not Started",
+                completed: false,
+                recurrence: { frequency: "weekly", interval: 2, byWeekday: [1, 5], count: 3 },
+            };
+
+            const markdown = taskSync.taskToMarkdown(task, "Test Project");
+
+            expect(markdown).toContain("recurrence: FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=3");
+        });
+
+        it("should write milestone: true for milestones", () => {
+            const task: PlannerTask = {
+                id: "task-8",
+                title: "Go live",
+                status: "Not Started",
+                completed: false,
+                startDate: "2026-05-01",
+                dueDate: "2026-05-01",
+                milestone: true,
+            };
+
+            const markdown = taskSync.taskToMarkdown(task, "Test Project");
+
+            expect(markdown).toContain("milestone: true");
+        });
+
+        it("should write custom field values under their names", () => {
+            mockPlugin.settings.projects[0].customFields = [
+                { id: "f-customer", name: "Customer", type: "text" },
+                { id: "f-points", name: "Story points", type: "number" },
+                { id: "f-envs", name: "Environment", type: "multiselect", options: ["Staging", "Prod"] },
+                { id: "f-link", name: "Ticket", type: "url" },
+            ];
+            const task: PlannerTask = {
+                id: "task-9",
+                title: "Custom",
+                status: "Not Started",
+                completed: false,
+                customFields: {
+                    "f-customer": "Acme: EU",
+                    "f-points": 5,
+                    "f-envs": ["Staging", "Prod"],
+                    "f-link": "https://example.com/T-1",
+                    "f-deleted": "orphan",
+                },
+            };
+
+            const markdown = taskSync.taskToMarkdown(task, "Test Project");
+
+            expect(markdown).toContain('Customer: "Acme: EU"');
+            expect(markdown).toContain("Story points: 5");
+            expect(markdown).toContain("Environment:\n  - Staging\n  - Prod");
+            expect(markdown).toContain('Ticket: "https://example.com/T-1"');
+            expect(markdown).not.toContain("orphan");
+        });
+
         it("should format links (obsidian and external)", () => {
             const task: PlannerTask = {
                 id: "task-6",
@@ -379,6 +493,128 @@ Task description here.
             expect(task?.dependencies?.[0]).toEqual({ type: "FS", predecessorId: "dep-1" });
             expect(task?.dependencies?.[1]).toEqual({ type: "SS", predecessorId: "dep-2" });
         });
+        it("should parse dependency lag and still accept the legacy format", async () => {
+            const mockFile = { path: "Test.md" } as TFile;
+
+            mockMetadataCache.getFileCache.mockReturnValue({
+                frontmatter: {
+                    id: "task-1",
+                    title: "Test",
+                    dependencies: ["FS+2d:dep-1", "SS-1d:dep-2", "FF:dep-3"],
+                },
+            });
+
+            mockVault.read.mockResolvedValue("---\nid: task-1\n---");
+
+            const task = await taskSync.markdownToTask(mockFile, "project-1");
+
+            expect(task?.dependencies).toEqual([
+                { type: "FS", predecessorId: "dep-1", lag: 2 },
+                { type: "SS", predecessorId: "dep-2", lag: -1 },
+                { type: "FF", predecessorId: "dep-3" },
+            ]);
+        });
+
+        it("should parse the recurrence rule from frontmatter", async () => {
+            const mockFile = { path: "Test.md" } as TFile;
+
+            mockMetadataCache.getFileCache.mockReturnValue({
+                frontmatter: {
+                    id: "task-1",
+                    title: "Test",
+                    recurrence: "FREQ=MONTHLY;UNTIL=20261231",
+                },
+            });
+
+            mockVault.read.mockResolvedValue("---\nid: task-1\n---");
+
+            const task = await taskSync.markdownToTask(mockFile, "project-1");
+
+            expect(task?.recurrence).toEqual({ frequency: "monthly", until: "2026-12-31" });
+        });
+
+        it("should parse the milestone flag from frontmatter", async () => {
+            const mockFile = { path: "Test.md" } as TFile;
+
+            mockMetadataCache.getFileCache.mockReturnValue({
+                frontmatter: { id: "task-1", title: "Test", dueDate: "2026-05-01", milestone: true },
+            });
+
+            mockVault.read.mockResolvedValue("---\nid: task-1\n---");
+
+            const task = await taskSync.markdownToTask(mockFile, "project-1");
+
+            expect(task?.milestone).toBe(true);
+        });
+
+        it("should parse custom field values from frontmatter by field name", async () => {
+            mockPlugin.settings.projects[0].customFields = [
+                { id: "f-points", name: "Story points", type: "number" },
+                { id: "f-envs", name: "Environment", type: "multiselect" },
+                { id: "f-signed", name: "Signed off", type: "checkbox" },
+                { id: "f-review", name: "Review", type: "date" },
+            ];
+            const mockFile = { path: "Test.md" } as TFile;
+
+            mockMetadataCache.getFileCache.mockReturnValue({
+                frontmatter: {
+                    id: "task-1",
+                    title: "Test",
+                    "Story points": "8",
+                    Environment: "Staging",
+                    "Signed off": false,
+                    Review: "2026-04-01",
+                },
+            });
+
+            mockVault.read.mockResolvedValue("---\nid: task-1\n---");
+
+            const task = await taskSync.markdownToTask(mockFile, "project-1");
+
+            expect(task?.customFields).toEqual({
+                "f-points": 8,
+                "f-envs": ["Staging"],
+                "f-review": "2026-04-01",
+            });
+        });
+
+        it("should parse assignees from frontmatter", async () => {
+            const mockFile = { path: "Test.md" } as TFile;
+
+            mockMetadataCache.getFileCache.mockReturnValue({
+                frontmatter: {
+                    id: "task-1",
+                    title: "Test",
+                    status: "Not Started",
+                    completed: false,
+                    assignees: ["person-1", "person-2"],
+                },
+            });
+
+            mockVault.read.mockResolvedValue("---\nid: task-1\n---");
+
+            const task = await taskSync.markdownToTask(mockFile, "project-1");
+
+            expect(task?.assignees).toEqual(["person-1", "person-2"]);
+        });
+
+        it("should wrap a single scalar assignee in an array", async () => {
+            const mockFile = { path: "Test.md" } as TFile;
+
+            mockMetadataCache.getFileCache.mockReturnValue({
+                frontmatter: {
+                    id: "task-1",
+                    title: "Test",
+                    assignees: "person-1",
+                },
+            });
+
+            mockVault.read.mockResolvedValue("---\nid: task-1\n---");
+
+            const task = await taskSync.markdownToTask(mockFile, "project-1");
+
+            expect(task?.assignees).toEqual(["person-1"]);
+        });
     });
 
     describe("getTaskFilePath", () => {
@@ -608,7 +844,8 @@ Description here.
                 expect.objectContaining({
                     id: "task-1",
                     title: "Updated from Markdown",
-                })
+                }),
+                { history: false }
             );
         });
 
@@ -638,7 +875,8 @@ title: New Task
                 expect.objectContaining({
                     id: "new-task-1",
                     title: "New Task",
-                })
+                }),
+                { history: false }
             );
         });
 
@@ -0,0 +1,99 @@
+import {
+    createBaseline,
+    formatVariance,
+    getActiveBaseline,
+    getScheduleVariance,
+    getSlippedTasks,
+} from "../../src/utils/baselineUtils";
+import { PlannerTask, ProjectBaseline, WorkingCalendar } from "../../src/types";
+
+const task = (overrides: Partial<PlannerTask> = {}): PlannerTask => ({
+    id: "task-1",
+    title: "Build",
+    status: "In Progress",
+    completed: false,
+    startDate: "2026-03-02", // Monday
+    dueDate: "2026-03-06", // Friday
+    ...overrides,
+});
+
+const baseline = (tasks: ProjectBaseline["tasks"]): ProjectBaseline => ({
+    id: "b1",
+    name: "Kickoff",
+    createdDate: "2026-02-20T09:00:00.000Z",
+    tasks,
+});
+
+describe("baselineUtils", () => {
+    describe("createBaseline", () => {
+        it("should snapshot dates, effort and estimated cost", () => {
+            const result = createBaseline(
+                "Kickoff",
+                [
+                    task({ effortCompleted: 2, effortRemaining: 6, costType: "hourly" }),
+                    task({ id: "task-2", startDate: undefined, dueDate: undefined }),
+                ],
+                { id: "p1", name: "Launch", defaultHourlyRate: 50 }
+            );
+
+            expect(result.name).toBe("Kickoff");
+            expect(result.tasks["task-1"]).toEqual({
+                startDate: "2026-03-02",
+                dueDate: "2026-03-06",
+                effortCompleted: 2,
+                effortRemaining: 6,
+                cost: 400,
+            });
+            expect(result.tasks["task-2"]).toEqual({});
+        });
+
+        it("should only return the active baseline when it still exists", () => {
+            const b = baseline({});
+            expect(getActiveBaseline({ activeBaselineId: "b1" }, [b])).toBe(b);
+            expect(getActiveBaseline({ activeBaselineId: "gone" }, [b])).toBeUndefined();
+            expect(getActiveBaseline({}, [b])).toBeUndefined();
+        });
+    });
+
+    describe("getScheduleVariance", () => {
+        const planned = baseline({ "task-1": { startDate: "2026-03-02", dueDate: "2026-03-06" } });
+
+        it("should count calendar days when no calendar is given", () => {
+            const variance = getScheduleVariance(task({ startDate: "2026-03-01", dueDate: "2026-03-09" }), planned);
+            expect(variance).toEqual({ start: -1, finish: 3 });
+        });
+
+        it("should count working days with a calendar", () => {
+            const calendar: WorkingCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: [] };
+            const variance = getScheduleVariance(task({ dueDate: "2026-03-09" }), planned, calendar);
+            expect(variance).toEqual({ start: 0, finish: 1 });
+        });
+
+        it("should return null for tasks added after the baseline", () => {
+            expect(getScheduleVariance(task({ id: "new" }), planned)).toBeNull();
+            expect(getScheduleVariance(task({ dueDate: undefined }), planned)).toEqual({ start: 0, finish: null });
+        });
+    });
+
+    describe("getSlippedTasks / formatVariance", () => {
+        it("should list tasks finishing later than planned", () => {
+            const planned = baseline({
+                late: { dueDate: "2026-03-06" },
+                early: { dueDate: "2026-03-06" },
+            });
+            const tasks = [
+                task({ id: "late", dueDate: "2026-03-10" }),
+                task({ id: "early", dueDate: "2026-03-05" }),
+                task({ id: "new", dueDate: "2026-04-01" }),
+            ];
+
+            expect(getSlippedTasks(tasks, planned).map((t) => t.id)).toEqual(["late"]);
+        });
+
+        it("should sign the variance", () => {
+            expect(formatVariance(3)).toBe("+3d");
+            expect(formatVariance(-2)).toBe("-2d");
+            expect(formatVariance(0)).toBe("0d");
+        });
+    });
+});
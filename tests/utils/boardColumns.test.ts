@@ -0,0 +1,70 @@
+import { getBoardColumns, getDueBand, getTaskColumnKey, moveTaskToColumn, type BoardColumnContext } from "../../src/utils/boardColumns";
+import type { PlannerTask } from "../../src/types";
+
+// Wednesday; the week runs Monday 2026-03-02 to Sunday 2026-03-08
+const ctx: BoardColumnContext = {
+    statuses: [
+        { id: "todo", name: "To Do", color: "#888888", category: "not-started" },
+        { id: "doing", name: "Doing", color: "#0a84ff", category: "active" },
+        { id: "shipped", name: "Shipped", color: "#2f9e44", category: "done" },
+    ],
+    priorities: [
+        { id: "p1", name: "High", color: "#ff0000" },
+        { id: "p2", name: "Low", color: "#00ff00" },
+    ],
+    today: "2026-03-04",
+};
+
+const task = (fields: Partial<PlannerTask> = {}): PlannerTask => ({
+    id: "t",
+    title: "Task",
+    status: "To Do",
+    completed: false,
+    ...fields,
+});
+
+describe("boardColumns", () => {
+    describe("due-date bands", () => {
+        it("should band dates around today and the end of the week", () => {
+            expect(getDueBand("2026-03-03", ctx.today)).toBe("overdue");
+            expect(getDueBand("2026-03-04", ctx.today)).toBe("today");
+            expect(getDueBand("2026-03-08", ctx.today)).toBe("this-week");
+            expect(getDueBand("2026-03-09", ctx.today)).toBe("later");
+            expect(getDueBand(undefined, ctx.today)).toBe("none");
+        });
+
+        it("should set the earliest date of the band a task is moved into", () => {
+            expect(moveTaskToColumn("due", "today", ctx)).toEqual({ dueDate: "2026-03-04" });
+            expect(moveTaskToColumn("due", "this-week", ctx)).toEqual({ dueDate: "2026-03-08" });
+            expect(moveTaskToColumn("due", "later", ctx)).toEqual({ dueDate: "2026-03-09" });
+            expect(moveTaskToColumn("due", "none", ctx)).toEqual({ dueDate: undefined });
+            expect(moveTaskToColumn("due", "overdue", ctx)).toBeNull();
+        });
+
+        it("should lock This week on its last day", () => {
+            const sunday = { ...ctx, today: "2026-03-08" };
+            expect(getBoardColumns("due", sunday).find((c) => c.key === "this-week")?.locked).toBe(true);
+            expect(getBoardColumns("due", ctx).find((c) => c.key === "this-week")?.locked).toBeUndefined();
+            expect(moveTaskToColumn("due", "this-week", sunday)).toBeNull();
+        });
+    });
+
+    describe("status and priority", () => {
+        it("should use the project's lists as columns", () => {
+            expect(getBoardColumns("status", ctx).map((c) => c.key)).toEqual(["To Do", "Doing", "Shipped"]);
+            expect(getBoardColumns("priority", ctx).map((c) => c.label)).toEqual(["High", "Low", "No priority"]);
+        });
+
+        it("should place unknown values in a fallback column", () => {
+            expect(getTaskColumnKey("status", task({ status: "Completed" }), ctx)).toBe("Shipped");
+            expect(getTaskColumnKey("status", task({ status: "Doing" }), ctx)).toBe("Doing");
+            expect(getTaskColumnKey("priority", task({ priority: "Medium" }), ctx)).toBe("");
+        });
+
+        it("should set the field when moved", () => {
+            expect(moveTaskToColumn("status", "Doing", ctx)).toEqual({ status: "Doing" });
+            expect(moveTaskToColumn("status", "Archived", ctx)).toBeNull();
+            expect(moveTaskToColumn("priority", "", ctx)).toEqual({ priority: undefined });
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import {
+    getCalendarSpans,
+    getDroppedTaskDates,
+    getMonthWeeks,
+    layoutWeek,
+} from "../../src/utils/calendarLayout";
+import type { PlannerTask } from "../../src/types";
+
+const task = (id: string, fields: Partial<PlannerTask> = {}): PlannerTask => ({
+    id,
+    title: id,
+    status: "Not Started",
+    completed: false,
+    ...fields,
+});
+
+describe("calendarLayout", () => {
+    describe("getMonthWeeks", () => {
+        it("should cover the month in Monday-first weeks", () => {
+            // February 2026 starts on a Sunday and ends on a Saturday
+            const weeks = getMonthWeeks(2026, 1);
+            expect(weeks).toHaveLength(5);
+            expect(weeks[0][0]).toBe("2026-01-26");
+            expect(weeks[4][6]).toBe("2026-03-01");
+        });
+    });
+
+    describe("layoutWeek", () => {
+        it("should split a task spanning a month boundary across week rows", () => {
+            const spans = getCalendarSpans([task("close", { startDate: "2026-01-29", dueDate: "2026-02-03" })]);
+            const [, , , , lastJanWeek] = getMonthWeeks(2026, 0);
+            const [firstFebWeek, secondFebWeek] = getMonthWeeks(2026, 1);
+
+            // Jan 26 – Feb 1 and Feb 2 – Feb 8 (February's first row repeats January's last)
+            expect(lastJanWeek).toEqual(firstFebWeek);
+            expect(layoutWeek(firstFebWeek, spans)).toMatchObject([{ startCol: 3, endCol: 6, lane: 0 }]);
+            expect(layoutWeek(secondFebWeek, spans)).toMatchObject([{ startCol: 0, endCol: 1, lane: 0 }]);
+        });
+
+        it("should stack overlapping spans into lanes, longer spans first", () => {
+            const week = getMonthWeeks(2026, 2)[1]; // Mar 2 – Mar 8
+            const spans = getCalendarSpans([
+                task("short", { dueDate: "2026-03-03" }),
+                task("long", { startDate: "2026-03-03", dueDate: "2026-03-05" }),
+                task("later", { startDate: "2026-03-06", dueDate: "2026-03-07" }),
+            ]);
+
+            expect(layoutWeek(week, spans).map((s) => [s.span.task.id, s.lane])).toEqual([
+                ["long", 0],
+                ["short", 1],
+                ["later", 0],
+            ]);
+        });
+    });
+
+    describe("getDroppedTaskDates", () => {
+        it("should shift start and due together when a spanning task is dropped on a later day", () => {
+            const spanning = task("a", { startDate: "2026-03-02", dueDate: "2026-03-04" });
+
+            expect(getDroppedTaskDates(spanning, "2026-03-10")).toEqual({ startDate: "2026-03-10", dueDate: "2026-03-12" });
+            // Grabbed by its last day: that day lands on the drop date
+            expect(getDroppedTaskDates(spanning, "2026-03-10", 2)).toEqual({ startDate: "2026-03-08", dueDate: "2026-03-10" });
+        });
+
+        it("should move only the due date of a task without a start date", () => {
+            expect(getDroppedTaskDates(task("a", { dueDate: "2026-03-31" }), "2026-04-02")).toEqual({ dueDate: "2026-04-02" });
+        });
+
+        it("should leave undated and unmoved tasks alone", () => {
+            expect(getDroppedTaskDates(task("a"), "2026-03-10")).toBeNull();
+            expect(getDroppedTaskDates(task("a", { dueDate: "2026-03-10" }), "2026-03-10")).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { computeCriticalPath, criticalLinkKey } from "../../src/utils/criticalPath";
+import { PlannerTask } from "../../src/types";
+
+const task = (id: string, startDate?: string, dueDate?: string, deps: PlannerTask["dependencies"] = []): PlannerTask => ({
+    id,
+    title: id,
+    status: "Not Started",
+    completed: false,
+    startDate,
+    dueDate,
+    dependencies: deps,
+});
+
+describe("computeCriticalPath", () => {
+    it("should return an empty result when no task has dates", () => {
+        const result = computeCriticalPath([task("a"), task("b")]);
+
+        expect(result.tasks.size).toBe(0);
+        expect(result.criticalTaskIds.size).toBe(0);
+        expect(result.projectFinish).toBeUndefined();
+    });
+
+    it("should mark the longest FS chain as critical and give parallel work float", () => {
+        // A (Jan 1–3) → B (Jan 4–8) is the long chain; C (Jan 4–5) also follows A
+        const tasks = [
+            task("A", "2026-01-01", "2026-01-03"),
+            task("B", "2026-01-04", "2026-01-08", [{ predecessorId: "A", type: "FS" }]),
+            task("C", "2026-01-04", "2026-01-05", [{ predecessorId: "A", type: "FS" }]),
+        ];
+
+        const result = computeCriticalPath(tasks);
+
+        expect(result.projectStart).toBe("2026-01-01");
+        expect(result.projectFinish).toBe("2026-01-08");
+        expect([...result.criticalTaskIds].sort()).toEqual(["A", "B"]);
+
+        const c = result.tasks.get("C")!;
+        expect(c.totalFloat).toBe(3);
+        expect(c.freeFloat).toBe(3);
+        expect(c.lateStart).toBe("2026-01-07");
+        expect(c.lateFinish).toBe("2026-01-08");
+
+        expect(result.criticalLinks.has(criticalLinkKey("A", "B"))).toBe(true);
+        expect(result.criticalLinks.has(criticalLinkKey("A", "C"))).toBe(false);
+    });
+
+    it("should push early dates forward when a predecessor overlaps its successor", () => {
+        const tasks = [
+            task("A", "2026-01-01", "2026-01-05"),
+            task("B", "2026-01-03", "2026-01-04", [{ predecessorId: "A", type: "FS" }]),
+        ];
+
+        const info = computeCriticalPath(tasks).tasks.get("B")!;
+
+        expect(info.earlyStart).toBe("2026-01-06");
+        expect(info.earlyFinish).toBe("2026-01-07");
+    });
+
+    it("should separate free float from total float", () => {
+        // A → B → D and C → D; C has free float into D, B has none
+        const tasks = [
+            task("A", "2026-01-01", "2026-01-02"),
+            task("B", "2026-01-03", "2026-01-06", [{ predecessorId: "A", type: "FS" }]),
+            task("C", "2026-01-01", "2026-01-01"),
+            task("D", "2026-01-07", "2026-01-07", [
+                { predecessorId: "B", type: "FS" },
+                { predecessorId: "C", type: "FS" },
+            ]),
+            task("E", "2026-01-01", "2026-01-03"),
+            task("F", "2026-01-04", "2026-01-04", [{ predecessorId: "E", type: "FS" }]),
+        ];
+
+        const result = computeCriticalPath(tasks);
+
+        expect(result.tasks.get("C")!.freeFloat).toBe(5);
+        expect(result.tasks.get("C")!.totalFloat).toBe(5);
+        // E drives F directly (no free float) but the E→F chain can slip 3 days
+        expect(result.tasks.get("E")!.freeFloat).toBe(0);
+        expect(result.tasks.get("E")!.totalFloat).toBe(3);
+        expect([...result.criticalTaskIds].sort()).toEqual(["A", "B", "D"]);
+    });
+
+    it("should honour SS, FF and SF link semantics", () => {
+        const tasks = [
+            task("P", "2026-02-10", "2026-02-12"),
+            task("SS", "2026-02-01", "2026-02-02", [{ predecessorId: "P", type: "SS" }]),
+            task("FF", "2026-02-01", "2026-02-02", [{ predecessorId: "P", type: "FF" }]),
+            task("SF", "2026-02-01", "2026-02-02", [{ predecessorId: "P", type: "SF" }]),
+        ];
+
+        const result = computeCriticalPath(tasks);
+
+        expect(result.tasks.get("SS")!.earlyStart).toBe("2026-02-10");
+        expect(result.tasks.get("FF")!.earlyFinish).toBe("2026-02-12");
+        expect(result.tasks.get("SF")!.earlyFinish).toBe("2026-02-10");
+    });
+
+    it("should apply dependency lag in both passes", () => {
+        const tasks = [
+            task("A", "2026-01-01", "2026-01-02"),
+            task("B", "2026-01-01", "2026-01-01", [{ predecessorId: "A", type: "FS", lag: 2 }]),
+        ];
+
+        const result = computeCriticalPath(tasks);
+
+        expect(result.tasks.get("B")!.earlyStart).toBe("2026-01-05");
+        expect(result.tasks.get("A")!.lateFinish).toBe("2026-01-02");
+        expect([...result.criticalTaskIds].sort()).toEqual(["A", "B"]);
+    });
+
+    it("should measure float in working days with a calendar", () => {
+        // A ends Friday Jan 2; B (Mon Jan 5) follows it; C finishes Mon Jan 5 too
+        const calendar = { workingDays: [1, 2, 3, 4, 5], holidays: [] };
+        const tasks = [
+            task("A", "2026-01-01", "2026-01-02"),
+            task("B", "2026-01-05", "2026-01-05", [{ predecessorId: "A", type: "FS" }]),
+            task("C", "2026-01-01", "2026-01-01"),
+        ];
+
+        const result = computeCriticalPath(tasks, calendar);
+
+        expect([...result.criticalTaskIds].sort()).toEqual(["A", "B"]);
+        expect(result.tasks.get("C")!.totalFloat).toBe(2);
+        expect(result.tasks.get("C")!.lateFinish).toBe("2026-01-05");
+    });
+
+    it("should ignore dependencies on unknown tasks and leave cycles out", () => {
+        const tasks = [
+            task("A", "2026-01-01", "2026-01-02", [{ predecessorId: "missing", type: "FS" }]),
+            task("X", "2026-01-01", "2026-01-02", [{ predecessorId: "Y", type: "FS" }]),
+            task("Y", "2026-01-03", "2026-01-04", [{ predecessorId: "X", type: "FS" }]),
+        ];
+
+        const result = computeCriticalPath(tasks);
+
+        expect(result.tasks.has("A")).toBe(true);
+        expect(result.tasks.has("X")).toBe(false);
+        expect(result.tasks.has("Y")).toBe(false);
+    });
+});
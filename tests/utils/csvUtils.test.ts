@@ -0,0 +1,219 @@
+import {
+    CsvImportContext,
+    detectDelimiter,
+    exportTasksToCsv,
+    guessColumnMapping,
+    importTasksFromCsv,
+    parseCsv,
+    toCsv,
+} from "../../src/utils/csvUtils";
+import { DEFAULT_SETTINGS } from "../../src/settings";
+import { PlannerTask } from "../../src/types";
+
+const settings = {
+    ...DEFAULT_SETTINGS,
+    availableTags: [{ id: "tag-1", name: "Backend", color: "#000" }],
+    availablePeople: [{ id: "person-1", name: "Sam Lee", color: "#000" }],
+};
+
+const context = (overrides: Partial<CsvImportContext> = {}): CsvImportContext => ({
+    settings,
+    buckets: [{ id: "b1", name: "Sprint 1" }],
+    existingTaskIds: new Set(),
+    ...overrides,
+});
+
+const importRows = (text: string, ctx = context()) => {
+    const [headers, ...rows] = parseCsv(text);
+    return importTasksFromCsv(rows, guessColumnMapping(headers), ctx);
+};
+
+describe("csvUtils", () => {
+    describe("parseCsv / toCsv", () => {
+        it("should handle quoted cells with delimiters, quotes and newlines", () => {
+            const rows = [["Title", "Description"], ['Say "hi", then leave', "line 1\nline 2"]];
+            expect(parseCsv(toCsv(rows))).toEqual(rows);
+        });
+
+        it("should detect semicolon delimiters and strip a byte-order mark", () => {
+            const text = "\uFEFFTitle;Status\nWrite docs;In Progress\n";
+            expect(detectDelimiter(text)).toBe(";");
+            expect(parseCsv(text)).toEqual([["Title", "Status"], ["Write docs", "In Progress"]]);
+        });
+
+        it("should skip blank lines", () => {
+            expect(parseCsv("a,b\r\n\r\n1,2\r\n")).toEqual([["a", "b"], ["1", "2"]]);
+        });
+
+        it("should keep formula-like text from running in spreadsheets", () => {
+            expect(toCsv([['=HYPERLINK("http://x")', "+1", "@SUM(A1)", "-2", "-x", "\tTab"]])).toBe(
+                `"'=HYPERLINK(""http://x"")",'+1,'@SUM(A1),-2,'-x,'\tTab\r\n`
+            );
+        });
+    });
+
+    describe("guessColumnMapping", () => {
+        it("should match export headers and common aliases", () => {
+            expect(guessColumnMapping(["Task Name", "Finish", "% Complete", "Predecessors", "Colour"])).toEqual([
+                "title",
+                "dueDate",
+                "percentComplete",
+                "dependencies",
+                null,
+            ]);
+        });
+    });
+
+    describe("exportTasksToCsv", () => {
+        it("should write names for tags, assignees and buckets and codes for dependencies", () => {
+            const tasks: PlannerTask[] = [
+                { id: "a", title: "Design", status: "Completed", completed: true, parentId: null },
+                {
+                    id: "b",
+                    title: "Build",
+                    status: "In Progress",
+                    completed: false,
+                    parentId: "a",
+                    bucketId: "b1",
+                    tags: ["tag-1"],
+                    assignees: ["person-1"],
+                    effortCompleted: 4,
+                    effortRemaining: 12,
+                    dependencies: [{ predecessorId: "a", type: "FS", lag: 2 }],
+                },
+            ];
+
+            const [header, , row] = parseCsv(exportTasksToCsv(tasks, settings, { buckets: [{ id: "b1", name: "Sprint 1" }] }));
+            const cell = (name: string) => row[header.indexOf(name)];
+
+            expect(cell("Parent ID")).toBe("a");
+            expect(cell("Bucket")).toBe("Sprint 1");
+            expect(cell("Tags")).toBe("Backend");
+            expect(cell("Assigned To")).toBe("Sam Lee");
+            expect(cell("Effort Remaining (h)")).toBe("12");
+            expect(cell("Dependencies")).toBe("FS+2d:a");
+        });
+    });
+
+    describe("importTasksFromCsv", () => {
+        it("should round-trip an export", () => {
+            const tasks: PlannerTask[] = [
+                { id: "a", title: "Design", status: "Completed", completed: true, priority: "High", parentId: null, dueDate: "2026-03-01" },
+                { id: "b", title: "Build", status: "Not Started", completed: false, parentId: "a", tags: ["tag-1"], dependencies: [{ predecessorId: "a", type: "SS" }] },
+            ];
+
+            const { tasks: imported, rejected } = importRows(exportTasksToCsv(tasks, settings));
+
+            expect(rejected).toEqual([]);
+            expect(imported.map((t) => t.id)).toEqual(["a", "b"]);
+            expect(imported[0]).toMatchObject({ status: "Completed", completed: true, priority: "High", dueDate: "2026-03-01" });
+            expect(imported[1]).toMatchObject({ parentId: "a", tags: ["tag-1"], dependencies: [{ predecessorId: "a", type: "SS" }] });
+        });
+
+        it("should reject rows with unknown status or priority, bad dates or no title", () => {
+            const { tasks, rejected } = importRows(
+                [
+                    "Title,Status,Priority,Due Date,Effort Remaining (h)",
+                    "Ok,in progress,low,2026-02-01,3",
+                    "Bad status,Someday,,,",
+                    "Bad priority,,Urgent,,",
+                    "Bad date,,,2026-02-30,",
+                    ",Completed,,,",
+                    "Bad number,,,,lots",
+                ].join("\n")
+            );
+
+            expect(tasks).toHaveLength(1);
+            expect(tasks[0]).toMatchObject({ title: "Ok", status: "In Progress", completed: false, priority: "Low", effortRemaining: 3 });
+            expect(rejected).toEqual([
+                { row: 3, reason: 'Unknown status "Someday"' },
+                { row: 4, reason: 'Unknown priority "Urgent"' },
+                { row: 5, reason: 'Invalid due date "2026-02-30"' },
+                { row: 6, reason: "Missing title" },
+                { row: 7, reason: 'Invalid Effort Remaining (h) "lots"' },
+            ]);
+        });
+
+        it("should parse dates in the configured display format", () => {
+            const { tasks } = importRows("Title,Start Date\nTask,03/02/2026", context({ settings: { ...settings, dateFormat: "uk" } }));
+            expect(tasks[0].startDate).toBe("2026-02-03");
+        });
+
+        it("should resolve references to existing tasks and drop unknown ones", () => {
+            const { tasks } = importRows(
+                "ID,Title,Parent ID,Dependencies\nn1,New,existing,FS:existing; FS:missing\nn2,Orphan,missing,",
+                context({ existingTaskIds: new Set(["existing"]) })
+            );
+
+            expect(tasks[0]).toMatchObject({ parentId: "existing", dependencies: [{ predecessorId: "existing", type: "FS" }] });
+            expect(tasks[1].parentId).toBeNull();
+        });
+
+        it("should give new IDs to rows that clash with existing tasks and keep their links", () => {
+            const { tasks } = importRows(
+                "ID,Title,Parent ID\na,Parent,\nb,Child,a",
+                context({ existingTaskIds: new Set(["a"]) })
+            );
+
+            expect(tasks[0].id).not.toBe("a");
+            expect(tasks[1].id).toBe("b");
+            expect(tasks[1].parentId).toBe(tasks[0].id);
+        });
+
+        it("should round-trip formula-like titles and names containing commas", () => {
+            const people = { ...settings, availablePeople: [{ id: "person-2", name: "Doe, Jane", color: "#000" }] };
+            const tasks: PlannerTask[] = [
+                { id: "a", title: "=1+2", status: "Not Started", completed: false, parentId: null, assignees: ["person-2"] },
+            ];
+
+            const { tasks: imported } = importRows(exportTasksToCsv(tasks, people), context({ settings: people }));
+
+            expect(imported[0]).toMatchObject({ title: "=1+2", assignees: ["person-2"] });
+        });
+
+        it("should reject duplicate IDs within the file", () => {
+            const { tasks, rejected } = importRows("ID,Title\nx,One\nx,Two");
+            expect(tasks).toHaveLength(1);
+            expect(rejected).toEqual([{ row: 3, reason: 'Duplicate ID "x"' }]);
+        });
+
+        it("should read either decimal separator and reject ambiguous numbers", () => {
+            const { tasks, rejected } = importRows(
+                [
+                    "Title,Effort Remaining (h),Cost Estimate",
+                    'Comma,"1,5","1.234,50"',
+                    'Dot,0.125,"$1,234.50"',
+                    'Grouped,"2,5h","1.234.567"',
+                    'Ambiguous,,"1,500"',
+                    'Bad groups,,"12,34,5"',
+                ].join("\n")
+            );
+
+            expect(tasks.map((t) => [t.effortRemaining, t.costEstimate])).toEqual([
+                [1.5, 1234.5],
+                [0.125, 1234.5],
+                [2.5, 1234567],
+            ]);
+            expect(rejected).toEqual([
+                { row: 5, reason: 'Invalid Cost Estimate "1,500"' },
+                { row: 6, reason: 'Invalid Cost Estimate "12,34,5"' },
+            ]);
+        });
+
+        it("should drop parent and dependency links that would loop", () => {
+            const { tasks, warnings } = importRows(
+                "ID,Title,Parent ID,Dependencies\na,Alpha,b,FS:b\nb,Beta,a,FS:a\nc,Gamma,c,"
+            );
+
+            expect(tasks[0]).toMatchObject({ parentId: "b", dependencies: [{ predecessorId: "b", type: "FS" }] });
+            expect(tasks[1].parentId).toBeNull();
+            expect(tasks[1].dependencies).toBeUndefined();
+            expect(tasks[2].parentId).toBeNull();
+            expect(warnings).toEqual([
+                'Parent "Alpha" of "Beta" was dropped: it would make the task its own ancestor',
+                'Parent "Gamma" of "Gamma" was dropped: it would make the task its own ancestor',
+                'Dependency of "Beta" on "Alpha" was dropped: it would create a circular chain',
+            ]);
+        });
+    });
+});
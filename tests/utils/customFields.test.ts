@@ -0,0 +1,109 @@
+import {
+    customFieldsFromFrontmatter,
+    customFieldsToFrontmatter,
+    formatCustomFieldValue,
+    isReservedFieldName,
+    matchesCustomFieldFilter,
+    normalizeCustomFieldValue,
+    parseFieldOptions,
+    setCustomFieldValue,
+    sortTasksByCustomField,
+} from "../../src/utils/customFields";
+import { CustomFieldDefinition, PlannerTask } from "../../src/types";
+
+const field = (type: CustomFieldDefinition["type"], options?: string[]): CustomFieldDefinition => ({
+    id: `f-${type}`,
+    name: type,
+    type,
+    options,
+});
+
+const task = (id: string, customFields?: PlannerTask["customFields"]): PlannerTask => ({
+    id,
+    title: id,
+    status: "Not Started",
+    completed: false,
+    customFields,
+});
+
+describe("customFields", () => {
+    describe("values", () => {
+        it("should coerce raw values to the field type", () => {
+            expect(normalizeCustomFieldValue(field("number"), "3.5")).toBe(3.5);
+            expect(normalizeCustomFieldValue(field("number"), "abc")).toBeUndefined();
+            expect(normalizeCustomFieldValue(field("number"), "")).toBeUndefined();
+            expect(normalizeCustomFieldValue(field("checkbox"), "yes")).toBe(true);
+            expect(normalizeCustomFieldValue(field("checkbox"), false)).toBeUndefined();
+            expect(normalizeCustomFieldValue(field("date"), "2026-03-02T10:00:00Z")).toBe("2026-03-02");
+            expect(normalizeCustomFieldValue(field("date"), "soon")).toBeUndefined();
+            expect(normalizeCustomFieldValue(field("multiselect"), "a, b, a,")).toEqual(["a", "b"]);
+            expect(normalizeCustomFieldValue(field("text"), "  Acme ")).toBe("Acme");
+            expect(normalizeCustomFieldValue(field("text"), "   ")).toBeUndefined();
+        });
+
+        it("should set and clear values without touching other fields", () => {
+            const values = setCustomFieldValue({ other: "kept" }, field("number"), "5");
+            expect(values).toEqual({ other: "kept", "f-number": 5 });
+            expect(setCustomFieldValue(values, field("number"), "")).toEqual({ other: "kept" });
+        });
+
+        it("should format values for display", () => {
+            expect(formatCustomFieldValue(field("multiselect"), ["a", "b"])).toBe("a, b");
+            expect(formatCustomFieldValue(field("checkbox"), true)).toBe("✓");
+            expect(formatCustomFieldValue(field("number"), undefined)).toBe("");
+        });
+
+        it("should parse option lists and reject built-in names", () => {
+            expect(parseFieldOptions("Dev, Staging,, Dev , Prod")).toEqual(["Dev", "Staging", "Prod"]);
+            expect(isReservedFieldName("status")).toBe(true);
+            expect(isReservedFieldName("Customer")).toBe(false);
+        });
+    });
+
+    describe("sorting", () => {
+        it("should sort numbers and keep tasks without a value last", () => {
+            const points = field("number");
+            const tasks = [
+                task("none"),
+                task("eight", { "f-number": 8 }),
+                task("two", { "f-number": 2 }),
+            ];
+
+            expect(sortTasksByCustomField(tasks, points, "asc").map((t) => t.id)).toEqual(["two", "eight", "none"]);
+            expect(sortTasksByCustomField(tasks, points, "desc").map((t) => t.id)).toEqual(["eight", "two", "none"]);
+        });
+
+        it("should sort single-select values in option order", () => {
+            const env = field("select", ["Dev", "Staging", "Prod"]);
+            const tasks = [task("p", { "f-select": "Prod" }), task("d", { "f-select": "Dev" }), task("s", { "f-select": "Staging" })];
+
+            expect(sortTasksByCustomField(tasks, env, "asc").map((t) => t.id)).toEqual(["d", "s", "p"]);
+        });
+    });
+
+    describe("filtering", () => {
+        it("should match queries by field type", () => {
+            expect(matchesCustomFieldFilter(field("number"), 5, ">3")).toBe(true);
+            expect(matchesCustomFieldFilter(field("number"), 5, "<=4")).toBe(false);
+            expect(matchesCustomFieldFilter(field("number"), 5, "5")).toBe(true);
+            expect(matchesCustomFieldFilter(field("multiselect"), ["Dev", "Prod"], "Prod")).toBe(true);
+            expect(matchesCustomFieldFilter(field("select"), "Dev", "Prod")).toBe(false);
+            expect(matchesCustomFieldFilter(field("checkbox"), undefined, "unchecked")).toBe(true);
+            expect(matchesCustomFieldFilter(field("text"), "Acme Corp", "acme")).toBe(true);
+            expect(matchesCustomFieldFilter(field("date"), "2026-03-14", "2026-03")).toBe(true);
+            expect(matchesCustomFieldFilter(field("text"), undefined, "(empty)")).toBe(true);
+            expect(matchesCustomFieldFilter(field("text"), undefined, "")).toBe(true);
+        });
+    });
+
+    describe("frontmatter", () => {
+        it("should round-trip values by field name", () => {
+            const fields = [field("text"), field("number"), field("multiselect"), field("checkbox")];
+            const values = { "f-text": "Acme", "f-number": 3, "f-multiselect": ["a"], "f-checkbox": true as const };
+
+            const fm = customFieldsToFrontmatter(fields, values);
+            expect(fm).toEqual({ text: "Acme", number: 3, multiselect: ["a"], checkbox: true });
+            expect(customFieldsFromFrontmatter(fields, fm)).toEqual(values);
+        });
+    });
+});
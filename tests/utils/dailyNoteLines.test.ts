@@ -0,0 +1,96 @@
+import { parseTaskText, readTaskLine, updateTaskLine, type TaskLineFields } from "../../src/utils/dailyNoteLines";
+
+const fields = (overrides: Partial<TaskLineFields> = {}): TaskLineFields => ({
+    completed: false,
+    title: "Buy milk",
+    ...overrides,
+});
+
+describe("parseTaskText", () => {
+    it("splits out tags, priority, due date and recurrence", () => {
+        const parsed = parseTaskText("Water plants !! 🔁 every week 📅 2026-01-15 #planner/Home", "planner");
+        expect(parsed).toMatchObject({
+            title: "Water plants",
+            priority: "High",
+            dueDate: "2026-01-15",
+            plannerTags: ["#planner/Home"],
+            projectTag: "Home",
+        });
+        expect(parsed.recurrence).toBeDefined();
+    });
+});
+
+describe("readTaskLine", () => {
+    it("reads the syncing fields of a task line", () => {
+        expect(readTaskLine("  - [X] Buy milk (low) due: 2026-02-01 #planner", "planner")).toEqual({
+            completed: true,
+            title: "Buy milk",
+            priority: "Low",
+            dueDate: "2026-02-01",
+        });
+        expect(readTaskLine("Just text #planner", "planner")).toBeNull();
+    });
+
+    it("reads Obsidian Tasks fields", () => {
+        expect(readTaskLine("- [ ] Buy milk ⏬ 🛫 2026-02-01 📅 2026-02-03 #planner", "planner")).toEqual({
+            completed: false,
+            title: "Buy milk",
+            priority: "Low",
+            dueDate: "2026-02-03",
+        });
+    });
+});
+
+describe("updateTaskLine", () => {
+    it("toggles the checkbox and keeps the rest of the line", () => {
+        const line = "    - [ ] Buy milk #planner #errands";
+        expect(updateTaskLine(line, fields(), fields({ completed: true }))).toBe("    - [x] Buy milk #planner #errands");
+        expect(updateTaskLine("- [X] Buy milk", fields({ completed: true }), fields())).toBe("- [ ] Buy milk");
+    });
+
+    it("replaces, adds and removes due dates in the line's own format", () => {
+        const from = fields({ dueDate: "2026-02-01" });
+        expect(updateTaskLine("- [ ] Buy milk due: 2026-02-01 #planner", from, fields({ dueDate: "2026-02-03" }))).toBe(
+            "- [ ] Buy milk due: 2026-02-03 #planner"
+        );
+        expect(updateTaskLine("- [ ] Buy milk @2026-02-01 #planner", from, fields())).toBe("- [ ] Buy milk #planner");
+        expect(updateTaskLine("- [ ] Buy milk #planner", fields(), from)).toBe("- [ ] Buy milk #planner 📅 2026-02-01");
+    });
+
+    it("replaces priority markers in the same style", () => {
+        expect(updateTaskLine("- [ ] Buy milk !! #planner", fields({ priority: "High" }), fields({ priority: "Medium" }))).toBe(
+            "- [ ] Buy milk ! #planner"
+        );
+        expect(updateTaskLine("- [ ] Buy milk (high) #planner", fields({ priority: "High" }), fields({ priority: "Low" }))).toBe(
+            "- [ ] Buy milk (low) #planner"
+        );
+        expect(updateTaskLine("- [ ] Buy milk !! #planner", fields({ priority: "High" }), fields({ priority: "Low" }))).toBe(
+            "- [ ] Buy milk (low) #planner"
+        );
+        expect(updateTaskLine("- [ ] Buy milk #planner", fields(), fields({ priority: "Critical" }))).toBe(
+            "- [ ] Buy milk #planner (critical)"
+        );
+        expect(updateTaskLine("- [ ] Buy milk #planner", fields(), fields({ priority: "Urgent" }))).toBe(
+            "- [ ] Buy milk #planner"
+        );
+    });
+
+    it("renames the title in place, or puts it before the markers", () => {
+        expect(updateTaskLine("- [ ] Buy milk #planner", fields(), fields({ title: "Buy $5 milk" }))).toBe(
+            "- [ ] Buy $5 milk #planner"
+        );
+        // The title was split around a marker
+        expect(
+            updateTaskLine("- [ ] Buy !! milk #planner", fields({ priority: "High" }), fields({ title: "Get bread", priority: "High" }))
+        ).toBe("- [ ] Get bread !! #planner");
+    });
+
+    it("writes Tasks notation back in Tasks notation", () => {
+        const line = "- [ ] Buy milk #planner 🔼 🛫 2026-02-01";
+        const to = fields({ completed: true, priority: "Critical", dueDate: "2026-02-03" });
+        expect(updateTaskLine(line, fields({ priority: "Medium" }), to, "2026-02-02")).toBe(
+            "- [x] Buy milk #planner 🔺 🛫 2026-02-01 📅 2026-02-03 ✅ 2026-02-02"
+        );
+        expect(updateTaskLine("- [x] Buy milk ⏫ ✅ 2026-02-02", fields({ completed: true }), fields())).toBe("- [ ] Buy milk ⏫");
+    });
+});
@@ -0,0 +1,33 @@
+import { wouldCreateDependencyCycle, wouldCreateParentCycle } from "../../src/utils/dependencyUtils";
+import { PlannerTask } from "../../src/types";
+
+const task = (id: string, overrides: Partial<PlannerTask> = {}): PlannerTask => ({
+    id,
+    title: id,
+    status: "Not Started",
+    completed: false,
+    parentId: null,
+    ...overrides,
+});
+
+describe("dependencyUtils", () => {
+    it("should spot dependency loops through the chain", () => {
+        const tasks = [
+            task("a"),
+            task("b", { dependencies: [{ predecessorId: "a", type: "FS" }] }),
+            task("c", { dependencies: [{ predecessorId: "b", type: "SS" }] }),
+        ];
+
+        expect(wouldCreateDependencyCycle(tasks, "a", "c")).toBe(true);
+        expect(wouldCreateDependencyCycle(tasks, "a", "a")).toBe(true);
+        expect(wouldCreateDependencyCycle(tasks, "c", "a")).toBe(false);
+    });
+
+    it("should spot parent loops up the hierarchy", () => {
+        const tasks = [task("a"), task("b", { parentId: "a" }), task("c", { parentId: "b" })];
+
+        expect(wouldCreateParentCycle(tasks, "a", "c")).toBe(true);
+        expect(wouldCreateParentCycle(tasks, "b", "b")).toBe(true);
+        expect(wouldCreateParentCycle(tasks, "c", "a")).toBe(false);
+    });
+});
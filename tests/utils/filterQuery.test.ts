@@ -0,0 +1,132 @@
+import { compileFilterQuery, getFilterSuggestions, type FilterQueryContext } from "../../src/utils/filterQuery";
+import type { PlannerTask } from "../../src/types";
+
+// Wednesday
+const ctx: FilterQueryContext = {
+    statuses: [
+        { id: "todo", name: "To Do", color: "#888888", category: "not-started" },
+        { id: "doing", name: "In Progress", color: "#0a84ff", category: "active" },
+        { id: "shipped", name: "Shipped", color: "#2f9e44", category: "done" },
+    ],
+    priorities: [
+        { id: "low", name: "Low", color: "#6c757d" },
+        { id: "high", name: "High", color: "#ff8c00" },
+        { id: "critical", name: "Critical", color: "#d70022" },
+    ],
+    tags: [{ id: "t1", name: "backend", color: "#000000" }],
+    people: [{ id: "ann", name: "Ann Lee", color: "#111111" }],
+    buckets: [{ id: "b1", name: "Sprint 1" }],
+    today: "2026-03-04",
+};
+
+const task = (fields: Partial<PlannerTask> = {}): PlannerTask => ({
+    id: "t",
+    title: "Fix login API",
+    completed: false,
+    status: "To Do",
+    ...fields,
+});
+
+const matches = (query: string, t: PlannerTask, context = ctx) => compileFilterQuery(query, context).matches(t);
+
+describe("compileFilterQuery", () => {
+    it("matches every task for an empty query", () => {
+        const query = compileFilterQuery("   ", ctx);
+        expect(query.isEmpty).toBe(true);
+        expect(query.errors).toEqual([]);
+        expect(query.matches(task())).toBe(true);
+    });
+
+    it("searches the title with words and quoted phrases", () => {
+        expect(matches("login api", task())).toBe(true);
+        expect(matches("api login", task())).toBe(true);
+        expect(matches('"api login"', task())).toBe(false);
+        expect(matches('"login api"', task())).toBe(true);
+    });
+
+    it("filters by status name or category", () => {
+        expect(matches('status:"in progress"', task({ status: "In Progress" }))).toBe(true);
+        expect(matches("status:active", task({ status: "In Progress" }))).toBe(true);
+        expect(matches("status:done", task())).toBe(false);
+    });
+
+    it("compares priorities in list order", () => {
+        expect(matches("priority>=High", task({ priority: "Critical" }))).toBe(true);
+        expect(matches("priority>=High", task({ priority: "Low" }))).toBe(false);
+        expect(matches("priority>=High", task())).toBe(false);
+        expect(matches("priority:none", task())).toBe(true);
+    });
+
+    it("compares dates against today with offsets", () => {
+        expect(matches("due<today+7d", task({ dueDate: "2026-03-10" }))).toBe(true);
+        expect(matches("due<today+7d", task({ dueDate: "2026-03-11" }))).toBe(false);
+        expect(matches("due<today+7d", task())).toBe(false);
+        expect(matches("start>=2026-03-01", task({ startDate: "2026-03-01" }))).toBe(true);
+        expect(matches("due:tomorrow", task({ dueDate: "2026-03-05" }))).toBe(true);
+        expect(matches("due:none", task())).toBe(true);
+    });
+
+    it("filters by tag, assignee and bucket names", () => {
+        const t = task({ tags: ["t1"], assignees: ["ann"], bucketId: "b1" });
+        expect(matches('tag:backend assigned:"ann lee" bucket:"Sprint 1"', t)).toBe(true);
+        expect(matches("bucket:none", t)).toBe(false);
+    });
+
+    it("supports has:, flags and negation", () => {
+        const done = task({ completed: true, dependencies: [{ predecessorId: "x", type: "FS" }] });
+        expect(matches("has:dependencies completed", done)).toBe(true);
+        expect(matches("-completed", done)).toBe(false);
+        expect(matches("-tag:backend", task())).toBe(true);
+        expect(matches("overdue", task({ dueDate: "2026-03-03" }))).toBe(true);
+        expect(matches("overdue", task({ dueDate: "2026-03-03", completed: true }))).toBe(false);
+    });
+
+    it("finds parents with has:subtasks from the task list", () => {
+        const parent = task({ id: "p" });
+        const context = { ...ctx, tasks: [parent, task({ id: "c", parentId: "p" })] };
+        expect(matches("has:subtasks", parent, context)).toBe(true);
+        expect(matches("has:subtasks", task({ id: "c", parentId: "p" }), context)).toBe(false);
+    });
+
+    it("reports bad terms with their position and filters by the rest", () => {
+        const query = compileFilterQuery('login priority:Urgent foo:bar status<Done due:soon "open', ctx);
+        expect(query.errors.map((e) => e.message)).toEqual([
+            'Unknown priority "Urgent"',
+            'Unknown field "foo"',
+            'status only supports ":"',
+            'Invalid date "soon"',
+            "Missing closing quote",
+        ]);
+        expect(query.errors[0]).toMatchObject({ start: 6, end: 21 });
+        expect(query.matches(task({ title: "login open" }))).toBe(true);
+        expect(query.matches(task({ title: "signup" }))).toBe(false);
+    });
+});
+
+describe("getFilterSuggestions", () => {
+    it("suggests fields and flags for a bare word", () => {
+        const result = getFilterSuggestions("login st", 8, ctx);
+        expect(result).toEqual({
+            from: 6,
+            to: 8,
+            items: [
+                { label: "status:", insert: "status:" },
+                { label: "start:", insert: "start:" },
+            ],
+        });
+        expect(getFilterSuggestions("-comp", 5, ctx)?.items).toEqual([{ label: "completed", insert: "completed " }]);
+        expect(getFilterSuggestions("-comp", 5, ctx)?.from).toBe(1);
+    });
+
+    it("suggests values for a field, quoting names with spaces", () => {
+        const result = getFilterSuggestions("status:in", 9, ctx);
+        expect(result?.items).toEqual([{ label: "In Progress", insert: 'status:"In Progress" ' }]);
+        expect(getFilterSuggestions("priority>=", 10, ctx)?.items.map((i) => i.label)).toEqual(["Low", "High", "Critical"]);
+    });
+
+    it("returns null when there is nothing to suggest", () => {
+        expect(getFilterSuggestions("login ", 6, ctx)).toBeNull();
+        expect(getFilterSuggestions("tag:backend", 11, ctx)).toBeNull();
+        expect(getFilterSuggestions("title:x", 7, ctx)).toBeNull();
+    });
+});
@@ -0,0 +1,107 @@
+import {
+    escapeICalText,
+    foldICalLine,
+    generateICalendar,
+    ICalOptions,
+} from "../../src/utils/icalUtils";
+import { PlannerTask } from "../../src/types";
+
+const project = { id: "p1", name: "Launch" };
+
+const options = (overrides: Partial<ICalOptions> = {}): ICalOptions => ({
+    calendarName: "Planner",
+    entryType: "event",
+    includeCompleted: true,
+    ...overrides,
+});
+
+const task = (overrides: Partial<PlannerTask> = {}): PlannerTask => ({
+    id: "task-1",
+    title: "Write docs",
+    status: "Not Started",
+    completed: false,
+    startDate: "2026-03-02",
+    dueDate: "2026-03-04",
+    lastModifiedDate: "2026-02-20",
+    ...overrides,
+});
+
+/** Unfold continuation lines and split into content lines. */
+const contentLines = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("icalUtils", () => {
+    describe("escapeICalText / foldICalLine", () => {
+        it("should escape TEXT special characters", () => {
+            expect(escapeICalText("a;b,c\\d\ne")).toBe("a\\;b\\,c\\\\d\\ne");
+        });
+
+        it("should fold long lines at 75 octets without splitting characters", () => {
+            const line = "SUMMARY:" + "é".repeat(60);
+            const folded = foldICalLine(line);
+
+            expect(folded.split("\r\n").every((l) => Buffer.byteLength(l, "utf8") <= 75)).toBe(true);
+            expect(folded.replace(/\r\n /g, "")).toBe(line);
+        });
+    });
+
+    describe("generateICalendar", () => {
+        it("should write all-day events with stable UIDs and the task URI", () => {
+            const ics = generateICalendar([{ project, tasks: [task({ priority: "High" })] }], options());
+            const lines = contentLines(ics);
+
+            expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+            expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+            expect(lines).toEqual(
+                expect.arrayContaining([
+                    "BEGIN:VEVENT",
+                    "UID:task-1@obsidian-project-planner",
+                    "DTSTAMP:20260220T000000Z",
+                    "DTSTART;VALUE=DATE:20260302",
+                    "DTEND;VALUE=DATE:20260305",
+                    "PRIORITY:3",
+                    "CATEGORIES:Launch",
+                    "URL:obsidian://open-planner-task?id=task-1&project=p1",
+                ])
+            );
+        });
+
+        it("should produce identical output for unchanged tasks", () => {
+            const tasks = [task()];
+            expect(generateICalendar([{ project, tasks }], options())).toBe(generateICalendar([{ project, tasks }], options()));
+        });
+
+        it("should write to-dos with due date and completion state", () => {
+            const lines = contentLines(
+                generateICalendar(
+                    [{ project, tasks: [task({ startDate: undefined, completed: true, status: "Completed" })] }],
+                    options({ entryType: "todo" })
+                )
+            );
+
+            expect(lines).toContain("BEGIN:VTODO");
+            expect(lines).toContain("DUE;VALUE=DATE:20260304");
+            expect(lines).toContain("STATUS:COMPLETED");
+            expect(lines.some((l) => l.startsWith("DTSTART"))).toBe(false);
+        });
+
+        it("should skip undated tasks and, optionally, completed ones", () => {
+            const tasks = [
+                task({ id: "undated", startDate: undefined, dueDate: undefined }),
+                task({ id: "done", completed: true }),
+                task({ id: "open" }),
+            ];
+            const ics = generateICalendar([{ project, tasks }], options({ includeCompleted: false }));
+
+            expect(ics).toContain("UID:open@");
+            expect(ics).not.toContain("UID:done@");
+            expect(ics).not.toContain("UID:undated@");
+        });
+
+        it("should use a single-day event when only one date is set", () => {
+            const lines = contentLines(generateICalendar([{ project, tasks: [task({ startDate: undefined })] }], options()));
+
+            expect(lines).toContain("DTSTART;VALUE=DATE:20260304");
+            expect(lines).toContain("DTEND;VALUE=DATE:20260305");
+        });
+    });
+});
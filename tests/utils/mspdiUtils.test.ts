@@ -0,0 +1,196 @@
+import {
+    exportProjectToMspdi,
+    formatMspdiDuration,
+    importMspdi,
+    parseMspdiDuration,
+} from "../../src/utils/mspdiUtils";
+import { DEFAULT_SETTINGS, PlannerProject } from "../../src/settings";
+import { PlannerTask } from "../../src/types";
+
+const settings = {
+    ...DEFAULT_SETTINGS,
+    availablePeople: [{ id: "person-1", name: "Sam Lee", color: "#000" }],
+};
+
+const project: PlannerProject = { id: "p1", name: "Launch", defaultHourlyRate: 50, currencySymbol: "€" };
+
+describe("mspdiUtils", () => {
+    describe("durations", () => {
+        it("should format and parse hours", () => {
+            expect(formatMspdiDuration(16.5)).toBe("PT16H30M0S");
+            expect(parseMspdiDuration("PT16H30M0S")).toBe(16.5);
+            expect(parseMspdiDuration("P1DT4H")).toBe(12);
+            expect(parseMspdiDuration("1 day")).toBeNull();
+        });
+    });
+
+    describe("exportProjectToMspdi", () => {
+        it("should write the outline, links and cost fields in MSPDI units", () => {
+            const tasks: PlannerTask[] = [
+                { id: "a", title: "Phase & setup", status: "In Progress", completed: false, parentId: null },
+                {
+                    id: "b",
+                    title: "Build",
+                    status: "In Progress",
+                    completed: false,
+                    parentId: "a",
+                    effortCompleted: 4,
+                    effortRemaining: 12,
+                    costType: "fixed",
+                    costEstimate: 1500,
+                },
+                {
+                    id: "c",
+                    title: "Test",
+                    status: "Not Started",
+                    completed: false,
+                    parentId: "a",
+                    dependencies: [{ predecessorId: "b", type: "SS", lag: 2 }],
+                },
+            ];
+
+            const xml = exportProjectToMspdi(project, tasks, settings);
+
+            expect(xml).toContain("<Name>Phase &amp; setup</Name>");
+            expect(xml).toContain("<OutlineNumber>1.2</OutlineNumber>");
+            expect(xml).toContain("<Work>PT16H0M0S</Work>");
+            expect(xml).toContain("<FixedCost>150000</FixedCost>");
+            expect(xml).toMatch(/<PredecessorUID>2<\/PredecessorUID>\s*<Type>3<\/Type>\s*<LinkLag>9600<\/LinkLag>/);
+        });
+
+        it("should round-trip through importMspdi", () => {
+            const tasks: PlannerTask[] = [
+                { id: "a", title: "Phase", status: "In Progress", completed: false, parentId: null },
+                {
+                    id: "b",
+                    title: "Design",
+                    status: "Completed",
+                    completed: true,
+                    parentId: "a",
+                    priority: "High",
+                    startDate: "2026-03-02",
+                    dueDate: "2026-03-06",
+                    percentComplete: 100,
+                    effortCompleted: 10,
+                    effortRemaining: 0,
+                    assignees: ["person-1"],
+                    costType: "hourly",
+                    hourlyRate: 80,
+                },
+                {
+                    id: "c",
+                    title: "Build",
+                    status: "In Progress",
+                    completed: false,
+                    parentId: "a",
+                    percentComplete: 25,
+                    effortCompleted: 4,
+                    effortRemaining: 12,
+                    costType: "hourly",
+                    dependencies: [{ predecessorId: "b", type: "FS", lag: -1 }],
+                    description: "Notes <here>",
+                },
+                { id: "d", title: "Launch", status: "Not Started", completed: false, parentId: null, costType: "fixed", costEstimate: 250.5, costActual: 100 },
+            ];
+
+            const result = importMspdi(exportProjectToMspdi(project, tasks, settings), settings);
+            const [phase, design, build, launch] = result.tasks;
+
+            expect(result.projectName).toBe("Launch");
+            expect(result.currencySymbol).toBe("€");
+            expect(result.warnings).toEqual([]);
+            expect(result.tasks.map((t) => t.title)).toEqual(["Phase", "Design", "Build", "Launch"]);
+            expect([design.parentId, build.parentId, launch.parentId]).toEqual([phase.id, phase.id, null]);
+            expect(design).toMatchObject({
+                status: "Completed",
+                completed: true,
+                priority: "High",
+                startDate: "2026-03-02",
+                dueDate: "2026-03-06",
+                effortCompleted: 10,
+                effortRemaining: 0,
+                assignees: ["person-1"],
+                costType: "hourly",
+                hourlyRate: 80,
+            });
+            expect(build).toMatchObject({
+                status: "In Progress",
+                percentComplete: 25,
+                effortCompleted: 4,
+                effortRemaining: 12,
+                costType: "hourly",
+                hourlyRate: 50, // project default rate
+                description: "Notes <here>",
+                dependencies: [{ predecessorId: design.id, type: "FS", lag: -1 }],
+            });
+            expect(launch).toMatchObject({ costType: "fixed", costEstimate: 250.5, costActual: 100 });
+        });
+    });
+
+    describe("importMspdi", () => {
+        const file = (tasks: string, extra = "") => `<?xml version="1.0" encoding="UTF-8"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <Title>Office move</Title>
+  <MinutesPerDay>480</MinutesPerDay>
+  <Tasks>
+    <Task><UID>0</UID><Name>Office move</Name><OutlineLevel>0</OutlineLevel><Summary>1</Summary></Task>
+    ${tasks}
+  </Tasks>
+  ${extra}
+</Project>`;
+
+        it("should skip the project summary task and blank rows", () => {
+            const result = importMspdi(
+                file(`<Task><UID>1</UID><Name>Pack</Name><OutlineLevel>1</OutlineLevel></Task>
+                      <Task><UID>2</UID><IsNull>1</IsNull><OutlineLevel>1</OutlineLevel></Task>`),
+                settings
+            );
+
+            expect(result.projectName).toBe("Office move");
+            expect(result.tasks.map((t) => t.title)).toEqual(["Pack"]);
+        });
+
+        it("should convert lag formats and warn about percentage lag", () => {
+            const result = importMspdi(
+                file(`<Task><UID>1</UID><Name>A</Name><OutlineLevel>1</OutlineLevel></Task>
+                      <Task><UID>2</UID><Name>B</Name><OutlineLevel>1</OutlineLevel>
+                        <PredecessorLink><PredecessorUID>1</PredecessorUID><Type>0</Type><LinkLag>28800</LinkLag><LagFormat>5</LagFormat></PredecessorLink>
+                      </Task>
+                      <Task><UID>3</UID><Name>C</Name><OutlineLevel>1</OutlineLevel>
+                        <PredecessorLink><PredecessorUID>1</PredecessorUID><LinkLag>28800</LinkLag><LagFormat>8</LagFormat></PredecessorLink>
+                        <PredecessorLink><PredecessorUID>2</PredecessorUID><LinkLag>500</LinkLag><LagFormat>19</LagFormat></PredecessorLink>
+                      </Task>`),
+                settings
+            );
+            const [a, b, c] = result.tasks;
+
+            // 28800 tenths of a minute = 2880 minutes: 6 working days (8h) or 2 elapsed days
+            expect(b.dependencies).toEqual([{ predecessorId: a.id, type: "FF", lag: 6 }]);
+            expect(c.dependencies).toEqual([
+                { predecessorId: a.id, type: "FS", lag: 2 },
+                { predecessorId: b.id, type: "FS" },
+            ]);
+            expect(result.warnings).toEqual(['Percentage lag on "C" was ignored']);
+        });
+
+        it("should report resources that are not in the people list", () => {
+            const result = importMspdi(
+                file(
+                    `<Task><UID>1</UID><Name>Pack</Name><OutlineLevel>1</OutlineLevel><Work>PT8H0M0S</Work></Task>`,
+                    `<Resources><Resource><UID>1</UID><Name>Movers Ltd</Name><StandardRate>40</StandardRate></Resource></Resources>
+                     <Assignments><Assignment><UID>1</UID><TaskUID>1</TaskUID><ResourceUID>1</ResourceUID></Assignment></Assignments>`
+                ),
+                settings
+            );
+
+            expect(result.tasks[0]).toMatchObject({ costType: "hourly", hourlyRate: 40, effortRemaining: 8 });
+            expect(result.tasks[0].assignees).toBeUndefined();
+            expect(result.warnings).toEqual(["Resources not in the people list were not assigned: Movers Ltd"]);
+        });
+
+        it("should throw for files that are not MSPDI", () => {
+            expect(() => importMspdi("<html></html>", settings)).toThrow("Not a Microsoft Project XML file");
+            expect(() => importMspdi("not xml", settings)).toThrow();
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { getBlockProgress, parsePlannerBlock, resolveBlockProject, summarizeByBucket } from "../../src/utils/plannerBlock";
+import type { PlannerProject } from "../../src/settings";
+import type { PlannerStatus, PlannerTask } from "../../src/types";
+
+const statuses: PlannerStatus[] = [
+    { id: "todo", name: "To Do", color: "#888888", category: "not-started" },
+    { id: "shipped", name: "Shipped", color: "#2f9e44", category: "done" },
+];
+
+const task = (id: string, fields: Partial<PlannerTask> = {}): PlannerTask => ({
+    id,
+    title: id,
+    completed: false,
+    status: "To Do",
+    ...fields,
+});
+
+describe("parsePlannerBlock", () => {
+    it("reads project, filter, mode and limit", () => {
+        const { config, errors } = parsePlannerBlock(
+            "project: Website Redesign\nfilter: status:\"In Progress\" -completed\nMode: Table\nlimit: 5\n"
+        );
+        expect(errors).toEqual([]);
+        expect(config).toEqual({
+            project: "Website Redesign",
+            filter: 'status:"In Progress" -completed',
+            mode: "table",
+            limit: 5,
+        });
+    });
+
+    it("defaults to a list of every task in the active project", () => {
+        expect(parsePlannerBlock("")).toEqual({ config: { filter: "", mode: "list" }, errors: [] });
+    });
+
+    it("reports bad lines and keeps the rest", () => {
+        const { config, errors } = parsePlannerBlock("mode: kanban\nlimit: -1\ncolour: red\njust text\n# comment\nfilter: overdue");
+        expect(errors).toEqual([
+            'Unknown mode "kanban" (use table, list, board, progress)',
+            'Limit must be a positive whole number, got "-1"',
+            'Unknown key "colour"',
+            'Expected "key: value", got "just text"',
+        ]);
+        expect(config).toEqual({ filter: "overdue", mode: "list" });
+    });
+});
+
+describe("resolveBlockProject", () => {
+    const projects = [
+        { id: "p1", name: "Alpha" },
+        { id: "p2", name: "Beta" },
+    ] as PlannerProject[];
+
+    it("finds a project by ID or name, else the active project", () => {
+        expect(resolveBlockProject(projects, "p1", "p2")?.name).toBe("Beta");
+        expect(resolveBlockProject(projects, "p1", "beta")?.id).toBe("p2");
+        expect(resolveBlockProject(projects, "p1", undefined)?.id).toBe("p1");
+        expect(resolveBlockProject(projects, "p1", "Gamma")).toBeUndefined();
+    });
+});
+
+describe("block summaries", () => {
+    const tasks = [
+        task("a", { bucketId: "b1" }),
+        task("b", { bucketId: "b1", status: "Shipped", completed: true }),
+        task("c", { bucketId: "gone" }),
+        task("d", { bucketId: "b2" }),
+    ];
+
+    it("counts done tasks by status category", () => {
+        expect(getBlockProgress(tasks, statuses)).toEqual({ done: 1, total: 4, percent: 25 });
+        expect(getBlockProgress([], statuses)).toEqual({ done: 0, total: 0, percent: 0 });
+    });
+
+    it("counts open and done tasks per bucket, unknown buckets as Unassigned", () => {
+        const summary = summarizeByBucket(tasks, [
+            { id: "b1", name: "Doing", color: "#ff0000" },
+            { id: "b2", name: "Review" },
+            { id: "b3", name: "Empty" },
+        ], statuses, "Backlog");
+        expect(summary).toEqual([
+            { id: null, name: "Backlog", open: 1, done: 0 },
+            { id: "b1", name: "Doing", color: "#ff0000", open: 1, done: 1 },
+            { id: "b2", name: "Review", color: undefined, open: 1, done: 0 },
+            { id: "b3", name: "Empty", color: undefined, open: 0, done: 0 },
+        ]);
+        expect(summarizeByBucket([task("x", { bucketId: "b3" })], [{ id: "b3", name: "Empty" }], statuses)[0].id).toBe("b3");
+    });
+});
@@ -0,0 +1,100 @@
+import {
+    disableProjectList,
+    enableProjectList,
+    getProjectPriorities,
+    getProjectStatuses,
+    getProjectTags,
+    hasProjectList,
+    migrateProjectLists,
+    ProjectListSettings,
+    withProjectLists,
+} from "../../src/utils/projectLists";
+import type { PlannerProject } from "../../src/settings";
+
+const makeSettings = (): ProjectListSettings => ({
+    projects: [
+        { id: "shared", name: "Shared" },
+        {
+            id: "own",
+            name: "Own",
+            statuses: [{ id: "s-todo", name: "To Do", color: "#888" }],
+            tags: [],
+        },
+    ],
+    activeProjectId: "shared",
+    availableStatuses: [
+        { id: "s-1", name: "Not Started", color: "#6b7280" },
+        { id: "s-2", name: "Completed", color: "#10b981" },
+    ],
+    availablePriorities: [{ id: "p-1", name: "Medium", color: "#f59e0b" }],
+    availableTags: [{ id: "t-1", name: "urgent", color: "#ef4444" }],
+});
+
+describe("projectLists", () => {
+    describe("effective lists", () => {
+        it("should use a project's own lists and fall back to the shared ones", () => {
+            const settings = makeSettings();
+
+            expect(getProjectStatuses(settings, "own").map((s) => s.name)).toEqual(["To Do"]);
+            expect(getProjectPriorities(settings, "own")).toBe(settings.availablePriorities);
+            expect(getProjectTags(settings, "own")).toEqual([]);
+            expect(getProjectStatuses(settings, "shared")).toBe(settings.availableStatuses);
+        });
+
+        it("should default to the active project and use the shared lists for unknown projects", () => {
+            const settings = makeSettings();
+            settings.activeProjectId = "own";
+
+            expect(getProjectStatuses(settings).map((s) => s.name)).toEqual(["To Do"]);
+            expect(getProjectStatuses(settings, "missing")).toBe(settings.availableStatuses);
+        });
+
+        it("should substitute a project's lists into a settings copy", () => {
+            const settings = makeSettings();
+            const resolved = withProjectLists(settings, "own");
+
+            expect(resolved.availableStatuses.map((s) => s.name)).toEqual(["To Do"]);
+            expect(resolved.availableTags).toEqual([]);
+            expect(settings.availableStatuses).toHaveLength(2);
+        });
+    });
+
+    describe("overrides", () => {
+        it("should copy the shared list with the same IDs and drop it again", () => {
+            const settings = makeSettings();
+            const project = settings.projects[0];
+
+            enableProjectList(settings, project, "tags");
+            expect(hasProjectList(project, "tags")).toBe(true);
+            expect(project.tags).toEqual(settings.availableTags);
+            expect(project.tags).not.toBe(settings.availableTags);
+
+            project.tags![0].name = "renamed";
+            expect(settings.availableTags[0].name).toBe("urgent");
+
+            disableProjectList(project, "tags");
+            expect(hasProjectList(project, "tags")).toBe(false);
+            expect(getProjectTags(settings, project.id)).toBe(settings.availableTags);
+        });
+    });
+
+    describe("migrateProjectLists", () => {
+        it("should leave projects without overrides unchanged", () => {
+            const projects: PlannerProject[] = [{ id: "a", name: "A" }];
+
+            expect(migrateProjectLists(projects)).toBe(false);
+            expect(projects[0]).toEqual({ id: "a", name: "A" });
+        });
+
+        it("should drop invalid and empty status/priority lists but keep an empty tag list", () => {
+            const projects = [
+                { id: "a", name: "A", statuses: [], priorities: "High", tags: [] },
+            ] as unknown as PlannerProject[];
+
+            expect(migrateProjectLists(projects)).toBe(true);
+            expect(projects[0].statuses).toBeUndefined();
+            expect(projects[0].priorities).toBeUndefined();
+            expect(projects[0].tags).toEqual([]);
+        });
+    });
+});
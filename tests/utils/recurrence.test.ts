@@ -0,0 +1,153 @@
+import {
+    createNextOccurrence,
+    formatRecurrenceText,
+    formatRRule,
+    getNextOccurrenceDate,
+    getNextOccurrenceDates,
+    parseRecurrenceText,
+    parseRRule,
+} from "../../src/utils/recurrence";
+import { PlannerTask } from "../../src/types";
+
+const task = (overrides: Partial<PlannerTask> = {}): PlannerTask => ({
+    id: "t1",
+    title: "Report",
+    status: "Completed",
+    completed: true,
+    ...overrides,
+});
+
+describe("recurrence", () => {
+    describe("getNextOccurrenceDate", () => {
+        it("should step daily, weekly and yearly by the interval", () => {
+            expect(getNextOccurrenceDate("2026-01-30", { frequency: "daily", interval: 3 })).toBe("2026-02-02");
+            expect(getNextOccurrenceDate("2026-01-05", { frequency: "weekly", interval: 2 })).toBe("2026-01-19");
+            expect(getNextOccurrenceDate("2026-03-01", { frequency: "yearly" })).toBe("2027-03-01");
+        });
+
+        it("should clamp monthly dates to the end of shorter months", () => {
+            expect(getNextOccurrenceDate("2026-01-31", { frequency: "monthly" })).toBe("2026-02-28");
+            expect(getNextOccurrenceDate("2026-11-15", { frequency: "monthly", interval: 3 })).toBe("2027-02-15");
+        });
+
+        it("should pick the next listed weekday, skipping interval weeks after the last one", () => {
+            // 2026-01-05 is a Monday
+            const rule = { frequency: "weekly" as const, interval: 2, byWeekday: [1, 4] };
+            expect(getNextOccurrenceDate("2026-01-05", rule)).toBe("2026-01-08");
+            expect(getNextOccurrenceDate("2026-01-08", rule)).toBe("2026-01-19");
+        });
+    });
+
+    describe("getNextOccurrenceDates", () => {
+        it("should shift start and due by the same amount", () => {
+            const dates = getNextOccurrenceDates(
+                task({ startDate: "2026-01-05", dueDate: "2026-01-07", recurrence: { frequency: "weekly" } }),
+                "2026-01-07"
+            );
+            expect(dates).toEqual({ startDate: "2026-01-12", dueDate: "2026-01-14" });
+        });
+
+        it("should anchor undated tasks on today", () => {
+            const dates = getNextOccurrenceDates(task({ recurrence: { frequency: "daily" } }), "2026-01-07");
+            expect(dates).toEqual({ dueDate: "2026-01-08" });
+        });
+
+        it("should stop at until and on the last counted occurrence", () => {
+            expect(getNextOccurrenceDates(
+                task({ dueDate: "2026-01-07", recurrence: { frequency: "weekly", until: "2026-01-10" } }),
+                "2026-01-07"
+            )).toBeNull();
+            expect(getNextOccurrenceDates(
+                task({ dueDate: "2026-01-07", recurrence: { frequency: "weekly", count: 1 } }),
+                "2026-01-07"
+            )).toBeNull();
+        });
+    });
+
+    describe("createNextOccurrence", () => {
+        it("should reset progress and decrement the remaining count", () => {
+            const next = createNextOccurrence(task({
+                dueDate: "2026-01-07",
+                effortCompleted: 3,
+                effortRemaining: 0,
+                percentComplete: 100,
+                recurrence: { frequency: "weekly", count: 3 },
+                subtasks: [{ id: "s1", title: "Step", completed: true }],
+                dependencies: [{ predecessorId: "x", type: "FS" }],
+            }), "2026-01-07")!;
+
+            expect(next.completed).toBe(false);
+            expect(next.status).toBe("Not Started");
+            expect(next.dueDate).toBe("2026-01-14");
+            expect(next.effortCompleted).toBe(0);
+            expect(next.effortRemaining).toBe(3);
+            expect(next.percentComplete).toBe(0);
+            expect(next.recurrence).toEqual({ frequency: "weekly", count: 2 });
+            expect(next.subtasks![0].completed).toBe(false);
+            expect(next.dependencies).toBeUndefined();
+        });
+
+        it("should bring a month-end series back to the 31st after a short month", () => {
+            const jan = task({ dueDate: "2026-01-31", recurrence: { frequency: "monthly" } });
+            const feb = createNextOccurrence(jan, "2026-01-31")!;
+            const mar = createNextOccurrence(feb, "2026-02-28")!;
+            const apr = createNextOccurrence(mar, "2026-03-31")!;
+
+            expect(feb.dueDate).toBe("2026-02-28");
+            expect(feb.recurrence).toEqual({ frequency: "monthly", byMonthDay: 31 });
+            expect(mar.dueDate).toBe("2026-03-31");
+            expect(mar.recurrence).toEqual({ frequency: "monthly" });
+            expect(apr.dueDate).toBe("2026-04-30");
+        });
+
+        it("should follow a date moved by hand instead of the series day", () => {
+            const moved = task({ dueDate: "2026-02-20", recurrence: { frequency: "monthly", byMonthDay: 31 } });
+            expect(createNextOccurrence(moved, "2026-02-20")!.dueDate).toBe("2026-03-20");
+        });
+    });
+
+    describe("RRULE strings", () => {
+        it("should round-trip a rule", () => {
+            const rule = { frequency: "weekly" as const, interval: 2, byWeekday: [1, 3], until: "2026-12-31" };
+            expect(formatRRule(rule)).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231");
+            expect(parseRRule(formatRRule(rule))).toEqual(rule);
+        });
+
+        it("should accept an RRULE prefix and reject unknown frequencies", () => {
+            expect(parseRRule("RRULE:FREQ=DAILY;COUNT=4")).toEqual({ frequency: "daily", count: 4 });
+            expect(parseRRule("FREQ=HOURLY")).toBeNull();
+        });
+
+        it("should keep the series day of a monthly rule", () => {
+            const rule = { frequency: "monthly" as const, byMonthDay: 31 };
+            expect(formatRRule(rule)).toBe("FREQ=MONTHLY;BYMONTHDAY=31");
+            expect(parseRRule(formatRRule(rule))).toEqual(rule);
+            expect(parseRRule("FREQ=WEEKLY;BYMONTHDAY=31")).toEqual({ frequency: "weekly" });
+        });
+    });
+
+    describe("every … text", () => {
+        it("should parse the common forms", () => {
+            expect(parseRecurrenceText("every week")).toEqual({ frequency: "weekly" });
+            expect(parseRecurrenceText("every 3 days")).toEqual({ frequency: "daily", interval: 3 });
+            expect(parseRecurrenceText("every weekday")).toEqual({ frequency: "weekly", byWeekday: [1, 2, 3, 4, 5] });
+            expect(parseRecurrenceText("every week on Monday, Thursday")).toEqual({ frequency: "weekly", byWeekday: [1, 4] });
+            expect(parseRecurrenceText("every month until 2026-12-31")).toEqual({ frequency: "monthly", until: "2026-12-31" });
+            expect(parseRecurrenceText("every year for 3 times")).toEqual({ frequency: "yearly", count: 3 });
+            expect(parseRecurrenceText("sometimes")).toBeNull();
+        });
+
+        it("should format text that parses back to the same rule", () => {
+            const rule = { frequency: "weekly" as const, interval: 2, byWeekday: [1, 5], count: 4 };
+            const text = formatRecurrenceText(rule);
+            expect(text).toBe("every 2 weeks on Monday, Friday for 4 times");
+            expect(parseRecurrenceText(text)).toEqual(rule);
+        });
+
+        it("should write the series day of a monthly rule", () => {
+            const rule = { frequency: "monthly" as const, byMonthDay: 31 };
+            expect(formatRecurrenceText(rule)).toBe("every month on the 31st");
+            expect(parseRecurrenceText("every month on the 31st")).toEqual(rule);
+        });
+    });
+});
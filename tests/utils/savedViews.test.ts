@@ -0,0 +1,72 @@
+import { createSavedView, getSavedViewLabel, getSavedViews, updateSavedView } from "../../src/utils/savedViews";
+import type { SavedView } from "../../src/types";
+
+const open: SavedView = { id: "v1", name: "Open bugs", view: "grid", filters: { status: "category:active" } };
+
+const settings = {
+    activeProjectId: "p1",
+    projects: [
+        { id: "p1", name: "Alpha", savedViews: [open] },
+        { id: "p2", name: "Beta" },
+    ],
+};
+
+describe("getSavedViews", () => {
+    it("returns the active project's views by default", () => {
+        expect(getSavedViews(settings)).toEqual([open]);
+    });
+
+    it("returns an empty list for a project without views or an unknown project", () => {
+        expect(getSavedViews(settings, "p2")).toEqual([]);
+        expect(getSavedViews(settings, "missing")).toEqual([]);
+    });
+});
+
+describe("createSavedView", () => {
+    it("copies the state and drops empty filters", () => {
+        const columns = ["title", "status"];
+        const view = createSavedView("Mine", "grid", {
+            filters: { status: undefined, priority: "High", search: "", showCompleted: false },
+            sort: { key: "DueDate", direction: "desc" },
+            columns,
+        });
+
+        expect(view.id).toBeTruthy();
+        expect(view).toMatchObject({ name: "Mine", view: "grid" });
+        expect(view.filters).toEqual({ priority: "High", showCompleted: false });
+        expect(view.sort).toEqual({ key: "DueDate", direction: "desc" });
+
+        columns.push("priority");
+        expect(view.columns).toEqual(["title", "status"]);
+    });
+
+    it("leaves out parts the view doesn't use", () => {
+        const view = createSavedView("Lanes", "board", { filters: {}, groupBy: "status", swimlanes: "assignee" });
+        expect(view).not.toHaveProperty("sort");
+        expect(view).not.toHaveProperty("columns");
+        expect(view).toMatchObject({ groupBy: "status", swimlanes: "assignee" });
+    });
+});
+
+describe("updateSavedView", () => {
+    it("replaces the state but keeps the identity", () => {
+        const saved: SavedView = {
+            id: "v2",
+            name: "Board",
+            view: "board",
+            filters: { priority: "High" },
+            groupBy: "status",
+            swimlanes: "tag",
+        };
+        updateSavedView(saved, { filters: { search: "api" }, groupBy: "due" });
+
+        expect(saved).toEqual({ id: "v2", name: "Board", view: "board", filters: { search: "api" }, groupBy: "due" });
+    });
+});
+
+describe("getSavedViewLabel", () => {
+    it("names the view it opens in", () => {
+        expect(getSavedViewLabel(open)).toBe("Open bugs (Grid)");
+        expect(getSavedViewLabel({ ...open, view: "gantt" })).toBe("Open bugs (Timeline)");
+    });
+});
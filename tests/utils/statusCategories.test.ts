@@ -0,0 +1,76 @@
+import {
+    categoryFilterValue,
+    getCompletionStatus,
+    getStatusCategory,
+    getStatusColor,
+    getStatusForCategory,
+    inferStatusCategory,
+    isDoneStatus,
+    matchesStatusFilter,
+    migrateStatusCategories,
+} from "../../src/utils/statusCategories";
+import { PlannerStatus } from "../../src/types";
+
+const statuses: PlannerStatus[] = [
+    { id: "backlog", name: "Backlog", color: "#999999", category: "not-started" },
+    { id: "review", name: "Review", color: "#0a84ff", category: "active" },
+    { id: "waiting", name: "Waiting on client", color: "#d70022", category: "blocked" },
+    { id: "shipped", name: "Shipped", color: "#2f9e44", category: "done" },
+];
+
+describe("statusCategories", () => {
+    describe("lookups", () => {
+        it("should use the stored category regardless of the status name", () => {
+            expect(getStatusCategory(statuses, "Shipped")).toBe("done");
+            expect(getStatusCategory(statuses, "Waiting on client")).toBe("blocked");
+            expect(isDoneStatus(statuses, "Shipped")).toBe(true);
+            expect(isDoneStatus(statuses, "Review")).toBe(false);
+        });
+
+        it("should infer a category for statuses without one", () => {
+            expect(inferStatusCategory("Completed")).toBe("done");
+            expect(inferStatusCategory("In Progress")).toBe("active");
+            expect(inferStatusCategory("Blocked")).toBe("blocked");
+            expect(inferStatusCategory("Someday")).toBe("not-started");
+            expect(getStatusCategory([], "Completed")).toBe("done");
+            expect(getStatusCategory(statuses, undefined)).toBe("not-started");
+        });
+
+        it("should pick the first status of a category and fall back to the default names", () => {
+            expect(getStatusForCategory(statuses, "done")).toBe("Shipped");
+            expect(getCompletionStatus(statuses, false)).toBe("Backlog");
+            expect(getStatusForCategory([], "active")).toBe("In Progress");
+            expect(getCompletionStatus([], true)).toBe("Completed");
+        });
+
+        it("should colour unknown statuses by category", () => {
+            expect(getStatusColor(statuses, "Review")).toBe("#0a84ff");
+            expect(getStatusColor(statuses, "Done")).toBe("#2f9e44");
+        });
+    });
+
+    describe("matchesStatusFilter", () => {
+        it("should match by name or by category", () => {
+            expect(matchesStatusFilter(statuses, "Review", "All")).toBe(true);
+            expect(matchesStatusFilter(statuses, "Review", "Review")).toBe(true);
+            expect(matchesStatusFilter(statuses, "Review", "Backlog")).toBe(false);
+            expect(matchesStatusFilter(statuses, "Shipped", categoryFilterValue("done"))).toBe(true);
+            expect(matchesStatusFilter(statuses, "Backlog", categoryFilterValue("done"))).toBe(false);
+        });
+    });
+
+    describe("migrateStatusCategories", () => {
+        it("should store inferred categories and keep existing ones", () => {
+            const shared: PlannerStatus[] = [
+                { id: "a", name: "Completed", color: "#000000" },
+                { id: "b", name: "Completed", color: "#000000", category: "active" },
+            ];
+            const project: PlannerStatus[] = [{ id: "c", name: "In Progress", color: "#000000" }];
+
+            expect(migrateStatusCategories([shared, undefined, project])).toBe(true);
+            expect(shared.map((s) => s.category)).toEqual(["done", "active"]);
+            expect(project[0].category).toBe("active");
+            expect(migrateStatusCategories([shared, project])).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import { NO_LANE, getSwimlanes, getTaskLaneKey, moveTaskToLane, type SwimlaneContext } from "../../src/utils/swimlanes";
+import type { PlannerTask } from "../../src/types";
+
+const task = (id: string, fields: Partial<PlannerTask> = {}): PlannerTask => ({
+    id,
+    title: id,
+    status: "Not Started",
+    completed: false,
+    ...fields,
+});
+
+const ctx: SwimlaneContext = {
+    priorities: [
+        { id: "p1", name: "High", color: "#ff0000" },
+        { id: "p2", name: "Low", color: "#00ff00" },
+    ],
+    tags: [
+        { id: "t-bug", name: "Bug", color: "#ff0000" },
+        { id: "t-ui", name: "UI", color: "#0000ff" },
+    ],
+    people: [{ id: "ana", name: "Ana", color: "#123456" }],
+    tasks: [task("epic"), task("story", { parentId: "epic" }), task("loose")],
+};
+
+describe("swimlanes", () => {
+    describe("lanes", () => {
+        it("should list the field's values followed by the no-value lane", () => {
+            expect(getSwimlanes("priority", ctx).map((l) => l.label)).toEqual(["High", "Low", "No priority"]);
+            expect(getSwimlanes("tag", ctx).map((l) => l.key)).toEqual(["t-bug", "t-ui", NO_LANE]);
+            expect(getSwimlanes("parent", ctx).map((l) => l.label)).toEqual(["epic", "No parent"]);
+            expect(getSwimlanes("assignee", ctx).map((l) => l.label)).toEqual(["Ana", "No assignee"]);
+        });
+
+        it("should place a task in its first value that has a lane", () => {
+            const tagLanes = getSwimlanes("tag", ctx);
+            expect(getTaskLaneKey("tag", task("a", { tags: ["gone", "t-ui", "t-bug"] }), tagLanes)).toBe("t-ui");
+            expect(getTaskLaneKey("tag", task("b", { tags: ["gone"] }), tagLanes)).toBe(NO_LANE);
+
+            const priorityLanes = getSwimlanes("priority", ctx);
+            expect(getTaskLaneKey("priority", task("c", { priority: "High" }), priorityLanes)).toBe("High");
+            expect(getTaskLaneKey("priority", task("d", { priority: "Medium" }), priorityLanes)).toBe(NO_LANE);
+
+            expect(getTaskLaneKey("parent", task("story", { parentId: "epic" }), getSwimlanes("parent", ctx))).toBe("epic");
+        });
+    });
+
+    describe("moving", () => {
+        it("should set or clear single-valued fields", () => {
+            expect(moveTaskToLane("priority", task("a"), NO_LANE, "Low")).toEqual({ priority: "Low" });
+            expect(moveTaskToLane("priority", task("a", { priority: "Low" }), "Low", NO_LANE)).toEqual({ priority: undefined });
+            expect(moveTaskToLane("parent", task("a"), NO_LANE, "epic")).toEqual({ parentId: "epic" });
+            expect(moveTaskToLane("parent", task("a", { parentId: "epic" }), "epic", NO_LANE)).toEqual({ parentId: null });
+        });
+
+        it("should swap the old lane's value and keep the others", () => {
+            const tagged = task("a", { tags: ["t-bug", "extra"] });
+            expect(moveTaskToLane("tag", tagged, "t-bug", "t-ui")).toEqual({ tags: ["t-ui", "extra"] });
+            expect(moveTaskToLane("tag", tagged, "t-bug", NO_LANE)).toEqual({ tags: [] });
+            expect(moveTaskToLane("assignee", task("b"), NO_LANE, "ana")).toEqual({ assignees: ["ana"] });
+        });
+    });
+});
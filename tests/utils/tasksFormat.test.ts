@@ -0,0 +1,86 @@
+import {
+    getTasksRecurrenceRule,
+    parseTasksFields,
+    plannerPriorityToTasks,
+    serializeTasksFields,
+    tasksPriorityToPlanner,
+    usesTasksFormat,
+} from "../../src/utils/tasksFormat";
+
+describe("parseTasksFields", () => {
+    it("reads every field and leaves the description with its tags", () => {
+        const fields = parseTasksFields(
+            "Water plants #home 🆔 w1 ⛔ a2, b3 ⏫ 🔁 every week when done 🏁 delete ➕ 2026-01-01 🛫 2026-01-10 ⏳ 2026-01-12 📅 2026-01-15 ❌ 2026-01-16 ✅ 2026-01-14"
+        );
+        expect(fields).toEqual({
+            description: "Water plants #home",
+            id: "w1",
+            dependsOn: ["a2", "b3"],
+            priority: "high",
+            recurrence: "every week when done",
+            onCompletion: "delete",
+            createdDate: "2026-01-01",
+            startDate: "2026-01-10",
+            scheduledDate: "2026-01-12",
+            dueDate: "2026-01-15",
+            cancelledDate: "2026-01-16",
+            doneDate: "2026-01-14",
+        });
+    });
+
+    it("accepts alternate emoji and variation selectors", () => {
+        const fields = parseTasksFields("Pay rent ⌛ 2026-02-01 🗓️ 2026-02-03 🔺️");
+        expect(fields).toMatchObject({
+            description: "Pay rent",
+            scheduledDate: "2026-02-01",
+            dueDate: "2026-02-03",
+            priority: "highest",
+        });
+    });
+
+    it("returns plain text as the description", () => {
+        expect(parseTasksFields("Buy milk !! due: 2026-02-01")).toEqual({
+            description: "Buy milk !! due: 2026-02-01",
+            dependsOn: [],
+        });
+    });
+});
+
+describe("serializeTasksFields", () => {
+    it("writes fields in the Tasks plugin's order", () => {
+        const text = serializeTasksFields({
+            description: "Water plants",
+            dueDate: "2026-01-15",
+            startDate: "2026-01-10",
+            priority: "low",
+            dependsOn: ["a2", "b3"],
+            id: "w1",
+        });
+        expect(text).toBe("Water plants 🆔 w1 ⛔ a2,b3 🔽 🛫 2026-01-10 📅 2026-01-15");
+    });
+
+    it("round-trips parsed text", () => {
+        const text = "Call Sam #work 🔼 🔁 every month ➕ 2026-01-01 📅 2026-01-31 ✅ 2026-01-30";
+        expect(serializeTasksFields(parseTasksFields(text))).toBe(text);
+    });
+});
+
+describe("Tasks helpers", () => {
+    it("maps priorities both ways", () => {
+        expect(tasksPriorityToPlanner("highest")).toBe("Critical");
+        expect(tasksPriorityToPlanner("lowest")).toBe("Low");
+        expect(plannerPriorityToTasks("Critical")).toBe("highest");
+        expect(plannerPriorityToTasks("low")).toBe("low");
+        expect(plannerPriorityToTasks("Urgent")).toBeUndefined();
+    });
+
+    it("tells Tasks notation from the plain daily note format", () => {
+        expect(usesTasksFormat("Buy milk 📅 2026-02-01 🔁 every week")).toBe(false);
+        expect(usesTasksFormat("Buy milk 🛫 2026-02-01")).toBe(true);
+        expect(usesTasksFormat("Buy milk ⏫")).toBe(true);
+    });
+
+    it("drops the when done suffix from recurrence rules", () => {
+        expect(getTasksRecurrenceRule("every 2 weeks when done")).toBe("every 2 weeks");
+    });
+});
@@ -0,0 +1,140 @@
+import {
+    collectTimesheetRows,
+    createManualTimeLogEntry,
+    createTimeLogEntry,
+    exportTimesheetToCsv,
+    exportWeeklyTimesheetToCsv,
+    formatElapsed,
+    formatHours,
+    getEntryDate,
+    getLoggedHours,
+    getLoggedHoursOnDate,
+    getWeekDateStrings,
+    setLoggedHoursOnDate,
+} from "../../src/utils/timeTracking";
+import { PlannerTask } from "../../src/types";
+
+const task = (overrides: Partial<PlannerTask> = {}): PlannerTask => ({
+    id: "task-1",
+    title: "Write docs",
+    status: "In Progress",
+    completed: false,
+    ...overrides,
+});
+
+describe("timeTracking", () => {
+    describe("entries", () => {
+        it("should measure a timer entry in hours", () => {
+            const entry = createTimeLogEntry(new Date(2026, 2, 2, 9, 0), new Date(2026, 2, 2, 10, 20), {
+                note: "Draft",
+                personId: "person-1",
+            });
+
+            expect(entry.duration).toBe(1.33);
+            expect(entry).toMatchObject({ note: "Draft", personId: "person-1" });
+            expect(getEntryDate(entry)).toBe("2026-03-02");
+        });
+
+        it("should place manual entries on the given day", () => {
+            const entry = createManualTimeLogEntry("2026-03-05", 2.5);
+
+            expect(entry.duration).toBe(2.5);
+            expect(getEntryDate(entry)).toBe("2026-03-05");
+            expect(entry.note).toBeUndefined();
+        });
+
+        it("should total logged hours", () => {
+            const t = task({
+                timeLog: [createManualTimeLogEntry("2026-03-02", 1.25), createManualTimeLogEntry("2026-03-03", 0.5)],
+            });
+            expect(getLoggedHours(t)).toBe(1.75);
+            expect(getLoggedHours(task())).toBe(0);
+        });
+    });
+
+    describe("daily hours", () => {
+        it("should list Monday through Sunday of the anchor's week", () => {
+            expect(getWeekDateStrings(new Date(2026, 2, 8))).toEqual([
+                "2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05", "2026-03-06", "2026-03-07", "2026-03-08",
+            ]);
+            expect(getWeekDateStrings(new Date(2026, 2, 2))[0]).toBe("2026-03-02");
+        });
+
+        it("should add the difference as one entry when hours go up", () => {
+            const log = [createManualTimeLogEntry("2026-03-02", 1)];
+            const result = setLoggedHoursOnDate(log, "2026-03-02", 2.5, { personId: "person-1" });
+
+            expect(result.delta).toBe(1.5);
+            expect(result.timeLog).toHaveLength(2);
+            expect(result.timeLog[1]).toMatchObject({ duration: 1.5, personId: "person-1" });
+            expect(getLoggedHoursOnDate(task({ timeLog: result.timeLog }), "2026-03-02")).toBe(2.5);
+        });
+
+        it("should trim the day's latest entries first when hours go down", () => {
+            const morning = createTimeLogEntry(new Date(2026, 2, 2, 9, 0), new Date(2026, 2, 2, 11, 0));
+            const afternoon = createTimeLogEntry(new Date(2026, 2, 2, 14, 0), new Date(2026, 2, 2, 15, 0));
+            const otherDay = createManualTimeLogEntry("2026-03-03", 4);
+
+            const result = setLoggedHoursOnDate([morning, afternoon, otherDay], "2026-03-02", 1.5);
+
+            expect(result.delta).toBe(-1.5);
+            expect(result.timeLog.map((e) => e.id)).toEqual([morning.id, otherDay.id]);
+            expect(result.timeLog[0].duration).toBe(1.5);
+            expect(result.timeLog[0].end).toBe(new Date(2026, 2, 2, 10, 30).toISOString());
+            expect(setLoggedHoursOnDate(result.timeLog, "2026-03-02", 1.5).delta).toBe(0);
+        });
+    });
+
+    describe("formatting", () => {
+        it("should format hours and elapsed time", () => {
+            expect(formatHours(1.5)).toBe("1h 30m");
+            expect(formatHours(2)).toBe("2h");
+            expect(formatHours(0.25)).toBe("15m");
+            expect(formatElapsed(309_000)).toBe("0:05:09");
+            expect(formatElapsed(12 * 3600_000)).toBe("12:00:00");
+        });
+    });
+
+    describe("timesheet export", () => {
+        const project = { id: "p1", name: "Launch" };
+        const tasks = [
+            task({
+                timeLog: [
+                    { ...createManualTimeLogEntry("2026-03-03", 2), note: "Review, edits", personId: "person-1" },
+                    createManualTimeLogEntry("2026-03-01", 1),
+                ],
+            }),
+            task({ id: "task-2", title: "Deploy", timeLog: [createManualTimeLogEntry("2026-03-02", 0.5)] }),
+        ];
+
+        it("should list entries oldest first within the date range", () => {
+            const rows = collectTimesheetRows([{ project, tasks }], "2026-03-02");
+            expect(rows.map((r) => [r.task.title, getEntryDate(r.entry)])).toEqual([
+                ["Deploy", "2026-03-02"],
+                ["Write docs", "2026-03-03"],
+            ]);
+        });
+
+        it("should write one CSV row per entry with person names", () => {
+            const csv = exportTimesheetToCsv(collectTimesheetRows([{ project, tasks }]), [
+                { id: "person-1", name: "Sam Lee", color: "#000" },
+            ]);
+            const lines = csv.trim().split("\r\n");
+
+            expect(lines[0]).toBe("Date,Project,Task,Person,Start,End,Hours,Note");
+            expect(lines).toHaveLength(4);
+            expect(lines[3]).toBe('2026-03-03,Launch,Write docs,Sam Lee,09:00,11:00,2,"Review, edits"');
+        });
+
+        it("should write a week as tasks by days with totals", () => {
+            const dates = getWeekDateStrings(new Date(2026, 2, 2));
+            const csv = exportWeeklyTimesheetToCsv(tasks.map((t) => ({ project, task: t })), dates);
+            const lines = csv.trim().split("\r\n");
+
+            expect(lines[0]).toBe(`Project,Task,${dates.join(",")},Total`);
+            expect(lines[1]).toBe("Launch,Write docs,0,2,0,0,0,0,0,2");
+            expect(lines[2]).toBe("Launch,Deploy,0.5,0,0,0,0,0,0,0.5");
+            expect(lines[3]).toBe("Total,,0.5,2,0,0,0,0,0,2.5");
+        });
+    });
+});
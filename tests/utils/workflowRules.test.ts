@@ -0,0 +1,65 @@
+import {
+    checkWipLimit,
+    countWipTasks,
+    isOverWipLimit,
+    isTransitionAllowed,
+    setTransitionAllowed,
+} from "../../src/utils/workflowRules";
+import type { PlannerStatus, PlannerTask } from "../../src/types";
+import type { BoardBucket } from "../../src/settings";
+
+const statuses: PlannerStatus[] = [
+    { id: "todo", name: "To Do", color: "#888888", category: "not-started" },
+    { id: "doing", name: "Doing", color: "#0a84ff", category: "active" },
+    { id: "done", name: "Done", color: "#2f9e44", category: "done" },
+];
+
+const task = (id: string, bucketId?: string, completed = false): PlannerTask => ({
+    id,
+    title: id,
+    status: completed ? "Done" : "To Do",
+    completed,
+    bucketId,
+});
+
+describe("workflowRules", () => {
+    describe("WIP limits", () => {
+        it("should count only open tasks in the bucket", () => {
+            const tasks = [task("a", "b1"), task("b", "b1", true), task("c", "b2"), task("d")];
+
+            expect(countWipTasks(tasks, "b1")).toBe(1);
+            expect(countWipTasks(tasks, null)).toBe(1);
+        });
+
+        it("should warn or block when a drop would exceed the limit", () => {
+            const bucket: BoardBucket = { id: "b1", name: "Doing", wipLimit: 2 };
+
+            expect(checkWipLimit(bucket, 1)).toBe("ok");
+            expect(checkWipLimit(bucket, 2)).toBe("warn");
+            expect(checkWipLimit({ ...bucket, wipLimitStrict: true }, 2)).toBe("block");
+            expect(checkWipLimit({ id: "b2", name: "Backlog" }, 50)).toBe("ok");
+            expect(isOverWipLimit(bucket, 2)).toBe(false);
+            expect(isOverWipLimit(bucket, 3)).toBe(true);
+        });
+    });
+
+    describe("status transitions", () => {
+        it("should allow everything without rules and check listed statuses by ID", () => {
+            expect(isTransitionAllowed(undefined, statuses, "To Do", "Done")).toBe(true);
+
+            const rules = { todo: ["doing"] };
+            expect(isTransitionAllowed(rules, statuses, "To Do", "Doing")).toBe(true);
+            expect(isTransitionAllowed(rules, statuses, "To Do", "Done")).toBe(false);
+            expect(isTransitionAllowed(rules, statuses, "Doing", "To Do")).toBe(true);
+            expect(isTransitionAllowed(rules, statuses, "Archived", "Done")).toBe(true);
+        });
+
+        it("should toggle one transition starting from allow-all", () => {
+            const rules = setTransitionAllowed(undefined, statuses, "todo", "done", false);
+            expect(rules).toEqual({ todo: ["doing"] });
+
+            expect(setTransitionAllowed(rules, statuses, "todo", "done", true)).toEqual({ todo: ["doing", "done"] });
+            expect(rules).toEqual({ todo: ["doing"] });
+        });
+    });
+});
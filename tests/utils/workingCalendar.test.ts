@@ -0,0 +1,107 @@
+import {
+    countWorkingDays,
+    formatDuration,
+    getProjectCalendar,
+    isWorkingDay,
+    shiftWorkingDays,
+    snapToWorkingDay,
+} from "../../src/utils/workingCalendar";
+import { WorkingCalendar } from "../../src/types";
+
+// 2026-01-02 is a Friday
+const weekdays: WorkingCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: [] };
+
+describe("workingCalendar", () => {
+    describe("isWorkingDay", () => {
+        it("should treat every day as working without a calendar", () => {
+            expect(isWorkingDay("2026-01-03", undefined)).toBe(true);
+        });
+
+        it("should honour weekdays, holidays and exceptions", () => {
+            const cal: WorkingCalendar = {
+                workingDays: [1, 2, 3, 4, 5],
+                holidays: ["2026-01-05"],
+                exceptions: { "2026-01-03": true },
+            };
+
+            expect(isWorkingDay("2026-01-02", cal)).toBe(true);
+            expect(isWorkingDay("2026-01-04", cal)).toBe(false); // Sunday
+            expect(isWorkingDay("2026-01-05", cal)).toBe(false); // holiday
+            expect(isWorkingDay("2026-01-03", cal)).toBe(true); // working Saturday
+        });
+    });
+
+    describe("shiftWorkingDays", () => {
+        it("should add plain days without a calendar", () => {
+            expect(shiftWorkingDays("2026-01-30", 3, undefined)).toBe("2026-02-02");
+        });
+
+        it("should skip weekends in both directions", () => {
+            expect(shiftWorkingDays("2026-01-02", 1, weekdays)).toBe("2026-01-05");
+            expect(shiftWorkingDays("2026-01-05", -1, weekdays)).toBe("2026-01-02");
+            expect(shiftWorkingDays("2026-01-02", 6, weekdays)).toBe("2026-01-12");
+        });
+
+        it("should skip holidays", () => {
+            const cal: WorkingCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: ["2026-01-05"] };
+            expect(shiftWorkingDays("2026-01-02", 1, cal)).toBe("2026-01-06");
+        });
+
+        it("should return the date unchanged for a zero shift", () => {
+            expect(shiftWorkingDays("2026-01-03", 0, weekdays)).toBe("2026-01-03");
+        });
+    });
+
+    describe("countWorkingDays", () => {
+        it("should count inclusive calendar days without a calendar", () => {
+            expect(countWorkingDays("2026-01-01", "2026-01-10", undefined)).toBe(10);
+        });
+
+        it("should count only working days with a calendar", () => {
+            // Mon 5th – Sun 18th: two working weeks
+            expect(countWorkingDays("2026-01-05", "2026-01-18", weekdays)).toBe(10);
+        });
+
+        it("should return 0 when the end is before the start", () => {
+            expect(countWorkingDays("2026-01-10", "2026-01-01", weekdays)).toBe(0);
+        });
+    });
+
+    describe("formatDuration", () => {
+        it("should count the same inclusive range with and without a calendar", () => {
+            // Mon 5th – Fri 9th
+            expect(formatDuration("2026-01-05", "2026-01-09", undefined)).toBe("5 days");
+            expect(formatDuration("2026-01-05", "2026-01-09", weekdays)).toBe("5 work days");
+            expect(formatDuration("2026-01-05", "2026-01-05", undefined)).toBe("1 day");
+        });
+
+        it("should return null for a missing or reversed range", () => {
+            expect(formatDuration("2026-01-09", "2026-01-05", undefined)).toBeNull();
+            expect(formatDuration(undefined, "2026-01-05", weekdays)).toBeNull();
+        });
+    });
+
+    describe("snapToWorkingDay", () => {
+        it("should move weekend dates to the next or previous working day", () => {
+            expect(snapToWorkingDay("2026-01-03", 1, weekdays)).toBe("2026-01-05");
+            expect(snapToWorkingDay("2026-01-03", -1, weekdays)).toBe("2026-01-02");
+            expect(snapToWorkingDay("2026-01-02", 1, weekdays)).toBe("2026-01-02");
+        });
+    });
+
+    describe("getProjectCalendar", () => {
+        it("should only return calendars that have working days", () => {
+            const settings = {
+                projects: [
+                    { id: "a", name: "A", calendar: weekdays },
+                    { id: "b", name: "B" },
+                    { id: "c", name: "C", calendar: { workingDays: [], holidays: [] } },
+                ],
+            };
+
+            expect(getProjectCalendar(settings, "a")).toBe(weekdays);
+            expect(getProjectCalendar(settings, "b")).toBeUndefined();
+            expect(getProjectCalendar(settings, "c")).toBeUndefined();
+        });
+    });
+});